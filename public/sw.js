@@ -0,0 +1,200 @@
+/**
+ * Service worker
+ * - Offline: caches the app shell, Next.js static assets and Mapbox tiles/styles/fonts.
+ *   The page posts the assets it loaded before the worker took control (src/lib/pwa.ts)
+ *   City data (events, venues, neighborhoods) and saved events live in IndexedDB (src/lib/offlineStore.ts)
+ * - Background Sync: asks open tabs to upload saves/skips made offline (src/lib/pwa.ts)
+ * - Push: shows saved-event notifications sent by the push scheduler (src/lib/pushScheduler.ts)
+ *   and opens the event page when one is clicked
+ *
+ * Registered as /sw.js?offline=0 in development, which turns the caching off.
+ */
+
+const CACHING_ENABLED = new URL(self.location.href).searchParams.get('offline') !== '0'
+
+const SHELL_CACHE = 'eppy-shell-v3' // v1 and v2 also held visited pages and map links
+const PAGE_CACHE = 'eppy-pages-v1'
+const STATIC_CACHE = 'eppy-static-v1'
+const TILE_CACHE = 'eppy-tiles-v1'
+const CURRENT_CACHES = [SHELL_CACHE, PAGE_CACHE, STATIC_CACHE, TILE_CACHE]
+
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png']
+
+// Enough tiles for a few neighborhoods at street level; oldest entries are dropped first
+const MAX_TILE_ENTRIES = 1500
+
+// Recently viewed event pages; the shell itself is never dropped
+const MAX_PAGE_ENTRIES = 50
+
+const SWIPE_SYNC_TAG = 'sync-swipes'
+const PRECACHE_MESSAGE = 'precache-assets'
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    (CACHING_ENABLED ? caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_URLS)) : Promise.resolve())
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith('eppy-') && (!CACHING_ENABLED || !CURRENT_CACHES.includes(key)))
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  )
+})
+
+function isMapboxAsset(url) {
+  return (url.hostname === 'api.mapbox.com' || url.hostname.endsWith('.tiles.mapbox.com')) &&
+    !url.pathname.startsWith('/events/') // Telemetry
+}
+
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName)
+  const keys = await cache.keys()
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)))
+}
+
+function isStaticAsset(url) {
+  return url.origin === self.location.origin && url.pathname.startsWith('/_next/static/')
+}
+
+// Pages: network first so deploys show up, the cached shell when offline
+// Shell URLs are stored once under their path (map state like ?city=&zoom= lives in the query and is
+// read by the page); other pages go to PAGE_CACHE, which is trimmed
+async function handleNavigation(request, event) {
+  const { pathname } = new URL(request.url)
+  const isShell = SHELL_URLS.includes(pathname)
+  const cache = await caches.open(isShell ? SHELL_CACHE : PAGE_CACHE)
+  const key = isShell ? pathname : request
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const stored = cache.put(key, response.clone())
+      event.waitUntil(isShell ? stored : stored.then(() => trimCache(PAGE_CACHE, MAX_PAGE_ENTRIES)))
+    }
+    return response
+  } catch (error) {
+    const cached = await cache.match(key) || await caches.match('/', { cacheName: SHELL_CACHE })
+    if (cached) return cached
+    throw error
+  }
+}
+
+// Hashed build assets never change, so the cache always wins
+async function handleStatic(request) {
+  const cache = await caches.open(STATIC_CACHE)
+  const cached = await cache.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) cache.put(request, response.clone())
+  return response
+}
+
+// Tiles, styles, sprites and fonts: serve the cached copy and refresh it in the background
+async function handleMapboxAsset(request, event) {
+  const cache = await caches.open(TILE_CACHE)
+  const cached = await cache.match(request)
+
+  const refresh = fetch(request)
+    .then(response => {
+      if (response.ok) {
+        event.waitUntil(cache.put(request, response.clone()).then(() => trimCache(TILE_CACHE, MAX_TILE_ENTRIES)))
+      }
+      return response
+    })
+
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined))
+    return cached
+  }
+  return refresh
+}
+
+self.addEventListener('fetch', event => {
+  if (!CACHING_ENABLED || event.request.method !== 'GET') return
+
+  const url = new URL(event.request.url)
+
+  if (event.request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(handleNavigation(event.request, event))
+  } else if (isStaticAsset(url)) {
+    event.respondWith(handleStatic(event.request))
+  } else if (isMapboxAsset(url)) {
+    event.respondWith(handleMapboxAsset(event.request, event))
+  }
+  // API responses are cached by the page in IndexedDB
+})
+
+// Build assets the page loaded before this worker controlled it
+async function precacheStatic(urls) {
+  const cache = await caches.open(STATIC_CACHE)
+  await Promise.all(urls.map(async href => {
+    const url = new URL(href, self.location.origin)
+    if (!isStaticAsset(url) || await cache.match(url.href)) return
+    try {
+      await cache.add(url.href)
+    } catch {
+      // Fetched again, and cached, the next time the page asks for it
+    }
+  }))
+}
+
+self.addEventListener('message', event => {
+  if (!CACHING_ENABLED || event.data?.type !== PRECACHE_MESSAGE || !Array.isArray(event.data.urls)) return
+  event.waitUntil(precacheStatic(event.data.urls))
+})
+
+// Saves/skips go to Supabase with the user's session, which only the page has
+self.addEventListener('sync', event => {
+  if (event.tag !== SWIPE_SYNC_TAG) return
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then(windows => {
+      windows.forEach(client => client.postMessage({ type: SWIPE_SYNC_TAG }))
+    })
+  )
+})
+
+self.addEventListener('push', event => {
+  if (!event.data) return
+
+  let payload
+  try {
+    payload = event.data.json()
+  } catch {
+    payload = { title: 'Eppy', body: event.data.text(), url: '/' }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      tag: payload.tag,
+      icon: '/icons/icon-192.png',
+      data: { url: payload.url || '/' }
+    })
+  )
+})
+
+// Focus an open Eppy tab on the event, or open a new one
+// Only tabs this worker controls can be navigated; if navigating fails anyway, open a new tab
+self.addEventListener('notificationclick', event => {
+  event.notification.close()
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then(windows => {
+      const existing = windows.find(client => new URL(client.url).origin === self.location.origin)
+      if (!existing) return self.clients.openWindow(url)
+
+      return existing.navigate(url)
+        .then(client => (client || existing).focus())
+        .catch(() => self.clients.openWindow(url))
+    })
+  )
+})
@@ -0,0 +1,70 @@
+/**
+ * iCalendar export test harness
+ * Exports fixture events through GET /api/events/:id/ics and checks the recurrence lines,
+ * without a running server.
+ *
+ * Usage:
+ *   npm run ics-harness
+ *
+ * - A one-off event has no RRULE
+ * - A recurring series has its RRULE
+ * - One occurrence of that series (`<series id>@<start>`) is a single event with no RRULE
+ */
+
+import { NextRequest } from 'next/server'
+import { GET } from '../src/app/api/events/[id]/ics/route'
+import { getEventDataProvider } from '../src/lib/dataProviders'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+async function exportEvent(id: string): Promise<string> {
+  const response = await GET(
+    new NextRequest(`http://localhost/api/events/${encodeURIComponent(id)}/ics`),
+    { params: Promise.resolve({ id }) }
+  )
+  if (!response.ok) {
+    throw new Error(`Export of ${id} failed: ${response.status}`)
+  }
+  return response.text()
+}
+
+async function main() {
+  process.env.DATA_PROVIDER = 'fixture'
+
+  const provider = await getEventDataProvider()
+  const city = await provider.getCity('san-francisco')
+  if (!city) {
+    throw new Error('San Francisco fixtures are missing')
+  }
+
+  const now = new Date()
+  const events = await provider.getEvents(city, { from: now, to: new Date(now.getTime() + 30 * DAY_MS) })
+  const oneOff = events.find(event => !event.recurrence)
+  const occurrence = events.find(event => event.seriesId)
+  if (!oneOff || !occurrence?.seriesId) {
+    throw new Error('Fixtures need a one-off event and a recurring series')
+  }
+
+  const checks: Array<[string, string, boolean]> = [
+    ['One-off event', oneOff.id, false],
+    ['Series', occurrence.seriesId, true],
+    ['Occurrence', occurrence.id, false]
+  ]
+
+  let passed = true
+  for (const [label, id, expectRule] of checks) {
+    const calendar = await exportEvent(id)
+    const vevents = calendar.split('BEGIN:VEVENT').length - 1
+    const hasRule = /^RRULE:/m.test(calendar)
+    const ok = vevents === 1 && hasRule === expectRule
+    passed &&= ok
+    console.log(`${ok ? '✅' : '❌'} ${label} (${id}): ${vevents} VEVENT, ${hasRule ? 'with' : 'no'} RRULE`)
+  }
+
+  if (!passed) process.exit(1)
+}
+
+main().catch(error => {
+  console.error('❌ iCalendar harness failed:', (error as Error).message)
+  process.exit(1)
+})
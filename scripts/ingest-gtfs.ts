@@ -0,0 +1,66 @@
+/**
+ * Ingest a GTFS static feed for a city
+ * Compiles stops, routes, trips, stop_times and calendar into the feed the app reads
+ * for nearest stops, next departures and transit travel estimates.
+ *
+ * Usage:
+ *   npm run ingest-gtfs -- <city-slug> <gtfs.zip | unzipped directory | https URL> [--target=files|supabase]
+ *
+ * Examples:
+ *   npm run ingest-gtfs -- san-francisco https://www.bart.gov/dev/schedules/google_transit.zip
+ *   npm run ingest-gtfs -- austin ~/Downloads/capmetro.zip --target=supabase
+ *
+ * --target=files (default) writes data/gtfs/<city-slug>.json
+ * --target=supabase upserts the `transit_feeds` table (needs SUPABASE_SERVICE_ROLE_KEY)
+ */
+
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import { compileTransitFeed, readGtfsSource } from '../src/lib/gtfs'
+
+type Target = 'files' | 'supabase'
+
+async function main() {
+  const args = process.argv.slice(2)
+  const targetArg = args.find(arg => arg.startsWith('--target='))
+  const [citySlug, source] = args.filter(arg => !arg.startsWith('--'))
+  const target = (targetArg?.split('=')[1] || 'files') as Target
+
+  if (!citySlug || !source || !/^[a-z0-9-]+$/.test(citySlug) || !['files', 'supabase'].includes(target)) {
+    console.error('Usage: npm run ingest-gtfs -- <city-slug> <gtfs.zip | directory | URL> [--target=files|supabase]')
+    process.exit(1)
+  }
+
+  console.log(`🚇 Reading GTFS feed for ${citySlug} from ${source}`)
+  const files = await readGtfsSource(source)
+  const feed = compileTransitFeed(citySlug, files)
+
+  if (target === 'files') {
+    const dir = path.join(process.cwd(), 'data', 'gtfs')
+    await mkdir(dir, { recursive: true })
+    const file = path.join(dir, `${citySlug}.json`)
+    await writeFile(file, JSON.stringify(feed))
+    console.log(`✅ Wrote ${path.relative(process.cwd(), file)}`)
+    return
+  }
+
+  const { supabaseAdmin } = await import('../src/lib/supabase')
+  const { error } = await supabaseAdmin()
+    .from('transit_feeds')
+    .upsert({
+      city_slug: citySlug,
+      agency: feed.agency || null,
+      feed,
+      ingested_at: feed.ingestedAt
+    }, { onConflict: 'city_slug' })
+
+  if (error) {
+    throw new Error(`Failed to save transit feed: ${error.message}`)
+  }
+  console.log(`✅ Saved transit feed for ${citySlug} to Supabase`)
+}
+
+main().catch(error => {
+  console.error('❌ GTFS ingestion failed:', (error as Error).message)
+  process.exit(1)
+})
@@ -0,0 +1,56 @@
+/**
+ * Background job worker
+ * Claims queued jobs from the Supabase `jobs` table (venue discovery, photo enrichment) and runs
+ * them, retrying failures with exponential backoff. Run as many workers as you like - each job
+ * is claimed by exactly one.
+ *
+ * Usage:
+ *   npm run worker -- [--once] [--types=discover-venues,enrich-venue-photos] [--poll=2000]
+ *
+ * --once drains the jobs that are due and exits (e.g. from cron)
+ * --types limits the worker to some job types
+ * --poll is the idle polling interval in milliseconds
+ *
+ * Needs SUPABASE_SERVICE_ROLE_KEY. With DATA_PROVIDER=fixture the API routes run jobs themselves.
+ */
+
+import { getJobQueueProvider } from '../src/lib/dataProviders'
+import { drainJobQueue, JOB_TYPES, runWorker, type JobType } from '../src/lib/jobs'
+
+async function main() {
+  const args = process.argv.slice(2)
+  const typesArg = args.find(arg => arg.startsWith('--types='))?.split('=')[1]
+  const pollArg = args.find(arg => arg.startsWith('--poll='))?.split('=')[1]
+  const once = args.includes('--once')
+
+  const types = typesArg ? typesArg.split(',') as JobType[] : undefined
+  const pollIntervalMs = pollArg ? parseInt(pollArg, 10) : 2000
+
+  if (types?.some(type => !JOB_TYPES.includes(type)) || !(pollIntervalMs > 0)) {
+    console.error(`Usage: npm run worker -- [--once] [--types=${JOB_TYPES.join(',')}] [--poll=ms]`)
+    process.exit(1)
+  }
+
+  if (once) {
+    const queue = await getJobQueueProvider()
+    const ran = await drainJobQueue(queue, types)
+    console.log(`✅ Ran ${ran} job(s)`)
+    return
+  }
+
+  // Finish the current job before exiting on Ctrl+C / SIGTERM
+  let stopping = false
+  const stop = () => {
+    console.log('🛑 Stopping after the current job...')
+    stopping = true
+  }
+  process.on('SIGINT', stop)
+  process.on('SIGTERM', stop)
+
+  await runWorker({ types, pollIntervalMs, shouldStop: () => stopping })
+}
+
+main().catch(error => {
+  console.error('❌ Job worker failed:', (error as Error).message)
+  process.exit(1)
+})
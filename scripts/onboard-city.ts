@@ -0,0 +1,198 @@
+/**
+ * Onboard a city from its CITY_REGISTRY entry (src/lib/cities.ts)
+ * Fetches neighborhood boundaries, seeds the `cities` row, discovers venues in every
+ * neighborhood and validates coverage. Safe to re-run: each step skips work already done.
+ *
+ * Usage:
+ *   npm run onboard-city -- <city-slug> [--steps=boundaries,seed,discover,validate] [--refresh] [--min-venues=N]
+ *
+ * Examples:
+ *   npm run onboard-city -- austin
+ *   npm run onboard-city -- new-york --steps=boundaries,validate
+ *   npm run onboard-city -- san-francisco --steps=boundaries --refresh
+ *
+ * --refresh re-fetches boundaries even when public/data/neighborhoods/<city-slug>.geojson exists
+ * --min-venues is the number of venues a neighborhood needs to count as covered (default 1)
+ *
+ * The seed step needs SUPABASE_SERVICE_ROLE_KEY and is skipped with DATA_PROVIDER=fixture.
+ */
+
+import { access, mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import { getCityConfig, type CityConfig } from '../src/lib/cities'
+import { getDataProviderName, getVenueDataProvider, getVenueDiscoveryProvider } from '../src/lib/dataProviders'
+import { fetchNeighborhoodBoundaries } from '../src/lib/osmBoundaries'
+import { getNeighborhoodCentroids } from '../src/lib/neighborhoods'
+import { loadNeighborhoodsFromDisk } from '../src/lib/neighborhoodsServer'
+import { discoverNeighborhoodVenues, filterValidVenues, getNeighborhoodCoverage, toVenueUpserts } from '../src/lib/venueDiscovery'
+
+const STEPS = ['boundaries', 'seed', 'discover', 'validate'] as const
+type Step = typeof STEPS[number]
+
+const NEIGHBORHOODS_DIR = path.join(process.cwd(), 'public', 'data', 'neighborhoods')
+
+async function fetchBoundaries(city: CityConfig, refresh: boolean) {
+  const file = path.join(NEIGHBORHOODS_DIR, `${city.slug}.geojson`)
+  const exists = await access(file).then(() => true, () => false)
+
+  if (exists && !refresh) {
+    console.log(`⏭️  ${path.relative(process.cwd(), file)} already exists (use --refresh to re-fetch)`)
+    return
+  }
+
+  const geojson = await fetchNeighborhoodBoundaries(city)
+  if (geojson.features.length === 0) {
+    throw new Error(`No neighborhood boundaries found for ${city.name} at admin_level ${city.neighborhoodAdminLevel}`)
+  }
+
+  await mkdir(NEIGHBORHOODS_DIR, { recursive: true })
+  await writeFile(file, JSON.stringify(geojson, null, 2))
+  console.log(`✅ Wrote ${geojson.features.length} neighborhoods to ${path.relative(process.cwd(), file)}`)
+}
+
+async function seedCity(city: CityConfig) {
+  if (getDataProviderName() === 'fixture') {
+    console.log('⏭️  DATA_PROVIDER=fixture - fixture cities come from the registry, nothing to seed')
+    return
+  }
+
+  const { supabaseAdmin } = await import('../src/lib/supabase')
+  const { error } = await supabaseAdmin()
+    .from('cities')
+    .upsert({
+      name: city.name,
+      slug: city.slug,
+      lat: city.center.lat,
+      lng: city.center.lng,
+      timezone: city.timezone,
+      currency: city.currency
+    }, { onConflict: 'slug' })
+
+  if (error) {
+    throw new Error(`Failed to seed city: ${error.message}`)
+  }
+  console.log(`✅ Seeded cities row for ${city.slug}`)
+}
+
+async function discoverVenues(city: CityConfig) {
+  const venueProvider = await getVenueDataProvider()
+  const cityRecord = await venueProvider.getCity(city.slug)
+  if (!cityRecord) {
+    throw new Error(`City not found in ${venueProvider.name}: ${city.slug} (run the seed step first)`)
+  }
+
+  const neighborhoods = await loadNeighborhoodsFromDisk(city.slug)
+  if (!neighborhoods) {
+    throw new Error(`No neighborhood data for ${city.slug} (run the boundaries step first)`)
+  }
+
+  const discoveryProvider = await getVenueDiscoveryProvider()
+  const centroids = getNeighborhoodCentroids(neighborhoods)
+  console.log(`📍 Searching ${centroids.length} neighborhoods with ${discoveryProvider.name}`)
+
+  const discovery = await discoverNeighborhoodVenues(discoveryProvider, centroids)
+  const validVenues = filterValidVenues(discovery.venues)
+
+  await venueProvider.upsertVenues(toVenueUpserts(cityRecord.id, validVenues))
+  console.log(`💾 Cached ${validVenues.length} venues in ${venueProvider.name}`)
+}
+
+function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Returns a list of problems; an empty list means the city is ready
+ */
+async function validateCity(city: CityConfig, minVenues: number): Promise<string[]> {
+  const problems: string[] = []
+  const { bbox, center } = city
+
+  if (!isValidTimeZone(city.timezone)) {
+    problems.push(`Unknown timezone: ${city.timezone}`)
+  }
+  if (center.lat < bbox.south || center.lat > bbox.north || center.lng < bbox.west || center.lng > bbox.east) {
+    problems.push('City center is outside its bbox')
+  }
+
+  const neighborhoods = await loadNeighborhoodsFromDisk(city.slug)
+  if (!neighborhoods || neighborhoods.features.length === 0) {
+    problems.push(`No neighborhood boundaries in public/data/neighborhoods/${city.slug}.geojson`)
+    return problems
+  }
+
+  const venueProvider = await getVenueDataProvider()
+  const cityRecord = await venueProvider.getCity(city.slug)
+  if (!cityRecord) {
+    problems.push(`City not found in ${venueProvider.name}`)
+    return problems
+  }
+
+  const venues = await venueProvider.getVenues(cityRecord.id)
+  const coverage = getNeighborhoodCoverage(neighborhoods, venues, minVenues)
+  const covered = coverage.neighborhoods.length - coverage.uncovered.length
+
+  console.log(`📊 Coverage: ${covered}/${coverage.neighborhoods.length} neighborhoods have at least ${minVenues} venue(s)`)
+  console.log(`   ${venues.length} venues, ${coverage.outsideNeighborhoods} outside any neighborhood`)
+
+  if (coverage.uncovered.length > 0) {
+    problems.push(`${coverage.uncovered.length} neighborhoods without coverage: ${coverage.uncovered.map(n => n.name).join(', ')}`)
+  }
+
+  return problems
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const [citySlug] = args.filter(arg => !arg.startsWith('--'))
+  const stepsArg = args.find(arg => arg.startsWith('--steps='))?.split('=')[1]
+  const minVenuesArg = args.find(arg => arg.startsWith('--min-venues='))?.split('=')[1]
+  const refresh = args.includes('--refresh')
+
+  const steps = (stepsArg ? stepsArg.split(',') : [...STEPS]) as Step[]
+  const minVenues = minVenuesArg ? parseInt(minVenuesArg, 10) : 1
+
+  if (!citySlug || steps.some(step => !STEPS.includes(step)) || !(minVenues >= 0)) {
+    console.error(`Usage: npm run onboard-city -- <city-slug> [--steps=${STEPS.join(',')}] [--refresh] [--min-venues=N]`)
+    process.exit(1)
+  }
+
+  const city = getCityConfig(citySlug)
+  if (!city) {
+    console.error(`❌ ${citySlug} is not in CITY_REGISTRY (src/lib/cities.ts) - add it there first`)
+    process.exit(1)
+  }
+
+  console.log(`🏙️  Onboarding ${city.name} (${steps.join(' → ')})`)
+
+  for (const step of STEPS.filter(s => steps.includes(s))) {
+    console.log(`\n== ${step}`)
+
+    if (step === 'boundaries') await fetchBoundaries(city, refresh)
+    if (step === 'seed') await seedCity(city)
+    if (step === 'discover') await discoverVenues(city)
+
+    if (step === 'validate') {
+      const problems = await validateCity(city, minVenues)
+      if (problems.length > 0) {
+        problems.forEach(problem => console.error(`❌ ${problem}`))
+        process.exit(1)
+      }
+      console.log(`✅ ${city.name} is ready`)
+    }
+  }
+
+  if (!city.active) {
+    console.log(`\n💡 Set active: true on ${city.slug} in src/lib/cities.ts to show it in the city switcher`)
+  }
+}
+
+main().catch(error => {
+  console.error('❌ City onboarding failed:', (error as Error).message)
+  process.exit(1)
+})
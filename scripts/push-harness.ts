@@ -0,0 +1,81 @@
+/**
+ * Push notification test harness
+ * Runs the push scheduler against the fixtures with pushes captured instead of sent, so the
+ * reminder, sold-out and price alerts can be checked without VAPID keys or a browser.
+ *
+ * Usage:
+ *   npm run push-harness
+ *
+ * Subscribes a fake endpoint to three San Francisco fixture events, makes one look sold out
+ * and one look cheaper than at the last run, then runs the scheduler 45 minutes before the
+ * first starts - twice, to show nothing is sent again.
+ */
+
+import type { Event } from '../src/types'
+import { getEventDataProvider, getPushSubscriptionProvider } from '../src/lib/dataProviders'
+import { runPushScheduler } from '../src/lib/pushScheduler'
+import { clearCapturedPushes, getCapturedPushes } from '../src/lib/webPush'
+
+const HARNESS_ENDPOINT = 'https://push.example.test/harness'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function pick(events: Event[], label: string, predicate: (event: Event) => boolean): Event {
+  const event = events.find(predicate)
+  if (!event) {
+    throw new Error(`No fixture event to use as the ${label} event`)
+  }
+  return event
+}
+
+async function main() {
+  process.env.DATA_PROVIDER = 'fixture'
+
+  const eventProvider = await getEventDataProvider()
+  const city = await eventProvider.getCity('san-francisco')
+  if (!city) {
+    throw new Error('San Francisco fixtures are missing')
+  }
+
+  const now = new Date()
+  const events = (await eventProvider.getEvents(city, { from: now, to: new Date(now.getTime() + 7 * DAY_MS) }))
+    .filter(event => new Date(event.startTime) > now)
+    .sort((a, b) => a.startTime.localeCompare(b.startTime))
+
+  const upcoming = pick(events, 'reminder', event => !event.soldOut)
+  const soldOut = pick(events, 'sold-out', event => Boolean(event.soldOut) && event.id !== upcoming.id)
+  const cheaper = pick(events, 'price drop', event =>
+    !event.soldOut && !event.price.isFree && event.price.min !== undefined && event.id !== upcoming.id
+  )
+
+  const subscriptions = await getPushSubscriptionProvider()
+  await subscriptions.saveSubscription(HARNESS_ENDPOINT, { p256dh: 'harness', auth: 'harness' }, [upcoming.id, soldOut.id, cheaper.id])
+  await subscriptions.setEventState(HARNESS_ENDPOINT, {
+    [soldOut.id]: { price: soldOut.price.min ?? null, soldOut: false, reminded: false },
+    [cheaper.id]: { price: cheaper.price.min! + 10, soldOut: false, reminded: false }
+  })
+
+  const runAt = new Date(new Date(upcoming.startTime).getTime() - 45 * 60 * 1000)
+  console.log(`🧪 Running the scheduler at ${runAt.toISOString()} (45 min before "${upcoming.title}")`)
+
+  clearCapturedPushes()
+  await runPushScheduler(runAt)
+  const firstRun = getCapturedPushes()
+
+  clearCapturedPushes()
+  await runPushScheduler(runAt)
+  const secondRun = getCapturedPushes()
+
+  console.log('\n📬 Captured notifications:')
+  firstRun.forEach(({ payload }) => console.log(`   [${payload.kind}] ${payload.title} - ${payload.body} (${payload.url})`))
+
+  const kinds = new Set(firstRun.map(push => push.payload.kind))
+  const passed = kinds.has('reminder') && kinds.has('sold-out') && kinds.has('price') && secondRun.length === 0
+
+  console.log(`\n${passed ? '✅' : '❌'} ${firstRun.length} notification(s) on the first run, ${secondRun.length} on the second`)
+  if (!passed) process.exit(1)
+}
+
+main().catch(error => {
+  console.error('❌ Push harness failed:', (error as Error).message)
+  process.exit(1)
+})
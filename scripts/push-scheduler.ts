@@ -0,0 +1,71 @@
+/**
+ * Push notification scheduler
+ * Sends "starts in 1 hour" reminders and sold-out / price alerts for every push subscription's
+ * saved events (see src/lib/pushScheduler.ts).
+ *
+ * Usage:
+ *   npm run push-scheduler -- [--once] [--interval=5] [--capture]
+ *
+ * --once runs a single pass and exits (e.g. from cron every 5 minutes)
+ * --interval is the time between passes in minutes
+ * --capture logs notifications instead of sending them (same as PUSH_CAPTURE=true)
+ *
+ * Needs SUPABASE_SERVICE_ROLE_KEY, NEXT_PUBLIC_VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY.
+ */
+
+import { runPushScheduler } from '../src/lib/pushScheduler'
+
+async function main() {
+  const args = process.argv.slice(2)
+  const intervalArg = args.find(arg => arg.startsWith('--interval='))?.split('=')[1]
+  const once = args.includes('--once')
+  const intervalMinutes = intervalArg ? Number(intervalArg) : 5
+
+  if (!(intervalMinutes > 0)) {
+    console.error('Usage: npm run push-scheduler -- [--once] [--interval=minutes] [--capture]')
+    process.exit(1)
+  }
+
+  if (args.includes('--capture')) {
+    process.env.PUSH_CAPTURE = 'true'
+  }
+
+  if (once) {
+    await runPushScheduler()
+    return
+  }
+
+  // Finish the current pass before exiting on Ctrl+C / SIGTERM; cut the wait short
+  let stopping = false
+  let timer: NodeJS.Timeout | null = null
+  let wake: (() => void) | null = null
+  const stop = () => {
+    console.log('🛑 Stopping after the current pass...')
+    stopping = true
+    if (timer) clearTimeout(timer)
+    wake?.()
+  }
+  process.on('SIGINT', stop)
+  process.on('SIGTERM', stop)
+
+  console.log(`⏰ Push scheduler started (every ${intervalMinutes} min)`)
+
+  while (!stopping) {
+    try {
+      await runPushScheduler()
+    } catch (error) {
+      console.error('❌ Push scheduler error:', (error as Error).message)
+    }
+    await new Promise<void>(resolve => {
+      wake = resolve
+      timer = setTimeout(resolve, intervalMinutes * 60 * 1000)
+    })
+  }
+
+  console.log('👋 Push scheduler stopped')
+}
+
+main().catch(error => {
+  console.error('❌ Push scheduler failed:', (error as Error).message)
+  process.exit(1)
+})
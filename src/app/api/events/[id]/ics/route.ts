@@ -0,0 +1,46 @@
+/**
+ * API Route: Download a single event as an iCalendar file
+ * GET /api/events/:id/ics
+ *
+ * Occurrence ids (`<series id>@<start>`) export that one occurrence;
+ * a series id exports the whole series with its RRULE.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getEventDataProvider } from '@/lib/dataProviders'
+import { getEventsByIds } from '@/lib/events'
+import { buildCalendar, getIcsFilename } from '@/lib/ics'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const provider = await getEventDataProvider()
+    const [event] = await getEventsByIds(provider, [id])
+
+    if (!event) {
+      return NextResponse.json(
+        { error: `Event not found: ${id}` },
+        { status: 404 }
+      )
+    }
+
+    const calendar = buildCalendar([event], { name: event.title })
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${getIcsFilename(event.title)}"`
+      }
+    })
+  } catch (error) {
+    console.error('❌ Event .ics error:', error)
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to export event' },
+      { status: 500 }
+    )
+  }
+}
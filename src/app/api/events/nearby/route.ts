@@ -0,0 +1,66 @@
+/**
+ * API Route: Events near a location
+ * GET /api/events/nearby?lat=37.7599&lng=-122.4148&radiusKm=1.5&startsWithinHours=6
+ *
+ * Events within `radiusKm` that are underway or start within `startsWithinHours`, ranked by a
+ * blend of walking time and time until start (see src/lib/nearbyEvents.ts). The city is the one
+ * nearest the location unless `citySlug` is given.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { detectNearestCity } from '@/lib/cityDetection'
+import { getEventDataProvider } from '@/lib/dataProviders'
+import { getBboxAroundPoint } from '@/lib/geoUtils'
+import { parseNearbyParams, rankNearbyEvents } from '@/lib/nearbyEvents'
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+
+    const params = parseNearbyParams(searchParams)
+    if (params.error !== undefined) {
+      return NextResponse.json(
+        { error: params.error },
+        { status: 400 }
+      )
+    }
+    const { origin, options } = params
+
+    const citySlug = searchParams.get('citySlug') || detectNearestCity(origin.lat, origin.lng).slug
+
+    const provider = await getEventDataProvider()
+    const city = await provider.getCity(citySlug)
+    if (!city) {
+      return NextResponse.json(
+        { error: `City not found: ${citySlug}` },
+        { status: 404 }
+      )
+    }
+
+    const now = new Date()
+    const events = await provider.getEvents(city, {
+      from: now,
+      to: new Date(now.getTime() + options.startsWithinHours * 60 * 60 * 1000),
+      bbox: getBboxAroundPoint(origin.lat, origin.lng, options.radiusKm)
+    })
+
+    const results = rankNearbyEvents(events, origin, options, now)
+
+    console.log(`📍 ${results.length} events within ${options.radiusKm}km of ${origin.lat.toFixed(4)}, ${origin.lng.toFixed(4)} in ${city.name}`)
+
+    return NextResponse.json({
+      city: city.name,
+      origin,
+      radiusKm: options.radiusKm,
+      startsWithinHours: options.startsWithinHours,
+      count: results.length,
+      results
+    })
+  } catch (error) {
+    console.error('❌ Nearby events error:', error)
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to find nearby events' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * API Route: Query scheduled events from Supabase
+ * GET /api/events?citySlug=austin&from=2025-10-20T00:00:00Z&to=2025-10-27T00:00:00Z&bbox=west,south,east,north
+ *
+ * Optional filters (see parseFilterParams): q, categories, subcategories, tags, date, dateFrom/dateTo,
+ * minPrice/maxPrice, free, lat/lng/radiusKm, neighborhood, minBusyness/maxBusyness,
+ * minPopularity/maxPopularity, sort
+ *
+ * limit=N (max 5000) keeps the N most popular matches; `total` is the count before the limit
+ *
+ * ids=a,b (max 500) looks up those events in the city instead, ignoring the window, bbox and filters;
+ * the map uses it for linked and saved events its capped load left out
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getEventDataProvider, getVenueDataProvider } from '@/lib/dataProviders'
+import { getEventsByIds, limitToMostPopular, MAX_EVENT_LIMIT, parseBbox, parseEventWindow } from '@/lib/events'
+import { MAX_SAVED_EVENTS } from '@/lib/calendarFeed'
+import { detectNearestCity } from '@/lib/cityDetection'
+import { filterEvents, parseFilterParams } from '@/lib/eventFilters'
+import { loadNeighborhoodsFromDisk } from '@/lib/neighborhoodsServer'
+import { attachEventBusyness } from '@/lib/venueForecasts'
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const citySlug = searchParams.get('citySlug')
+
+    if (!citySlug) {
+      return NextResponse.json(
+        { error: 'citySlug parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    const ids = searchParams.get('ids')?.split(',').map(id => id.trim()).filter(Boolean) ?? null
+    if (ids && ids.length > MAX_SAVED_EVENTS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_SAVED_EVENTS} ids can be looked up` },
+        { status: 400 }
+      )
+    }
+
+    const eventWindow = parseEventWindow(searchParams.get('from'), searchParams.get('to'))
+    if (eventWindow.error !== undefined) {
+      return NextResponse.json(
+        { error: eventWindow.error },
+        { status: 400 }
+      )
+    }
+    const { from, to } = eventWindow
+
+    const bboxParam = searchParams.get('bbox')
+    const bbox = parseBbox(bboxParam)
+    if (bboxParam && !bbox) {
+      return NextResponse.json(
+        { error: 'bbox must be west,south,east,north' },
+        { status: 400 }
+      )
+    }
+
+    const filterResult = parseFilterParams(searchParams)
+    if (filterResult.error !== undefined) {
+      return NextResponse.json(
+        { error: filterResult.error },
+        { status: 400 }
+      )
+    }
+    const { spec } = filterResult
+
+    const limitParam = searchParams.get('limit')
+    const limit = limitParam ? Number(limitParam) : null
+    if (limit !== null && (!Number.isInteger(limit) || limit < 1 || limit > MAX_EVENT_LIMIT)) {
+      return NextResponse.json(
+        { error: `limit must be an integer from 1 to ${MAX_EVENT_LIMIT}` },
+        { status: 400 }
+      )
+    }
+
+    const provider = await getEventDataProvider()
+
+    const city = await provider.getCity(citySlug)
+    if (!city) {
+      return NextResponse.json(
+        { error: `City not found: ${citySlug}` },
+        { status: 404 }
+      )
+    }
+
+    if (ids) {
+      console.log(`🔍 Looking up ${ids.length} events by id in ${city.name}`)
+
+      // Saved ids can belong to other cities; keep the ones on this city's map
+      const found = await getEventsByIds(provider, ids)
+      const events = await attachEventBusyness(
+        found.filter(e => detectNearestCity(e.latitude, e.longitude).slug === city.slug),
+        await getVenueDataProvider(),
+        city.timezone
+      )
+
+      return NextResponse.json({
+        city: city.name,
+        count: events.length,
+        events
+      })
+    }
+
+    console.log(`🔍 Querying events for ${citySlug} (${from.toISOString()} → ${to.toISOString()})`)
+
+    // Busyness at each event's start, from its venue's forecast (needed by the busyness filter)
+    const cityEvents = await attachEventBusyness(
+      await provider.getEvents(city, { from, to, bbox }),
+      await getVenueDataProvider(),
+      city.timezone
+    )
+
+    const neighborhoods = spec.neighborhood ? await loadNeighborhoodsFromDisk(city.slug) : null
+    const matching = filterEvents(cityEvents, spec, {
+      timeZone: city.timezone,
+      neighborhoods: neighborhoods || undefined
+    })
+
+    const events = limit ? limitToMostPopular(matching, limit) : matching
+
+    console.log(`✅ Found ${matching.length} events in ${city.name}${events.length < matching.length ? ` (returning ${events.length})` : ''}`)
+
+    return NextResponse.json({
+      city: city.name,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      filters: spec,
+      count: events.length,
+      total: matching.length,
+      truncated: events.length < matching.length,
+      events
+    })
+  } catch (error) {
+    console.error('❌ Event query error:', error)
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to query events' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * API Route: Pre-clustered events for a map viewport
+ * GET /api/events/tile?citySlug=austin&bbox=west,south,east,north&zoom=12&from=&to=
+ *
+ * Returns heat clusters (zoom < 11), neighborhood counts (zoom 11-14) or
+ * individual events (zoom 15+) - see src/lib/tileAggregation.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getEventDataProvider } from '@/lib/dataProviders'
+import { parseBbox, parseEventWindow } from '@/lib/events'
+import { loadNeighborhoodsFromDisk } from '@/lib/neighborhoodsServer'
+import { aggregateTile } from '@/lib/tileAggregation'
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const citySlug = searchParams.get('citySlug')
+
+    if (!citySlug) {
+      return NextResponse.json(
+        { error: 'citySlug parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    const bbox = parseBbox(searchParams.get('bbox'))
+    if (!bbox) {
+      return NextResponse.json(
+        { error: 'bbox parameter is required (west,south,east,north)' },
+        { status: 400 }
+      )
+    }
+
+    const zoomParam = searchParams.get('zoom')
+    const zoom = zoomParam ? parseFloat(zoomParam) : NaN
+    if (!Number.isFinite(zoom) || zoom < 0 || zoom > 24) {
+      return NextResponse.json(
+        { error: 'zoom parameter is required (0-24)' },
+        { status: 400 }
+      )
+    }
+
+    const eventWindow = parseEventWindow(searchParams.get('from'), searchParams.get('to'))
+    if (eventWindow.error !== undefined) {
+      return NextResponse.json(
+        { error: eventWindow.error },
+        { status: 400 }
+      )
+    }
+    const { from, to } = eventWindow
+
+    const provider = await getEventDataProvider()
+
+    const city = await provider.getCity(citySlug)
+    if (!city) {
+      return NextResponse.json(
+        { error: `City not found: ${citySlug}` },
+        { status: 404 }
+      )
+    }
+
+    const [events, neighborhoods] = await Promise.all([
+      provider.getEvents(city, { from, to, bbox }),
+      loadNeighborhoodsFromDisk(city.slug)
+    ])
+
+    const tile = aggregateTile(events, zoom, neighborhoods)
+
+    console.log(`🗺️  Tile for ${city.name} at zoom ${zoom.toFixed(1)}: ${tile.mode} (${events.length} events)`)
+
+    return NextResponse.json({
+      city: city.name,
+      zoom,
+      bbox,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      ...tile
+    })
+  } catch (error) {
+    console.error('❌ Event tile error:', error)
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to aggregate events' },
+      { status: 500 }
+    )
+  }
+}
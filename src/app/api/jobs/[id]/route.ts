@@ -0,0 +1,62 @@
+/**
+ * API Route: Background job status
+ * GET /api/jobs/:id
+ *
+ * Returns the job's status (queued, running, succeeded, failed), attempts and, once it
+ * has succeeded, its result. `error` holds the last failure while a retry is pending.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getJobQueueProvider } from '@/lib/dataProviders'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!UUID_PATTERN.test(id)) {
+      return NextResponse.json(
+        { error: 'Invalid job id' },
+        { status: 400 }
+      )
+    }
+
+    const queue = await getJobQueueProvider()
+    const job = await queue.getJob(id)
+
+    if (!job) {
+      return NextResponse.json(
+        { error: `Job not found: ${id}` },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      error: job.error,
+      result: job.status === 'succeeded' ? job.result : null,
+      nextAttemptAt: job.status === 'queued' && job.attempts > 0 ? job.runAt : null,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      completedAt: job.completedAt
+    }, {
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('❌ Job status error:', error)
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to load job' },
+      { status: 500 }
+    )
+  }
+}
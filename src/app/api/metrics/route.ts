@@ -0,0 +1,40 @@
+/**
+ * API Route: Outbound HTTP metrics
+ * GET /api/metrics
+ * Authorization: Bearer <METRICS_TOKEN>
+ *
+ * Per-provider request, retry, timeout, 429 and circuit breaker counters for this server process
+ * (see src/lib/httpClient.ts). Counters reset when the process restarts.
+ * Without METRICS_TOKEN the route is only open in development.
+ */
+
+import { timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { getHttpMetrics } from '@/lib/httpClient'
+
+function isAuthorized(request: NextRequest): boolean {
+  const token = process.env.METRICS_TOKEN
+  if (!token) return process.env.NODE_ENV === 'development'
+
+  const header = request.headers.get('authorization') || ''
+  const given = Buffer.from(header.replace(/^Bearer\s+/i, ''))
+  const expected = Buffer.from(token)
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'A valid metrics token is required' },
+      { status: 401 }
+    )
+  }
+
+  return NextResponse.json({
+    http: getHttpMetrics()
+  }, {
+    headers: {
+      'Cache-Control': 'no-store'
+    }
+  })
+}
@@ -0,0 +1,84 @@
+/**
+ * API Route: Web Push subscription for saved-event notifications
+ * POST /api/push/subscribe    { subscription: PushSubscriptionJSON, eventIds: string[] }
+ * DELETE /api/push/subscribe  { endpoint: string }
+ *
+ * The browser posts its saved event ids whenever they change; the push scheduler sends
+ * reminders and sold-out / price alerts for them (see src/lib/pushScheduler.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPushSubscriptionProvider } from '@/lib/dataProviders'
+import { MAX_PUSH_EVENTS, isPushServiceEndpoint } from '@/lib/pushNotifications'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { subscription, eventIds } = await request.json() as {
+      subscription?: { endpoint?: unknown; keys?: { p256dh?: unknown; auth?: unknown } }
+      eventIds?: unknown
+    }
+
+    const endpoint = subscription?.endpoint
+    const p256dh = subscription?.keys?.p256dh
+    const auth = subscription?.keys?.auth
+    if (!isPushServiceEndpoint(endpoint) || typeof p256dh !== 'string' || typeof auth !== 'string' || !p256dh || !auth) {
+      return NextResponse.json(
+        { error: 'subscription must have a browser push service endpoint and p256dh and auth keys' },
+        { status: 400 }
+      )
+    }
+
+    if (!Array.isArray(eventIds) || eventIds.some(id => typeof id !== 'string')) {
+      return NextResponse.json(
+        { error: 'eventIds must be an array of event ids' },
+        { status: 400 }
+      )
+    }
+
+    if (eventIds.length > MAX_PUSH_EVENTS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_PUSH_EVENTS} events can get notifications` },
+        { status: 400 }
+      )
+    }
+
+    const provider = await getPushSubscriptionProvider()
+    await provider.saveSubscription(endpoint, { p256dh, auth }, eventIds)
+
+    console.log(`🔔 Push subscription updated with ${eventIds.length} events`)
+
+    return NextResponse.json({ eventCount: eventIds.length })
+  } catch (error) {
+    console.error('❌ Push subscription error:', error)
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to update push subscription' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { endpoint } = await request.json() as { endpoint?: unknown }
+
+    if (typeof endpoint !== 'string' || !endpoint) {
+      return NextResponse.json(
+        { error: 'endpoint is required' },
+        { status: 400 }
+      )
+    }
+
+    const provider = await getPushSubscriptionProvider()
+    await provider.deleteSubscription(endpoint)
+
+    console.log('🔕 Push subscription removed')
+
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error('❌ Push unsubscribe error:', error)
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to remove push subscription' },
+      { status: 500 }
+    )
+  }
+}
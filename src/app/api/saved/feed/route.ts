@@ -0,0 +1,54 @@
+/**
+ * API Route: Create or update a saved-events calendar feed
+ * POST /api/saved/feed  { eventIds: string[], token?: string }
+ *
+ * Returns the feed token and its URL; calendar apps subscribe to the URL and
+ * pick up changes whenever the client posts a new list with the same token.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCalendarFeedProvider } from '@/lib/dataProviders'
+import { getFeedUrl, isFeedToken, MAX_SAVED_EVENTS } from '@/lib/calendarFeed'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { eventIds, token } = await request.json() as { eventIds?: unknown; token?: unknown }
+
+    if (!Array.isArray(eventIds) || eventIds.some(id => typeof id !== 'string')) {
+      return NextResponse.json(
+        { error: 'eventIds must be an array of event ids' },
+        { status: 400 }
+      )
+    }
+
+    if (eventIds.length > MAX_SAVED_EVENTS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_SAVED_EVENTS} events can be saved to a feed` },
+        { status: 400 }
+      )
+    }
+
+    if (token !== undefined && (typeof token !== 'string' || !isFeedToken(token))) {
+      return NextResponse.json(
+        { error: 'Invalid feed token' },
+        { status: 400 }
+      )
+    }
+
+    const provider = await getCalendarFeedProvider()
+    const savedToken = await provider.saveFeed(eventIds, token)
+
+    console.log(`📅 Calendar feed updated with ${eventIds.length} events`)
+
+    return NextResponse.json({
+      token: savedToken,
+      feedUrl: getFeedUrl(request.nextUrl.origin, savedToken)
+    })
+  } catch (error) {
+    console.error('❌ Calendar feed error:', error)
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to update calendar feed' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * API Route: Saved events as an iCalendar file or subscribable feed
+ * GET /api/saved/ics?ids=id1,id2   - one-off download of the given events
+ * GET /api/saved/ics?token=<uuid>  - calendar feed kept in sync via POST /api/saved/feed
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCalendarFeedProvider, getEventDataProvider } from '@/lib/dataProviders'
+import { getEventsByIds } from '@/lib/events'
+import { buildCalendar } from '@/lib/ics'
+import { isFeedToken, MAX_SAVED_EVENTS } from '@/lib/calendarFeed'
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const token = searchParams.get('token')
+    const idsParam = searchParams.get('ids')
+
+    let ids: string[]
+
+    if (token) {
+      if (!isFeedToken(token)) {
+        return NextResponse.json(
+          { error: 'Invalid feed token' },
+          { status: 400 }
+        )
+      }
+
+      const feedProvider = await getCalendarFeedProvider()
+      const feedIds = await feedProvider.getFeedEventIds(token)
+      if (!feedIds) {
+        return NextResponse.json(
+          { error: 'Calendar feed not found' },
+          { status: 404 }
+        )
+      }
+      ids = feedIds
+    } else if (idsParam) {
+      ids = idsParam.split(',').map(id => id.trim()).filter(Boolean)
+    } else {
+      return NextResponse.json(
+        { error: 'ids or token parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    if (ids.length > MAX_SAVED_EVENTS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_SAVED_EVENTS} events can be exported` },
+        { status: 400 }
+      )
+    }
+
+    const provider = await getEventDataProvider()
+    const events = await getEventsByIds(provider, ids)
+
+    const calendar = buildCalendar(events, {
+      name: 'Eppy Saved Events',
+      description: 'Events you saved on Eppy',
+      isFeed: Boolean(token)
+    })
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        // Feeds are fetched by calendar apps; downloads get a filename
+        ...(token
+          ? { 'Cache-Control': 'private, max-age=300' }
+          : { 'Content-Disposition': 'attachment; filename="eppy-saved-events.ics"' })
+      }
+    })
+  } catch (error) {
+    console.error('❌ Saved events .ics error:', error)
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to export saved events' },
+      { status: 500 }
+    )
+  }
+}
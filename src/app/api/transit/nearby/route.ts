@@ -0,0 +1,83 @@
+/**
+ * API Route: Transit stops near a point with their next departures
+ * GET /api/transit/nearby?lat=37.7599&lng=-122.4148&at=2025-10-25T02:00:00Z&limit=3
+ *
+ * Optional: city (slug; detected from the point when omitted), at (ISO time, default now), limit (1-10 stops)
+ * Cities without an ingested GTFS feed return an empty `stops` list.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { CITIES, detectNearestCity } from '@/lib/cityDetection'
+import { findNearestStops, getNextDepartures, loadTransitFeed } from '@/lib/transit'
+import { parseLatLng } from '@/lib/travel'
+
+const MAX_STOPS = 10
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+
+    const point = parseLatLng(`${searchParams.get('lat')},${searchParams.get('lng')}`)
+    if (!point) {
+      return NextResponse.json(
+        { error: 'lat and lng parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    const atParam = searchParams.get('at')
+    const at = atParam ? new Date(atParam) : new Date()
+    if (isNaN(at.getTime())) {
+      return NextResponse.json(
+        { error: 'at must be an ISO date' },
+        { status: 400 }
+      )
+    }
+
+    const limit = parseInt(searchParams.get('limit') || '3', 10)
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_STOPS) {
+      return NextResponse.json(
+        { error: `limit must be between 1 and ${MAX_STOPS}` },
+        { status: 400 }
+      )
+    }
+
+    const citySlug = searchParams.get('city')
+    const city = citySlug
+      ? CITIES.find(c => c.slug === citySlug)
+      : detectNearestCity(point.lat, point.lng)
+    if (!city) {
+      return NextResponse.json(
+        { error: `City not found: ${citySlug}` },
+        { status: 404 }
+      )
+    }
+
+    const feed = await loadTransitFeed(city.slug)
+    if (!feed) {
+      return NextResponse.json({ city: city.slug, at: at.toISOString(), stops: [] })
+    }
+
+    const stops = findNearestStops(feed, point, { limit }).map(nearby => ({
+      ...nearby.stop,
+      distanceKm: nearby.distanceKm,
+      walkMinutes: nearby.walkMinutes,
+      // Departures after the walk to the stop
+      departures: getNextDepartures(feed, nearby.stop.id, new Date(at.getTime() + nearby.walkMinutes * 60000))
+    }))
+
+    return NextResponse.json({
+      city: city.slug,
+      agency: feed.agency,
+      timezone: feed.timezone,
+      at: at.toISOString(),
+      stops
+    })
+  } catch (error) {
+    console.error('❌ Nearby transit error:', error)
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to load nearby transit' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * API Route: Travel time estimates between two points
+ * GET /api/travel?from=37.7599,-122.4148&to=37.7847,-122.4079&modes=walk,bike,drive,transit
+ *
+ * Optional: city (slug; detected from `to` when omitted), departAt (ISO time, default now)
+ * Modes that can't be estimated (e.g. transit without a GTFS feed) are left out of `estimates`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { CITIES, detectNearestCity } from '@/lib/cityDetection'
+import { parseLatLng, parseTravelModes } from '@/lib/travel'
+import { getTravelEstimates } from '@/lib/travelServer'
+import { getTransitProvider } from '@/lib/transit'
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+
+    const from = parseLatLng(searchParams.get('from'))
+    const to = parseLatLng(searchParams.get('to'))
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: 'from and to parameters are required as lat,lng' },
+        { status: 400 }
+      )
+    }
+
+    const modes = parseTravelModes(searchParams.get('modes'))
+    if (!modes) {
+      return NextResponse.json(
+        { error: 'modes must be a comma-separated list of walk, bike, drive, transit' },
+        { status: 400 }
+      )
+    }
+
+    const departParam = searchParams.get('departAt')
+    const departAt = departParam ? new Date(departParam) : new Date()
+    if (isNaN(departAt.getTime())) {
+      return NextResponse.json(
+        { error: 'departAt must be an ISO date' },
+        { status: 400 }
+      )
+    }
+
+    const citySlug = searchParams.get('city')
+    const city = citySlug
+      ? CITIES.find(c => c.slug === citySlug)
+      : detectNearestCity(to.lat, to.lng)
+    if (!city) {
+      return NextResponse.json(
+        { error: `City not found: ${citySlug}` },
+        { status: 404 }
+      )
+    }
+
+    const estimates = await getTravelEstimates(city.slug, from, to, modes, getTransitProvider(), departAt)
+
+    return NextResponse.json({
+      city: city.slug,
+      from,
+      to,
+      departAt: departAt.toISOString(),
+      estimates
+    })
+  } catch (error) {
+    console.error('❌ Travel estimate error:', error)
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to estimate travel times' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * API Route: Forecast busyness for one venue
+ * GET /api/venues/:id/busyness?day=sat&hour=21
+ * GET /api/venues/:id/busyness?at=2025-11-01T04:00:00Z
+ *
+ * `day` is mon-sun or 0-6 (Monday = 0) and `hour` 0-23, both in the venue's local time;
+ * they default to now. Returns the busyness (0-100) at that hour and the forecast for the day.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCityConfigById } from '@/lib/cities'
+import { getVenueDataProvider } from '@/lib/dataProviders'
+import { getCacheStatusHeaders, summarizeVenueCache } from '@/lib/venueCache'
+import { getDayForecast, parseForecastSlot, WEEKDAY_NAMES } from '@/lib/venueForecasts'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const provider = await getVenueDataProvider()
+    const venue = await provider.getVenue(id)
+
+    if (!venue) {
+      return NextResponse.json(
+        { error: `Venue not found: ${id}` },
+        { status: 404 }
+      )
+    }
+
+    const timeZone = getCityConfigById(venue.city_id)?.timezone || 'UTC'
+    const slot = parseForecastSlot(request.nextUrl.searchParams, timeZone)
+    if (slot.error !== undefined) {
+      return NextResponse.json(
+        { error: slot.error },
+        { status: 400 }
+      )
+    }
+
+    const forecast = getDayForecast(await provider.getVenueForecasts([venue.id]), slot.weekday)
+    const cache = summarizeVenueCache([venue], 'forecast')
+
+    return NextResponse.json({
+      venueId: venue.id,
+      name: venue.name,
+      timezone: timeZone,
+      day: WEEKDAY_NAMES[slot.weekday],
+      hour: slot.hour,
+      busyness: forecast[slot.hour],
+      forecast,
+      updatedAt: cache.updatedAt
+    }, { headers: getCacheStatusHeaders(cache) })
+  } catch (error) {
+    console.error('❌ Venue busyness error:', error)
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to load venue busyness' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * API Route: Forecast busyness across a city at one time
+ * GET /api/venues/busyness?citySlug=san-francisco&day=fri&hour=22
+ * GET /api/venues/busyness?citySlug=san-francisco&at=2025-11-01T04:00:00Z
+ *
+ * `day`/`hour` are in the city's local time and default to now. Venues without a forecast
+ * for that hour are left out; the rest are sorted busiest first.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getVenueDataProvider } from '@/lib/dataProviders'
+import { getCacheStatusHeaders, summarizeVenueCache } from '@/lib/venueCache'
+import { parseForecastSlot, WEEKDAY_NAMES } from '@/lib/venueForecasts'
+import { queueVenueRefresh } from '@/lib/venueJobs'
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const citySlug = searchParams.get('citySlug')
+
+    if (!citySlug) {
+      return NextResponse.json(
+        { error: 'citySlug parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    const provider = await getVenueDataProvider()
+    const city = await provider.getCity(citySlug)
+
+    if (!city) {
+      return NextResponse.json(
+        { error: `City not found: ${citySlug}` },
+        { status: 404 }
+      )
+    }
+
+    const slot = parseForecastSlot(searchParams, city.timezone)
+    if (slot.error !== undefined) {
+      return NextResponse.json(
+        { error: slot.error },
+        { status: 400 }
+      )
+    }
+
+    const [venues, hours] = await Promise.all([
+      provider.getVenues(city.id),
+      provider.getCityBusyness(city.id, slot.weekday, slot.hour)
+    ])
+    const venuesById = new Map(venues.map(v => [v.id, v]))
+
+    const busyness = hours
+      .filter(h => venuesById.has(h.venueId))
+      .map(h => {
+        const venue = venuesById.get(h.venueId)!
+        return {
+          id: venue.id,
+          name: venue.name,
+          lat: venue.lat,
+          lng: venue.lng,
+          type: venue.venue_type,
+          busyness: h.intensity
+        }
+      })
+      .sort((a, b) => b.busyness - a.busyness)
+
+    const cache = summarizeVenueCache(venues, 'forecast')
+    const refreshJobs = await queueVenueRefresh(citySlug, venues, ['forecast'])
+
+    console.log(`📈 ${busyness.length} venue forecasts for ${city.name} at ${WEEKDAY_NAMES[slot.weekday]} ${slot.hour}:00`)
+
+    return NextResponse.json({
+      city: city.name,
+      timezone: city.timezone,
+      day: WEEKDAY_NAMES[slot.weekday],
+      hour: slot.hour,
+      count: busyness.length,
+      venues: busyness,
+      updatedAt: cache.updatedAt,
+      refreshJobs
+    }, { headers: getCacheStatusHeaders(cache) })
+  } catch (error) {
+    console.error('❌ City busyness error:', error)
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to load busyness' },
+      { status: 500 }
+    )
+  }
+}
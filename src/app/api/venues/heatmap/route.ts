@@ -1,10 +1,16 @@
 /**
  * Heatmap data endpoint
  * Provides both venue density and live foot-traffic heatmap data
+ *
+ * Foot traffic is served from cached forecasts even when stale, with a background refresh queued;
+ * `updatedAt` and the Cache-Status / Age / Last-Modified headers say how old the data is.
  */
 
 import { NextResponse } from 'next/server'
-import { supabase } from '@/lib/supabase'
+import { getVenueDataProvider } from '@/lib/dataProviders'
+import { getCacheStatusHeaders, summarizeVenueCache } from '@/lib/venueCache'
+import { getForecastSlot } from '@/lib/venueForecasts'
+import { queueVenueRefresh } from '@/lib/venueJobs'
 
 export async function GET(request: Request) {
   try {
@@ -21,14 +27,12 @@ export async function GET(request: Request) {
 
     console.log(`🗺️  Fetching ${mode} heatmap data for: ${citySlug}`)
 
+    const provider = await getVenueDataProvider()
+
     // First, get the city to get its ID
-    const { data: cityData, error: cityError } = await supabase
-      .from('cities')
-      .select('id, name, slug')
-      .eq('slug', citySlug)
-      .single()
+    const cityData = await provider.getCity(citySlug)
 
-    if (cityError || !cityData) {
+    if (!cityData) {
       return NextResponse.json(
         { error: `City not found: ${citySlug}` },
         { status: 404 }
@@ -36,16 +40,9 @@ export async function GET(request: Request) {
     }
 
     // Fetch all venues for this city using city_id
-    const { data: venues, error } = await supabase
-      .from('venues')
-      .select('*')
-      .eq('city_id', cityData.id)
-
-    if (error) {
-      throw error
-    }
+    const venues = await provider.getVenues(cityData.id)
 
-    if (!venues || venues.length === 0) {
+    if (venues.length === 0) {
       return NextResponse.json({
         success: true,
         mode,
@@ -70,22 +67,16 @@ export async function GET(request: Request) {
       console.log(`✅ Generated density heatmap with ${heatmapData.length} points`)
 
     } else if (mode === 'foottraffic') {
-      // Live Foot-Traffic Heatmap - location + busyness intensity
-      const currentHour = new Date().getHours()
-      const currentDay = new Date().getDay()
+      // Live Foot-Traffic Heatmap - location + busyness intensity at this hour in the city
+      const { weekday, hour } = getForecastSlot(new Date(), cityData.timezone)
+      const busyness = new Map(
+        (await provider.getCityBusyness(cityData.id, weekday, hour)).map(h => [h.venueId, h.intensity])
+      )
 
       heatmapData = venues
         .map(v => {
-          let intensity = 0.5 // Default moderate intensity
-
-          // Try to get live busyness data if available
-          if (v.raw_data && v.raw_data.analysis) {
-            const dayData = v.raw_data.analysis[currentDay]
-            if (dayData && dayData.hour_analysis && dayData.hour_analysis[currentHour]) {
-              const busyness = dayData.hour_analysis[currentHour].intensity_nr
-              intensity = busyness / 100 // Convert 0-100 to 0-1
-            }
-          }
+          const forecast = busyness.get(v.id)
+          const intensity = forecast !== undefined ? forecast / 100 : 0.5 // Default moderate intensity
 
           return {
             lat: v.lat,
@@ -106,14 +97,19 @@ export async function GET(request: Request) {
       )
     }
 
+    const cache = summarizeVenueCache(venues, mode === 'foottraffic' ? 'forecast' : 'metadata')
+    const refreshJobs = mode === 'foottraffic' ? await queueVenueRefresh(citySlug, venues, ['forecast']) : {}
+
     return NextResponse.json({
       success: true,
       mode,
       data: heatmapData,
       count: heatmapData.length,
       city: citySlug,
-      timestamp: new Date().toISOString()
-    })
+      timestamp: new Date().toISOString(),
+      updatedAt: cache.updatedAt,
+      refreshJobs
+    }, { headers: getCacheStatusHeaders(cache) })
 
   } catch (error: any) {
     console.error('❌ Heatmap data error:', error)
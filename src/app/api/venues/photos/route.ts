@@ -1,26 +1,15 @@
 /**
- * API Route: Fetch venue photos from Google Places API
+ * API Route: Fetch venue photos (Google Places API, or fixtures offline)
  * POST /api/venues/photos
  * Body: { venues: [{ name, lat, lng, besttime_id }] }
+ *
+ * Responds 202 with a job id; poll GET /api/jobs/:id for per-venue results.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { getVenuePhotoUrl, googlePlacesRateLimiter } from '@/lib/googlePlaces'
-import { supabase } from '@/lib/supabase'
-
-interface VenuePhotoRequest {
-  name: string
-  lat: number
-  lng: number
-  besttime_id: string
-}
-
-interface VenuePhotoResult {
-  besttime_id: string
-  name: string
-  photo_url: string | null
-  success: boolean
-}
+import { getVenueDataProvider } from '@/lib/dataProviders'
+import { enqueueJob, getJobStatusUrl } from '@/lib/jobs'
+import type { EnrichVenuePhotosPayload, VenuePhotoRequest } from '@/lib/venueJobs'
 
 export async function POST(request: NextRequest) {
   try {
@@ -33,59 +22,18 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    console.log(`📸 Fetching photos for ${venues.length} venues...`)
-
-    // Process venues with rate limiting
-    const results: VenuePhotoResult[] = []
-
-    for (const venue of venues) {
-      try {
-        // Use rate limiter to avoid hitting API limits
-        const photoUrl = await googlePlacesRateLimiter.add(() =>
-          getVenuePhotoUrl(venue.name, venue.lat, venue.lng)
-        )
-
-        results.push({
-          besttime_id: venue.besttime_id,
-          name: venue.name,
-          photo_url: photoUrl,
-          success: photoUrl !== null
-        })
-
-        // Update venue in Supabase if photo found
-        if (photoUrl) {
-          const { error: updateError } = await supabase
-            .from('venues')
-            .update({
-              photo_url: photoUrl,
-              updated_at: new Date().toISOString()
-            })
-            .eq('besttime_venue_id', venue.besttime_id)
-
-          if (updateError) {
-            console.error(`⚠️  Failed to update photo for ${venue.name}:`, updateError)
-          }
-        }
-      } catch (error) {
-        console.error(`❌ Error fetching photo for ${venue.name}:`, error)
-        results.push({
-          besttime_id: venue.besttime_id,
-          name: venue.name,
-          photo_url: null,
-          success: false
-        })
-      }
-    }
-
-    const successCount = results.filter(r => r.success).length
-    console.log(`✅ Successfully fetched ${successCount}/${venues.length} venue photos`)
+    // Places lookups are rate limited - run them in the job worker
+    const job = await enqueueJob('enrich-venue-photos', {
+      venues
+    } satisfies EnrichVenuePhotosPayload)
 
     return NextResponse.json({
       success: true,
       count: venues.length,
-      photos_found: successCount,
-      results
-    })
+      jobId: job.id,
+      status: job.status,
+      statusUrl: getJobStatusUrl(job.id)
+    }, { status: 202 })
   } catch (error: any) {
     console.error('❌ Venue photos error:', error)
     return NextResponse.json(
@@ -112,20 +60,19 @@ export async function GET(request: NextRequest) {
     }
 
     // Get venues with and without photos
-    const { data: venues, error } = await supabase
-      .from('venues')
-      .select('id, name, besttime_venue_id, photo_url')
-      .eq('city_id', cityId)
-
-    if (error) {
-      throw error
-    }
+    const venueProvider = await getVenueDataProvider()
+    const venues = (await venueProvider.getVenues(cityId)).map(v => ({
+      id: v.id,
+      name: v.name,
+      besttime_venue_id: v.besttime_venue_id,
+      photo_url: v.photo_url
+    }))
 
-    const withPhotos = venues?.filter(v => v.photo_url) || []
-    const withoutPhotos = venues?.filter(v => !v.photo_url) || []
+    const withPhotos = venues.filter(v => v.photo_url)
+    const withoutPhotos = venues.filter(v => !v.photo_url)
 
     return NextResponse.json({
-      total: venues?.length || 0,
+      total: venues.length,
       with_photos: withPhotos.length,
       without_photos: withoutPhotos.length,
       venues: venues
@@ -4,7 +4,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { supabase } from '@/lib/supabase'
+import { getVenueDataProvider } from '@/lib/dataProviders'
+import { getCacheStatusHeaders, summarizeVenueCache } from '@/lib/venueCache'
 
 export async function GET(request: NextRequest) {
   try {
@@ -20,14 +21,12 @@ export async function GET(request: NextRequest) {
 
     console.log(`🔍 Querying venues for city: ${citySlug}`)
 
+    const provider = await getVenueDataProvider()
+
     // Get city ID
-    const { data: cityData, error: cityError } = await supabase
-      .from('cities')
-      .select('id, name')
-      .eq('slug', citySlug)
-      .single()
+    const cityData = await provider.getCity(citySlug)
 
-    if (cityError || !cityData) {
+    if (!cityData) {
       return NextResponse.json(
         { error: `City not found: ${citySlug}` },
         { status: 404 }
@@ -35,24 +34,15 @@ export async function GET(request: NextRequest) {
     }
 
     // Get venues for this city
-    const { data: venues, error: venuesError } = await supabase
-      .from('venues')
-      .select('*')
-      .eq('city_id', cityData.id)
-      .eq('is_event_venue', true)
-      .order('name')
-
-    if (venuesError) {
-      throw venuesError
-    }
+    const venues = await provider.getVenues(cityData.id, { eventVenuesOnly: true })
 
-    console.log(`✅ Found ${venues?.length || 0} venues in ${cityData.name}`)
+    console.log(`✅ Found ${venues.length} venues in ${cityData.name}`)
 
     return NextResponse.json({
       city: cityData.name,
-      count: venues?.length || 0,
-      venues: venues || []
-    })
+      count: venues.length,
+      venues
+    }, { headers: getCacheStatusHeaders(summarizeVenueCache(venues, 'metadata')) })
   } catch (error: any) {
     console.error('❌ Venue query error:', error)
     return NextResponse.json(
@@ -0,0 +1,50 @@
+/**
+ * API Route: Hourly weather forecast for a city
+ * GET /api/weather?citySlug=austin
+ *
+ * Returns the current conditions (with minutes until rain, if it's coming) and up to
+ * seven days of hourly forecasts. Clients use the hours to flag outdoor events.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { CITIES } from '@/lib/cityDetection'
+import { getWeatherProvider } from '@/lib/dataProviders'
+import { getCurrentWeather } from '@/lib/weather'
+import { getCityForecast } from '@/lib/weatherServer'
+
+export async function GET(request: NextRequest) {
+  try {
+    const citySlug = request.nextUrl.searchParams.get('citySlug')
+
+    if (!citySlug) {
+      return NextResponse.json(
+        { error: 'citySlug parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    const city = CITIES.find(c => c.slug === citySlug)
+    if (!city) {
+      return NextResponse.json(
+        { error: `City not found: ${citySlug}` },
+        { status: 404 }
+      )
+    }
+
+    const provider = await getWeatherProvider()
+    const hours = await getCityForecast(provider, city)
+
+    return NextResponse.json({
+      city: city.slug,
+      provider: provider.name,
+      current: getCurrentWeather(hours),
+      hours
+    })
+  } catch (error) {
+    console.error('❌ Weather error:', error)
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to load weather' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * API Route: Outdoor events likely to be rained on
+ * GET /api/weather/warnings?citySlug=austin&from=2025-10-20T00:00:00Z&to=2025-10-27T00:00:00Z&threshold=40
+ *
+ * Events in the Outdoors category or tagged `outdoor` whose chance of rain during the event
+ * reaches `threshold` percent (default OUTDOOR_RAIN_THRESHOLD). Only events within the
+ * forecast range (about a week) can be flagged.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getEventDataProvider, getWeatherProvider } from '@/lib/dataProviders'
+import { parseEventWindow } from '@/lib/events'
+import { getOutdoorWeatherWarning, OUTDOOR_RAIN_THRESHOLD } from '@/lib/weather'
+import { getCityForecast } from '@/lib/weatherServer'
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const citySlug = searchParams.get('citySlug')
+
+    if (!citySlug) {
+      return NextResponse.json(
+        { error: 'citySlug parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    const eventWindow = parseEventWindow(searchParams.get('from'), searchParams.get('to'))
+    if (eventWindow.error !== undefined) {
+      return NextResponse.json(
+        { error: eventWindow.error },
+        { status: 400 }
+      )
+    }
+    const { from, to } = eventWindow
+
+    const thresholdParam = searchParams.get('threshold')
+    const threshold = thresholdParam ? Number(thresholdParam) : OUTDOOR_RAIN_THRESHOLD
+    if (!Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+      return NextResponse.json(
+        { error: 'threshold must be a percentage between 0 and 100' },
+        { status: 400 }
+      )
+    }
+
+    const eventProvider = await getEventDataProvider()
+    const city = await eventProvider.getCity(citySlug)
+    if (!city) {
+      return NextResponse.json(
+        { error: `City not found: ${citySlug}` },
+        { status: 404 }
+      )
+    }
+
+    const [events, hours] = await Promise.all([
+      eventProvider.getEvents(city, { from, to }),
+      getWeatherProvider().then(provider => getCityForecast(provider, city))
+    ])
+
+    const warnings = events.flatMap(event => {
+      const warning = getOutdoorWeatherWarning(event, hours, threshold)
+      return warning ? [{ eventId: event.id, title: event.title, startTime: event.startTime, ...warning }] : []
+    })
+
+    console.log(`🌧️ ${warnings.length} outdoor events with rain warnings in ${city.name}`)
+
+    return NextResponse.json({
+      city: city.name,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      threshold,
+      warnings
+    })
+  } catch (error) {
+    console.error('❌ Weather warnings error:', error)
+    return NextResponse.json(
+      { error: (error as Error).message || 'Failed to load weather warnings' },
+      { status: 500 }
+    )
+  }
+}
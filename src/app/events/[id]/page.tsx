@@ -0,0 +1,165 @@
+/**
+ * Event detail page: /events/:id
+ * Server-rendered so shared links unfurl (Open Graph / Twitter cards) and events are
+ * indexable (schema.org Event JSON-LD). Occurrence ids (`<series id>@<start>`) show one occurrence.
+ */
+
+import { cache } from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import GetThere from '@/components/GetThere'
+import OutdoorWeatherWarning from '@/components/OutdoorWeatherWarning'
+import { getEventDataProvider } from '@/lib/dataProviders'
+import { getEventsByIds } from '@/lib/events'
+import { getEventImage } from '@/lib/eventImages'
+import { buildEventJsonLd, formatEventPrice, formatEventTime, getEventPath, getEventSummary, getSiteUrl, getStaticMapUrl } from '@/lib/eventPages'
+import { describeRecurrence } from '@/lib/recurrence'
+import { detectNearestCity } from '@/lib/cityDetection'
+
+interface EventPageProps {
+  params: Promise<{ id: string }>
+}
+
+// generateMetadata and the page share one lookup per request
+const loadEvent = cache(async (id: string) => {
+  const provider = await getEventDataProvider()
+  const [event] = await getEventsByIds(provider, [decodeURIComponent(id)])
+  return event || null
+})
+
+export async function generateMetadata({ params }: EventPageProps): Promise<Metadata> {
+  const { id } = await params
+  const event = await loadEvent(id)
+  if (!event) {
+    return { title: 'Event not found - eppy' }
+  }
+
+  const description = getEventSummary(event)
+  const image = getEventImage(event)
+  const path = getEventPath(event.id)
+
+  return {
+    title: `${event.title} - eppy`,
+    description,
+    alternates: { canonical: path },
+    openGraph: {
+      type: 'website',
+      siteName: 'eppy',
+      title: event.title,
+      description,
+      url: path,
+      images: [{ url: image, alt: event.title }]
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: event.title,
+      description,
+      images: [image]
+    }
+  }
+}
+
+export default async function EventPage({ params }: EventPageProps) {
+  const { id } = await params
+  const event = await loadEvent(id)
+  if (!event) {
+    notFound()
+  }
+
+  const url = new URL(getEventPath(event.id), getSiteUrl()).toString()
+  const jsonLd = buildEventJsonLd(event, url)
+  const mapUrl = getStaticMapUrl(event)
+  const city = detectNearestCity(event.latitude, event.longitude)
+  const mapLink = `/?city=${city.slug}&event=${encodeURIComponent(event.id)}`
+
+  return (
+    <main className="min-h-screen bg-gray-900 text-gray-100">
+      <script
+        type="application/ld+json"
+        // Escape `<` so event text can't close the script tag
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd).replace(/</g, '\\u003c') }}
+      />
+
+      <header className="flex items-center justify-between px-4 py-3 border-b border-cyan-500/20">
+        <Link href="/" className="text-xl font-black text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500">
+          eppy
+        </Link>
+        <Link href={mapLink} className="text-sm text-cyan-300 hover:text-cyan-200 transition-colors">
+          Open on map →
+        </Link>
+      </header>
+
+      <article className="max-w-2xl mx-auto px-4 py-6 space-y-6">
+        <div
+          className="h-56 sm:h-72 rounded-2xl bg-cover bg-center border border-white/10"
+          style={{ backgroundImage: `url(${getEventImage(event)})` }}
+          role="img"
+          aria-label={event.title}
+        />
+
+        <div className="space-y-2">
+          <div className="text-xs font-semibold uppercase tracking-wide text-cyan-400">
+            {event.category}{event.subcategory ? ` · ${event.subcategory}` : ''}
+          </div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-white">{event.title}</h1>
+          <div className="text-sm text-gray-300">🕒 {formatEventTime(event)}</div>
+          {event.recurrence && (
+            <div className="text-sm text-gray-400">🔁 {describeRecurrence(event.recurrence)}</div>
+          )}
+          <div className="text-sm text-gray-300">
+            📍 {event.venue}{event.address ? `, ${event.address}` : ''}
+          </div>
+          <div className="text-sm font-semibold text-green-400">{formatEventPrice(event)}</div>
+        </div>
+
+        <OutdoorWeatherWarning event={event} />
+
+        <div className="flex gap-2">
+          {event.ticketUrl && (
+            <a
+              href={event.ticketUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex-1 py-2.5 text-center rounded-lg font-bold text-sm bg-gradient-to-r from-cyan-500 to-blue-500 text-white hover:shadow-lg hover:shadow-cyan-500/30 transition-all"
+            >
+              Get Tickets
+            </a>
+          )}
+          <a
+            href={`/api/events/${encodeURIComponent(event.id)}/ics`}
+            download
+            className="px-3 py-2.5 rounded-lg font-bold text-sm bg-cyan-500/10 border border-cyan-500/30 text-cyan-300 hover:bg-cyan-500/20 transition-all"
+          >
+            📅 Add to Calendar
+          </a>
+        </div>
+
+        {event.description && (
+          <p className="text-sm leading-relaxed text-gray-300 whitespace-pre-line">{event.description}</p>
+        )}
+
+        {event.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {event.tags.map(tag => (
+              <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-gray-800 border border-gray-700 text-gray-400">
+                {tag}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {mapUrl && (
+          <Link
+            href={mapLink}
+            className="block aspect-[2/1] rounded-2xl bg-cover bg-center border border-white/10"
+            style={{ backgroundImage: `url(${mapUrl})` }}
+            aria-label={`Map of ${event.venue || event.address}`}
+          />
+        )}
+
+        <GetThere event={event} isExpanded />
+      </article>
+    </main>
+  )
+}
@@ -0,0 +1,22 @@
+import type { MetadataRoute } from 'next'
+
+/**
+ * Web app manifest (/manifest.webmanifest) - makes eppy installable; offline support is in public/sw.js
+ */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'eppy - Event Discovery Platform',
+    short_name: 'eppy',
+    description: 'Discover amazing events near you with eppy',
+    start_url: '/',
+    display: 'standalone',
+    orientation: 'portrait',
+    background_color: '#111827',
+    theme_color: '#111827',
+    icons: [
+      { src: '/icons/icon-192.png', sizes: '192x192', type: 'image/png', purpose: 'any' },
+      { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'any' },
+      { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' }
+    ]
+  }
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import mapboxgl from 'mapbox-gl'
 import 'mapbox-gl/dist/mapbox-gl.css'
 import { SearchBar } from '@/components/SearchBar'
@@ -16,162 +16,85 @@ import { FloatingActions } from '@/components/FloatingActions'
 import { RadarScanOverlay } from '@/components/RadarScanOverlay'
 import { HolographicEventCard } from '@/components/HolographicEventCard'
 import EventListSidebar from '@/components/EventListSidebar'
+import GeofenceAlertToast from '@/components/GeofenceAlertToast'
+import OfflineIndicator from '@/components/OfflineIndicator'
 import EventBrowser from '@/components/EventBrowser'
 import CitySwitcher from '@/components/CitySwitcher'
+import AccountMenu from '@/components/AccountMenu'
+import { useAuth } from '@/components/AuthProvider'
 import VisualizationModeSwitcher, { type VisualizationMode } from '@/components/VisualizationModeSwitcher'
 import { ClusteringSystemV2 } from '@/lib/clusteringV2'
 import { generateMockHeatmapData } from '@/lib/mockHeatmapData'
 import { loadNeighborhoods, findNeighborhood, getNeighborhoodStats, type NeighborhoodCollection } from '@/lib/neighborhoods'
 import { ParticleMorphAnimation, performCameraFlight, getSpritePositionsFromMap, getClusterCenters } from '@/lib/particleMorphAnimation'
-import { getOrDetectCity, type City } from '@/lib/cityDetection'
-import { getEventImage } from '@/lib/eventImages'
-import type { Event, ClusteringMode } from '@/types'
-
-// Generate realistic popularity score based on venue type and time
-function getRealisticPopularity(venueType: string): number {
-  const hour = new Date().getHours()
-  const isEvening = hour >= 18 && hour <= 23
-  const isAfternoon = hour >= 12 && hour < 18
-  const isMorning = hour >= 6 && hour < 12
-  const isLateNight = hour >= 0 && hour < 6
-
-  // Base scores by venue type and time
-  let baseScore = 50
-
-  const type = venueType.toLowerCase()
-
-  // Bars, nightclubs, casinos - busiest at night
-  if (type.includes('bar') || type.includes('night') || type.includes('casino')) {
-    if (isEvening) baseScore = 80
-    else if (isLateNight) baseScore = 65
-    else if (isAfternoon) baseScore = 45
-    else baseScore = 25
-  }
-  // Restaurants - busiest during meal times
-  else if (type.includes('restaurant')) {
-    if (isEvening) baseScore = 75
-    else if (isAfternoon) baseScore = 60
-    else if (isMorning) baseScore = 50
-    else baseScore = 30
-  }
-  // Cafes - busiest in morning/afternoon
-  else if (type.includes('cafe') || type.includes('coffee')) {
-    if (isMorning) baseScore = 70
-    else if (isAfternoon) baseScore = 60
-    else if (isEvening) baseScore = 40
-    else baseScore = 20
-  }
-  // Museums, galleries - steady daytime traffic
-  else if (type.includes('museum') || type.includes('gallery') || type.includes('theater')) {
-    if (isAfternoon) baseScore = 65
-    else if (isMorning) baseScore = 55
-    else if (isEvening) baseScore = 45
-    else baseScore = 15
-  }
-  // Parks - busiest afternoon/evening
-  else if (type.includes('park')) {
-    if (isAfternoon) baseScore = 70
-    else if (isEvening) baseScore = 60
-    else if (isMorning) baseScore = 50
-    else baseScore = 20
-  }
-  // Concert halls, stadiums - variable
-  else if (type.includes('concert') || type.includes('stadium')) {
-    if (isEvening) baseScore = 70
-    else baseScore = 35
-  }
-
-  // Add randomization (-15 to +15) for variety
-  const randomVariation = Math.floor(Math.random() * 31) - 15
-  const finalScore = Math.max(10, Math.min(95, baseScore + randomVariation))
+import { detectNearestCity, getCityBySlug, getOrDetectCity, type City } from '@/lib/cityDetection'
+import { MAX_SAVED_EVENTS, syncSavedCalendarFeed } from '@/lib/calendarFeed'
+import { disablePushNotifications, enablePushNotifications, getPushSubscription, isPushSupported, syncPushSubscription } from '@/lib/pushNotifications'
+import { filterEvents } from '@/lib/eventFilters'
+import { DEFAULT_CLUSTERING_MODE, DEFAULT_VISUALIZATION_MODE, readUrlState, writeUrlMapView, writeUrlState, type UrlState } from '@/lib/urlState'
+import { getSavedEventIds, loadSwipeHistory, persistSwipe, recordSwipe, syncLocalSwipes, type SwipeAction, type SwipeHistory } from '@/lib/swipeHistory'
+import { formatUpdatedAgo } from '@/lib/venueCache'
+import { DEFAULT_NEARBY_RADIUS_KM, fetchNearbyEvents, formatNearbyLabel, type NearbyEvent } from '@/lib/nearbyEvents'
+import { getBboxAroundPoint, getCircleRing } from '@/lib/geoUtils'
+import { GeofenceMonitor, shouldRecenter, watchUserPosition, type NeighborhoodAlert } from '@/lib/liveTracking'
+import { getOfflineSavedEvents, isOfflineStoreAvailable, saveOfflineSavedEvents, withOfflineFallback, type OfflineResult } from '@/lib/offlineStore'
+import { isServiceWorkerSupported, onSwipeSyncRequested, precacheLoadedAssets, registerServiceWorker } from '@/lib/pwa'
+import { INDIVIDUAL_MIN_ZOOM, NEIGHBORHOOD_MIN_ZOOM, type TileAggregation } from '@/lib/tileAggregation'
+import { buildAffinityProfile, loadInteractionLog, rankForYou, recordInteraction, saveInteractionLog, type InteractionKind, type InteractionLog } from '@/lib/recommendations'
+import type { Event, ClusteringMode, EventFilterSpec } from '@/types'
+
+// City-wide load keeps the most popular events; street-level viewports load the rest from /api/events/tile
+const CITY_EVENT_LIMIT = 2000
+
+// Fetch scheduled events for a city from Supabase, or the copy stored for offline use
+async function fetchCityEvents(citySlug: string): Promise<OfflineResult<Event[]>> {
+  try {
+    console.log(`🔍 Fetching events for ${citySlug}...`)
 
-  return finalScore
-}
+    const result = await withOfflineFallback(citySlug, 'events', async () => {
+      const params = new URLSearchParams({ citySlug, limit: String(CITY_EVENT_LIMIT) })
+      const response = await fetch(`/api/events?${params}`)
 
-// Convert BestTime venue to Event object
-function venueToEvent(venue: any): Event {
-  // Map venue type to event category
-  const categoryMap: Record<string, string> = {
-    'BAR': 'Nightlife',
-    'NIGHT_CLUB': 'Nightlife',
-    'CASINO': 'Entertainment',
-    'THEATER': 'Arts & Culture',
-    'CONCERT_HALL': 'Music',
-    'MUSEUM': 'Arts & Culture',
-    'ART_GALLERY': 'Arts & Culture',
-    'PARK': 'Outdoors',
-    'STADIUM': 'Sports',
-    'LIBRARY': 'Community',
-    'CAFE': 'Food & Drink',
-    'RESTAURANT': 'Food & Drink',
-    'UNKNOWN': 'Entertainment'
-  }
+      if (!response.ok) {
+        throw new Error(`Failed to fetch events: ${response.statusText}`)
+      }
 
-  const category = categoryMap[venue.type || venue.venue_type || 'UNKNOWN'] || 'Entertainment'
-
-  const event: Event = {
-    id: venue.id || venue.besttime_id,
-    title: venue.name,
-    description: `Live venue - ${venue.type || venue.venue_type || 'Event Space'}`,
-    venue: venue.name,
-    address: venue.address || '',
-    latitude: parseFloat(venue.lat),
-    longitude: parseFloat(venue.lng),
-    category: category,
-    subcategory: venue.type || venue.venue_type || 'UNKNOWN',
-    startTime: new Date().toISOString(), // Current time for venues
-    endTime: new Date(Date.now() + 3 * 60 * 60 * 1000).toISOString(), // 3 hours from now
-    price: {
-      currency: 'USD',
-      isFree: false // Venues typically have cover or minimum
-    },
-    tags: [venue.type || venue.venue_type || 'venue', 'live'],
-    popularity: getRealisticPopularity(venue.type || venue.venue_type || 'UNKNOWN'),
-    busyness: venue.busyness // Will be populated from BestTime later
-  }
+      const data = await response.json()
+      console.log(`✅ Loaded ${data.count || 0} of ${data.total ?? data.count ?? 0} events (${data.from} → ${data.to})`)
 
-  // Use Google Places photo if available, otherwise fall back to curated images
-  event.imageUrl = venue.photo_url || getEventImage(event)
+      return (data.events || []) as Event[]
+    })
+    if (!result.offlineSavedAt) return result
+
+    // Stored events: drop ones that have ended, add saved events stored since
+    const now = new Date()
+    const events = result.data.filter(e => new Date(e.endTime) > now)
+    const ids = new Set(events.map(e => e.id))
+    const saved = (await getOfflineSavedEvents()).filter(e =>
+      !ids.has(e.id) && new Date(e.endTime) > now && detectNearestCity(e.latitude, e.longitude).slug === citySlug
+    )
 
-  return event
+    return { data: [...events, ...saved], offlineSavedAt: result.offlineSavedAt }
+  } catch (error) {
+    console.error('Error fetching events:', error)
+    return { data: [], offlineSavedAt: null }
+  }
 }
 
-// Fetch venues from Supabase (cached BestTime data)
-async function fetchCityVenues(citySlug: string): Promise<Event[]> {
+// Look up linked or saved events the city-wide load left out
+async function fetchEventsByIds(citySlug: string, ids: string[]): Promise<Event[]> {
   try {
-    console.log(`🔍 Fetching cached venues for ${citySlug}...`)
-
-    const response = await fetch('/api/venues/discover', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ citySlug })
-    })
+    const params = new URLSearchParams({ citySlug, ids: ids.join(',') })
+    const response = await fetch(`/api/events?${params}`)
 
     if (!response.ok) {
-      console.error('Failed to fetch venues:', response.statusText)
-      return []
+      throw new Error(`Failed to fetch events by id: ${response.statusText}`)
     }
 
     const data = await response.json()
-    console.log(`✅ Loaded ${data.venues?.length || 0} venues (cached: ${data.cached})`)
-
-    // Debug: Check first venue structure
-    if (data.venues && data.venues.length > 0) {
-      console.log('🔍 First venue structure:', data.venues[0])
-    }
-
-    // Convert venues to Event objects
-    const events = (data.venues || []).map(venueToEvent)
-    console.log(`✅ Converted ${events.length} venues to events`)
-
-    // Debug: Check first event
-    if (events.length > 0) {
-      console.log('🔍 First event:', events[0])
-    }
-
-    return events
+    return (data.events || []) as Event[]
   } catch (error) {
-    console.error('Error fetching venues:', error)
+    console.error('Error fetching events by id:', error)
     return []
   }
 }
@@ -206,14 +129,15 @@ export default function Home() {
   const [isMapLoaded, setIsMapLoaded] = useState(false)
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null)
   const [selectedCluster, setSelectedCluster] = useState<Event[] | null>(null)
-  const [clusteringMode, setClusteringMode] = useState<ClusteringMode>('hybrid')
+  const [clusteringMode, setClusteringMode] = useState<ClusteringMode>(DEFAULT_CLUSTERING_MODE)
   const [searchQuery, setSearchQuery] = useState('')
+  const [eventFilters, setEventFilters] = useState<EventFilterSpec>({})
   const [filteredEvents, setFilteredEvents] = useState<Event[]>([])
   const [viewportEvents, setViewportEvents] = useState<Event[]>([])
   const [isLocating, setIsLocating] = useState(false)
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null)
   const [heatmapVisible, setHeatmapVisible] = useState(false)
-  const [visualizationMode, setVisualizationMode] = useState<VisualizationMode>('markers')
+  const [visualizationMode, setVisualizationMode] = useState<VisualizationMode>(DEFAULT_VISUALIZATION_MODE)
   const [neighborhoods, setNeighborhoods] = useState<NeighborhoodCollection | null>(null)
   const [currentNeighborhood, setCurrentNeighborhood] = useState<string | null>(null)
   const [hoveredNeighborhoodEventCount, setHoveredNeighborhoodEventCount] = useState<number>(0)
@@ -223,9 +147,24 @@ export default function Home() {
   const [preferredZoom, setPreferredZoom] = useState(12)
   const [showNearbyEvents, setShowNearbyEvents] = useState(false)
 
+  // Live tracking
+  const [isTracking, setIsTracking] = useState(false)
+  const [geofenceAlert, setGeofenceAlert] = useState<NeighborhoodAlert | null>(null)
+  const geofenceMonitor = useRef(new GeofenceMonitor())
+  const userMarker = useRef<mapboxgl.Marker | null>(null)
+
   // Mobile Bottom Sheet state
   const [mobileSheetOpen, setMobileSheetOpen] = useState(true)
-  const [savedEvents, setSavedEvents] = useState<Event[]>([])
+  const [swipeHistory, setSwipeHistory] = useState<SwipeHistory>({})
+  const [savedCalendarFeedUrl, setSavedCalendarFeedUrl] = useState<string | null>(null)
+  const [pushSubscription, setPushSubscription] = useState<PushSubscription | null>(null)
+  const [offlineSavedAt, setOfflineSavedAt] = useState<string | null>(null) // Set while showing stored city data
+  const [hasPendingSwipes, setHasPendingSwipes] = useState(false)
+  const swipeHistoryLoaded = useRef(false)
+  const [interactionLog, setInteractionLog] = useState<InteractionLog>(loadInteractionLog) // Clicks and dwell time, for recommendations
+  const { user, profile } = useAuth()
+  const userId = user?.id ?? null
+  const appliedHomeCityFor = useRef<string | null>(null)
   const [vibeFilter, setVibeFilter] = useState<string | null>(null)
 
   // Scan animation state - Only show on first load if not seen before
@@ -239,11 +178,18 @@ export default function Home() {
   const [sidebarVisible, setSidebarVisible] = useState(false)
   const [sidebarEvents, setSidebarEvents] = useState<Event[]>([])
   const [sidebarTitle, setSidebarTitle] = useState('Events')
+  const [nearbyResults, setNearbyResults] = useState<NearbyEvent[]>([])
+  const [nearbyOrigin, setNearbyOrigin] = useState<[number, number] | null>(null) // [lng, lat] the results were searched from
 
   // City selection state
   const [currentCity, setCurrentCity] = useState<City | null>(null)
   const [currentCityEvents, setCurrentCityEvents] = useState<Event[]>([])
 
+  // URL state: written only once the initial URL has been applied; changes made while
+  // applying a URL (initial load, back/forward) replace the history entry instead of pushing one
+  const [urlRestored, setUrlRestored] = useState(false)
+  const isApplyingUrlState = useRef(false)
+
   // Event card highlight state
   const clearSelectionRef = useRef<(() => void) | null>(null)
   const isUserInitiatedMove = useRef<boolean>(true) // Track if map move is user-initiated
@@ -291,35 +237,59 @@ export default function Home() {
 
     console.log('🚀 Starting city detection and map initialization...')
 
+    // Shared links open on their city and map view
+    const urlState = readUrlState()
+    const urlCity = urlState.city ? getCityBySlug(urlState.city) : undefined
+
     // Detect city and initialize map IMMEDIATELY
-    getOrDetectCity().then(async detectedCity => {
+    const cityPromise = urlCity ? Promise.resolve(urlCity) : getOrDetectCity()
+    cityPromise.then(async detectedCity => {
       console.log('🏙️ City detected:', detectedCity.name)
       setCurrentCity(detectedCity)
 
-      // Create map IMMEDIATELY with city center (don't wait for venues)
+      // Create map IMMEDIATELY with city center (don't wait for events)
       console.log('🗺️ Creating Mapbox map instance at city center...')
       try {
         map.current = new mapboxgl.Map({
           container: mapContainer.current!,
           style: 'mapbox://styles/mapbox/dark-v11',
-          center: [detectedCity.lng, detectedCity.lat],
-          zoom: 12,
+          center: urlState.map ? [urlState.map.lng, urlState.map.lat] : [detectedCity.lng, detectedCity.lat],
+          zoom: urlState.map?.zoom ?? 12,
           pitch: 45,
           bearing: 0,
           attributionControl: false,
           logoPosition: 'bottom-right'
         })
 
-        console.log('✅ Map created! Now loading venues in background...')
+        console.log('✅ Map created! Now loading events in background...')
         setIsMapLoaded(true)
 
-        // Fetch venues in BACKGROUND after map is created
-        const cityEvents = await fetchCityVenues(detectedCity.slug)
-        console.log('✅ Venues loaded:', cityEvents.length)
+        // Fetch events in BACKGROUND after map is created
+        const { data: cityEvents, offlineSavedAt } = await fetchCityEvents(detectedCity.slug)
+        console.log('✅ Events loaded:', cityEvents.length)
+        setOfflineSavedAt(offlineSavedAt)
         setCurrentCityEvents(cityEvents)
+        cityEventsSlug.current = detectedCity.slug
+        requestedSavedIds.current.clear()
 
-        // Now initialize handlers with venue data
+        // Now initialize handlers with event data
         initializeMapHandlers(detectedCity, cityEvents)
+
+        // Restore the rest of the shared view (modes, filters, selection) once the style is ready
+        const restoreUrlState = () => {
+          isApplyingUrlState.current = true
+          applyUrlStateRef.current(urlState, { city: detectedCity, events: cityEvents })
+            .catch(error => console.error('❌ Failed to restore URL state:', error))
+            .finally(() => {
+              setUrlRestored(true)
+              setTimeout(() => { isApplyingUrlState.current = false }, 0)
+            })
+        }
+        if (map.current.isStyleLoaded()) {
+          restoreUrlState()
+        } else {
+          map.current.once('idle', restoreUrlState)
+        }
       } catch (error) {
         console.error('❌ Failed to create map:', error)
       }
@@ -360,6 +330,7 @@ export default function Home() {
         setSidebarEvents(events)
         setSidebarTitle(title)
         setSidebarVisible(true)
+        setShowNearbyEvents(false)
 
         // Also update legacy sidebar if needed
         setFilteredEvents(events)
@@ -465,6 +436,7 @@ export default function Home() {
         clusteringSystem.current.updateDebounced()
       }
       updateViewportEvents()
+      loadViewportTileRef.current()
     }
 
     // Clear event card highlight and marker highlight when map starts moving (only if user-initiated)
@@ -488,6 +460,13 @@ export default function Home() {
 
     map.current.on('moveend', handleMapUpdate)
     map.current.on('zoomend', handleMapUpdate)
+
+    // Keep the map view in the URL
+    map.current.on('moveend', () => {
+      if (!map.current) return
+      const center = map.current.getCenter()
+      writeUrlMapView({ lat: center.lat, lng: center.lng, zoom: map.current.getZoom() })
+    })
   }
 
   // Cleanup on unmount
@@ -502,17 +481,21 @@ export default function Home() {
   // Handle city change
   const handleCityChange = async (city: City) => {
     setCurrentCity(city)
+    setSelectedEvent(null)
     console.log(`🌆 Switching to: ${city.name}`)
 
-    // Load city-specific venues from Supabase (BestTime cache)
-    const cityEvents = await fetchCityVenues(city.slug)
+    // Load city-specific scheduled events from Supabase
+    const { data: cityEvents, offlineSavedAt } = await fetchCityEvents(city.slug)
     setCurrentCityEvents(cityEvents)
-    console.log(`📅 Loaded ${cityEvents.length} real venues for ${city.name}`)
+    cityEventsSlug.current = city.slug
+    requestedSavedIds.current.clear()
+    setOfflineSavedAt(offlineSavedAt)
+    console.log(`📅 Loaded ${cityEvents.length} events for ${city.name}`)
 
     if (cityEvents.length === 0) {
-      console.error('⚠️ WARNING: No venues loaded! Check API response.')
+      console.error('⚠️ WARNING: No events loaded! Check API response.')
     } else {
-      console.log(`✅ First venue:`, cityEvents[0])
+      console.log(`✅ First event:`, cityEvents[0])
     }
 
     // Update clustering system with new events
@@ -547,7 +530,94 @@ export default function Home() {
     } catch (error) {
       console.error(`Failed to load neighborhoods for ${city.name}:`, error)
     }
+
+    return cityEvents
+  }
+
+  // Latest handler, so the effect below doesn't re-run on every render
+  const handleCityChangeRef = useRef(handleCityChange)
+  handleCityChangeRef.current = handleCityChange
+
+  // Open on the signed-in user's home city (once per sign-in, after the map is up)
+  useEffect(() => {
+    if (!profile?.homeCitySlug || !currentCity || !isMapLoaded) return
+    if (appliedHomeCityFor.current === profile.id) return
+    appliedHomeCityFor.current = profile.id
+
+    const homeCity = getCityBySlug(profile.homeCitySlug)
+    if (homeCity && homeCity.slug !== currentCity.slug) {
+      console.log(`🏠 Opening home city: ${homeCity.name}`)
+      handleCityChangeRef.current(homeCity)
+    }
+  }, [profile, currentCity, isMapLoaded])
+
+  // Add events loaded after the city (viewport tiles, linked or saved events) to the list and the map
+  const addCityEvents = useCallback((added: Event[]) => {
+    if (added.length === 0) return
+    clusteringSystem.current?.addEvents(added)
+    setCurrentCityEvents(events => {
+      const loaded = new Set(events.map(e => e.id))
+      const missing = added.filter(e => !loaded.has(e.id))
+      if (missing.length === 0) return events
+      console.log(`🧩 Loaded ${missing.length} more events the city-wide load left out`)
+      return [...events, ...missing]
+    })
+  }, [])
+
+  // The city-wide load is capped, so the viewport's counts (below street level) and events
+  // (at street level) come from the tile endpoint
+  const loadViewportTile = async () => {
+    const mapInstance = map.current
+    const city = currentCity
+    if (!mapInstance || !city) return
+    if (!navigator.onLine) {
+      clusteringSystem.current?.setTileSummary(null)
+      return
+    }
+
+    const zoom = mapInstance.getZoom()
+    const bounds = mapInstance.getBounds()
+    if (!bounds) return
+
+    // Ask for the same mode the map draws: hexagons from zoom 10 when the city has neighborhoods
+    const tileZoom = zoom >= INDIVIDUAL_MIN_ZOOM ? zoom
+      : zoom >= 10 && neighborhoods ? Math.max(zoom, NEIGHBORHOOD_MIN_ZOOM)
+      : Math.min(zoom, 10)
+    const bbox = [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()].map(n => n.toFixed(4)).join(',')
+    const tileKey = `${city.slug}:${bbox}:${tileZoom.toFixed(1)}`
+    if (lastTileKey.current === tileKey) return
+    lastTileKey.current = tileKey
+
+    try {
+      const params = new URLSearchParams({ citySlug: city.slug, bbox, zoom: tileZoom.toFixed(1) })
+      const response = await fetch(`/api/events/tile?${params}`)
+      if (!response.ok) {
+        throw new Error(`Failed to fetch viewport events: ${response.statusText}`)
+      }
+
+      const tile = await response.json() as TileAggregation
+      // Drop responses for a city or viewport the user has already left
+      if (currentCityRef.current?.slug !== city.slug || lastTileKey.current !== tileKey) return
+
+      if (tile.mode !== 'events') {
+        clusteringSystem.current?.setTileSummary(tile)
+        return
+      }
+
+      clusteringSystem.current?.setTileSummary(null)
+      addCityEvents(tile.events)
+    } catch (error) {
+      lastTileKey.current = null
+      console.error('Error loading viewport events:', error)
+    }
   }
+  const loadViewportTileRef = useRef(loadViewportTile)
+  loadViewportTileRef.current = loadViewportTile
+  const currentCityRef = useRef(currentCity)
+  currentCityRef.current = currentCity
+  const cityEventsSlug = useRef<string | null>(null) // City whose events currentCityEvents holds
+  const requestedSavedIds = useRef(new Set<string>()) // Saved ids looked up since the last city-wide load
+  const lastTileKey = useRef<string | null>(null)
 
   // Function to filter events by current viewport
   const updateViewportEvents = () => {
@@ -581,11 +651,7 @@ export default function Home() {
 
   // Update events when search changes
   useEffect(() => {
-    const filtered = currentCityEvents.filter(event =>
-      event.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      event.venue.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      event.category.toLowerCase().includes(searchQuery.toLowerCase())
-    )
+    const filtered = filterEvents(currentCityEvents, { query: searchQuery })
 
     setFilteredEvents(filtered)
 
@@ -594,6 +660,7 @@ export default function Home() {
       setSidebarEvents(filtered)
       setSidebarTitle(`Search: "${searchQuery}"`)
       setSidebarVisible(true)
+      setShowNearbyEvents(false)
     } else {
       // Close sidebar when search is cleared
       setSidebarVisible(false)
@@ -624,6 +691,7 @@ export default function Home() {
   const handleEventSelect = (event: Event) => {
     setSelectedEvent(event)
     setSelectedCluster(null)
+    recordEventInteraction(event, 'click')
 
     // Highlight the event marker immediately
     if (clusteringSystem.current) {
@@ -772,26 +840,32 @@ export default function Home() {
         console.log(`     ${i + 1}. ${r.coords.latitude.toFixed(6)}, ${r.coords.longitude.toFixed(6)} (${r.coords.accuracy.toFixed(1)}m)`)
       })
 
-      // Fly to USER'S ACTUAL location
-      map.current.flyTo({
-        center: [userLng, userLat],
-        zoom: 17, // Zoom in very close for street-level view
-        duration: 2000,
-        pitch: 45,
-        essential: true
-      })
+      // Frame the search radius around the user's actual location
+      const radiusBbox = getBboxAroundPoint(userLat, userLng, DEFAULT_NEARBY_RADIUS_KM)
+      map.current.fitBounds(
+        [[radiusBbox.west, radiusBbox.south], [radiusBbox.east, radiusBbox.north]],
+        { duration: 2000, pitch: 45, padding: 60, essential: true }
+      )
 
       // Show accuracy indicator
       if (mostAccurate.coords.accuracy > 50) {
         console.warn(`⚠️ Location accuracy is low (${mostAccurate.coords.accuracy.toFixed(1)}m). Consider moving outside for better GPS signal.`)
       }
 
+      const results = await fetchNearbyEvents({ lat: userLat, lng: userLng }, { radiusKm: DEFAULT_NEARBY_RADIUS_KM })
+      console.log(`📍 ${results.length} events within ${DEFAULT_NEARBY_RADIUS_KM}km`)
+
+      setNearbyResults(results)
+      setNearbyOrigin([userLng, userLat])
+      setShowNearbyEvents(true)
       setIsLocating(false)
     } catch (error: any) {
       console.error('❌ Location error:', error)
 
       let errorMessage = 'Could not get your location. '
-      if (error.code === 1) {
+      if (error.code === undefined) {
+        errorMessage = 'Could not load events near you. Please try again.'
+      } else if (error.code === 1) {
         errorMessage += 'Please enable location services in your browser.'
       } else if (error.code === 2) {
         errorMessage += 'Location unavailable. Please check your GPS signal.'
@@ -804,13 +878,297 @@ export default function Home() {
     }
   }
 
+  const nearbyEvents = useMemo(() => nearbyResults.map(result => result.event), [nearbyResults])
+
+  // Walking time and start for each nearby result, shown above its card
+  const nearbyLabels = useMemo(
+    () => new Map(nearbyResults.map(result => [result.event.id, formatNearbyLabel(result)])),
+    [nearbyResults]
+  )
+
+  // Radius ring around where the nearby results were searched from
+  // (not the live position: while tracking, the results don't move with the user)
+  useEffect(() => {
+    const mapInstance = map.current
+    if (!mapInstance || !isMapLoaded) return
+
+    const ringLayers = ['nearby-radius-line', 'nearby-radius-fill']
+    ringLayers.forEach(layerId => {
+      if (mapInstance.getLayer(layerId)) mapInstance.removeLayer(layerId)
+    })
+    if (mapInstance.getSource('nearby-radius')) mapInstance.removeSource('nearby-radius')
+
+    if (!showNearbyEvents || !nearbyOrigin) return
+
+    const [lng, lat] = nearbyOrigin
+    mapInstance.addSource('nearby-radius', {
+      type: 'geojson',
+      data: {
+        type: 'Feature',
+        properties: {},
+        geometry: { type: 'Polygon', coordinates: [getCircleRing(lat, lng, DEFAULT_NEARBY_RADIUS_KM)] }
+      }
+    })
+    mapInstance.addLayer({
+      id: 'nearby-radius-fill',
+      type: 'fill',
+      source: 'nearby-radius',
+      paint: { 'fill-color': '#00ffff', 'fill-opacity': 0.06 }
+    })
+    mapInstance.addLayer({
+      id: 'nearby-radius-line',
+      type: 'line',
+      source: 'nearby-radius',
+      paint: { 'line-color': '#00ffff', 'line-width': 2, 'line-dasharray': [2, 2], 'line-opacity': 0.8 }
+    })
+  }, [showNearbyEvents, nearbyOrigin, isMapLoaded])
+
+  // Load saves/skips (merging local history into the account on sign-in)
+  useEffect(() => {
+    loadSwipeHistory(userId)
+      .then(history => {
+        swipeHistoryLoaded.current = true
+        setSwipeHistory(history)
+      })
+      .catch(error => console.error('Error loading swipe history:', error))
+  }, [userId])
+
+  // Saved ids across all cities; saved events are the ones loaded for this city
+  const savedEventIds = useMemo(() => getSavedEventIds(swipeHistory), [swipeHistory])
+  const savedEvents = useMemo(() => {
+    const ids = new Set(savedEventIds)
+    return currentCityEvents.filter(e => ids.has(e.id))
+  }, [savedEventIds, currentCityEvents])
+
+  // Load this city's saved events the capped city load left out, so the saved list and geofence alerts include them
+  useEffect(() => {
+    const city = currentCity
+    if (!city || cityEventsSlug.current !== city.slug || offlineSavedAt || !navigator.onLine) return
+
+    const loaded = new Set(currentCityEvents.map(e => e.id))
+    const missing = savedEventIds
+      .filter(id => !loaded.has(id) && !requestedSavedIds.current.has(id))
+      .slice(0, MAX_SAVED_EVENTS)
+    if (missing.length === 0) return
+    missing.forEach(id => requestedSavedIds.current.add(id))
+
+    fetchEventsByIds(city.slug, missing).then(events => {
+      if (currentCityRef.current?.slug === city.slug) addCityEvents(events)
+    })
+  }, [currentCity, currentCityEvents, savedEventIds, offlineSavedAt, addCityEvents])
+
+  // Clicks and dwell time stay on this device
+  useEffect(() => {
+    saveInteractionLog(interactionLog)
+  }, [interactionLog])
+
+  const recordEventInteraction = (event: Event, kind: InteractionKind, dwellMs?: number) => {
+    setInteractionLog(log => recordInteraction(log, event, kind, { dwellMs, neighborhoods }))
+  }
+  const recordEventInteractionRef = useRef(recordEventInteraction)
+  recordEventInteractionRef.current = recordEventInteraction
+
+  // Time spent on the selected event counts as interest once it's deselected
+  useEffect(() => {
+    if (!selectedEvent) return
+    const openedAt = Date.now()
+    return () => recordEventInteractionRef.current(selectedEvent, 'dwell', Date.now() - openedAt)
+  }, [selectedEvent])
+
+  // "For You": affinities learned from saves, skips, clicks and dwell time
+  const affinityProfile = useMemo(
+    () => buildAffinityProfile(swipeHistory, interactionLog, currentCityEvents, { neighborhoods }),
+    [swipeHistory, interactionLog, currentCityEvents, neighborhoods]
+  )
+
+  const getRecommendations = useCallback(
+    (events: Event[]) => rankForYou(events, affinityProfile, neighborhoods),
+    [affinityProfile, neighborhoods]
+  )
+
+  // Keep the subscribable calendar feed in sync with saved events
+  useEffect(() => {
+    if (savedEventIds.length === 0) return
+
+    syncSavedCalendarFeed(savedEventIds).then(feedUrl => {
+      if (feedUrl) setSavedCalendarFeedUrl(feedUrl)
+    })
+  }, [savedEventIds])
+
+  const handleToggleTracking = () => {
+    if (!isTracking && !navigator.geolocation) {
+      alert('Geolocation is not supported by your browser')
+      return
+    }
+    setIsTracking(!isTracking)
+  }
+
+  const dismissGeofenceAlert = useCallback(() => setGeofenceAlert(null), [])
+
+  // Follow the user while tracking, recentering only once they near the edge of the view
+  useEffect(() => {
+    if (!isTracking) return
+
+    console.log('📡 Live tracking started')
+    const monitor = geofenceMonitor.current
+
+    const stopWatching = watchUserPosition(
+      position => {
+        setUserLocation([position.lng, position.lat])
+
+        const mapInstance = map.current
+        const bounds = mapInstance?.getBounds()
+        if (!mapInstance || !bounds || mapInstance.isMoving()) return
+
+        if (shouldRecenter(position, [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()])) {
+          isUserInitiatedMove.current = false
+          mapInstance.easeTo({ center: [position.lng, position.lat], duration: 1000, essential: true })
+        }
+      },
+      error => {
+        console.error('❌ Live tracking error:', error.message)
+        if (error.code === 1) {
+          alert('Live tracking needs location access. Please enable location services in your browser.')
+          setIsTracking(false)
+        }
+      }
+    )
+
+    return () => {
+      stopWatching()
+      monitor.reset()
+      console.log('📡 Live tracking stopped')
+    }
+  }, [isTracking])
+
+  // "You're near something": entering a neighborhood with saved or trending events starting soon
+  const savedEventIdSet = useMemo(() => new Set(savedEventIds), [savedEventIds])
+  useEffect(() => {
+    if (!isTracking || !userLocation || !neighborhoods) return
+
+    const [lng, lat] = userLocation
+    const nearbyAlert = geofenceMonitor.current.update({ lat, lng }, neighborhoods, currentCityEvents, savedEventIdSet)
+    if (nearbyAlert) {
+      console.log(`🔔 ${nearbyAlert.message}`)
+      setGeofenceAlert(nearbyAlert)
+    }
+  }, [isTracking, userLocation, neighborhoods, currentCityEvents, savedEventIdSet])
+
+  // User position dot
+  useEffect(() => {
+    if (!map.current || !isMapLoaded || !userLocation) {
+      userMarker.current?.remove()
+      userMarker.current = null
+      return
+    }
+
+    if (userMarker.current) {
+      userMarker.current.setLngLat(userLocation)
+    } else {
+      const el = document.createElement('div')
+      el.className = 'user-location-marker'
+      userMarker.current = new mapboxgl.Marker({ element: el }).setLngLat(userLocation).addTo(map.current)
+    }
+  }, [userLocation, isMapLoaded])
+
+  // Offline support: app shell and map tile caching
+  useEffect(() => {
+    if (!isServiceWorkerSupported()) return
+
+    registerServiceWorker()
+      .then(precacheLoadedAssets)
+      .catch(error => console.warn('Could not register service worker:', (error as Error).message))
+  }, [])
+
+  // Keep saved events available offline (only once the history has loaded, so nothing is dropped)
+  useEffect(() => {
+    if (!isOfflineStoreAvailable() || !swipeHistoryLoaded.current) return
+
+    saveOfflineSavedEvents(savedEvents, savedEventIds)
+      .catch(error => console.warn('Could not store saved events for offline use:', (error as Error).message))
+  }, [savedEvents, savedEventIds])
+
+  // Back online: upload swipes made offline and replace stored city data with fresh data
+  const handleReconnect = async () => {
+    if (userId) {
+      try {
+        await syncLocalSwipes(userId)
+        setHasPendingSwipes(false)
+      } catch (error) {
+        console.error('Error syncing offline swipes:', error)
+      }
+    }
+
+    if (offlineSavedAt && currentCity) {
+      const { data: cityEvents, offlineSavedAt: savedAt } = await fetchCityEvents(currentCity.slug)
+      if (savedAt) return
+
+      setCurrentCityEvents(cityEvents)
+      requestedSavedIds.current.clear()
+      setOfflineSavedAt(null)
+      if (clusteringSystem.current) {
+        clusteringSystem.current.setEvents(cityEvents)
+        clusteringSystem.current.update()
+      }
+      console.log(`🌐 Back online: reloaded ${cityEvents.length} events for ${currentCity.name}`)
+    }
+  }
+  const handleReconnectRef = useRef(handleReconnect)
+  handleReconnectRef.current = handleReconnect
+
+  useEffect(() => {
+    const reconnect = () => handleReconnectRef.current()
+    window.addEventListener('online', reconnect)
+    const stopListening = onSwipeSyncRequested(reconnect)
+    return () => {
+      window.removeEventListener('online', reconnect)
+      stopListening()
+    }
+  }, [])
+
+  // Pick up notifications turned on in an earlier visit
+  useEffect(() => {
+    getPushSubscription()
+      .then(setPushSubscription)
+      .catch(error => console.warn('Could not check push subscription:', (error as Error).message))
+  }, [])
+
+  // Keep the push subscription's saved events in sync, like the calendar feed
+  useEffect(() => {
+    if (!pushSubscription) return
+
+    syncPushSubscription(pushSubscription, savedEventIds)
+      .catch(error => console.error('Error syncing push subscription:', error))
+  }, [pushSubscription, savedEventIds])
+
+  const handleTogglePush = async () => {
+    try {
+      if (pushSubscription) {
+        await disablePushNotifications()
+        setPushSubscription(null)
+        console.log('🔕 Saved event reminders turned off')
+        return
+      }
+
+      const subscription = await enablePushNotifications(savedEventIds)
+      if (!subscription) {
+        alert('Notifications are blocked. Allow them in your browser settings to get reminders.')
+        return
+      }
+      setPushSubscription(subscription)
+      console.log('🔔 Saved event reminders turned on')
+    } catch (error) {
+      console.error('❌ Push notification error:', error)
+      alert((error as Error).message)
+    }
+  }
+
   const handleShowSavedEvents = () => {
-    // For now, just show all events - in real app this would be user's saved events
-    console.log('Showing saved events (mock: all events)')
+    console.log(`Showing ${savedEvents.length} saved events`)
 
-    if (map.current && filteredEvents.length > 0) {
-      const lngs = filteredEvents.map(e => e.longitude)
-      const lats = filteredEvents.map(e => e.latitude)
+    if (map.current && savedEvents.length > 0) {
+      const lngs = savedEvents.map(e => e.longitude)
+      const lats = savedEvents.map(e => e.latitude)
 
       const bounds: [number, number, number, number] = [
         Math.min(...lngs) - 0.01,
@@ -840,13 +1198,23 @@ export default function Home() {
     }
   }
 
+  const recordEventSwipe = (event: Event, action: SwipeAction) => {
+    const entry = { eventId: event.id, action, updatedAt: new Date().toISOString() }
+    const nextHistory = recordSwipe(swipeHistory, entry)
+    setSwipeHistory(nextHistory)
+    persistSwipe(userId, entry, nextHistory)
+    recordEventInteraction(event, 'swipe')
+    if (userId && !navigator.onLine) setHasPendingSwipes(true)
+  }
+
   // Mobile-specific handlers
   const handleEventSave = (event: Event) => {
-    setSavedEvents(prev => [...prev, event])
+    recordEventSwipe(event, 'saved')
     console.log('💾 Event saved:', event.title)
   }
 
   const handleEventSkip = (event: Event) => {
+    recordEventSwipe(event, 'skipped')
     console.log('⏭️ Event skipped:', event.title)
   }
 
@@ -862,8 +1230,8 @@ export default function Home() {
   }
 
   // Handle visualization mode changes
-  const handleVisualizationModeChange = async (mode: VisualizationMode) => {
-    if (!map.current || !currentCity) return
+  const handleVisualizationModeChange = async (mode: VisualizationMode, city: City | null = currentCity) => {
+    if (!map.current || !city) return
 
     setVisualizationMode(mode)
     console.log(`🎨 Switching to ${mode} mode`)
@@ -888,13 +1256,15 @@ export default function Home() {
       try {
         console.log(`🔍 Fetching ${mode} heatmap data...`)
 
-        const response = await fetch(`/api/venues/heatmap?citySlug=${currentCity.slug}&mode=${mode}`)
-        if (!response.ok) {
-          throw new Error(`Failed to fetch heatmap data: ${response.statusText}`)
-        }
-
-        const data = await response.json()
-        console.log(`✅ Loaded ${data.count} heatmap points for ${mode} mode`)
+        // Venue heatmaps are stored per mode for offline use
+        const { data } = await withOfflineFallback(city.slug, `venues-${mode}`, async () => {
+          const response = await fetch(`/api/venues/heatmap?citySlug=${city.slug}&mode=${mode}`)
+          if (!response.ok) {
+            throw new Error(`Failed to fetch heatmap data: ${response.statusText}`)
+          }
+          return response.json()
+        })
+        console.log(`✅ Loaded ${data.count} heatmap points for ${mode} mode${data.updatedAt ? ` (${formatUpdatedAgo(data.updatedAt)})` : ''}`)
 
         // Create GeoJSON for heatmap
         const geojson = {
@@ -1030,6 +1400,82 @@ export default function Home() {
     }
   }
 
+  // Bring the page to a URL state: a shared link on load (with the city and events just loaded)
+  // or a back/forward navigation. Kept in a ref so the map setup and popstate listener call the latest version.
+  const applyUrlStateRef = useRef<(state: UrlState, loaded?: { city: City; events: Event[] }) => Promise<void>>(async () => {})
+  applyUrlStateRef.current = async (state, loaded) => {
+    let city = loaded?.city ?? currentCity
+    let events = loaded?.events ?? currentCityEvents
+
+    const urlCity = state.city ? getCityBySlug(state.city) : undefined
+    if (urlCity && urlCity.slug !== city?.slug) {
+      city = urlCity
+      events = await handleCityChange(urlCity)
+    }
+
+    setClusteringMode(state.clustering || DEFAULT_CLUSTERING_MODE)
+    setSearchQuery(state.query || '')
+    setEventFilters(state.filters || {})
+
+    if (state.map && map.current) {
+      isUserInitiatedMove.current = false
+      map.current.jumpTo({ center: [state.map.lng, state.map.lat], zoom: state.map.zoom })
+    }
+
+    const view = state.view || DEFAULT_VISUALIZATION_MODE
+    if (view !== visualizationMode) {
+      await handleVisualizationModeChange(view, city)
+    }
+
+    // Series ids select the series' next occurrence
+    let event = state.event
+      ? events.find(e => e.id === state.event) || events.find(e => e.seriesId === state.event)
+      : undefined
+    if (!event && state.event && city && navigator.onLine) {
+      // Linked events can be outside the city-wide load
+      const [linked] = await fetchEventsByIds(city.slug, [state.event])
+      if (linked) {
+        addCityEvents([linked])
+        event = linked
+      }
+    }
+    if (event) {
+      console.log('🔗 Opening linked event:', event.title)
+      handleEventSelect(event)
+    } else {
+      setSelectedEvent(null)
+    }
+  }
+
+  // Back/forward: apply the URL we navigated to
+  useEffect(() => {
+    const handlePopState = () => {
+      isApplyingUrlState.current = true
+      applyUrlStateRef.current(readUrlState())
+        .catch(error => console.error('❌ Failed to apply URL state:', error))
+        .finally(() => {
+          setTimeout(() => { isApplyingUrlState.current = false }, 0)
+        })
+    }
+
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  // Mirror the shareable state to the URL
+  useEffect(() => {
+    if (!urlRestored) return
+
+    writeUrlState({
+      city: currentCity?.slug,
+      clustering: clusteringMode,
+      view: visualizationMode,
+      query: searchQuery.trim() || undefined,
+      filters: eventFilters,
+      event: selectedEvent?.id
+    }, { replace: isApplyingUrlState.current })
+  }, [urlRestored, currentCity, clusteringMode, visualizationMode, searchQuery, eventFilters, selectedEvent])
+
   // Legacy function for backwards compatibility
   const toggleHeatmapVisibility = (visible: boolean, options?: any) => {
     if (visible) {
@@ -1331,6 +1777,7 @@ export default function Home() {
         setSidebarEvents(eventsInNeighborhood)
         setSidebarTitle(name)
         setSidebarVisible(true)
+        setShowNearbyEvents(false)
 
         // Use event bounds to ensure all events fit in viewport
         const lngs = eventsInNeighborhood.map(ev => ev.longitude)
@@ -1465,16 +1912,19 @@ export default function Home() {
             )}
           </div>
 
-          {/* Compact Search Bar - Right Side */}
-          <div className="w-72">
-            <SearchBar
-              value={searchQuery}
-              onChange={setSearchQuery}
-              placeholder="Search events..."
-              events={currentCityEvents}
-              onEventSelect={handleEventSelect}
-              compact
-            />
+          {/* Compact Search Bar + Account - Right Side */}
+          <div className="flex items-center gap-2">
+            <div className="w-72">
+              <SearchBar
+                value={searchQuery}
+                onChange={setSearchQuery}
+                placeholder="Search events..."
+                events={currentCityEvents}
+                onEventSelect={handleEventSelect}
+                compact
+              />
+            </div>
+            <AccountMenu />
           </div>
         </div>
 
@@ -1490,6 +1940,8 @@ export default function Home() {
 
           {/* Mobile Action Buttons */}
           <div className="flex items-center gap-2">
+            <AccountMenu />
+
             {/* Search Icon Button */}
             <button
               onClick={() => setMobileSearchOpen(true)}
@@ -1547,7 +1999,13 @@ export default function Home() {
             title={searchQuery ? `Search: "${searchQuery}"` : 'Top Events'}
             searchQuery={searchQuery}
             isOpen={sidebarOpen}
+            filters={eventFilters}
+            onFiltersChange={setEventFilters}
+            affinities={affinityProfile}
+            neighborhoods={neighborhoods}
             onEventClick={(event) => {
+              setSelectedEvent(event)
+              recordEventInteraction(event, 'click')
               if (clusteringSystem.current) {
                 clusteringSystem.current.setSelectedEvent(event.id)
               }
@@ -1595,6 +2053,8 @@ export default function Home() {
 
         {/* Visualization Mode Switcher - HIDDEN, modes integrated elsewhere */}
 
+        <OfflineIndicator offlineSavedAt={offlineSavedAt} pendingSync={hasPendingSwipes} />
+
         {/* Map Controls */}
         <MapControls
           clusteringMode={clusteringMode}
@@ -1607,8 +2067,24 @@ export default function Home() {
           onResetToSF={handleResetToSF}
           userLocation={userLocation}
           showNearbyEvents={showNearbyEvents}
+          savedEventIds={savedEventIds}
+          savedCalendarFeedUrl={savedCalendarFeedUrl}
+          isTracking={isTracking}
+          onToggleTracking={handleToggleTracking}
+          pushEnabled={pushSubscription !== null}
+          onTogglePush={isPushSupported() ? handleTogglePush : undefined}
         />
 
+        {/* Live tracking alert */}
+        {geofenceAlert && (
+          <GeofenceAlertToast
+            alert={geofenceAlert}
+            savedEventIds={savedEventIdSet}
+            onEventSelect={handleEventSelect}
+            onDismiss={dismissGeofenceAlert}
+          />
+        )}
+
         {/* Neighborhood Info Panel - REMOVED per user request */}
 
         {/* Holographic Event Card */}
@@ -1656,13 +2132,18 @@ export default function Home() {
           />
         )}
 
-        {/* OLD Event List Sidebar - REPLACED by EventBrowser */}
-        {/* <EventListSidebar
-          events={sidebarEvents}
-          isVisible={sidebarVisible}
-          onClose={() => setSidebarVisible(false)}
-          title={sidebarTitle}
-        /> */}
+        {/* Near Me results - cluster, neighborhood and search results live in EventBrowser */}
+        <EventListSidebar
+          events={nearbyEvents}
+          isVisible={showNearbyEvents}
+          onClose={() => setShowNearbyEvents(false)}
+          title="Near You"
+          ranked
+          getEventLabel={event => nearbyLabels.get(event.id)}
+          emptyMessage={`Nothing starting within ${DEFAULT_NEARBY_RADIUS_KM}km of you in the next few hours`}
+          getRecommendations={getRecommendations}
+          onEventClick={event => recordEventInteraction(event, 'click')}
+        />
         </div>
       </div>
   )
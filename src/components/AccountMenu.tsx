@@ -0,0 +1,192 @@
+'use client'
+
+import { useState } from 'react'
+import { CITIES } from '@/lib/cityDetection'
+import { OAUTH_PROVIDERS, signInWithMagicLink, signInWithOAuth, type OAuthProvider } from '@/lib/auth'
+import { useAuth } from './AuthProvider'
+import { FILTER_CATEGORIES } from './ModernFilterDrawer'
+
+const PRICE_CEILINGS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Any' },
+  { value: 0, label: 'Free' },
+  { value: 20, label: '$20' },
+  { value: 50, label: '$50' },
+  { value: 100, label: '$100' }
+]
+
+export default function AccountMenu() {
+  const { user, profile, loading, updateProfile, signOut } = useAuth()
+  const [isOpen, setIsOpen] = useState(false)
+  const [email, setEmail] = useState('')
+  const [status, setStatus] = useState<string | null>(null)
+
+  const handleMagicLink = async () => {
+    if (!email.trim()) return
+    setStatus(null)
+    try {
+      await signInWithMagicLink(email.trim())
+      setStatus(`Check ${email.trim()} for a sign-in link`)
+    } catch (error) {
+      setStatus((error as Error).message || 'Failed to send sign-in link')
+    }
+  }
+
+  const handleOAuth = async (provider: OAuthProvider) => {
+    setStatus(null)
+    try {
+      await signInWithOAuth(provider)
+    } catch (error) {
+      setStatus((error as Error).message || 'Sign-in failed')
+    }
+  }
+
+  const handleUpdate = (updates: Parameters<typeof updateProfile>[0]) => {
+    updateProfile(updates).catch(error => {
+      console.error('Error saving profile:', error)
+      setStatus('Could not save your preferences')
+    })
+  }
+
+  const handleCategoryToggle = (categoryId: string) => {
+    const current = profile?.preferredCategories || []
+    handleUpdate({
+      preferredCategories: current.includes(categoryId)
+        ? current.filter(c => c !== categoryId)
+        : [...current, categoryId]
+    })
+  }
+
+  if (loading) return null
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center justify-center w-8 h-8 rounded-full bg-gray-800/50 hover:bg-gray-800 border border-gray-700 transition-colors text-xs font-semibold text-gray-200"
+        aria-label={user ? 'Account' : 'Sign in'}
+      >
+        {user ? (user.email?.[0] || '?').toUpperCase() : (
+          <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+          </svg>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full mt-2 right-0 w-72 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-50 p-4 space-y-4">
+          {!user ? (
+            <>
+              <div>
+                <div className="text-sm font-medium text-gray-200 mb-2">Sign in to keep your saves and preferences</div>
+                <div className="flex gap-2">
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleMagicLink()}
+                    placeholder="you@example.com"
+                    className="flex-1 min-w-0 px-3 py-2 text-sm rounded-lg bg-gray-900 border border-gray-700 text-gray-200 placeholder-gray-500 focus:outline-none focus:border-cyan-500"
+                  />
+                  <button
+                    onClick={handleMagicLink}
+                    className="px-3 py-2 text-sm rounded-lg bg-cyan-500/20 border border-cyan-400/50 text-cyan-300 hover:bg-cyan-500/30 transition-colors"
+                  >
+                    Send link
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {OAUTH_PROVIDERS.map(provider => (
+                  <button
+                    key={provider.id}
+                    onClick={() => handleOAuth(provider.id)}
+                    className="w-full px-3 py-2 text-sm rounded-lg bg-gray-900 border border-gray-700 text-gray-300 hover:bg-gray-700 transition-colors"
+                  >
+                    Continue with {provider.label}
+                  </button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="text-sm text-gray-300 truncate">{profile?.displayName || user.email}</div>
+
+              <div>
+                <div className="text-xs font-semibold text-gray-400 mb-1.5">Home city</div>
+                <select
+                  value={profile?.homeCitySlug || ''}
+                  onChange={(e) => handleUpdate({ homeCitySlug: e.target.value || null })}
+                  className="w-full px-3 py-2 text-sm rounded-lg bg-gray-900 border border-gray-700 text-gray-200"
+                >
+                  <option value="">Detect automatically</option>
+                  {CITIES.filter(c => c.active).map(city => (
+                    <option key={city.id} value={city.slug}>{city.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <div className="text-xs font-semibold text-gray-400 mb-1.5">Favorite categories</div>
+                <div className="flex flex-wrap gap-1.5">
+                  {FILTER_CATEGORIES.map(category => {
+                    const isActive = profile?.preferredCategories.includes(category.id)
+                    return (
+                      <button
+                        key={category.id}
+                        onClick={() => handleCategoryToggle(category.id)}
+                        className={`px-2.5 py-1 rounded-full text-xs transition-colors ${
+                          isActive
+                            ? 'bg-cyan-500/20 border border-cyan-400/50 text-cyan-300'
+                            : 'bg-gray-900 border border-gray-700 text-gray-400 hover:bg-gray-700'
+                        }`}
+                      >
+                        {category.icon} {category.label}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <div className="text-xs font-semibold text-gray-400 mb-1.5">Max ticket price</div>
+                <div className="flex gap-1.5">
+                  {PRICE_CEILINGS.map(option => (
+                    <button
+                      key={option.label}
+                      onClick={() => handleUpdate({ priceCeiling: option.value })}
+                      className={`flex-1 px-2 py-1 rounded-lg text-xs transition-colors ${
+                        (profile?.priceCeiling ?? null) === option.value
+                          ? 'bg-cyan-500/20 border border-cyan-400/50 text-cyan-300'
+                          : 'bg-gray-900 border border-gray-700 text-gray-400 hover:bg-gray-700'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <button
+                onClick={() => signOut().catch(error => console.error('Error signing out:', error))}
+                className="w-full px-3 py-2 text-sm rounded-lg bg-red-500/10 border border-red-500/30 text-red-300 hover:bg-red-500/20 transition-colors"
+              >
+                Sign out
+              </button>
+            </>
+          )}
+
+          {status && <div className="text-xs text-gray-400">{status}</div>}
+        </div>
+      )}
+
+      {/* Click outside to close */}
+      {isOpen && (
+        <div
+          className="fixed inset-0 z-40"
+          onClick={() => setIsOpen(false)}
+        />
+      )}
+    </div>
+  )
+}
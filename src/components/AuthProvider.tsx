@@ -0,0 +1,96 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useState } from 'react'
+import type { Session, User } from '@supabase/supabase-js'
+import { fetchProfile, getSession, onAuthStateChange, signOut as authSignOut, updateProfile as saveProfile, type ProfileUpdate } from '@/lib/auth'
+import type { UserProfile } from '@/types'
+
+interface AuthContextValue {
+  session: Session | null
+  user: User | null
+  profile: UserProfile | null
+  loading: boolean // True until the stored session has been checked
+  updateProfile: (updates: ProfileUpdate) => Promise<void>
+  signOut: () => Promise<void>
+}
+
+const AuthContext = createContext<AuthContextValue>({
+  session: null,
+  user: null,
+  profile: null,
+  loading: false,
+  updateProfile: async () => {},
+  signOut: async () => {}
+})
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null)
+  const [profile, setProfile] = useState<UserProfile | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const userId = session?.user.id ?? null
+
+  // Restore the stored session and follow sign-in/sign-out
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined
+    let cancelled = false
+
+    getSession()
+      .then(stored => {
+        if (!cancelled) setSession(stored)
+      })
+      .catch(error => console.error('Error restoring session:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    onAuthStateChange(next => setSession(next))
+      .then(off => {
+        if (cancelled) off()
+        else unsubscribe = off
+      })
+      .catch(error => console.error('Error subscribing to auth changes:', error))
+
+    return () => {
+      cancelled = true
+      unsubscribe?.()
+    }
+  }, [])
+
+  // Load the profile whenever the signed-in user changes
+  useEffect(() => {
+    if (!userId) {
+      setProfile(null)
+      return
+    }
+
+    fetchProfile(userId)
+      .then(loaded => {
+        setProfile(loaded)
+        console.log('👤 Profile loaded')
+      })
+      .catch(error => console.error('Error loading profile:', error))
+  }, [userId])
+
+  const updateProfile = useCallback(async (updates: ProfileUpdate) => {
+    if (!userId) return
+    setProfile(await saveProfile(userId, updates))
+  }, [userId])
+
+  const signOut = useCallback(async () => {
+    await authSignOut()
+    setSession(null)
+  }, [])
+
+  return (
+    <AuthContext.Provider
+      value={{ session, user: session?.user ?? null, profile, loading, updateProfile, signOut }}
+    >
+      {children}
+    </AuthContext.Provider>
+  )
+}
+
+export function useAuth() {
+  return useContext(AuthContext)
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { CITIES, getOrDetectCity, saveSelectedCity, type City } from '@/lib/cityDetection'
+import { useAuth } from './AuthProvider'
 
 interface CitySwitcherProps {
   onCityChange: (city: City) => void
@@ -11,6 +12,13 @@ interface CitySwitcherProps {
 export default function CitySwitcher({ onCityChange, currentCity }: CitySwitcherProps) {
   const [selectedCity, setSelectedCity] = useState<City | null>(currentCity || null)
   const [isOpen, setIsOpen] = useState(false)
+  const { profile } = useAuth()
+  const homeCitySlug = profile?.homeCitySlug
+
+  // Follow city changes made elsewhere (e.g. the profile's home city)
+  useEffect(() => {
+    if (currentCity) setSelectedCity(currentCity)
+  }, [currentCity])
 
   useEffect(() => {
     if (!selectedCity) {
@@ -65,7 +73,12 @@ export default function CitySwitcher({ onCityChange, currentCity }: CitySwitcher
                   : 'text-gray-300 hover:bg-gray-700'
               }`}
             >
-              <div className="font-medium">{city.name}</div>
+              <div className="font-medium">
+                {city.name}
+                {city.slug === homeCitySlug && (
+                  <span className="ml-1.5 text-xs text-gray-400">🏠 Home</span>
+                )}
+              </div>
               {city.slug === selectedCity.slug && (
                 <div className="text-xs text-cyan-400 mt-0.5">Current location</div>
               )}
@@ -1,73 +1,79 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import type { NextDeparture } from '@/lib/transit'
+import { fetchCityWeather, type CurrentWeather } from '@/lib/weather'
 
 interface ContextBarProps {
   className?: string
-}
-
-interface WeatherData {
-  temp: number
-  condition: string
-  icon: string
-  rainIn?: number // minutes until rain
+  citySlug?: string // Shows the city's current weather when set
+  location?: [number, number] | null // [lng, lat]; shows the nearest transit stop when set
 }
 
 interface TransitData {
-  status: string
-  delays?: number // minutes
-  alerts?: string[]
+  stopName: string
+  walkMinutes: number
+  next?: NextDeparture
 }
 
-export default function ContextBar({ className = '' }: ContextBarProps) {
-  const [weather, setWeather] = useState<WeatherData>({
-    temp: 68,
-    condition: 'Clear',
-    icon: '☀️'
-  })
-  const [transit, setTransit] = useState<TransitData>({
-    status: 'Normal',
-  })
+export default function ContextBar({ className = '', citySlug, location }: ContextBarProps) {
+  const [weather, setWeather] = useState<CurrentWeather | null>(null)
+  const [transit, setTransit] = useState<TransitData | null>(null)
   const [isCollapsed, setIsCollapsed] = useState(false)
 
-  // TODO: Replace with real API calls
-  // For now, using mock data with realistic updates
+  // Current conditions from the city's hourly forecast, refreshed every 5 minutes
+  useEffect(() => {
+    if (!citySlug) {
+      setWeather(null)
+      return
+    }
+
+    const loadWeather = () => {
+      fetchCityWeather(citySlug)
+        .then(({ current }) => setWeather(current))
+        .catch(error => console.warn('Could not load weather:', (error as Error).message))
+    }
+
+    loadWeather()
+    const weatherInterval = setInterval(loadWeather, 300000) // 5 minutes
+    return () => clearInterval(weatherInterval)
+  }, [citySlug])
+
+  // Nearest stop and its next departure from the GTFS schedule, refreshed every minute
+  const locationKey = location ? `${location[1]},${location[0]}` : null
   useEffect(() => {
-    // Simulate weather updates every 5 minutes
-    const weatherInterval = setInterval(() => {
-      const hour = new Date().getHours()
-      const isClear = hour >= 6 && hour < 18
-
-      setWeather({
-        temp: 65 + Math.floor(Math.random() * 10),
-        condition: isClear ? 'Clear' : 'Partly Cloudy',
-        icon: isClear ? '☀️' : '🌤️',
-        rainIn: Math.random() > 0.7 ? 20 + Math.floor(Math.random() * 40) : undefined
-      })
-    }, 300000) // 5 minutes
-
-    // Simulate transit updates
-    const transitInterval = setInterval(() => {
-      const hasDelays = Math.random() > 0.8
-      setTransit({
-        status: hasDelays ? 'Delays' : 'Normal',
-        delays: hasDelays ? 5 + Math.floor(Math.random() * 20) : undefined
-      })
-    }, 60000) // 1 minute
-
-    return () => {
-      clearInterval(weatherInterval)
-      clearInterval(transitInterval)
+    if (!locationKey) {
+      setTransit(null)
+      return
+    }
+
+    const [lat, lng] = locationKey.split(',')
+    const loadTransit = () => {
+      fetch(`/api/transit/nearby?lat=${lat}&lng=${lng}&limit=1`)
+        .then(response => (response.ok ? response.json() : null))
+        .then(data => {
+          const stop = data?.stops?.[0]
+          setTransit(stop ? { stopName: stop.name, walkMinutes: stop.walkMinutes, next: stop.departures[0] } : null)
+        })
+        .catch(error => console.warn('Could not load nearby transit:', (error as Error).message))
     }
-  }, [])
+
+    loadTransit()
+    const transitInterval = setInterval(loadTransit, 60000) // 1 minute
+    return () => clearInterval(transitInterval)
+  }, [locationKey])
 
   // Auto-collapse on mobile if everything is normal
   useEffect(() => {
     const isMobile = window.innerWidth < 768
-    if (isMobile && !weather.rainIn && !transit.delays) {
+    if (isMobile && !weather?.rainIn) {
       setIsCollapsed(true)
     }
-  }, [weather.rainIn, transit.delays])
+  }, [weather?.rainIn])
+
+  const nextDepartureMinutes = transit?.next
+    ? Math.max(0, Math.round((new Date(transit.next.departsAt).getTime() - Date.now()) / 60000))
+    : null
 
   if (isCollapsed) {
     return (
@@ -75,10 +81,14 @@ export default function ContextBar({ className = '' }: ContextBarProps) {
         onClick={() => setIsCollapsed(false)}
         className={`flex items-center gap-2 px-3 py-1.5 bg-gray-900/60 backdrop-blur-sm border border-cyan-500/20 rounded-full text-xs text-gray-300 hover:bg-gray-800/60 transition-all ${className}`}
       >
-        <span>{weather.icon}</span>
-        <span>{weather.temp}°F</span>
-        {transit.status !== 'Normal' && (
-          <span className="text-orange-400">🚇</span>
+        {weather && (
+          <>
+            <span>{weather.icon}</span>
+            <span>{weather.temperatureF}°F</span>
+          </>
+        )}
+        {transit?.next && (
+          <span className="text-cyan-300">🚇 {nextDepartureMinutes}min</span>
         )}
         <span className="text-cyan-400">▼</span>
       </button>
@@ -96,39 +106,47 @@ export default function ContextBar({ className = '' }: ContextBarProps) {
         }}
       >
         {/* Weather Info */}
-        <div className="flex items-center gap-2">
-          <span className="text-lg">{weather.icon}</span>
-          <div className="flex items-center gap-1">
-            <span className="font-semibold text-white">{weather.temp}°F</span>
-            <span className="text-gray-400">·</span>
-            <span className="text-gray-300">{weather.condition}</span>
-          </div>
-          {weather.rainIn && (
-            <div className="flex items-center gap-1 px-2 py-0.5 bg-blue-500/20 border border-blue-500/30 rounded-full">
-              <span>🌧️</span>
-              <span className="text-blue-300 font-medium">Rain in {weather.rainIn}min</span>
+        {weather && (
+          <div className="flex items-center gap-2">
+            <span className="text-lg">{weather.icon}</span>
+            <div className="flex items-center gap-1">
+              <span className="font-semibold text-white">{weather.temperatureF}°F</span>
+              <span className="text-gray-400">·</span>
+              <span className="text-gray-300">{weather.condition}</span>
             </div>
-          )}
-        </div>
-
-        {/* Divider */}
-        <div className="hidden sm:block w-px h-4 bg-cyan-500/20" />
-
-        {/* Transit Info */}
-        <div className="flex items-center gap-2">
-          <span className="text-lg">🚇</span>
-          <div className="flex items-center gap-1">
-            <span className={`font-medium ${transit.status === 'Normal' ? 'text-green-400' : 'text-orange-400'}`}>
-              {transit.status === 'Normal' ? 'BART Normal' : 'BART Delays'}
-            </span>
-            {transit.delays && (
-              <>
-                <span className="text-gray-400">·</span>
-                <span className="text-orange-300">{transit.delays}min delays</span>
-              </>
+            {weather.rainIn !== undefined && (
+              <div className="flex items-center gap-1 px-2 py-0.5 bg-blue-500/20 border border-blue-500/30 rounded-full">
+                <span>🌧️</span>
+                <span className="text-blue-300 font-medium">Rain in {weather.rainIn}min</span>
+              </div>
             )}
           </div>
-        </div>
+        )}
+
+        {transit && (
+          <>
+            {/* Divider */}
+            <div className="hidden sm:block w-px h-4 bg-cyan-500/20" />
+
+            {/* Transit Info */}
+            <div className="flex items-center gap-2">
+              <span className="text-lg">🚇</span>
+              <div className="flex items-center gap-1">
+                <span className="font-medium text-green-400">{transit.stopName}</span>
+                <span className="text-gray-400">·</span>
+                <span className="text-gray-300">{transit.walkMinutes} min walk</span>
+                {transit.next && (
+                  <>
+                    <span className="text-gray-400">·</span>
+                    <span className="text-cyan-300">
+                      {transit.next.routeName} in {nextDepartureMinutes}min
+                    </span>
+                  </>
+                )}
+              </div>
+            </div>
+          </>
+        )}
 
         {/* Collapse button - Desktop only */}
         <button
@@ -140,9 +158,9 @@ export default function ContextBar({ className = '' }: ContextBarProps) {
       </div>
 
       {/* Impact indicator - show when rain affects events */}
-      {weather.rainIn && weather.rainIn < 30 && (
+      {weather?.rainIn !== undefined && weather.rainIn < 30 && (
         <div className="mt-2 px-3 py-1.5 rounded-lg bg-blue-500/10 border border-blue-500/20 text-xs text-blue-300">
-          💡 Showing +40% indoor events due to incoming rain
+          💡 Rain is on the way - outdoor events may be affected
         </div>
       )}
     </div>
@@ -12,6 +12,8 @@ import {
   MapIcon
 } from '@heroicons/react/24/outline'
 import { generateMockHeatmapData, getLocationIntensity } from '@/lib/mockHeatmapData'
+import { detectNearestCity } from '@/lib/cityDetection'
+import { fetchCityWeather, type CurrentWeather } from '@/lib/weather'
 
 interface DevStatsPanelProps {
   isMapLoaded: boolean
@@ -31,7 +33,7 @@ export function DevStatsPanel({
   heatmapVisible = false
 }: DevStatsPanelProps) {
   const [isVisible, setIsVisible] = useState(true)
-  const [currentWeather, setCurrentWeather] = useState<string>('sunny')
+  const [weather, setWeather] = useState<CurrentWeather | null>(null)
   const [eventDensity, setEventDensity] = useState<'low' | 'medium' | 'high'>('medium')
   const [timeOfDay, setTimeOfDay] = useState<'day' | 'night'>('day')
   const [heatmapIntensity, setHeatmapIntensity] = useState<number>(0)
@@ -45,14 +47,14 @@ export function DevStatsPanel({
   const [heatmapBlur, setHeatmapBlur] = useState<number>(15)
   const [showAdvancedControls, setShowAdvancedControls] = useState(false)
 
-  // Simulate weather changes for testing
-  const toggleWeather = () => {
-    const weathers = ['sunny', 'cloudy', 'rainy', 'foggy']
-    const currentIndex = weathers.indexOf(currentWeather)
-    const nextWeather = weathers[(currentIndex + 1) % weathers.length]
-    setCurrentWeather(nextWeather)
-    console.log(`🌤️ Weather changed to: ${nextWeather}`)
-  }
+  // Live weather for the city nearest the user (fixture forecasts with DATA_PROVIDER=fixture)
+  const weatherCitySlug = userLocation ? detectNearestCity(userLocation[1], userLocation[0]).slug : null
+  useEffect(() => {
+    if (!weatherCitySlug) return
+    fetchCityWeather(weatherCitySlug)
+      .then(({ current }) => setWeather(current))
+      .catch(error => console.warn('Could not load weather:', (error as Error).message))
+  }, [weatherCitySlug])
 
   // Simulate density changes
   const toggleDensity = () => {
@@ -185,16 +187,6 @@ export function DevStatsPanel({
 
   if (!isMapLoaded) return null
 
-  const getWeatherIcon = () => {
-    switch (currentWeather) {
-      case 'sunny': return '☀️'
-      case 'cloudy': return '☁️'
-      case 'rainy': return '🌧️'
-      case 'foggy': return '🌫️'
-      default: return '☀️'
-    }
-  }
-
   const getDensityColor = () => {
     switch (eventDensity) {
       case 'low': return 'text-green-400'
@@ -304,20 +296,23 @@ export function DevStatsPanel({
         <div className="space-y-2">
           <div className="text-xs font-medium text-gray-300 mb-1">Testing Controls</div>
 
-          {/* Weather Toggle */}
-          <button
-            onClick={toggleWeather}
-            className="w-full flex items-center justify-between px-2 py-1.5 bg-gray-800/50 hover:bg-gray-700/50 rounded text-xs transition-colors"
-          >
+          {/* Weather */}
+          <div className="w-full flex items-center justify-between px-2 py-1.5 bg-gray-800/50 rounded text-xs">
             <div className="flex items-center space-x-2">
               <CloudIcon className="h-3 w-3 text-blue-400" />
               <span className="text-white">Weather</span>
             </div>
             <div className="flex items-center space-x-1">
-              <span>{getWeatherIcon()}</span>
-              <span className="text-gray-300 capitalize">{currentWeather}</span>
+              {weather ? (
+                <>
+                  <span>{weather.icon}</span>
+                  <span className="text-gray-300">{weather.temperatureF}°F · {weather.condition}</span>
+                </>
+              ) : (
+                <span className="text-gray-500">{userLocation ? 'Loading…' : 'Needs location'}</span>
+              )}
             </div>
-          </button>
+          </div>
 
           {/* Density Toggle */}
           <button
@@ -527,7 +522,7 @@ export function DevStatsPanel({
 
         {/* Future Integration Placeholders */}
         <div className="mt-3 pt-2 border-t border-gray-700">
-          <div className="text-xs text-gray-500">Coming Soon: Live weather API, map visualization, real-time sync</div>
+          <div className="text-xs text-gray-500">Coming Soon: Map visualization, real-time sync</div>
         </div>
       </div>
     </div>
@@ -3,10 +3,21 @@
 import { useState, useEffect, useMemo } from 'react'
 import { Drawer } from 'vaul'
 import { SlidersHorizontal } from 'lucide-react'
-import type { Event } from '@/types'
+import type { Event, EventFilterSpec, EventSortKey } from '@/types'
+import { filterEvents, getCategoryCounts, hasActiveFilters as isFiltering, type FilterContext } from '@/lib/eventFilters'
+import type { NeighborhoodCollection } from '@/lib/neighborhoods'
+import type { AffinityProfile } from '@/lib/recommendations'
 import MobileEventCard from './MobileEventCard'
-import ModernFilterDrawer, { type FilterState } from './ModernFilterDrawer'
+import ModernFilterDrawer from './ModernFilterDrawer'
 import ModernEventSidebar from './ModernEventSidebar'
+import SmartChips, { type SmartFilter } from './SmartChips'
+
+const SORT_OPTIONS: { value: EventSortKey | ''; label: string }[] = [
+  { value: '', label: 'Default' },
+  { value: 'time', label: 'Soonest' },
+  { value: 'popularity', label: 'Popular' },
+  { value: 'for-you', label: '✨ For You' }
+]
 
 interface EventBrowserProps {
   events: Event[]
@@ -17,16 +28,20 @@ interface EventBrowserProps {
   onEventClick?: (event: Event) => void
   onClearSelection?: (callback: () => void) => void
   isOpen?: boolean // Controls sidebar slide in/out
+  filters?: EventFilterSpec // Controlled filters (e.g. restored from the URL)
+  onFiltersChange?: (filters: EventFilterSpec) => void
+  affinities?: AffinityProfile // Enables the "For You" chip and sort
+  neighborhoods?: NeighborhoodCollection | null
 }
 
-export default function EventBrowser({ events, title = 'Top Events', searchQuery = '', neighborhoodEvents, neighborhoodName, onEventClick, onClearSelection, isOpen = true }: EventBrowserProps) {
+export default function EventBrowser({ events, title = 'Top Events', searchQuery = '', neighborhoodEvents, neighborhoodName, onEventClick, onClearSelection, isOpen = true, filters: controlledFilters, onFiltersChange, affinities, neighborhoods }: EventBrowserProps) {
   const [mobileDrawerOpen, setMobileDrawerOpen] = useState(false)
   const [filterDrawerOpen, setFilterDrawerOpen] = useState(false)
-  const [filters, setFilters] = useState<FilterState>({
-    categories: [],
-    dateRange: 'anytime',
-    priceRange: [0, 100]
-  })
+  const [localFilters, setLocalFilters] = useState<EventFilterSpec>({})
+  // The active smart chip's spec and the user's own values it replaced
+  const [activeChip, setActiveChip] = useState<{ spec: EventFilterSpec; replaced: EventFilterSpec } | null>(null)
+  const filters = controlledFilters ?? localFilters
+  const setFilters = onFiltersChange ?? setLocalFilters
 
   useEffect(() => {
     const isMobile = window.innerWidth < 1024
@@ -35,36 +50,50 @@ export default function EventBrowser({ events, title = 'Top Events', searchQuery
     }
   }, [events.length])
 
+  // Date presets are evaluated in the events' city timezone; the smart chips count with the same context
+  const filterContext = useMemo<FilterContext>(() => ({
+    timeZone: events[0]?.timezone,
+    neighborhoods: neighborhoods ?? undefined,
+    affinities
+  }), [events, neighborhoods, affinities])
+
   const filteredEvents = useMemo(() => {
-    return events.filter(event => {
-      if (filters.categories.length > 0) {
-        const eventCat = event.category.toLowerCase()
-        const hasMatch = filters.categories.some(filterCat => {
-          const fCat = filterCat.toLowerCase()
-          return eventCat === fCat || (fCat === 'art' && eventCat === 'arts') || (fCat === 'markets' && eventCat === 'markets')
-        })
-        if (!hasMatch) return false
-      }
-      if (filters.priceRange[1] < 100) {
-        const eventPrice = event.price?.min || 0
-        if (eventPrice > filters.priceRange[1]) return false
-      }
-      return true
-    })
-  }, [events, filters])
-
-  const eventCounts = useMemo(() => {
-    return {
-      music: events.filter(e => e.category.toLowerCase() === 'music').length,
-      food: events.filter(e => e.category.toLowerCase() === 'food & drink' || e.category.toLowerCase() === 'food').length,
-      art: events.filter(e => e.category.toLowerCase() === 'arts & culture' || e.category.toLowerCase() === 'arts').length,
-      sports: events.filter(e => e.category.toLowerCase() === 'sports').length,
-      markets: events.filter(e => e.category.toLowerCase() === 'markets').length,
-      community: events.filter(e => e.category.toLowerCase() === 'community').length,
+    return filterEvents(events, filters, filterContext)
+  }, [events, filters, filterContext])
+
+  // A smart chip applies its spec on top of the other filters. Clearing or switching it puts back
+  // what it replaced, unless the user has changed that filter since.
+  const handleChipChange = (chip: SmartFilter | null) => {
+    const next: EventFilterSpec = { ...filters }
+    if (activeChip) {
+      (Object.keys(activeChip.spec) as (keyof EventFilterSpec)[]).forEach(key => {
+        if (JSON.stringify(next[key]) === JSON.stringify(activeChip.spec[key])) delete next[key]
+      })
+      Object.entries(activeChip.replaced).forEach(([key, value]) => {
+        if (next[key as keyof EventFilterSpec] === undefined) Object.assign(next, { [key]: value })
+      })
+    }
+
+    if (!chip) {
+      setActiveChip(null)
+      setFilters(next)
+      return
     }
-  }, [events])
 
-  const hasActiveFilters = filters.categories.length > 0 || filters.dateRange !== 'anytime' || filters.priceRange[1] < 100
+    const replaced = Object.fromEntries(
+      Object.keys(chip.spec)
+        .filter(key => next[key as keyof EventFilterSpec] !== undefined)
+        .map(key => [key, next[key as keyof EventFilterSpec]])
+    ) as EventFilterSpec
+    setActiveChip({ spec: chip.spec, replaced })
+    setFilters({ ...next, ...chip.spec })
+  }
+
+  const canSortForYou = Boolean(affinities && affinities.signalCount > 0)
+
+  const eventCounts = useMemo(() => getCategoryCounts(events), [events])
+
+  const hasActiveFilters = isFiltering(filters)
 
   return (
     <>
@@ -79,6 +108,25 @@ export default function EventBrowser({ events, title = 'Top Events', searchQuery
           onEventClick={onEventClick}
           onClearSelection={onClearSelection}
           isOpen={isOpen}
+          toolbar={
+            <div className="mt-1.5 space-y-1.5">
+              <SmartChips events={events} context={filterContext} onFilterChange={handleChipChange} />
+              <label className="flex items-center gap-1.5 text-xs text-gray-400">
+                Sort
+                <select
+                  value={filters.sortBy ?? ''}
+                  onChange={e => setFilters({ ...filters, sortBy: (e.target.value || undefined) as EventSortKey | undefined })}
+                  className="bg-[#1a1a1a]/90 border border-gray-700 rounded-full px-2 py-0.5 text-xs text-white"
+                >
+                  {SORT_OPTIONS
+                    .filter(option => option.value !== 'for-you' || canSortForYou || filters.sortBy === 'for-you')
+                    .map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+              </label>
+            </div>
+          }
         />
       </div>
 
@@ -115,6 +163,7 @@ export default function EventBrowser({ events, title = 'Top Events', searchQuery
       <ModernFilterDrawer
         isOpen={filterDrawerOpen}
         onClose={() => setFilterDrawerOpen(false)}
+        filters={filters}
         onFilterChange={setFilters}
         eventCount={filteredEvents.length}
         eventCounts={eventCounts}
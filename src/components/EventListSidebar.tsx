@@ -4,26 +4,52 @@ import { useState, useEffect } from 'react'
 import type { Event } from '@/types'
 import MobileEventCard from './MobileEventCard'
 import { getEventImage } from '@/lib/eventImages'
+import type { Recommendation } from '@/lib/recommendations'
+
+type SidebarSort = 'default' | 'for-you'
 
 interface EventListSidebarProps {
   events: Event[]
   isVisible: boolean
   onClose: () => void
   title?: string
+  ranked?: boolean // Keep the given order instead of pulling popular events into a carousel
+  getEventLabel?: (event: Event) => string | undefined // e.g. walking time, shown above the card
+  emptyMessage?: string
+  getRecommendations?: (events: Event[]) => Recommendation[] // Adds a "For You" sort with the reason above each card
+  onEventClick?: (event: Event) => void
 }
 
 export default function EventListSidebar({
   events,
   isVisible,
   onClose,
-  title = 'Events'
+  title = 'Events',
+  ranked = false,
+  getEventLabel,
+  emptyMessage = 'Try selecting a different neighborhood or adjusting your filters',
+  getRecommendations,
+  onEventClick
 }: EventListSidebarProps) {
   const [featuredEvents, setFeaturedEvents] = useState<Event[]>([])
   const [regularEvents, setRegularEvents] = useState<Event[]>([])
+  const [sortMode, setSortMode] = useState<SidebarSort>('default')
+  const [reasons, setReasons] = useState<Map<string, string>>(new Map())
+
+  const isForYou = sortMode === 'for-you' && Boolean(getRecommendations)
 
   useEffect(() => {
+    if (isForYou && getRecommendations) {
+      // Best matches first, no carousel
+      const recommendations = getRecommendations(events)
+      setFeaturedEvents([])
+      setRegularEvents(recommendations.map(r => r.event))
+      setReasons(new Map(recommendations.flatMap(r => r.reason ? [[r.event.id, r.reason] as [string, string]] : [])))
+      return
+    }
+
     // Separate high-popularity events for featured carousel
-    const featured = events
+    const featured = ranked ? [] : events
       .filter(e => e.popularity > 70)
       .slice(0, 5) // Max 5 featured
 
@@ -31,9 +57,10 @@ export default function EventListSidebar({
 
     setFeaturedEvents(featured)
     setRegularEvents(regular)
-  }, [events])
+    setReasons(new Map())
+  }, [events, ranked, isForYou, getRecommendations])
 
-  if (!isVisible || events.length === 0) return null
+  if (!isVisible) return null
 
   return (
     <>
@@ -65,9 +92,27 @@ export default function EventListSidebar({
           <h2 className="text-xl font-bold text-white mb-1 ml-10">
             {title}
           </h2>
-          <p className="text-sm text-gray-400 ml-10">
-            {events.length} event{events.length !== 1 ? 's' : ''} found
-          </p>
+          <div className="flex items-center justify-between ml-10">
+            <p className="text-sm text-gray-400">
+              {events.length} event{events.length !== 1 ? 's' : ''} found
+            </p>
+
+            {getRecommendations && events.length > 1 && (
+              <div className="flex rounded-full bg-gray-800/60 border border-gray-600/30 p-0.5 text-xs font-medium">
+                {(['default', 'for-you'] as SidebarSort[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setSortMode(mode)}
+                    className={`px-2.5 py-1 rounded-full transition-colors ${
+                      sortMode === mode ? 'bg-cyan-500/30 text-white' : 'text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {mode === 'for-you' ? '✨ For You' : ranked ? 'Nearest' : 'Top'}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
 
         {/* Content */}
@@ -83,7 +128,7 @@ export default function EventListSidebar({
               <div className="flex gap-4 overflow-x-auto pb-3 snap-x snap-mandatory scrollbar-thin scrollbar-thumb-cyan-500/30 scrollbar-track-transparent -mx-4 px-4">
                 {featuredEvents.map(event => (
                   <div key={event.id} className="snap-start flex-shrink-0 w-[300px]">
-                    <MobileEventCard event={event} variant="large" />
+                    <MobileEventCard event={event} variant="large" onClick={() => onEventClick?.(event)} />
                   </div>
                 ))}
               </div>
@@ -91,18 +136,28 @@ export default function EventListSidebar({
           )}
 
           {/* Browse All Events - Vertical Grid */}
-          <div>
-            <h3 className="text-sm font-bold text-white mb-3 flex items-center gap-2">
-              <span className="text-lg">🎯</span>
-              <span>All Events</span>
-            </h3>
-
-            <div className="grid grid-cols-1 gap-4">
-              {regularEvents.map(event => (
-                <MobileEventCard key={event.id} event={event} variant="large" />
-              ))}
+          {regularEvents.length > 0 && (
+            <div>
+              <h3 className="text-sm font-bold text-white mb-3 flex items-center gap-2">
+                <span className="text-lg">🎯</span>
+                <span>{isForYou ? 'Picked For You' : ranked ? 'Best Matches' : 'All Events'}</span>
+              </h3>
+
+              <div className="grid grid-cols-1 gap-4">
+                {regularEvents.map(event => {
+                  const label = reasons.get(event.id) ?? getEventLabel?.(event)
+                  return (
+                    <div key={event.id}>
+                      {label && (
+                        <p className="text-xs font-semibold text-cyan-300 mb-1.5">{label}</p>
+                      )}
+                      <MobileEventCard event={event} variant="large" onClick={() => onEventClick?.(event)} />
+                    </div>
+                  )
+                })}
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Empty State */}
           {events.length === 0 && (
@@ -110,7 +165,7 @@ export default function EventListSidebar({
               <div className="text-6xl mb-4 opacity-20">🎭</div>
               <h3 className="text-lg font-bold text-white mb-2">No events found</h3>
               <p className="text-sm text-gray-400">
-                Try selecting a different neighborhood or adjusting your filters
+                {emptyMessage}
               </p>
             </div>
           )}
@@ -3,6 +3,7 @@
 import { Fragment, useState, useMemo } from 'react'
 import { XMarkIcon, MapPinIcon, ClockIcon, CurrencyDollarIcon, StarIcon, UserGroupIcon } from '@heroicons/react/24/outline'
 import type { Event } from '@/types'
+import { describeRecurrence, getNextOccurrences } from '@/lib/recurrence'
 
 interface EventSidebarProps {
   events: Event[]
@@ -88,9 +89,21 @@ export function EventSidebar({
     }
   }
 
+  // Occurrences per recurring series, shown on the series' single row
+  const seriesCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    ;(selectedCluster || events).forEach(event => {
+      if (event.seriesId) {
+        counts.set(event.seriesId, (counts.get(event.seriesId) || 0) + 1)
+      }
+    })
+    return counts
+  }, [events, selectedCluster])
+
   // Smart sorting and filtering
   const processedEvents = useMemo(() => {
-    let eventList = selectedCluster || events
+    // Group recurring series into one row at their next occurrence
+    let eventList = getNextOccurrences(selectedCluster || events)
 
     // Filter by category
     if (filterBy !== 'all') {
@@ -327,6 +340,18 @@ export function EventSidebar({
                   <span>{formatDate(event.startTime)}</span>
                 </div>
 
+                {/* Recurrence */}
+                {event.recurrence && (
+                  <div className="flex items-center text-purple-300 text-xs mb-2">
+                    <span className="mr-1">🔁</span>
+                    <span>
+                      {describeRecurrence(event.recurrence)}
+                      {event.seriesId && (seriesCounts.get(event.seriesId) || 0) > 1 &&
+                        ` · ${seriesCounts.get(event.seriesId)} dates`}
+                    </span>
+                  </div>
+                )}
+
                 {/* Price */}
                 <div className="flex items-center text-gray-300 text-xs mb-2">
                   <CurrencyDollarIcon className="h-3 w-3 mr-1 shrink-0" />
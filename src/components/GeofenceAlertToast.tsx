@@ -0,0 +1,64 @@
+'use client'
+
+import { useEffect } from 'react'
+import { BellAlertIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import type { Event } from '@/types'
+import type { NeighborhoodAlert } from '@/lib/liveTracking'
+
+const AUTO_DISMISS_MS = 15000
+
+interface GeofenceAlertToastProps {
+  alert: NeighborhoodAlert
+  savedEventIds: Set<string>
+  onEventSelect: (event: Event) => void
+  onDismiss: () => void
+}
+
+/**
+ * "You're near something" - shown by live tracking on entering a neighborhood with events starting soon
+ */
+export default function GeofenceAlertToast({ alert, savedEventIds, onEventSelect, onDismiss }: GeofenceAlertToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, AUTO_DISMISS_MS)
+    return () => clearTimeout(timer)
+  }, [alert, onDismiss])
+
+  return (
+    <div className="fixed top-20 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-sm bg-gray-900/95 backdrop-blur-md border border-green-500/40 rounded-xl shadow-2xl">
+      <div className="flex items-start gap-3 p-3 border-b border-gray-700">
+        <BellAlertIcon className="h-5 w-5 text-green-400 flex-shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <h3 className="text-sm font-medium text-white">You&apos;re in {alert.neighborhood}</h3>
+          <p className="text-xs text-gray-400 mt-0.5">{alert.message}</p>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="text-gray-400 hover:text-white transition-colors"
+          title="Dismiss"
+        >
+          <XMarkIcon className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="p-2 space-y-1">
+        {alert.events.map(event => (
+          <button
+            key={event.id}
+            onClick={() => {
+              onEventSelect(event)
+              onDismiss()
+            }}
+            className="block w-full text-left p-2 rounded-lg hover:bg-gray-800/50"
+          >
+            <div className="text-sm text-white truncate">
+              {savedEventIds.has(event.id) ? '⭐ ' : '🔥 '}{event.title}
+            </div>
+            <div className="text-xs text-gray-400 truncate">
+              {new Date(event.startTime).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })} · {event.venue}
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
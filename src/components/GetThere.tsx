@@ -2,83 +2,89 @@
 
 import { useState, useEffect } from 'react'
 import type { Event } from '@/types'
+import type { TravelEstimate, TravelMode } from '@/lib/travel'
 
 interface GetThereProps {
   event: Event
   isExpanded: boolean
   onToggle?: () => void
+  origin?: [number, number] | null // [lng, lat]; asks for the browser location when omitted
 }
 
-interface TransitOption {
-  mode: string
-  icon: string
-  duration: string
-  cost?: string
-  details?: string
-  color: string
+const MODE_DISPLAY: Record<TravelMode, { label: string; icon: string; color: string; travelmode: string }> = {
+  walk: { label: 'Walk', icon: '🚶', color: 'from-green-600 to-green-700', travelmode: 'walking' },
+  bike: { label: 'Bike', icon: '🚴', color: 'from-cyan-600 to-cyan-700', travelmode: 'bicycling' },
+  drive: { label: 'Drive', icon: '🚗', color: 'from-gray-700 to-gray-800', travelmode: 'driving' },
+  transit: { label: 'Transit', icon: '🚇', color: 'from-blue-500 to-blue-600', travelmode: 'transit' }
 }
 
-export default function GetThere({ event, isExpanded, onToggle }: GetThereProps) {
-  const [transitOptions, setTransitOptions] = useState<TransitOption[]>([])
+function getCurrentPosition(): Promise<[number, number]> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('Geolocation is not supported'))
+      return
+    }
+    navigator.geolocation.getCurrentPosition(
+      position => resolve([position.coords.longitude, position.coords.latitude]),
+      reject,
+      { timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    )
+  })
+}
+
+export default function GetThere({ event, isExpanded, onToggle, origin }: GetThereProps) {
+  const [estimates, setEstimates] = useState<TravelEstimate[]>([])
   const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const originKey = origin ? origin.join(',') : null
 
-  // Mock transit data calculation
-  // TODO: Replace with real API calls (Google Maps, Uber, Lyft, etc.)
   useEffect(() => {
     if (!isExpanded) return
 
+    let cancelled = false
     setLoading(true)
+    setError(null)
 
-    // Simulate API call
-    setTimeout(() => {
-      const baseTime = 15 + Math.floor(Math.random() * 20)
-
-      setTransitOptions([
-        {
-          mode: 'BART',
-          icon: '🚇',
-          duration: `${baseTime}min`,
-          cost: '$3.20',
-          details: 'Montgomery St → Powell St',
-          color: 'from-blue-500 to-blue-600'
-        },
-        {
-          mode: 'Uber',
-          icon: '🚗',
-          duration: `${Math.floor(baseTime * 0.7)}min`,
-          cost: `$${12 + Math.floor(Math.random() * 10)}-${18 + Math.floor(Math.random() * 10)}`,
-          details: '3min pickup',
-          color: 'from-gray-700 to-gray-800'
-        },
-        {
-          mode: 'Lyft',
-          icon: '🚙',
-          duration: `${Math.floor(baseTime * 0.75)}min`,
-          cost: `$${11 + Math.floor(Math.random() * 10)}-${17 + Math.floor(Math.random() * 10)}`,
-          details: '5min pickup',
-          color: 'from-pink-600 to-pink-700'
-        },
-        {
-          mode: 'Parking',
-          icon: '🅿️',
-          duration: `${Math.floor(baseTime * 0.9)}min`,
-          cost: `$${8 + Math.floor(Math.random() * 8)}/hr`,
-          details: '2 garages nearby',
-          color: 'from-green-600 to-green-700'
-        },
-        {
-          mode: 'Bike',
-          icon: '🚴',
-          duration: `${Math.floor(baseTime * 1.3)}min`,
-          cost: '$4.50',
-          details: 'BayWheels available',
-          color: 'from-cyan-600 to-cyan-700'
-        }
-      ])
+    const loadEstimates = async () => {
+      let start: [number, number]
+      try {
+        start = originKey ? (originKey.split(',').map(Number) as [number, number]) : await getCurrentPosition()
+      } catch {
+        throw new Error('Share your location to see travel times')
+      }
+
+      const params = new URLSearchParams({
+        from: `${start[1]},${start[0]}`,
+        to: `${event.latitude},${event.longitude}`,
+        departAt: new Date().toISOString()
+      })
+      const response = await fetch(`/api/travel?${params.toString().replace(/%2C/g, ',')}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Could not load travel times')
+      }
+      return data.estimates as TravelEstimate[]
+    }
+
+    loadEstimates()
+      .then(result => {
+        if (!cancelled) setEstimates(result)
+      })
+      .catch(err => {
+        if (!cancelled) setError((err as Error).message)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isExpanded, originKey, event.latitude, event.longitude])
 
-      setLoading(false)
-    }, 500)
-  }, [isExpanded])
+  const getDirectionsUrl = (mode: TravelMode) =>
+    `https://www.google.com/maps/dir/?api=1&destination=${event.latitude},${event.longitude}&travelmode=${MODE_DISPLAY[mode].travelmode}`
 
   if (!isExpanded) {
     return (
@@ -117,52 +123,56 @@ export default function GetThere({ event, isExpanded, onToggle }: GetThereProps)
         </svg>
       </button>
 
-      {/* Transit Options */}
+      {/* Travel Options */}
       {loading ? (
         <div className="flex items-center justify-center py-8">
           <div className="animate-spin w-6 h-6 border-2 border-cyan-500 border-t-transparent rounded-full" />
         </div>
+      ) : error ? (
+        <div className="py-4 text-center text-xs text-gray-400">{error}</div>
       ) : (
         <div className="grid grid-cols-1 gap-2">
-          {transitOptions.map((option, index) => (
-            <button
-              key={index}
-              className="group flex items-center justify-between px-3 py-2.5 rounded-lg bg-gray-800/50 border border-gray-600/30 hover:border-cyan-500/50 transition-all hover:scale-[1.02]"
-            >
-              <div className="flex items-center gap-3">
-                <div className={`w-8 h-8 rounded-full bg-gradient-to-br ${option.color} flex items-center justify-center text-base shadow-lg`}>
-                  {option.icon}
-                </div>
-                <div className="text-left">
-                  <div className="text-sm font-semibold text-white group-hover:text-cyan-300 transition-colors">
-                    {option.mode}
+          {estimates.map(estimate => {
+            const display = MODE_DISPLAY[estimate.mode]
+            return (
+              <a
+                key={estimate.mode}
+                href={getDirectionsUrl(estimate.mode)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="group flex items-center justify-between px-3 py-2.5 rounded-lg bg-gray-800/50 border border-gray-600/30 hover:border-cyan-500/50 transition-all hover:scale-[1.02]"
+              >
+                <div className="flex items-center gap-3">
+                  <div className={`w-8 h-8 rounded-full bg-gradient-to-br ${display.color} flex items-center justify-center text-base shadow-lg`}>
+                    {display.icon}
                   </div>
-                  {option.details && (
+                  <div className="text-left">
+                    <div className="text-sm font-semibold text-white group-hover:text-cyan-300 transition-colors">
+                      {display.label}
+                    </div>
                     <div className="text-xs text-gray-400">
-                      {option.details}
+                      {estimate.details || `${estimate.distanceKm} km`}
                     </div>
-                  )}
+                  </div>
                 </div>
-              </div>
 
-              <div className="text-right">
-                <div className="text-sm font-bold text-cyan-400">
-                  {option.duration}
-                </div>
-                {option.cost && (
-                  <div className="text-xs text-gray-300">
-                    {option.cost}
+                <div className="text-right">
+                  <div className="text-sm font-bold text-cyan-400">
+                    {estimate.durationMinutes}min
                   </div>
-                )}
-              </div>
-            </button>
-          ))}
+                  {estimate.source === 'estimate' && (
+                    <div className="text-xs text-gray-500">approx.</div>
+                  )}
+                </div>
+              </a>
+            )
+          })}
         </div>
       )}
 
       {/* Powered by note */}
       <div className="text-center text-xs text-gray-500 pt-2 border-t border-gray-700/50">
-        Live estimates • Tap to navigate
+        Estimated from your location • Tap to navigate
       </div>
 
       <style jsx>{`
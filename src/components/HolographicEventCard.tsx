@@ -3,6 +3,9 @@
 import { useEffect, useRef, useState } from 'react'
 import type { Event } from '@/types'
 import { getEventImage } from '@/lib/eventImages'
+import { getEventPath } from '@/lib/eventPages'
+import OutdoorWeatherWarning from './OutdoorWeatherWarning'
+import TransitHint from './TransitHint'
 
 interface HolographicEventCardProps {
   event: Event
@@ -39,6 +42,20 @@ export function HolographicEventCard({ event, onClose, spritePosition }: Hologra
     setTimeout(onClose, 600) // Wait for close animation
   }
 
+  const handleShare = async () => {
+    const url = new URL(getEventPath(event.id), window.location.origin).toString()
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: event.title, url })
+      } else {
+        await navigator.clipboard.writeText(url)
+        console.log('🔗 Copied event link:', url)
+      }
+    } catch (error) {
+      console.warn('Share cancelled or failed:', (error as Error).message)
+    }
+  }
+
   // Format date
   const eventDate = new Date(event.startTime)
   const dateStr = eventDate.toLocaleDateString('en-US', {
@@ -187,6 +204,8 @@ export function HolographicEventCard({ event, onClose, spritePosition }: Hologra
                 <span className="text-base sm:text-xl">📍</span>
                 <span className="font-semibold">{event.venue}</span>
               </div>
+              <TransitHint event={event} className="sm:text-sm" />
+              <OutdoorWeatherWarning event={event} />
 
               {/* Description */}
               <p className="text-gray-300 text-xs sm:text-sm leading-relaxed flex-1 overflow-y-auto min-h-0">
@@ -226,6 +245,8 @@ export function HolographicEventCard({ event, onClose, spritePosition }: Hologra
                 ❤️
               </button>
               <button
+                onClick={handleShare}
+                aria-label="Share event"
                 className="w-12 sm:w-14 py-2.5 sm:py-3 rounded-xl font-bold text-white bg-gradient-to-r from-purple-500 to-indigo-500 border border-purple-400 hover:shadow-lg hover:scale-105 active:scale-95 transition-all duration-300"
                 style={{
                   boxShadow: '0 0 30px rgba(150,0,255,0.4)',
@@ -1,7 +1,8 @@
 'use client'
 
 import { useState } from 'react'
-import { ChevronDownIcon, Cog6ToothIcon, GlobeAltIcon, MapPinIcon } from '@heroicons/react/24/outline'
+import { CalendarDaysIcon, ChevronDownIcon, Cog6ToothIcon, GlobeAltIcon, MapPinIcon, SignalIcon } from '@heroicons/react/24/outline'
+import { getSubscribeUrl } from '@/lib/calendarFeed'
 import type { ClusteringMode } from '@/types'
 
 interface MapControlsProps {
@@ -15,6 +16,12 @@ interface MapControlsProps {
   onResetToSF?: () => void
   userLocation?: [number, number] | null
   showNearbyEvents?: boolean
+  savedEventIds?: string[]
+  savedCalendarFeedUrl?: string | null
+  isTracking?: boolean
+  onToggleTracking?: () => void
+  pushEnabled?: boolean
+  onTogglePush?: () => void
 }
 
 export function MapControls({
@@ -27,9 +34,16 @@ export function MapControls({
   onShowSavedEvents,
   onResetToSF,
   userLocation,
-  showNearbyEvents = false
+  showNearbyEvents = false,
+  savedEventIds = [],
+  savedCalendarFeedUrl = null,
+  isTracking = false,
+  onToggleTracking,
+  pushEnabled = false,
+  onTogglePush
 }: MapControlsProps) {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false)
 
   const clusteringModes: { value: ClusteringMode; label: string; description: string }[] = [
     {
@@ -102,6 +116,111 @@ export function MapControls({
         </div>
       )}
 
+      {/* Live Tracking FAB */}
+      {onToggleTracking && (
+        <div className="group relative">
+          <button
+            onClick={onToggleTracking}
+            className={`
+              w-14 h-14 rounded-full text-white
+              backdrop-blur-md border transition-all duration-300 shadow-2xl
+              flex items-center justify-center
+              ${isTracking
+                ? 'bg-green-500/90 border-green-400/50'
+                : 'bg-gray-900/90 border-gray-700 hover:bg-gray-800/90 hover:scale-110'
+              }
+            `}
+            title={isTracking ? "Stop live tracking" : "Start live tracking"}
+          >
+            <SignalIcon className={`h-6 w-6 ${isTracking ? 'animate-pulse' : ''}`} />
+          </button>
+
+          {/* Hover Label */}
+          <div className="absolute right-16 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+            <div className="bg-gray-900/95 backdrop-blur-sm px-3 py-1.5 rounded-lg border border-gray-700 whitespace-nowrap">
+              <span className="text-xs font-medium text-white">
+                {isTracking ? 'Tracking On' : 'Live Tracking'}
+              </span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Saved Events Calendar FAB */}
+      {savedEventIds.length > 0 && (
+        <div className="group relative">
+          <button
+            onClick={() => setIsCalendarOpen(!isCalendarOpen)}
+            className={`
+              w-14 h-14 rounded-full bg-gray-900/90 backdrop-blur-md
+              border border-gray-700 text-white hover:bg-gray-800/90
+              transition-all duration-300 shadow-2xl hover:scale-110
+              flex items-center justify-center
+              ${isCalendarOpen ? 'bg-gray-800/90 scale-110' : ''}
+            `}
+            title="Saved Events Calendar"
+          >
+            <CalendarDaysIcon className="h-6 w-6" />
+          </button>
+
+          {/* Hover Label */}
+          <div className="absolute right-16 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+            <div className="bg-gray-900/95 backdrop-blur-sm px-3 py-1.5 rounded-lg border border-gray-700 whitespace-nowrap">
+              <span className="text-xs font-medium text-white">Calendar ({savedEventIds.length})</span>
+            </div>
+          </div>
+
+          {/* Calendar Panel */}
+          {isCalendarOpen && (
+            <div className="absolute bottom-full right-0 mb-3 w-72 bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg shadow-xl">
+              <div className="p-3 border-b border-gray-700">
+                <h3 className="text-sm font-medium text-white">Saved Events Calendar</h3>
+                <p className="text-xs text-gray-400 mt-1">
+                  Subscribe once and new saves show up in your calendar automatically
+                </p>
+              </div>
+
+              <div className="p-2 space-y-1">
+                {onShowSavedEvents && (
+                  <button
+                    onClick={() => {
+                      onShowSavedEvents()
+                      setIsCalendarOpen(false)
+                    }}
+                    className="block w-full text-left p-3 rounded-lg text-sm text-white hover:bg-gray-800/50"
+                  >
+                    Show on map
+                  </button>
+                )}
+                <a
+                  href={`/api/saved/ics?ids=${savedEventIds.map(encodeURIComponent).join(',')}`}
+                  download
+                  className="block p-3 rounded-lg text-sm text-white hover:bg-gray-800/50"
+                >
+                  Download .ics ({savedEventIds.length} events)
+                </a>
+                {savedCalendarFeedUrl && (
+                  <a
+                    href={getSubscribeUrl(savedCalendarFeedUrl)}
+                    className="block p-3 rounded-lg text-sm text-blue-400 hover:bg-gray-800/50"
+                  >
+                    Subscribe in calendar app
+                  </a>
+                )}
+                {onTogglePush && (
+                  <button
+                    onClick={onTogglePush}
+                    className="block w-full text-left p-3 rounded-lg text-sm text-white hover:bg-gray-800/50"
+                  >
+                    {pushEnabled ? 'Turn off reminders' : 'Remind me before saved events'}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Clustering FAB */}
       <div className="group relative">
         <button
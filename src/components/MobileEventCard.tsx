@@ -3,6 +3,9 @@
 import { useState } from 'react'
 import type { Event } from '@/types'
 import { getEventImage } from '@/lib/eventImages'
+import { getEventPath } from '@/lib/eventPages'
+import OutdoorWeatherWarning from './OutdoorWeatherWarning'
+import TransitHint from './TransitHint'
 
 interface MobileEventCardProps {
   event: Event
@@ -162,6 +165,8 @@ export default function MobileEventCard({ event, onClick, variant = 'large' }: M
               <p className="text-sm text-white">
                 {event.venue}
               </p>
+              <TransitHint event={event} className="mt-1" />
+              <OutdoorWeatherWarning event={event} className="mt-2" />
             </div>
           </div>
 
@@ -184,17 +189,25 @@ export default function MobileEventCard({ event, onClick, variant = 'large' }: M
             </div>
           )}
 
-          {/* Action Button */}
-          <button
-            className="w-full py-2.5 rounded-lg font-bold text-sm bg-gradient-to-r from-cyan-500 to-blue-500 text-white shadow-lg hover:shadow-cyan-500/50 transition-all duration-300 hover:scale-[1.02]"
-            onClick={(e) => {
-              e.stopPropagation()
-              // TODO: Add action (e.g., navigate to event detail page, add to calendar, etc.)
-              console.log('Action button clicked:', event.title)
-            }}
-          >
-            View Full Details
-          </button>
+          {/* Action Buttons */}
+          <div className="flex gap-2">
+            <a
+              href={getEventPath(event.id)}
+              className="flex-1 py-2.5 text-center rounded-lg font-bold text-sm bg-gradient-to-r from-cyan-500 to-blue-500 text-white shadow-lg hover:shadow-cyan-500/50 transition-all duration-300 hover:scale-[1.02]"
+              onClick={(e) => e.stopPropagation()}
+            >
+              View Full Details
+            </a>
+            <a
+              href={`/api/events/${encodeURIComponent(event.id)}/ics`}
+              download
+              onClick={(e) => e.stopPropagation()}
+              className="px-3 py-2.5 rounded-lg font-bold text-sm bg-cyan-500/10 border border-cyan-500/30 text-cyan-300 hover:bg-cyan-500/20 transition-all duration-300"
+              title="Add to calendar"
+            >
+              📅 Add to Calendar
+            </a>
+          </div>
         </div>
       )}
 
@@ -50,9 +50,10 @@ interface ModernEventSidebarProps {
   onEventClick?: (event: Event) => void
   onClearSelection?: (callback: () => void) => void
   isOpen?: boolean
+  toolbar?: React.ReactNode // Sort and quick filters, shown under the event count
 }
 
-export default function ModernEventSidebar({ events, neighborhoodEvents, neighborhoodName, onFilterClick, hasActiveFilters, onEventClick, onClearSelection, isOpen = true }: ModernEventSidebarProps) {
+export default function ModernEventSidebar({ events, neighborhoodEvents, neighborhoodName, onFilterClick, hasActiveFilters, onEventClick, onClearSelection, isOpen = true, toolbar }: ModernEventSidebarProps) {
   const carouselRef = useRef<HTMLDivElement>(null)
   const [selectedEventId, setSelectedEventId] = useState<string | null>(null)
   const [showLeftArrow, setShowLeftArrow] = useState(false)
@@ -317,7 +318,7 @@ export default function ModernEventSidebar({ events, neighborhoodEvents, neighbo
       </div>
 
       {/* Bottom: Vertical Snap-Scroll Feed */}
-      <div className="flex-1 overflow-hidden rounded-b-2xl"
+      <div className="flex-1 min-h-0 flex flex-col overflow-hidden rounded-b-2xl"
         style={{
           background: 'transparent'
         }}
@@ -351,11 +352,12 @@ export default function ModernEventSidebar({ events, neighborhoodEvents, neighbo
             )}
           </div>
           <p className="text-xs text-gray-400">{displayEvents.length} events found</p>
+          {toolbar}
         </div>
 
         {/* Snap-Scroll Vertical Feed */}
         <div
-          className="overflow-y-auto h-[calc(100%-60px)] snap-y snap-mandatory custom-scrollbar"
+          className="flex-1 min-h-0 overflow-y-auto snap-y snap-mandatory custom-scrollbar"
           style={{
             scrollBehavior: 'smooth'
           }}
@@ -1,77 +1,94 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useRef } from 'react'
 import { X } from 'lucide-react'
+import { useAuth } from './AuthProvider'
+import { hasActiveFilters as isFiltering } from '@/lib/eventFilters'
+import type { DatePreset, EventFilterSpec } from '@/types'
 
-export interface FilterState {
-  categories: string[]
-  dateRange: 'today' | 'this-weekend' | 'next-week' | 'anytime'
-  priceRange: [number, number]
-}
+// Category ids are also what profiles store as preferred categories
+export const FILTER_CATEGORIES = [
+  { id: 'music', label: 'Music', icon: '🎵' },
+  { id: 'food', label: 'Food & Drink', icon: '🍕' },
+  { id: 'art', label: 'Arts', icon: '🎨' },
+  { id: 'sports', label: 'Sports', icon: '⚽' },
+  { id: 'markets', label: 'Markets', icon: '🛍️' },
+  { id: 'community', label: 'Community', icon: '🤝' }
+] as const
+
+// Top of the price slider, meaning "any price"
+export const PRICE_SLIDER_MAX = 100
 
 interface ModernFilterDrawerProps {
   isOpen: boolean
   onClose: () => void
-  onFilterChange: (filters: FilterState) => void
+  filters: EventFilterSpec
+  onFilterChange: (filters: EventFilterSpec) => void
   eventCount: number
-  eventCounts?: {
-    music: number
-    food: number
-    art: number
-    sports: number
-    markets: number
-    community: number
-  }
+  eventCounts?: Record<string, number> // Per category id, see getCategoryCounts
 }
 
 export default function ModernFilterDrawer({
   isOpen,
   onClose,
+  filters,
   onFilterChange,
   eventCount,
   eventCounts
 }: ModernFilterDrawerProps) {
-  const [categories, setCategories] = useState<string[]>([])
-  const [dateRange, setDateRange] = useState<'today' | 'this-weekend' | 'next-week' | 'anytime'>('anytime')
-  const [priceRange, setPriceRange] = useState<[number, number]>([0, 100])
+  const { profile } = useAuth()
+  const appliedProfileId = useRef<string | null>(null)
 
-  const handleCategoryToggle = (category: string) => {
-    const newCategories = categories.includes(category)
-      ? categories.filter(c => c !== category)
-      : [...categories, category]
+  const categories = filters.categories || []
+  const dateRange = typeof filters.date === 'string' ? filters.date : 'anytime'
+  const priceRange: [number, number] = [0, filters.price?.max ?? PRICE_SLIDER_MAX]
 
-    setCategories(newCategories)
-    onFilterChange({ categories: newCategories, dateRange, priceRange })
+  const updateFilters = (updates: EventFilterSpec) => {
+    onFilterChange({ ...filters, ...updates })
+  }
+
+  // Start from the signed-in user's preferred categories and price ceiling (once per user),
+  // unless filters are already set (e.g. from a shared link)
+  useEffect(() => {
+    if (!profile || appliedProfileId.current === profile.id) return
+    appliedProfileId.current = profile.id
+    if (isFiltering(filters)) return
+
+    const preferred: EventFilterSpec = {
+      categories: profile.preferredCategories,
+      price: profile.priceCeiling !== null && profile.priceCeiling < PRICE_SLIDER_MAX
+        ? { max: profile.priceCeiling }
+        : undefined
+    }
+    onFilterChange(preferred)
+  }, [profile, filters, onFilterChange])
+
+  const handleCategoryToggle = (category: string) => {
+    updateFilters({
+      categories: categories.includes(category)
+        ? categories.filter(c => c !== category)
+        : [...categories, category]
+    })
   }
 
-  const handleDateChange = (range: 'today' | 'this-weekend' | 'next-week' | 'anytime') => {
-    setDateRange(range)
-    onFilterChange({ categories, dateRange: range, priceRange })
+  const handleDateChange = (range: DatePreset) => {
+    updateFilters({ date: range === 'anytime' ? undefined : range })
   }
 
   const handlePriceChange = (max: number) => {
-    const newRange: [number, number] = [0, max]
-    setPriceRange(newRange)
-    onFilterChange({ categories, dateRange, priceRange: newRange })
+    updateFilters({ price: max < PRICE_SLIDER_MAX ? { max } : undefined })
   }
 
   const handleClearAll = () => {
-    setCategories([])
-    setDateRange('anytime')
-    setPriceRange([0, 100])
-    onFilterChange({ categories: [], dateRange: 'anytime', priceRange: [0, 100] })
+    onFilterChange({})
   }
 
-  const hasActiveFilters = categories.length > 0 || dateRange !== 'anytime' || priceRange[1] < 100
+  const hasActiveFilters = isFiltering(filters)
 
-  const categoryOptions = [
-    { id: 'music', label: 'Music', icon: '🎵', count: eventCounts?.music },
-    { id: 'food', label: 'Food & Drink', icon: '🍕', count: eventCounts?.food },
-    { id: 'art', label: 'Arts', icon: '🎨', count: eventCounts?.art },
-    { id: 'sports', label: 'Sports', icon: '⚽', count: eventCounts?.sports },
-    { id: 'markets', label: 'Markets', icon: '🛍️', count: eventCounts?.markets },
-    { id: 'community', label: 'Community', icon: '🤝', count: eventCounts?.community }
-  ]
+  const categoryOptions = FILTER_CATEGORIES.map(category => ({
+    ...category,
+    count: eventCounts?.[category.id]
+  }))
 
   return (
     <>
@@ -0,0 +1,40 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { formatUpdatedAgo } from '@/lib/venueCache'
+
+interface OfflineIndicatorProps {
+  offlineSavedAt: string | null // When the city data on screen was stored, if it came from the offline store
+  pendingSync?: boolean // Saves/skips waiting to be uploaded
+}
+
+/**
+ * "📴 Offline · showing events updated 2h ago" - nothing while online with fresh data
+ */
+export default function OfflineIndicator({ offlineSavedAt, pendingSync = false }: OfflineIndicatorProps) {
+  const [isOnline, setIsOnline] = useState(true)
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine)
+    update()
+    window.addEventListener('online', update)
+    window.addEventListener('offline', update)
+    return () => {
+      window.removeEventListener('online', update)
+      window.removeEventListener('offline', update)
+    }
+  }, [])
+
+  if (isOnline && !offlineSavedAt) return null
+
+  const dataNote = offlineSavedAt ? `showing events ${formatUpdatedAgo(offlineSavedAt)}` : 'no saved city data yet'
+  const label = isOnline
+    ? `Couldn't reach the server · ${dataNote}`
+    : `Offline · ${dataNote}${pendingSync ? ' · swipes will sync when you reconnect' : ''}`
+
+  return (
+    <div className="fixed top-14 left-1/2 -translate-x-1/2 z-50 max-w-[calc(100%-2rem)] px-3 py-1.5 rounded-full bg-amber-500/90 backdrop-blur-md border border-amber-400/50 shadow-2xl">
+      <span className="text-xs font-medium text-gray-900 whitespace-nowrap">📴 {label}</span>
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { Event } from '@/types'
+import { detectNearestCity } from '@/lib/cityDetection'
+import { fetchCityWeather, getOutdoorWeatherWarning, isOutdoorEvent, type WeatherWarning } from '@/lib/weather'
+
+interface OutdoorWeatherWarningProps {
+  event: Event
+  className?: string
+}
+
+/**
+ * "🌧️ 70% chance of rain during this outdoor event" - nothing for indoor events or dry forecasts
+ */
+export default function OutdoorWeatherWarning({ event, className = '' }: OutdoorWeatherWarningProps) {
+  const [warning, setWarning] = useState<WeatherWarning | null>(null)
+  const isOutdoor = isOutdoorEvent(event)
+
+  useEffect(() => {
+    if (!isOutdoor) {
+      setWarning(null)
+      return
+    }
+
+    let cancelled = false
+    const city = detectNearestCity(event.latitude, event.longitude)
+
+    fetchCityWeather(city.slug)
+      .then(({ hours }) => {
+        if (!cancelled) setWarning(getOutdoorWeatherWarning(event, hours))
+      })
+      .catch(error => console.warn('Could not load weather:', (error as Error).message))
+
+    return () => {
+      cancelled = true
+    }
+  }, [event, isOutdoor])
+
+  if (!warning) return null
+
+  return (
+    <div className={`flex items-center gap-1.5 px-2 py-1 rounded-lg bg-blue-500/15 border border-blue-500/30 text-xs text-blue-200 ${className}`}>
+      <span>🌧️</span>
+      <span>{warning.message}</span>
+    </div>
+  )
+}
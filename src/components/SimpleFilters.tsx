@@ -1,58 +1,50 @@
 'use client'
 
 import { useState } from 'react'
-
-export interface FilterState {
-  categories: string[]
-  dateRange: 'today' | 'this-weekend' | 'next-week' | 'anytime'
-  priceRange: [number, number]
-}
+import { hasActiveFilters as isFiltering } from '@/lib/eventFilters'
+import type { DatePreset, EventFilterSpec } from '@/types'
+import { PRICE_SLIDER_MAX } from './ModernFilterDrawer'
 
 interface SimpleFiltersProps {
-  onFilterChange: (filters: FilterState) => void
-  eventCounts?: {
-    music: number
-    food: number
-    art: number
-    sports: number
-    markets: number
-    community: number
-  }
+  onFilterChange: (filters: EventFilterSpec) => void
+  eventCounts?: Record<string, number> // Per category id, see getCategoryCounts
 }
 
 export default function SimpleFilters({ onFilterChange, eventCounts }: SimpleFiltersProps) {
-  const [categories, setCategories] = useState<string[]>([])
-  const [dateRange, setDateRange] = useState<'today' | 'this-weekend' | 'next-week' | 'anytime'>('anytime')
-  const [priceRange, setPriceRange] = useState<[number, number]>([0, 100])
+  const [filters, setFilters] = useState<EventFilterSpec>({})
 
-  const handleCategoryToggle = (category: string) => {
-    const newCategories = categories.includes(category)
-      ? categories.filter(c => c !== category)
-      : [...categories, category]
+  const categories = filters.categories || []
+  const dateRange = typeof filters.date === 'string' ? filters.date : 'anytime'
+  const priceRange: [number, number] = [0, filters.price?.max ?? PRICE_SLIDER_MAX]
 
-    setCategories(newCategories)
-    onFilterChange({ categories: newCategories, dateRange, priceRange })
+  const updateFilters = (updates: EventFilterSpec) => {
+    const next = { ...filters, ...updates }
+    setFilters(next)
+    onFilterChange(next)
+  }
+
+  const handleCategoryToggle = (category: string) => {
+    updateFilters({
+      categories: categories.includes(category)
+        ? categories.filter(c => c !== category)
+        : [...categories, category]
+    })
   }
 
-  const handleDateChange = (range: 'today' | 'this-weekend' | 'next-week' | 'anytime') => {
-    setDateRange(range)
-    onFilterChange({ categories, dateRange: range, priceRange })
+  const handleDateChange = (range: DatePreset) => {
+    updateFilters({ date: range === 'anytime' ? undefined : range })
   }
 
   const handlePriceChange = (max: number) => {
-    const newRange: [number, number] = [0, max]
-    setPriceRange(newRange)
-    onFilterChange({ categories, dateRange, priceRange: newRange })
+    updateFilters({ price: max < PRICE_SLIDER_MAX ? { max } : undefined })
   }
 
   const handleClearAll = () => {
-    setCategories([])
-    setDateRange('anytime')
-    setPriceRange([0, 100])
-    onFilterChange({ categories: [], dateRange: 'anytime', priceRange: [0, 100] })
+    setFilters({})
+    onFilterChange({})
   }
 
-  const hasActiveFilters = categories.length > 0 || dateRange !== 'anytime' || priceRange[1] < 100
+  const hasActiveFilters = isFiltering(filters)
 
   const categoryOptions = [
     { id: 'music', label: 'Music', icon: '🎵', count: eventCounts?.music, color: 'from-pink-500 to-purple-500' },
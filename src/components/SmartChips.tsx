@@ -1,50 +1,57 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import type { Event } from '@/types'
+import type { Event, EventFilterSpec } from '@/types'
+import { filterEvents, type FilterContext } from '@/lib/eventFilters'
+import { useAuth } from './AuthProvider'
 
 interface SmartChipsProps {
   events: Event[]
+  context?: FilterContext // Same context as the event list; affinities add the "For You" chip
   onFilterChange?: (filter: SmartFilter | null) => void
   className?: string
 }
 
 export type SmartFilter = {
-  type: 'trending' | 'soon' | 'price' | 'indoor' | 'outdoor' | 'popular'
+  type: 'for-you' | 'trending' | 'soon' | 'price' | 'indoor' | 'outdoor' | 'popular'
   label: string
-  filter: (event: Event) => boolean
+  spec: EventFilterSpec
 }
 
-export default function SmartChips({ events, onFilterChange, className = '' }: SmartChipsProps) {
+export default function SmartChips({ events, context, onFilterChange, className = '' }: SmartChipsProps) {
   const [activeFilter, setActiveFilter] = useState<string | null>(null)
   const [availableChips, setAvailableChips] = useState<SmartFilter[]>([])
+  const { profile } = useAuth()
+
+  // Price chip follows the signed-in user's price ceiling
+  const priceCeiling = profile?.priceCeiling ?? 20
 
   // Smart chip configurations
   const allChips: SmartFilter[] = [
+    {
+      type: 'for-you',
+      label: '✨ For You',
+      spec: { recommended: true, sortBy: 'for-you' }
+    },
     {
       type: 'trending',
       label: '🔥 Trending',
-      filter: (event) => event.popularity > 70
+      spec: { popularity: { min: 71 } }
     },
     {
       type: 'soon',
       label: '⏰ Starting Soon',
-      filter: (event) => {
-        const eventTime = new Date(event.startTime).getTime()
-        const now = Date.now()
-        const hoursUntil = (eventTime - now) / (1000 * 60 * 60)
-        return hoursUntil >= 0 && hoursUntil <= 3
-      }
+      spec: { date: 'starting-soon' }
     },
     {
       type: 'price',
-      label: '💰 Under $20',
-      filter: (event) => !event.price.isFree && (event.price.min || 0) < 20
+      label: priceCeiling === 0 ? '🆓 Free' : `💰 Under $${priceCeiling}`,
+      spec: { price: { max: priceCeiling } }
     },
     {
       type: 'popular',
       label: '⭐ Popular',
-      filter: (event) => event.popularity > 50 && event.popularity <= 70
+      spec: { popularity: { min: 51, max: 70 } }
     }
   ]
 
@@ -52,9 +59,9 @@ export default function SmartChips({ events, onFilterChange, className = '' }: S
   useEffect(() => {
     const chips: SmartFilter[] = []
 
-    // Only show chips if there are matching events
+    // Only show chips if there are matching events (For You needs the user's affinities)
     allChips.forEach(chip => {
-      const matchingEvents = events.filter(chip.filter)
+      const matchingEvents = filterEvents(events, chip.spec, context)
       if (matchingEvents.length > 0) {
         chips.push(chip)
       }
@@ -70,7 +77,7 @@ export default function SmartChips({ events, onFilterChange, className = '' }: S
         onFilterChange?.(null)
       }
     }
-  }, [events])
+  }, [events, priceCeiling, context])
 
   const handleChipClick = (chip: SmartFilter) => {
     if (activeFilter === chip.type) {
@@ -90,7 +97,7 @@ export default function SmartChips({ events, onFilterChange, className = '' }: S
     <div className={`flex flex-wrap gap-2 ${className}`}>
       {availableChips.map(chip => {
         const isActive = activeFilter === chip.type
-        const count = events.filter(chip.filter).length
+        const count = filterEvents(events, chip.spec, context).length
 
         return (
           <button
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { motion, useMotionValue, useTransform, PanInfo } from 'framer-motion'
 import type { Event } from '@/types'
 import { ClockIcon, MapPinIcon, CurrencyDollarIcon } from '@heroicons/react/24/outline'
@@ -10,15 +10,21 @@ interface SwipeableEventCardsProps {
   onEventSave: (event: Event) => void
   onEventSkip: (event: Event) => void
   onEventDetails: (event: Event) => void
+  swipedEventIds?: Set<string> // Saved/skipped events to leave out of the deck
 }
 
 export function SwipeableEventCards({
-  events,
+  events: allEvents,
   onEventSave,
   onEventSkip,
-  onEventDetails
+  onEventDetails,
+  swipedEventIds
 }: SwipeableEventCardsProps) {
   const [currentIndex, setCurrentIndex] = useState(0)
+  const events = useMemo(
+    () => swipedEventIds ? allEvents.filter(e => !swipedEventIds.has(e.id)) : allEvents,
+    [allEvents, swipedEventIds]
+  )
   const x = useMotionValue(0)
   const rotate = useTransform(x, [-200, 0, 200], [-25, 0, 25])
   const opacity = useTransform(x, [-200, -100, 0, 100, 200], [0, 1, 1, 1, 0])
@@ -44,9 +50,11 @@ export function SwipeableEventCards({
         onEventSkip(events[currentIndex])
       }
 
-      // Move to next card
+      // Move to next card (a swiped card drops out of a filtered deck, so the index stays put)
       setTimeout(() => {
-        setCurrentIndex((prev) => (prev + 1) % events.length)
+        setCurrentIndex((prev) => swipedEventIds
+          ? (prev >= events.length - 1 ? 0 : prev)
+          : (prev + 1) % events.length)
         x.set(0)
       }, 200)
     } else {
@@ -2,6 +2,7 @@
 
 import { useMemo } from 'react'
 import type { Event } from '@/types'
+import { getNextOccurrences } from '@/lib/recurrence'
 import MobileEventCard from './MobileEventCard'
 
 interface TimelineViewProps {
@@ -24,8 +25,8 @@ export default function TimelineView({ events, variant = 'desktop' }: TimelineVi
     const now = new Date()
     const currentHour = now.getHours()
 
-    // Sort events by start time
-    const sortedEvents = [...events].sort((a, b) =>
+    // Sort events by start time (recurring series only appear at their next occurrence)
+    const sortedEvents = getNextOccurrences(events, now).sort((a, b) =>
       new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
     )
 
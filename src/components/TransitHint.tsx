@@ -0,0 +1,68 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { Event } from '@/types'
+import type { NextDeparture, TransitStop } from '@/lib/transit'
+
+interface TransitHintProps {
+  event: Event
+  className?: string
+}
+
+interface NearbyStopResult extends TransitStop {
+  walkMinutes: number
+  departures: NextDeparture[]
+}
+
+/**
+ * "🚇 3 min walk to 16th St Mission · next train 8:14 PM" for the stop nearest a venue
+ * Renders nothing when the city has no transit feed or no stop is within walking distance
+ */
+export default function TransitHint({ event, className = '' }: TransitHintProps) {
+  const [stop, setStop] = useState<NearbyStopResult | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    // Departures around the start of the event (or now, once it has started)
+    const at = new Date(Math.max(Date.now(), new Date(event.startTime).getTime()))
+    const params = new URLSearchParams({
+      lat: String(event.latitude),
+      lng: String(event.longitude),
+      at: at.toISOString(),
+      limit: '1'
+    })
+
+    fetch(`/api/transit/nearby?${params}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (!cancelled) setStop(data?.stops?.[0] || null)
+      })
+      .catch(error => console.warn('Could not load nearby transit:', (error as Error).message))
+
+    return () => {
+      cancelled = true
+    }
+  }, [event.latitude, event.longitude, event.startTime])
+
+  if (!stop) return null
+
+  const next = stop.departures[0]
+  const nextTime = next
+    ? new Date(next.departsAt).toLocaleTimeString('en-US', {
+        timeZone: event.timezone || undefined,
+        hour: 'numeric',
+        minute: '2-digit'
+      })
+    : null
+
+  return (
+    <div className={`flex items-center gap-1 text-xs text-gray-300 ${className}`}>
+      <span>🚇</span>
+      <span className="line-clamp-1">
+        {stop.walkMinutes} min walk to {stop.name}
+        {next && ` · next ${next.vehicle} ${nextTime}`}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+/**
+ * Supabase Auth and user profiles
+ * Users sign in with a magic link or OAuth; both redirect back to the app, where the
+ * Supabase client picks the session up from the URL and keeps it in localStorage.
+ * Preferences live in the `profiles` table (RLS: users only see their own row).
+ */
+
+import type { Session } from '@supabase/supabase-js'
+import type { UserProfile } from '@/types'
+
+export type OAuthProvider = 'google' | 'github'
+
+export const OAUTH_PROVIDERS: { id: OAuthProvider; label: string }[] = [
+  { id: 'google', label: 'Google' },
+  { id: 'github', label: 'GitHub' }
+]
+
+interface ProfileRow {
+  id: string
+  display_name: string | null
+  home_city_slug: string | null
+  preferred_categories: string[] | null
+  price_ceiling: number | string | null
+}
+
+export type ProfileUpdate = Partial<Omit<UserProfile, 'id'>>
+
+// Loaded lazily: the Supabase client throws at import time without credentials
+async function getSupabase() {
+  const { supabase } = await import('./supabase')
+  return supabase
+}
+
+function getRedirectUrl(): string {
+  return `${window.location.origin}${window.location.pathname}`
+}
+
+function profileFromRow(row: ProfileRow): UserProfile {
+  return {
+    id: row.id,
+    displayName: row.display_name,
+    homeCitySlug: row.home_city_slug,
+    preferredCategories: row.preferred_categories || [],
+    // numeric columns come back as strings
+    priceCeiling: row.price_ceiling === null ? null : Number(row.price_ceiling)
+  }
+}
+
+/**
+ * Email a sign-in link that returns to the current page
+ */
+export async function signInWithMagicLink(email: string) {
+  const supabase = await getSupabase()
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: getRedirectUrl() }
+  })
+
+  if (error) {
+    throw error
+  }
+}
+
+/**
+ * Redirect to an OAuth provider (enabled in the Supabase dashboard)
+ */
+export async function signInWithOAuth(provider: OAuthProvider) {
+  const supabase = await getSupabase()
+  const { error } = await supabase.auth.signInWithOAuth({
+    provider,
+    options: { redirectTo: getRedirectUrl() }
+  })
+
+  if (error) {
+    throw error
+  }
+}
+
+export async function signOut() {
+  const supabase = await getSupabase()
+  const { error } = await supabase.auth.signOut()
+
+  if (error) {
+    throw error
+  }
+}
+
+export async function getSession(): Promise<Session | null> {
+  const supabase = await getSupabase()
+  const { data, error } = await supabase.auth.getSession()
+
+  if (error) {
+    throw error
+  }
+  return data.session
+}
+
+/**
+ * Subscribe to sign-in/sign-out
+ * @returns Unsubscribe function
+ */
+export async function onAuthStateChange(callback: (session: Session | null) => void): Promise<() => void> {
+  const supabase = await getSupabase()
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => callback(session))
+  return () => data.subscription.unsubscribe()
+}
+
+export async function fetchProfile(userId: string): Promise<UserProfile | null> {
+  const supabase = await getSupabase()
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, display_name, home_city_slug, preferred_categories, price_ceiling')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+  return data ? profileFromRow(data as ProfileRow) : null
+}
+
+/**
+ * Save profile preferences (creates the row if the sign-up trigger has not)
+ */
+export async function updateProfile(userId: string, updates: ProfileUpdate): Promise<UserProfile> {
+  const row: Partial<ProfileRow> & { id: string; updated_at: string } = {
+    id: userId,
+    updated_at: new Date().toISOString()
+  }
+  if (updates.displayName !== undefined) row.display_name = updates.displayName
+  if (updates.homeCitySlug !== undefined) row.home_city_slug = updates.homeCitySlug
+  if (updates.preferredCategories !== undefined) row.preferred_categories = updates.preferredCategories
+  if (updates.priceCeiling !== undefined) row.price_ceiling = updates.priceCeiling
+
+  const supabase = await getSupabase()
+  const { data, error } = await supabase
+    .from('profiles')
+    .upsert(row, { onConflict: 'id' })
+    .select('id, display_name, home_city_slug, preferred_categories, price_ceiling')
+    .single()
+
+  if (error) {
+    throw error
+  }
+  return profileFromRow(data as ProfileRow)
+}
@@ -3,6 +3,10 @@
  * Manages venue searches and busy time forecasts
  */
 
+import type { BestTimeRawData, VenueDiscoveryProvider } from './dataProviders'
+import { httpFetch } from './httpClient'
+import { runGridSearch, type GridCell, type GridSearchResult } from './venueGrid'
+
 const BESTTIME_API_BASE = 'https://besttime.app/api/v1'
 
 // Get API key (works in both Next.js and scripts)
@@ -37,21 +41,9 @@ export interface BestTimeVenue {
   venue_lat: number
   venue_lon: number  // BestTime uses 'lon' not 'lng'
   venue_type?: string  // Optional - not always provided
-}
-
-export interface BusyHour {
-  hour: number
-  intensity: number // 0-100
-}
-
-export interface BusyDay {
-  day: number // 0-6 (Monday-Sunday)
-  busy_hours: BusyHour[]
-}
-
-export interface BusyForecast {
-  venue_id: string
-  week: BusyDay[]
+  venue_types?: string[]
+  day_raw?: number[]
+  forecast_simple?: Array<Array<{ intensity_nr?: number }> | undefined>
 }
 
 /**
@@ -90,7 +82,7 @@ export async function searchEventVenues(
     params.append('fast', 'true')
   }
 
-  const searchResponse = await fetch(`${BESTTIME_API_BASE}/venues/search?${params}`, {
+  const searchResponse = await httpFetch('besttime', `${BESTTIME_API_BASE}/venues/search?${params}`, {
     method: 'POST'
   })
 
@@ -123,7 +115,7 @@ export async function searchEventVenues(
     console.log(`📊 Polling progress (attempt ${attempt}/${maxAttempts})...`)
 
     // Use the exact URL provided by BestTime
-    const progressResponse = await fetch(progressUrl)
+    const progressResponse = await httpFetch('besttime', progressUrl)
 
     if (!progressResponse.ok) {
       console.error(`⚠️ Progress check failed: ${progressResponse.statusText}`)
@@ -156,84 +148,24 @@ export async function searchEventVenues(
 
 /**
  * Grid-based venue search for better city coverage
- * Returns ~500 venues by searching multiple strategic locations
+ * One search per cell from buildSearchGrid (src/lib/venueGrid.ts), with per-cell coverage
  */
-export async function searchEventVenuesGrid(
-  centerLat: number,
-  centerLng: number
-): Promise<BestTimeVenue[]> {
-  console.log(`🗺️  Starting grid search centered on ${centerLat}, ${centerLng}`)
-
-  // Define search grid - WIDER coverage with less overlap
-  // Strategy: Push cardinal points further out to minimize overlap
-  const searches = [
-    // Center (Downtown) - SLOW search, 5km radius for maximum coverage
-    { lat: centerLat, lng: centerLng, radius: 5000, fast: false, name: 'Downtown' },
-
-    // North - 6km away to avoid overlap
-    { lat: centerLat + 0.054, lng: centerLng, radius: 3000, fast: true, name: 'North Austin' },
+export function searchEventVenuesGrid(cells: GridCell[]): Promise<GridSearchResult> {
+  const slow = cells.filter(cell => !cell.fast).length
+  console.log(`🗺️  Starting grid search: ${slow} slow + ${cells.length - slow} fast cells`)
 
-    // South - 6km away to avoid overlap
-    { lat: centerLat - 0.054, lng: centerLng, radius: 3000, fast: true, name: 'South Austin' },
-
-    // East - 6km away to avoid overlap
-    { lat: centerLat, lng: centerLng + 0.065, radius: 3000, fast: true, name: 'East Austin' },
-
-    // West - 6km away to avoid overlap
-    { lat: centerLat, lng: centerLng - 0.065, radius: 3000, fast: true, name: 'West Austin' },
-
-    // Northwest
-    { lat: centerLat + 0.045, lng: centerLng - 0.045, radius: 2500, fast: true, name: 'Northwest' },
-
-    // Northeast
-    { lat: centerLat + 0.045, lng: centerLng + 0.045, radius: 2500, fast: true, name: 'Northeast' },
-
-    // Southwest
-    { lat: centerLat - 0.045, lng: centerLng - 0.045, radius: 2500, fast: true, name: 'Southwest' },
-
-    // Southeast
-    { lat: centerLat - 0.045, lng: centerLng + 0.045, radius: 2500, fast: true, name: 'Southeast' }
-  ]
-
-  console.log(`📍 Grid pattern: 1 slow (5km downtown) + 8 fast (cardinals + corners)`)
-
-  // Execute all searches in parallel
-  const searchPromises = searches.map(search =>
-    searchEventVenues(search.lat, search.lng, search.radius, 200, search.fast)
-      .then(venues => {
-        console.log(`✅ ${search.name} search complete: ${venues.length} venues`)
-        return venues
-      })
-      .catch(error => {
-        console.error(`❌ ${search.name} search failed:`, error)
-        return [] // Return empty array on failure, don't block other searches
-      })
+  return runGridSearch(cells, cell =>
+    searchEventVenues(cell.lat, cell.lng, cell.radius, cell.limit, cell.fast)
   )
-
-  // Wait for all searches to complete
-  const results = await Promise.all(searchPromises)
-
-  // Flatten and deduplicate by venue_id
-  const allVenues = results.flat()
-  const uniqueVenues = new Map<string, BestTimeVenue>()
-
-  allVenues.forEach(venue => {
-    if (venue.venue_id && !uniqueVenues.has(venue.venue_id)) {
-      uniqueVenues.set(venue.venue_id, venue)
-    }
-  })
-
-  const finalVenues = Array.from(uniqueVenues.values())
-  console.log(`🎯 Grid search complete: ${finalVenues.length} unique venues (${allVenues.length - finalVenues.length} duplicates removed)`)
-
-  return finalVenues
 }
 
 /**
- * Get busy forecast for a specific venue
+ * Week forecast for a venue: hourly intensity (0-100) per day, days starting on Monday
+ * Stored normalized in `venue_forecasts` by the refresh-venue-forecasts job
  */
-export async function getVenueBusyForecast(venueId: string): Promise<BusyForecast | null> {
-  const response = await fetch(
+export async function getVenueWeekForecast(venueId: string): Promise<BestTimeRawData | null> {
+  const response = await httpFetch(
+    'besttime',
     `${BESTTIME_API_BASE}/forecasts/${venueId}?api_key_private=${getPrivateKey()}`
   )
 
@@ -243,25 +175,7 @@ export async function getVenueBusyForecast(venueId: string): Promise<BusyForecas
   }
 
   const data = await response.json()
-  return {
-    venue_id: venueId,
-    week: data.analysis || []
-  }
-}
-
-/**
- * Query week forecast (full details)
- */
-export async function queryWeekForecast(venueId: string): Promise<any> {
-  const response = await fetch(
-    `${BESTTIME_API_BASE}/forecasts/${venueId}/week?api_key_private=${getPrivateKey()}`
-  )
-
-  if (!response.ok) {
-    throw new Error(`BestTime API error: ${response.statusText}`)
-  }
-
-  return response.json()
+  return { analysis: data.analysis || [] }
 }
 
 /**
@@ -278,7 +192,7 @@ export async function filterBusyVenues(
   const types = EVENT_VENUE_TYPES.join(',')
   const url = `${BESTTIME_API_BASE}/venues/filter?api_key_private=${getPrivateKey()}&types=${types}&lat=${lat}&lng=${lng}&radius=${radius}&hour_min=${hourMin}&hour_max=${hourMax}&busy_min=${busyMin}`
 
-  const response = await fetch(url)
+  const response = await httpFetch('besttime', url)
 
   if (!response.ok) {
     throw new Error(`BestTime API error: ${response.statusText}`)
@@ -289,49 +203,20 @@ export async function filterBusyVenues(
 }
 
 /**
- * Rate limiting helper
+ * Venue discovery provider backed by the live BestTime API
  */
-export class RateLimiter {
-  private queue: Array<() => Promise<any>> = []
-  private processing = false
-  private requestsPerSecond: number
+export class BestTimeVenueDiscoveryProvider implements VenueDiscoveryProvider {
+  readonly name = 'besttime' as const
 
-  constructor(requestsPerSecond: number = 10) {
-    this.requestsPerSecond = requestsPerSecond
+  searchVenues(lat: number, lng: number, radius: number, limit: number): Promise<BestTimeVenue[]> {
+    return searchEventVenues(lat, lng, radius, limit)
   }
 
-  async add<T>(fn: () => Promise<T>): Promise<T> {
-    return new Promise((resolve, reject) => {
-      this.queue.push(async () => {
-        try {
-          const result = await fn()
-          resolve(result)
-        } catch (error) {
-          reject(error)
-        }
-      })
-
-      if (!this.processing) {
-        this.process()
-      }
-    })
+  searchVenuesGrid(cells: GridCell[]): Promise<GridSearchResult> {
+    return searchEventVenuesGrid(cells)
   }
 
-  private async process() {
-    this.processing = true
-    const delay = 1000 / this.requestsPerSecond
-
-    while (this.queue.length > 0) {
-      const fn = this.queue.shift()
-      if (fn) {
-        await fn()
-        await new Promise(resolve => setTimeout(resolve, delay))
-      }
-    }
-
-    this.processing = false
+  getVenueForecast(venueId: string): Promise<BestTimeRawData | null> {
+    return getVenueWeekForecast(venueId)
   }
 }
-
-// Global rate limiter instance
-export const rateLimiter = new RateLimiter(10) // 10 requests/sec
@@ -0,0 +1,54 @@
+/**
+ * Saved-events calendar feed
+ * The browser keeps a feed token in localStorage and re-posts its saved list whenever
+ * it changes, so a calendar subscribed to the feed URL stays in sync.
+ */
+
+const FEED_TOKEN_KEY = 'saved-calendar-feed-token'
+
+// Upper bound on events in one export or feed
+export const MAX_SAVED_EVENTS = 500
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export function isFeedToken(value: string): boolean {
+  return UUID_PATTERN.test(value)
+}
+
+export function getFeedUrl(origin: string, token: string): string {
+  return `${origin}/api/saved/ics?token=${token}`
+}
+
+/**
+ * webcal:// link that opens the feed as a subscription in calendar apps
+ */
+export function getSubscribeUrl(feedUrl: string): string {
+  return feedUrl.replace(/^https?:\/\//, 'webcal://')
+}
+
+/**
+ * Push the current saved event ids to this browser's feed (created on first call)
+ * @returns The feed URL, or null if the update failed
+ */
+export async function syncSavedCalendarFeed(eventIds: string[]): Promise<string | null> {
+  const storedToken = localStorage.getItem(FEED_TOKEN_KEY) || undefined
+
+  try {
+    const response = await fetch('/api/saved/feed', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ eventIds: eventIds.slice(0, MAX_SAVED_EVENTS), token: storedToken })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Feed update failed: ${response.status}`)
+    }
+
+    const { token, feedUrl } = await response.json() as { token: string; feedUrl: string }
+    localStorage.setItem(FEED_TOKEN_KEY, token)
+    return feedUrl
+  } catch (error) {
+    console.error('Error syncing saved calendar feed:', error)
+    return null
+  }
+}
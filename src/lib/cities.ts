@@ -0,0 +1,73 @@
+/**
+ * City registry
+ * The single source of truth for supported cities: the city switcher, fixtures, weather and
+ * transit lookups, and the onboarding command (scripts/onboard-city.ts) all read from here.
+ *
+ * To add a city, add an entry and run `npm run onboard-city -- <slug>`.
+ */
+
+import type { Bbox } from './events'
+
+export interface CityConfig {
+  id: string // Matches the Supabase `cities` row id
+  name: string
+  slug: string
+  region: string // State or province
+  country: string // ISO 3166-1 alpha-2
+  center: { lat: number; lng: number }
+  bbox: Bbox // City limits, used for boundary fetching and venue discovery
+  timezone: string // IANA timezone, used for calendar exports and recurrence rules
+  currency: string // ISO 4217, for event prices
+  neighborhoodAdminLevel: number // OpenStreetMap admin_level of neighborhood boundaries
+  active: boolean // Shown in the city switcher
+}
+
+export const CITY_REGISTRY: CityConfig[] = [
+  {
+    id: '1',
+    name: 'San Francisco',
+    slug: 'san-francisco',
+    region: 'California',
+    country: 'US',
+    center: { lat: 37.7749, lng: -122.4194 },
+    bbox: { west: -122.52, south: 37.7, east: -122.35, north: 37.83 },
+    timezone: 'America/Los_Angeles',
+    currency: 'USD',
+    neighborhoodAdminLevel: 10,
+    active: true
+  },
+  {
+    id: '2',
+    name: 'Austin',
+    slug: 'austin',
+    region: 'Texas',
+    country: 'US',
+    center: { lat: 30.2672, lng: -97.7431 },
+    bbox: { west: -97.95, south: 30.1, east: -97.55, north: 30.5 },
+    timezone: 'America/Chicago',
+    currency: 'USD',
+    neighborhoodAdminLevel: 10,
+    active: true
+  },
+  {
+    id: '3',
+    name: 'New York',
+    slug: 'new-york',
+    region: 'New York',
+    country: 'US',
+    center: { lat: 40.7128, lng: -74.006 },
+    bbox: { west: -74.3, south: 40.5, east: -73.7, north: 40.92 },
+    timezone: 'America/New_York',
+    currency: 'USD',
+    neighborhoodAdminLevel: 9, // NYC neighborhoods sit one level up
+    active: false // Not onboarded yet
+  }
+]
+
+export function getCityConfig(slug: string): CityConfig | undefined {
+  return CITY_REGISTRY.find(city => city.slug === slug)
+}
+
+export function getCityConfigById(id: string): CityConfig | undefined {
+  return CITY_REGISTRY.find(city => city.id === id)
+}
@@ -2,33 +2,28 @@
  * City detection and selection
  */
 
+import { CITY_REGISTRY } from './cities'
+
 export interface City {
   id: string
   name: string
   slug: string
   lat: number
   lng: number
+  timezone: string // IANA timezone, used for calendar exports and recurrence rules
   active: boolean
 }
 
-export const CITIES: City[] = [
-  {
-    id: '1',
-    name: 'San Francisco',
-    slug: 'san-francisco',
-    lat: 37.7749,
-    lng: -122.4194,
-    active: true
-  },
-  {
-    id: '2',
-    name: 'Austin',
-    slug: 'austin',
-    lat: 30.2672,
-    lng: -97.7431,
-    active: true
-  }
-]
+// Flattened from the city registry (src/lib/cities.ts)
+export const CITIES: City[] = CITY_REGISTRY.map(city => ({
+  id: city.id,
+  name: city.name,
+  slug: city.slug,
+  lat: city.center.lat,
+  lng: city.center.lng,
+  timezone: city.timezone,
+  active: city.active
+}))
 
 /**
  * Calculate distance between two coordinates (Haversine formula)
@@ -5,12 +5,17 @@
  * Zoom 11-14: ONE hexagon per neighborhood (shows count)
  * Zoom 15+: Individual animated sprites per event
  * Click neighborhood: Zoom in + show individual sprites
+ *
+ * The page only loads a city's most popular events, so below street level the counts come from
+ * the tile endpoint's server-side aggregates when they're available (setTileSummary).
  */
 
 import mapboxgl from 'mapbox-gl'
 import type { Event, EventCluster } from '@/types'
 import type { NeighborhoodCollection } from './neighborhoods'
 import { findNeighborhood, getNeighborhoodCentroids } from './neighborhoods'
+import { getNextOccurrences } from './recurrence'
+import type { HeatClusterSummary, TileAggregation } from './tileAggregation'
 
 export class ClusteringSystemV2 {
   private map: mapboxgl.Map
@@ -19,6 +24,7 @@ export class ClusteringSystemV2 {
   private markers: Map<string, mapboxgl.Marker> = new Map()
   private markerElements: Map<string, HTMLElement> = new Map() // Track marker elements for selection updates
   private declusteredNeighborhoods: Set<string> = new Set()
+  private tileSummary: TileAggregation | null = null // Server counts for the viewport (heat or neighborhood tiles)
   private selectedEventId: string | null = null // Track selected event for highlighting
   private onHexagonClick?: (events: Event[]) => void
   private onSpriteClick?: (event: Event, position: { x: number; y: number }) => void
@@ -33,7 +39,7 @@ export class ClusteringSystemV2 {
     onSpriteClick?: (event: Event, position: { x: number; y: number }) => void
   ) {
     this.map = map
-    this.events = events
+    this.events = getNextOccurrences(events)
     this.neighborhoods = neighborhoods
     this.onHexagonClick = onHexagonClick
     this.onSpriteClick = onSpriteClick
@@ -45,12 +51,35 @@ export class ClusteringSystemV2 {
   }
 
   setEvents(events: Event[]) {
-    this.events = events
+    // Recurring series show one sprite, at their next occurrence
+    this.events = getNextOccurrences(events)
     // Clear declustered state when switching cities
     this.declusteredNeighborhoods.clear()
+    this.tileSummary = null
     this.update()
   }
 
+  /**
+   * Add events loaded after the city (viewport tiles, linked or saved events), keeping declustered state
+   */
+  addEvents(events: Event[]) {
+    const known = new Set(this.events.map(e => e.seriesId ?? e.id))
+    const added = getNextOccurrences(events).filter(e => !known.has(e.seriesId ?? e.id))
+    if (added.length === 0) return
+
+    this.events = [...this.events, ...added]
+    this.updateDebounced()
+  }
+
+  /**
+   * Server-side heat or neighborhood counts for the current viewport (null: count the loaded events)
+   */
+  setTileSummary(summary: TileAggregation | null) {
+    if (summary === this.tileSummary) return
+    this.tileSummary = summary
+    this.updateDebounced()
+  }
+
   /**
    * Set selected event for highlighting on map
    */
@@ -282,6 +311,16 @@ export class ClusteringSystemV2 {
 
     console.log(`🏘️  Found ${neighborhoodGroups.size} unique neighborhoods:`, Array.from(neighborhoodGroups.keys()))
 
+    // Server counts include events the city-wide load left out, and neighborhoods with none loaded
+    const tileCounts = this.tileSummary?.mode === 'neighborhood'
+      ? new Map(this.tileSummary.neighborhoods.map(n => [n.name.trim(), n]))
+      : null
+    tileCounts?.forEach((_, name) => {
+      if (!this.declusteredNeighborhoods.has(name) && !neighborhoodGroups.has(name)) {
+        neighborhoodGroups.set(name, [])
+      }
+    })
+
     // Get pre-calculated centroids for ALL neighborhoods (more accurate than bbox center)
     const centroids = getNeighborhoodCentroids(this.neighborhoods)
     const centroidMap = new Map(centroids.map(c => [c.name.trim(), { lat: c.lat, lng: c.lng }]))
@@ -291,10 +330,15 @@ export class ClusteringSystemV2 {
       // Use pre-calculated centroid if available, otherwise fallback to event center
       let centerLat, centerLng
       const centroid = centroidMap.get(neighborhoodName)
+      const tileCount = tileCounts?.get(neighborhoodName)
+      const count = Math.max(tileCount?.count ?? 0, neighborhoodEvents.length)
 
       if (centroid) {
         centerLat = centroid.lat
         centerLng = centroid.lng
+      } else if (tileCount) {
+        centerLat = tileCount.latitude
+        centerLng = tileCount.longitude
       } else {
         // Fallback to event center if centroid not found
         console.warn(`⚠️  No centroid found for "${neighborhoodName}", using event center`)
@@ -303,7 +347,7 @@ export class ClusteringSystemV2 {
       }
 
       // Create hexagon marker
-      const el = this.createHexagonMarker(neighborhoodEvents.length, neighborhoodName)
+      const el = this.createHexagonMarker(count, neighborhoodName)
 
       const marker = new mapboxgl.Marker({ element: el, anchor: 'center' })
         .setLngLat([centerLng, centerLat])
@@ -313,7 +357,7 @@ export class ClusteringSystemV2 {
       // Hexagon markers can't reliably receive clicks because Mapbox polygon layer intercepts them
 
       this.markers.set(`neighborhood-${neighborhoodName}`, marker)
-      console.log(`  ✅ Created hexagon for "${neighborhoodName}" at [${centerLng.toFixed(4)}, ${centerLat.toFixed(4)}] with ${neighborhoodEvents.length} events`)
+      console.log(`  ✅ Created hexagon for "${neighborhoodName}" at [${centerLng.toFixed(4)}, ${centerLat.toFixed(4)}] with ${count} events`)
     })
 
     console.log(`✅ Rendered ${this.markers.size} hexagon markers`)
@@ -368,6 +412,11 @@ export class ClusteringSystemV2 {
    * Render popularity/heat clusters (zoom < 11)
    */
   private renderPopularityClusters(events: Event[]) {
+    if (this.tileSummary?.mode === 'heat') {
+      this.renderTileHeatClusters(this.tileSummary.clusters)
+      return
+    }
+
     console.log(`🔥🔥🔥 HEAT CLUSTER RENDER STARTED - ${events.length} events`)
 
     if (events.length === 0) {
@@ -423,6 +472,25 @@ export class ClusteringSystemV2 {
     console.log(`📊 Map zoom level: ${this.map.getZoom().toFixed(2)}`)
   }
 
+  /**
+   * Render heat clusters aggregated by the tile endpoint (same grid as renderPopularityClusters)
+   */
+  private renderTileHeatClusters(clusters: HeatClusterSummary[]) {
+    clusters.forEach(cluster => {
+      const marker = new mapboxgl.Marker({ element: this.createHeatMarker(cluster.count), anchor: 'center' })
+        .setLngLat([cluster.longitude, cluster.latitude])
+        .addTo(this.map)
+
+      const markerElement = marker.getElement()
+      markerElement.style.zIndex = '999'
+      markerElement.style.position = 'absolute'
+
+      this.markers.set(`heat-${cluster.id}`, marker)
+    })
+
+    console.log(`✅ Rendered ${clusters.length} heat markers from the tile endpoint`)
+  }
+
   /**
    * Create hexagon marker for neighborhoods - dynamically sized based on event count
    */
@@ -0,0 +1,313 @@
+/**
+ * Data provider abstraction
+ * API routes talk to these interfaces instead of Supabase, BestTime or Google directly,
+ * so the whole app can run offline against fixtures.
+ *
+ * Select with the DATA_PROVIDER environment variable:
+ *   DATA_PROVIDER=supabase (default) - Supabase storage, BestTime discovery, Google Places photos, NWS weather, Web Push
+ *   DATA_PROVIDER=fixture            - In-memory Austin mock dataset + SF GeoJSON, no network or API keys
+ *
+ * PUSH_CAPTURE=true captures push notifications instead of sending them with either provider.
+ */
+
+import 'server-only'
+import type { Event } from '@/types'
+import type { BestTimeVenue } from './besttime'
+import type { Bbox } from './events'
+import type { PushPayload, PushSubscriptionKeys } from './pushNotifications'
+import type { GridCell, GridSearchResult } from './venueGrid'
+import type { HourlyForecast } from './weather'
+
+export type DataProviderName = 'supabase' | 'fixture'
+
+export interface CityRecord {
+  id: string
+  name: string
+  slug: string
+  lat: number
+  lng: number
+  timezone: string
+}
+
+// BestTime week analysis, as found in `raw_data` on venue rows
+export interface BestTimeRawData {
+  analysis?: Array<{
+    hour_analysis?: Array<{ hour: number; intensity_nr: number }>
+  }>
+}
+
+// Venue row shape (mirrors the Supabase `venues` table)
+export interface VenueRecord {
+  id: string
+  city_id: string
+  name: string
+  address: string
+  lat: number
+  lng: number
+  venue_type: string
+  besttime_venue_id: string
+  is_event_venue: boolean
+  photo_url: string | null
+  last_queried_at: string | null
+  google_rating?: number | null
+  google_review_count?: number | null
+  raw_data?: unknown
+  // Freshness of the forecast in raw_data and of the photo lookup (see src/lib/venueCache.ts)
+  forecast_updated_at?: string | null
+  photo_updated_at?: string | null
+}
+
+export type VenueUpsert = Omit<VenueRecord, 'id' | 'photo_url' | 'google_rating' | 'google_review_count' | 'photo_updated_at'>
+
+// One hour of a venue's weekly forecast (`venue_forecasts` rows, see src/lib/venueForecasts.ts)
+export interface VenueForecastHour {
+  venueId: string
+  weekday: number // 0-6, Monday first like BestTime
+  hour: number // 0-23, venue local time
+  intensity: number // 0-100
+}
+
+// Photo and rating for a venue from a places lookup
+export interface VenuePlaceInfo {
+  photoUrl: string | null
+  rating: number | null
+  reviewCount: number | null
+}
+
+export interface EventQuery {
+  from: Date
+  to: Date
+  bbox?: Bbox | null
+}
+
+export interface VenueQuery {
+  eventVenuesOnly?: boolean
+}
+
+export interface EventDataProvider {
+  readonly name: DataProviderName
+  getCity(slug: string): Promise<CityRecord | null>
+  getEvents(city: CityRecord, query: EventQuery): Promise<Event[]>
+  // Events or series by id, unexpanded (occurrence ids are resolved by getEventsByIds in events.ts)
+  getEventsByIds(ids: string[]): Promise<Event[]>
+}
+
+export interface VenueDataProvider {
+  readonly name: DataProviderName
+  getCity(slug: string): Promise<CityRecord | null>
+  getVenues(cityId: string, query?: VenueQuery): Promise<VenueRecord[]>
+  getVenue(id: string): Promise<VenueRecord | null>
+  upsertVenues(venues: VenueUpsert[]): Promise<void>
+  // null records a lookup that found nothing, so it isn't retried until the photo TTL passes
+  setVenuePlaceInfo(besttimeVenueId: string, info: VenuePlaceInfo | null): Promise<void>
+  // Replaces the venue's forecast rows and marks the forecast fresh
+  // null records a lookup that found nothing, so it isn't retried until the forecast TTL passes
+  setVenueForecast(besttimeVenueId: string, forecast: BestTimeRawData | null): Promise<void>
+  getVenueForecasts(venueIds: string[]): Promise<VenueForecastHour[]>
+  // Forecast for one weekday and hour across every venue in a city
+  getCityBusyness(cityId: string, weekday: number, hour: number): Promise<VenueForecastHour[]>
+}
+
+// Venue discovery (BestTime search or fixtures)
+export interface VenueDiscoveryProvider {
+  readonly name: 'besttime' | 'fixture'
+  searchVenues(lat: number, lng: number, radius: number, limit: number): Promise<BestTimeVenue[]>
+  searchVenuesGrid(cells: GridCell[]): Promise<GridSearchResult>
+  getVenueForecast(venueId: string): Promise<BestTimeRawData | null>
+}
+
+// Venue photo and rating lookup (Google Places or fixtures)
+export interface VenuePhotoProvider {
+  readonly name: 'google' | 'fixture'
+  getVenuePlaceInfo(venueName: string, lat: number, lng: number): Promise<VenuePlaceInfo | null>
+}
+
+// Subscribable saved-event calendar feeds, addressed by an unguessable token
+export interface CalendarFeedProvider {
+  readonly name: DataProviderName
+  getFeedEventIds(token: string): Promise<string[] | null>
+  // Creates a feed when no token is given; returns the feed's token
+  saveFeed(eventIds: string[], token?: string): Promise<string>
+}
+
+// Last seen state of a saved event, compared on the next push scheduler run
+export interface PushEventSnapshot {
+  price: number | null // Lowest price (0 when free), null when unknown
+  soldOut: boolean
+  reminded: boolean // "Starts in 1 hour" already sent
+}
+
+export interface PushSubscriptionRecord {
+  endpoint: string
+  keys: PushSubscriptionKeys
+  eventIds: string[]
+  eventState: Record<string, PushEventSnapshot>
+}
+
+// Web Push subscriptions and their saved events, addressed by the push service endpoint
+export interface PushSubscriptionProvider {
+  readonly name: DataProviderName
+  // Creates the subscription or replaces its saved events; event state is kept
+  saveSubscription(endpoint: string, keys: PushSubscriptionKeys, eventIds: string[]): Promise<void>
+  deleteSubscription(endpoint: string): Promise<void>
+  // Subscriptions with at least one saved event
+  getSubscriptions(): Promise<PushSubscriptionRecord[]>
+  setEventState(endpoint: string, eventState: Record<string, PushEventSnapshot>): Promise<void>
+}
+
+// 'expired' when the push service no longer knows the subscription (404/410)
+export type PushSendResult = 'sent' | 'expired'
+
+// Push delivery (Web Push with VAPID, or captured in memory for local testing)
+export interface PushSender {
+  readonly name: 'web-push' | 'capture'
+  send(subscription: PushSubscriptionRecord, payload: PushPayload): Promise<PushSendResult>
+}
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+
+export interface JobRecord {
+  id: string
+  type: string
+  payload: Record<string, unknown>
+  status: JobStatus
+  result: unknown
+  error: string | null // Last failure, kept while a retry is pending
+  attempts: number
+  maxAttempts: number
+  runAt: string // Not picked up before this (retry backoff)
+  dedupeKey: string | null
+  createdAt: string
+  updatedAt: string
+  completedAt: string | null
+}
+
+// Background jobs (Supabase `jobs` table or in-memory fixtures), processed by src/lib/jobs.ts
+export interface JobQueueProvider {
+  readonly name: DataProviderName
+  // With a dedupeKey, returns the queued or running job with that key instead of adding another
+  enqueue(type: string, payload: Record<string, unknown>, maxAttempts: number, dedupeKey?: string): Promise<JobRecord>
+  getJob(id: string): Promise<JobRecord | null>
+  // Atomically marks the next due job as running and counts the attempt
+  claimNextJob(types?: string[]): Promise<JobRecord | null>
+  completeJob(id: string, result: unknown): Promise<void>
+  // Re-queues the job at retryAt, or marks it failed when retryAt is null
+  failJob(id: string, error: string, retryAt: Date | null): Promise<void>
+}
+
+// Token buckets for outbound API calls (src/lib/httpClient.ts), shared by every server,
+// worker and script process in Supabase; in-memory per process with fixtures
+export interface RateLimitProvider {
+  readonly name: DataProviderName
+  // Take one token from the bucket; resolves with how long to wait before sending (ms)
+  reserveToken(key: string, ratePerSecond: number, capacity: number): Promise<number>
+}
+
+// Hourly weather forecasts (National Weather Service or fixtures)
+export interface WeatherProvider {
+  readonly name: 'nws' | 'fixture'
+  getHourlyForecast(lat: number, lng: number): Promise<HourlyForecast[]>
+}
+
+/**
+ * Get the configured provider name from DATA_PROVIDER
+ */
+export function getDataProviderName(): DataProviderName {
+  const value = process.env.DATA_PROVIDER || 'supabase'
+  if (value !== 'supabase' && value !== 'fixture') {
+    throw new Error(`Invalid DATA_PROVIDER "${value}" (expected "supabase" or "fixture")`)
+  }
+  return value
+}
+
+// Providers are loaded lazily: the Supabase client throws at import time without credentials
+
+export async function getEventDataProvider(): Promise<EventDataProvider> {
+  if (getDataProviderName() === 'fixture') {
+    const { FixtureEventProvider } = await import('./fixtureProvider')
+    return new FixtureEventProvider()
+  }
+  const { SupabaseEventProvider } = await import('./supabaseProvider')
+  return new SupabaseEventProvider()
+}
+
+export async function getVenueDataProvider(): Promise<VenueDataProvider> {
+  if (getDataProviderName() === 'fixture') {
+    const { FixtureVenueProvider } = await import('./fixtureProvider')
+    return new FixtureVenueProvider()
+  }
+  const { SupabaseVenueProvider } = await import('./supabaseProvider')
+  return new SupabaseVenueProvider()
+}
+
+export async function getVenueDiscoveryProvider(): Promise<VenueDiscoveryProvider> {
+  if (getDataProviderName() === 'fixture') {
+    const { FixtureVenueDiscoveryProvider } = await import('./fixtureProvider')
+    return new FixtureVenueDiscoveryProvider()
+  }
+  const { BestTimeVenueDiscoveryProvider } = await import('./besttime')
+  return new BestTimeVenueDiscoveryProvider()
+}
+
+export async function getVenuePhotoProvider(): Promise<VenuePhotoProvider> {
+  if (getDataProviderName() === 'fixture') {
+    const { FixtureVenuePhotoProvider } = await import('./fixtureProvider')
+    return new FixtureVenuePhotoProvider()
+  }
+  const { GooglePlacesPhotoProvider } = await import('./googlePlaces')
+  return new GooglePlacesPhotoProvider()
+}
+
+export async function getCalendarFeedProvider(): Promise<CalendarFeedProvider> {
+  if (getDataProviderName() === 'fixture') {
+    const { FixtureCalendarFeedProvider } = await import('./fixtureProvider')
+    return new FixtureCalendarFeedProvider()
+  }
+  const { SupabaseCalendarFeedProvider } = await import('./supabaseProvider')
+  return new SupabaseCalendarFeedProvider()
+}
+
+export async function getPushSubscriptionProvider(): Promise<PushSubscriptionProvider> {
+  if (getDataProviderName() === 'fixture') {
+    const { FixturePushSubscriptionProvider } = await import('./fixtureProvider')
+    return new FixturePushSubscriptionProvider()
+  }
+  const { SupabasePushSubscriptionProvider } = await import('./supabaseProvider')
+  return new SupabasePushSubscriptionProvider()
+}
+
+export async function getPushSender(): Promise<PushSender> {
+  if (getDataProviderName() === 'fixture' || process.env.PUSH_CAPTURE === 'true') {
+    const { CapturePushSender } = await import('./webPush')
+    return new CapturePushSender()
+  }
+  const { WebPushSender } = await import('./webPush')
+  return new WebPushSender()
+}
+
+export async function getWeatherProvider(): Promise<WeatherProvider> {
+  if (getDataProviderName() === 'fixture') {
+    const { FixtureWeatherProvider } = await import('./fixtureProvider')
+    return new FixtureWeatherProvider()
+  }
+  const { NwsWeatherProvider } = await import('./weatherServer')
+  return new NwsWeatherProvider()
+}
+
+export async function getRateLimitProvider(): Promise<RateLimitProvider> {
+  if (getDataProviderName() === 'fixture') {
+    const { FixtureRateLimitProvider } = await import('./fixtureProvider')
+    return new FixtureRateLimitProvider()
+  }
+  const { SupabaseRateLimitProvider } = await import('./supabaseProvider')
+  return new SupabaseRateLimitProvider()
+}
+
+export async function getJobQueueProvider(): Promise<JobQueueProvider> {
+  if (getDataProviderName() === 'fixture') {
+    const { FixtureJobQueueProvider } = await import('./fixtureProvider')
+    return new FixtureJobQueueProvider()
+  }
+  const { SupabaseJobQueueProvider } = await import('./supabaseProvider')
+  return new SupabaseJobQueueProvider()
+}
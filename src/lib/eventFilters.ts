@@ -0,0 +1,409 @@
+/**
+ * Event filter engine
+ * One composable filter spec (EventFilterSpec in src/types) shared by the filter drawers,
+ * smart chips, search and GET /api/events. Set fields are combined with AND.
+ */
+
+import type { DatePreset, Event, EventFilterSpec, EventSortKey, NumberRange } from '@/types'
+import { getDistanceKm } from './geoUtils'
+import { isPointInPolygon, type NeighborhoodCollection } from './neighborhoods'
+import { FOR_YOU_MIN_SCORE, scoreEvent, type AffinityProfile } from './recommendations'
+import { getLocalDateTime, zonedTimeToUtc, type LocalDateTime } from './timeZones'
+
+export interface FilterContext {
+  now?: Date
+  timeZone?: string // Timezone date presets are evaluated in (default: the runtime's)
+  neighborhoods?: NeighborhoodCollection // Required for `neighborhood` filters
+  affinities?: AffinityProfile // The user's recommendation profile, for `recommended` and the 'for-you' sort
+}
+
+export const DATE_PRESETS: DatePreset[] = ['starting-soon', 'today', 'tonight', 'this-weekend', 'next-week', 'anytime']
+
+export const SORT_KEYS: EventSortKey[] = ['time', 'popularity', 'price', 'distance', 'relevance', 'for-you']
+
+// 'starting-soon' matches events starting within this many hours
+export const STARTING_SOON_HOURS = 3
+
+// Filter category ids → event category names they cover (lowercase)
+const CATEGORY_ALIASES: Record<string, string[]> = {
+  music: ['music'],
+  food: ['food', 'food & drink'],
+  art: ['art', 'arts', 'arts & culture'],
+  sports: ['sports'],
+  markets: ['markets'],
+  community: ['community']
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+function getDefaultTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+// Instant of `hour`:00 local time, `dayOffset` days from `today`
+function getLocalInstant(today: LocalDateTime, dayOffset: number, hour: number, timeZone: string): Date {
+  const date = new Date(Date.UTC(today.year, today.month - 1, today.day + dayOffset))
+  return new Date(zonedTimeToUtc({
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour,
+    minute: 0,
+    second: 0
+  }, timeZone))
+}
+
+/**
+ * Time window covered by a date preset (null for 'anytime')
+ * - today: local midnight to midnight
+ * - tonight: 5pm to 4am
+ * - this-weekend: Saturday 00:00 to Monday 00:00 (the current weekend on Sat/Sun)
+ * - next-week: the next 7 days
+ */
+export function getDatePresetWindow(
+  preset: DatePreset,
+  now: Date = new Date(),
+  timeZone: string = getDefaultTimeZone()
+): { start: Date; end: Date } | null {
+  const today = getLocalDateTime(now, timeZone)
+  const weekday = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay()
+
+  switch (preset) {
+    case 'starting-soon':
+      return { start: now, end: new Date(now.getTime() + STARTING_SOON_HOURS * HOUR_MS) }
+    case 'today':
+      return { start: getLocalInstant(today, 0, 0, timeZone), end: getLocalInstant(today, 1, 0, timeZone) }
+    case 'tonight':
+      return { start: getLocalInstant(today, 0, 17, timeZone), end: getLocalInstant(today, 1, 4, timeZone) }
+    case 'this-weekend': {
+      const saturdayOffset = weekday === 0 ? -1 : 6 - weekday
+      return {
+        start: getLocalInstant(today, saturdayOffset, 0, timeZone),
+        end: getLocalInstant(today, saturdayOffset + 2, 0, timeZone)
+      }
+    }
+    case 'next-week':
+      return { start: now, end: new Date(now.getTime() + 7 * DAY_MS) }
+    case 'anytime':
+      return null
+  }
+}
+
+function inRange(value: number, range: NumberRange): boolean {
+  if (range.min !== undefined && value < range.min) return false
+  if (range.max !== undefined && value > range.max) return false
+  return true
+}
+
+function matchesCategory(event: Event, categories: string[]): boolean {
+  const category = event.category.toLowerCase()
+  return categories.some(id => {
+    const key = id.toLowerCase()
+    return (CATEGORY_ALIASES[key] || [key]).includes(category)
+  })
+}
+
+function getSearchTerms(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean)
+}
+
+// Weighted text match: title 3, venue 2, category/subcategory/tags 1 per term (0: no match)
+function getQueryScore(event: Event, terms: string[]): number {
+  const title = event.title.toLowerCase()
+  const venue = event.venue.toLowerCase()
+  const other = [event.category, event.subcategory, ...event.tags].join(' ').toLowerCase()
+
+  let score = 0
+  for (const term of terms) {
+    const termScore = (title.includes(term) ? 3 : 0) + (venue.includes(term) ? 2 : 0) + (other.includes(term) ? 1 : 0)
+    if (termScore === 0) return 0
+    score += termScore
+  }
+  return score
+}
+
+/**
+ * Whether an event matches every set field of the spec
+ */
+export function matchesFilters(event: Event, spec: EventFilterSpec, context: FilterContext = {}): boolean {
+  const now = context.now || new Date()
+
+  if (spec.query?.trim() && getQueryScore(event, getSearchTerms(spec.query)) === 0) return false
+
+  if (spec.categories?.length && !matchesCategory(event, spec.categories)) return false
+
+  if (spec.subcategories?.length) {
+    const subcategory = event.subcategory.toLowerCase()
+    if (!spec.subcategories.some(s => s.toLowerCase() === subcategory)) return false
+  }
+
+  if (spec.tags?.length) {
+    const tags = event.tags.map(t => t.toLowerCase())
+    if (!spec.tags.some(t => tags.includes(t.toLowerCase()))) return false
+  }
+
+  if (spec.date && spec.date !== 'anytime') {
+    const start = new Date(event.startTime).getTime()
+    const end = new Date(event.endTime).getTime()
+
+    if (spec.date === 'starting-soon') {
+      // Starting soon means not yet started
+      if (start < now.getTime() || start > now.getTime() + STARTING_SOON_HOURS * HOUR_MS) return false
+    } else {
+      const range = typeof spec.date === 'string'
+        ? getDatePresetWindow(spec.date, now, context.timeZone)
+        : { start: new Date(spec.date.start), end: new Date(spec.date.end) }
+      if (range && (start >= range.end.getTime() || end <= range.start.getTime())) return false
+    }
+  }
+
+  if (spec.freeOnly && !event.price.isFree) return false
+
+  if (spec.price) {
+    const cheapest = event.price.isFree ? 0 : event.price.min ?? 0
+    const priciest = event.price.isFree ? 0 : event.price.max ?? cheapest
+    if (spec.price.max !== undefined && cheapest > spec.price.max) return false
+    if (spec.price.min !== undefined && priciest < spec.price.min) return false
+  }
+
+  if (spec.near) {
+    const distance = getDistanceKm(spec.near.lat, spec.near.lng, event.latitude, event.longitude)
+    if (distance > spec.near.radiusKm) return false
+  }
+
+  if (spec.neighborhood) {
+    const feature = context.neighborhoods?.features.find(f => f.properties.name === spec.neighborhood)
+    if (!feature || !isPointInPolygon([event.longitude, event.latitude], feature)) return false
+  }
+
+  if (spec.busyness) {
+    if (event.busyness === undefined || !inRange(event.busyness.current, spec.busyness)) return false
+  }
+
+  if (spec.popularity && !inRange(event.popularity, spec.popularity)) return false
+
+  if (spec.recommended) {
+    if (!context.affinities || context.affinities.signalCount === 0) return false
+    if (scoreEvent(event, context.affinities, context.neighborhoods).score < FOR_YOU_MIN_SCORE) return false
+  }
+
+  return true
+}
+
+function getSortComparator(spec: EventFilterSpec, context: FilterContext): ((a: Event, b: Event) => number) | null {
+  const byTime = (a: Event, b: Event) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+
+  switch (spec.sortBy) {
+    case 'time':
+      return byTime
+    case 'popularity':
+      return (a, b) => b.popularity - a.popularity || byTime(a, b)
+    case 'price': {
+      const price = (e: Event) => e.price.isFree ? 0 : e.price.min ?? 0
+      return (a, b) => price(a) - price(b) || byTime(a, b)
+    }
+    case 'distance': {
+      const near = spec.near
+      if (!near) return byTime
+      const distance = (e: Event) => getDistanceKm(near.lat, near.lng, e.latitude, e.longitude)
+      return (a, b) => distance(a) - distance(b)
+    }
+    case 'relevance': {
+      const terms = getSearchTerms(spec.query || '')
+      if (terms.length === 0) return (a, b) => b.popularity - a.popularity
+      return (a, b) => getQueryScore(b, terms) - getQueryScore(a, terms) || b.popularity - a.popularity
+    }
+    case 'for-you': {
+      // Without a profile (e.g. GET /api/events) this is a popularity sort
+      const affinities = context.affinities
+      if (!affinities) return (a, b) => b.popularity - a.popularity
+      const scores = new Map<string, number>()
+      const score = (e: Event) => {
+        if (!scores.has(e.id)) scores.set(e.id, scoreEvent(e, affinities, context.neighborhoods).score)
+        return scores.get(e.id)!
+      }
+      return (a, b) => score(b) - score(a) || b.popularity - a.popularity
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Events matching the spec, sorted by `spec.sortBy` (input order when unset)
+ */
+export function filterEvents(events: Event[], spec: EventFilterSpec, context: FilterContext = {}): Event[] {
+  const ctx = { ...context, now: context.now || new Date() }
+  const filtered = events.filter(event => matchesFilters(event, spec, ctx))
+
+  const comparator = getSortComparator(spec, ctx)
+  return comparator ? filtered.sort(comparator) : filtered
+}
+
+/**
+ * Whether any field narrows the results (sorting alone doesn't count)
+ */
+export function hasActiveFilters(spec: EventFilterSpec): boolean {
+  return Boolean(
+    spec.query?.trim() ||
+    spec.categories?.length ||
+    spec.subcategories?.length ||
+    spec.tags?.length ||
+    (spec.date && spec.date !== 'anytime') ||
+    spec.price ||
+    spec.freeOnly ||
+    spec.near ||
+    spec.neighborhood ||
+    spec.busyness ||
+    spec.popularity ||
+    spec.recommended
+  )
+}
+
+/**
+ * Number of events in each filter category id
+ */
+export function getCategoryCounts(events: Event[]): Record<string, number> {
+  const counts: Record<string, number> = {}
+  Object.keys(CATEGORY_ALIASES).forEach(id => {
+    counts[id] = events.filter(e => matchesCategory(e, [id])).length
+  })
+  return counts
+}
+
+export type FilterSpecResult =
+  | { spec: EventFilterSpec; error?: undefined }
+  | { error: string }
+
+function parseList(value: string | null): string[] | undefined {
+  const list = value?.split(',').map(v => v.trim()).filter(Boolean)
+  return list?.length ? list : undefined
+}
+
+function parseNumber(value: string | null): number | undefined | null {
+  if (value === null || value === '') return undefined
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+function parseRange(minParam: string | null, maxParam: string | null): NumberRange | undefined | null {
+  const min = parseNumber(minParam)
+  const max = parseNumber(maxParam)
+  if (min === null || max === null) return null
+  if (min === undefined && max === undefined) return undefined
+  return { min, max }
+}
+
+/**
+ * Parse filter query parameters:
+ * q, categories, subcategories, tags (comma-separated), date (preset), dateFrom/dateTo (ISO),
+ * minPrice/maxPrice, free, lat/lng/radiusKm, neighborhood, minBusyness/maxBusyness,
+ * minPopularity/maxPopularity, sort
+ */
+export function parseFilterParams(params: URLSearchParams): FilterSpecResult {
+  const spec: EventFilterSpec = {}
+
+  const query = params.get('q')?.trim()
+  if (query) spec.query = query
+  spec.categories = parseList(params.get('categories'))
+  spec.subcategories = parseList(params.get('subcategories'))
+  spec.tags = parseList(params.get('tags'))
+
+  const date = params.get('date')
+  const dateFrom = params.get('dateFrom')
+  const dateTo = params.get('dateTo')
+  if (date) {
+    if (!DATE_PRESETS.includes(date as DatePreset)) {
+      return { error: `date must be one of ${DATE_PRESETS.join(', ')}` }
+    }
+    spec.date = date as DatePreset
+  } else if (dateFrom || dateTo) {
+    if (!dateFrom || !dateTo || isNaN(Date.parse(dateFrom)) || isNaN(Date.parse(dateTo))) {
+      return { error: 'dateFrom and dateTo must both be ISO 8601 dates' }
+    }
+    spec.date = { start: dateFrom, end: dateTo }
+  }
+
+  const price = parseRange(params.get('minPrice'), params.get('maxPrice'))
+  if (price === null) return { error: 'minPrice and maxPrice must be numbers' }
+  spec.price = price
+
+  const free = params.get('free')
+  if (free === 'true' || free === '1') spec.freeOnly = true
+
+  const lat = parseNumber(params.get('lat'))
+  const lng = parseNumber(params.get('lng'))
+  const radiusKm = parseNumber(params.get('radiusKm'))
+  if (lat !== undefined || lng !== undefined || radiusKm !== undefined) {
+    if (typeof lat !== 'number' || typeof lng !== 'number' || typeof radiusKm !== 'number' || radiusKm <= 0) {
+      return { error: 'lat, lng and a positive radiusKm are required together' }
+    }
+    spec.near = { lat, lng, radiusKm }
+  }
+
+  const neighborhood = params.get('neighborhood')?.trim()
+  if (neighborhood) spec.neighborhood = neighborhood
+
+  const busyness = parseRange(params.get('minBusyness'), params.get('maxBusyness'))
+  if (busyness === null) return { error: 'minBusyness and maxBusyness must be numbers' }
+  spec.busyness = busyness
+
+  const popularity = parseRange(params.get('minPopularity'), params.get('maxPopularity'))
+  if (popularity === null) return { error: 'minPopularity and maxPopularity must be numbers' }
+  spec.popularity = popularity
+
+  const sort = params.get('sort')
+  if (sort) {
+    if (!SORT_KEYS.includes(sort as EventSortKey)) {
+      return { error: `sort must be one of ${SORT_KEYS.join(', ')}` }
+    }
+    spec.sortBy = sort as EventSortKey
+  }
+
+  // Drop unset fields so the spec stays readable in logs and responses
+  Object.keys(spec).forEach(key => {
+    if (spec[key as keyof EventFilterSpec] === undefined) delete spec[key as keyof EventFilterSpec]
+  })
+
+  return { spec }
+}
+
+/**
+ * Inverse of parseFilterParams (unset fields are left out)
+ */
+export function toFilterParams(spec: EventFilterSpec): URLSearchParams {
+  const params = new URLSearchParams()
+  const setRange = (minKey: string, maxKey: string, range?: NumberRange) => {
+    if (range?.min !== undefined) params.set(minKey, String(range.min))
+    if (range?.max !== undefined) params.set(maxKey, String(range.max))
+  }
+
+  if (spec.query?.trim()) params.set('q', spec.query.trim())
+  if (spec.categories?.length) params.set('categories', spec.categories.join(','))
+  if (spec.subcategories?.length) params.set('subcategories', spec.subcategories.join(','))
+  if (spec.tags?.length) params.set('tags', spec.tags.join(','))
+
+  if (typeof spec.date === 'string') {
+    if (spec.date !== 'anytime') params.set('date', spec.date)
+  } else if (spec.date) {
+    params.set('dateFrom', spec.date.start)
+    params.set('dateTo', spec.date.end)
+  }
+
+  setRange('minPrice', 'maxPrice', spec.price)
+  if (spec.freeOnly) params.set('free', 'true')
+
+  if (spec.near) {
+    params.set('lat', String(spec.near.lat))
+    params.set('lng', String(spec.near.lng))
+    params.set('radiusKm', String(spec.near.radiusKm))
+  }
+
+  if (spec.neighborhood) params.set('neighborhood', spec.neighborhood)
+  setRange('minBusyness', 'maxBusyness', spec.busyness)
+  setRange('minPopularity', 'maxPopularity', spec.popularity)
+  if (spec.sortBy) params.set('sort', spec.sortBy)
+
+  return params
+}
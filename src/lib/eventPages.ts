@@ -0,0 +1,112 @@
+/**
+ * Event detail pages (/events/:id)
+ * Formatting shared by the server-rendered page, its Open Graph metadata and
+ * its schema.org Event JSON-LD.
+ */
+
+import type { Event } from '@/types'
+import { getEventImage } from './eventImages'
+
+const DESCRIPTION_LENGTH = 200
+
+/**
+ * Public origin used for canonical URLs and link previews
+ */
+export function getSiteUrl(): string {
+  return process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+}
+
+/**
+ * Path of an event's detail page (occurrence ids contain `@` and `:`)
+ */
+export function getEventPath(id: string): string {
+  return `/events/${encodeURIComponent(id)}`
+}
+
+export function formatEventPrice(event: Event): string {
+  const { isFree, min, max, currency } = event.price
+  if (isFree) return 'Free'
+
+  const symbol = currency === 'USD' || !currency ? '$' : `${currency} `
+  if (min !== undefined && max !== undefined && max > min) return `${symbol}${min}–${symbol}${max}`
+  if (min !== undefined) return `${symbol}${min}`
+  return 'Price TBD'
+}
+
+/**
+ * e.g. "Sat, Oct 25 · 7:00 PM – 10:00 PM CDT" in the event's own timezone
+ */
+export function formatEventTime(event: Event): string {
+  const timeZone = event.timezone || 'UTC'
+  const start = new Date(event.startTime)
+  const end = new Date(event.endTime)
+
+  const date = start.toLocaleDateString('en-US', { timeZone, weekday: 'short', month: 'short', day: 'numeric' })
+  const startTime = start.toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit' })
+  const endTime = end.toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit', timeZoneName: 'short' })
+
+  return `${date} · ${startTime} – ${endTime}`
+}
+
+/**
+ * One-line summary for meta descriptions and link previews
+ */
+export function getEventSummary(event: Event): string {
+  const where = event.venue ? ` at ${event.venue}` : ''
+  const summary = `${formatEventTime(event)}${where}. ${formatEventPrice(event)}.`
+  const description = event.description?.trim()
+  if (!description) return summary
+
+  const text = `${summary} ${description}`
+  return text.length > DESCRIPTION_LENGTH ? `${text.slice(0, DESCRIPTION_LENGTH - 1).trimEnd()}…` : text
+}
+
+/**
+ * schema.org Event structured data
+ * @param url - Absolute URL of the event page
+ */
+export function buildEventJsonLd(event: Event, url: string): Record<string, unknown> {
+  const offersUrl = event.ticketUrl || url
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Event',
+    name: event.title,
+    description: event.description || undefined,
+    startDate: event.startTime,
+    endDate: event.endTime,
+    eventStatus: 'https://schema.org/EventScheduled',
+    eventAttendanceMode: 'https://schema.org/OfflineEventAttendanceMode',
+    image: [getEventImage(event)],
+    url,
+    isAccessibleForFree: event.price.isFree,
+    location: {
+      '@type': 'Place',
+      name: event.venue || event.address,
+      address: event.address || undefined,
+      geo: {
+        '@type': 'GeoCoordinates',
+        latitude: event.latitude,
+        longitude: event.longitude
+      }
+    },
+    offers: {
+      '@type': 'Offer',
+      url: offersUrl,
+      price: event.price.isFree ? 0 : event.price.min ?? undefined,
+      priceCurrency: event.price.currency || 'USD',
+      availability: event.soldOut ? 'https://schema.org/SoldOut' : 'https://schema.org/InStock'
+    }
+  }
+}
+
+/**
+ * Mapbox Static Images URL for the page's mini-map (null without a token)
+ */
+export function getStaticMapUrl(event: Event, width = 600, height = 300): string | null {
+  const token = process.env.NEXT_PUBLIC_MAPBOX_TOKEN
+  if (!token) return null
+
+  const position = `${event.longitude},${event.latitude}`
+  return `https://api.mapbox.com/styles/v1/mapbox/dark-v11/static/pin-l+00d4ff(${position})/${position},14,0/${width}x${height}@2x?access_token=${token}`
+}
@@ -0,0 +1,205 @@
+/**
+ * Event data helpers
+ * Maps Supabase `events` rows (joined with their venue) to the app's Event shape
+ * Recurring rows are series; expand them with `expandEvents` from recurrence.ts
+ */
+
+import type { Event } from '@/types'
+import type { EventDataProvider } from './dataProviders'
+import { getEventImage } from './eventImages'
+import { computePopularity } from './popularity'
+import { getOccurrence, parseOccurrenceId } from './recurrence'
+import { getLocalDateTime } from './timeZones'
+
+// Default query window when no `from`/`to` is given
+export const DEFAULT_EVENT_WINDOW_DAYS = 30
+
+// Upper bound on `limit` for GET /api/events; the map loads the rest per viewport from /api/events/tile
+export const MAX_EVENT_LIMIT = 5000
+
+export interface EventVenueRow {
+  id: number | string
+  name: string
+  address: string | null
+  photo_url: string | null
+  venue_type: string | null
+  google_rating: number | string | null
+  google_review_count: number | null
+}
+
+export interface EventRow {
+  id: string
+  city_id: number | string
+  venue_id: number | string | null
+  title: string
+  description: string
+  category: string
+  subcategory: string
+  start_time: string
+  end_time: string
+  lat: number | string
+  lng: number | string
+  address: string
+  price_min: number | string | null
+  price_max: number | string | null
+  currency: string
+  is_free: boolean
+  sold_out: boolean | null
+  image_url: string | null
+  ticket_url: string | null
+  tags: string[] | null
+  saved_count: number | null
+  view_count: number | null
+  recurrence_rule: string | null
+  recurrence_exdates: string[] | null
+  recurrence_timezone: string | null
+  venue?: EventVenueRow | null
+  city?: { timezone: string | null } | null
+}
+
+// Bounding box in GeoJSON order: west, south, east, north
+export interface Bbox {
+  west: number
+  south: number
+  east: number
+  north: number
+}
+
+/**
+ * Parse a `bbox=west,south,east,north` query parameter
+ * Returns null if the value is missing or malformed
+ */
+export function parseBbox(value: string | null): Bbox | null {
+  if (!value) return null
+
+  const parts = value.split(',').map(Number)
+  if (parts.length !== 4 || parts.some(n => !Number.isFinite(n))) {
+    return null
+  }
+
+  const [west, south, east, north] = parts
+  if (south > north || west > east) return null
+
+  return { west, south, east, north }
+}
+
+export type EventWindowResult =
+  | { from: Date; to: Date; error?: undefined }
+  | { error: string }
+
+function parseDate(value: string): Date | null {
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Parse `from`/`to` query parameters (ISO 8601)
+ * Defaults to now → DEFAULT_EVENT_WINDOW_DAYS ahead
+ */
+export function parseEventWindow(fromParam: string | null, toParam: string | null): EventWindowResult {
+  const from = fromParam ? parseDate(fromParam) : new Date()
+  const to = toParam
+    ? parseDate(toParam)
+    : new Date((from?.getTime() ?? Date.now()) + DEFAULT_EVENT_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+
+  if (!from || !to) {
+    return { error: 'from and to must be ISO 8601 dates' }
+  }
+
+  if (to < from) {
+    return { error: 'to must be after from' }
+  }
+
+  return { from, to }
+}
+
+/**
+ * The `limit` most popular events, in their original order
+ */
+export function limitToMostPopular(events: Event[], limit: number): Event[] {
+  if (events.length <= limit) return events
+  const kept = new Set([...events].sort((a, b) => b.popularity - a.popularity).slice(0, limit))
+  return events.filter(event => kept.has(event))
+}
+
+function toNumber(value: number | string | null): number | undefined {
+  if (value === null || value === undefined) return undefined
+  const n = typeof value === 'number' ? value : parseFloat(value)
+  return Number.isFinite(n) ? n : undefined
+}
+
+/**
+ * Convert an events row (with optional joined venue and city) to an Event
+ * @param timezone - The city's timezone, if the row wasn't joined with its city
+ */
+export function eventFromRow(row: EventRow, timezone?: string): Event {
+  const eventTimeZone = timezone || row.city?.timezone || undefined
+  const event: Event = {
+    id: row.id,
+    venueId: row.venue_id !== null ? String(row.venue_id) : undefined,
+    title: row.title,
+    description: row.description,
+    venue: row.venue?.name || '',
+    address: row.address || row.venue?.address || '',
+    latitude: toNumber(row.lat) ?? 0,
+    longitude: toNumber(row.lng) ?? 0,
+    category: row.category,
+    subcategory: row.subcategory,
+    startTime: new Date(row.start_time).toISOString(),
+    endTime: new Date(row.end_time).toISOString(),
+    price: {
+      min: toNumber(row.price_min),
+      max: toNumber(row.price_max),
+      currency: row.currency,
+      isFree: row.is_free
+    },
+    ticketUrl: row.ticket_url || undefined,
+    soldOut: row.sold_out || undefined,
+    tags: row.tags || [],
+    timezone: eventTimeZone,
+    // Busyness is folded in by attachEventBusyness once the venue forecast is loaded
+    popularity: computePopularity({
+      venueType: row.venue?.venue_type,
+      hour: getLocalDateTime(new Date(row.start_time), eventTimeZone || 'UTC').hour,
+      rating: toNumber(row.venue?.google_rating ?? null),
+      reviewCount: row.venue?.google_review_count,
+      savedCount: row.saved_count,
+      viewCount: row.view_count
+    })
+  }
+
+  if (row.recurrence_rule) {
+    event.recurrence = {
+      rrule: row.recurrence_rule,
+      exdates: (row.recurrence_exdates || []).map(d => new Date(d).toISOString()),
+      timezone: row.recurrence_timezone || undefined
+    }
+  }
+
+  // Event image first, then the venue's Google Places photo, then curated fallback
+  event.imageUrl = row.image_url || row.venue?.photo_url || getEventImage(event)
+
+  return event
+}
+
+/**
+ * Look up events by id, resolving occurrence ids (`<series id>@<start>`) to that occurrence
+ * Unknown ids are skipped; results keep the order of `ids`
+ */
+export async function getEventsByIds(provider: EventDataProvider, ids: string[]): Promise<Event[]> {
+  const occurrences = new Map(ids.map(id => [id, parseOccurrenceId(id)]))
+  const baseIds = [...new Set(ids.map(id => occurrences.get(id)?.seriesId ?? id))]
+  const byId = new Map((await provider.getEventsByIds(baseIds)).map(e => [e.id, e]))
+
+  return ids.flatMap(id => {
+    const occurrence = occurrences.get(id)
+    if (!occurrence) {
+      const event = byId.get(id)
+      return event ? [event] : []
+    }
+
+    const series = byId.get(occurrence.seriesId)
+    const event = series ? getOccurrence(series, occurrence.start) : null
+    return event ? [event] : []
+  })
+}
@@ -0,0 +1,686 @@
+/**
+ * In-memory fixture providers for offline development
+ * Austin uses the generated mock dataset, San Francisco is synthesized from its neighborhood GeoJSON.
+ * Dates are shifted so the fixtures always start today, and everything is deterministic.
+ */
+
+import type { Event } from '@/types'
+import { austinMockEvents } from './austinMockData'
+import type { BestTimeVenue } from './besttime'
+import { CITIES } from './cityDetection'
+import { getEventImage } from './eventImages'
+import { getDistanceKm } from './geoUtils'
+import { TokenBucket } from './httpClient'
+import { getNeighborhoodCentroids } from './neighborhoods'
+import { loadNeighborhoodsFromDisk } from './neighborhoodsServer'
+import { computePopularity } from './popularity'
+import type { PushSubscriptionKeys } from './pushNotifications'
+import { expandEvents } from './recurrence'
+import { toForecastHours } from './venueForecasts'
+import { runGridSearch, type GridCell, type GridSearchResult } from './venueGrid'
+import { parseNwsPeriods, type HourlyForecast, type NwsForecastPeriod } from './weather'
+import type {
+  BestTimeRawData,
+  CalendarFeedProvider,
+  CityRecord,
+  EventDataProvider,
+  EventQuery,
+  JobQueueProvider,
+  JobRecord,
+  PushEventSnapshot,
+  PushSubscriptionProvider,
+  PushSubscriptionRecord,
+  RateLimitProvider,
+  VenueDataProvider,
+  VenueDiscoveryProvider,
+  VenueForecastHour,
+  VenuePhotoProvider,
+  VenuePlaceInfo,
+  VenueQuery,
+  VenueRecord,
+  VenueUpsert,
+  WeatherProvider
+} from './dataProviders'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Process start, used as `last_queried_at` so fixture venues count as freshly cached
+const FIXTURE_LOADED_AT = new Date().toISOString()
+
+interface FixtureData {
+  venues: VenueRecord[]
+  events: Event[]
+}
+
+/**
+ * Simple hash function to convert string to number
+ */
+function hashString(str: string): number {
+  let hash = 0
+  for (let i = 0; i < str.length; i++) {
+    hash = ((hash << 5) - hash) + str.charCodeAt(i)
+    hash = hash & hash // Convert to 32bit integer
+  }
+  return Math.abs(hash)
+}
+
+/**
+ * Seeded PRNG (mulberry32) so fixtures are identical on every run
+ */
+function seededRandom(seed: number): () => number {
+  let a = seed
+  return () => {
+    a = (a + 0x6d2b79f5) | 0
+    let t = Math.imul(a ^ (a >>> 15), 1 | a)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+}
+
+function startOfUtcDay(time: number): number {
+  return Math.floor(time / DAY_MS) * DAY_MS
+}
+
+function toCityRecord(slug: string): CityRecord | null {
+  const city = CITIES.find(c => c.slug === slug)
+  if (!city) return null
+  return { id: city.id, name: city.name, slug: city.slug, lat: city.lat, lng: city.lng, timezone: city.timezone }
+}
+
+/**
+ * Hourly busyness curve (0-100) for a venue type
+ */
+function getFixtureIntensity(venueType: string, day: number, hour: number): number {
+  const isWeekend = day === 5 || day === 6 // BestTime days start on Monday
+  let peakHour = 20
+  let peak = 70
+
+  switch (venueType) {
+    case 'BAR':
+    case 'NIGHT_CLUB':
+      peakHour = 23
+      peak = isWeekend ? 95 : 70
+      break
+    case 'RESTAURANT':
+      peakHour = 19
+      peak = isWeekend ? 85 : 70
+      break
+    case 'CAFE':
+      peakHour = 10
+      peak = 65
+      break
+    case 'MUSEUM':
+    case 'ART_GALLERY':
+    case 'LIBRARY':
+      peakHour = 14
+      peak = isWeekend ? 75 : 50
+      break
+    case 'PARK':
+      peakHour = 15
+      peak = isWeekend ? 90 : 55
+      break
+    case 'STADIUM':
+    case 'CONCERT_HALL':
+    case 'THEATER':
+      peakHour = 20
+      peak = isWeekend ? 90 : 65
+      break
+  }
+
+  // Wrap-around distance to the peak hour, falling off over ~6 hours
+  const distance = Math.min(Math.abs(hour - peakHour), 24 - Math.abs(hour - peakHour))
+  return Math.max(0, Math.round(peak * (1 - distance / 7)))
+}
+
+function buildRawData(venueType: string): BestTimeRawData {
+  return {
+    analysis: Array.from({ length: 7 }, (_, day) => ({
+      hour_analysis: Array.from({ length: 24 }, (_, hour) => ({
+        hour,
+        intensity_nr: getFixtureIntensity(venueType, day, hour)
+      }))
+    }))
+  }
+}
+
+// Dominant event category at a venue → BestTime venue type
+const CATEGORY_VENUE_TYPES: Record<string, string> = {
+  Music: 'CONCERT_HALL',
+  Food: 'RESTAURANT',
+  Arts: 'THEATER',
+  Community: 'PARK',
+  Markets: 'PARK',
+  Sports: 'STADIUM'
+}
+
+/**
+ * Austin: derive venues from the mock events and shift event dates to start today
+ */
+function buildAustinFixtures(city: CityRecord): FixtureData {
+  const earliest = Math.min(...austinMockEvents.map(e => new Date(e.startTime).getTime()))
+  const shift = startOfUtcDay(Date.now()) - startOfUtcDay(earliest)
+
+  const byVenue = new Map<string, Event[]>()
+  austinMockEvents.forEach(event => {
+    if (!byVenue.has(event.venue)) {
+      byVenue.set(event.venue, [])
+    }
+    byVenue.get(event.venue)!.push(event)
+  })
+
+  const venues: VenueRecord[] = []
+  const venueIds = new Map<string, string>()
+
+  byVenue.forEach((venueEvents, name) => {
+    const categoryCounts = new Map<string, number>()
+    venueEvents.forEach(e => categoryCounts.set(e.category, (categoryCounts.get(e.category) || 0) + 1))
+    const dominant = [...categoryCounts.entries()].sort((a, b) => b[1] - a[1])[0][0]
+    const venueType = CATEGORY_VENUE_TYPES[dominant] || 'UNKNOWN'
+    const id = `fixture-atx-${slugify(name)}`
+
+    venueIds.set(name, id)
+    venues.push({
+      id,
+      city_id: city.id,
+      name,
+      address: venueEvents[0].address,
+      lat: venueEvents.reduce((sum, e) => sum + e.latitude, 0) / venueEvents.length,
+      lng: venueEvents.reduce((sum, e) => sum + e.longitude, 0) / venueEvents.length,
+      venue_type: venueType,
+      besttime_venue_id: id,
+      is_event_venue: true,
+      photo_url: null,
+      last_queried_at: FIXTURE_LOADED_AT,
+      raw_data: buildRawData(venueType),
+      forecast_updated_at: FIXTURE_LOADED_AT
+    })
+  })
+
+  const events = austinMockEvents.map(event => ({
+    ...event,
+    venueId: venueIds.get(event.venue),
+    startTime: new Date(new Date(event.startTime).getTime() + shift).toISOString(),
+    endTime: new Date(new Date(event.endTime).getTime() + shift).toISOString(),
+    imageUrl: event.imageUrl || getEventImage(event),
+    timezone: city.timezone
+  }))
+
+  return { venues, events }
+}
+
+// Venue and event templates for the synthesized San Francisco fixtures
+const SF_VENUE_TEMPLATES = [
+  { suffix: 'Tavern', type: 'BAR', category: 'Food', events: [['Happy Hour', 'Bar'], ['Trivia Night', 'Trivia']] },
+  { suffix: 'Music Hall', type: 'CONCERT_HALL', category: 'Music', events: [['Live Music', 'Live'], ['Jazz Night', 'Jazz'], ['DJ Set', 'Electronic']] },
+  { suffix: 'Playhouse', type: 'THEATER', category: 'Arts', events: [['Theater Performance', 'Theater'], ['Comedy Show', 'Comedy']] },
+  { suffix: 'Gallery', type: 'ART_GALLERY', category: 'Arts', events: [['Art Show', 'Art'], ['Film Screening', 'Film']] },
+  { suffix: 'Kitchen', type: 'RESTAURANT', category: 'Food', events: [['Brunch', 'Brunch'], ['Taco Tuesday', 'Tacos']] },
+  { suffix: 'Commons', type: 'PARK', category: 'Community', events: [['Yoga Class', 'Fitness'], ['Farmers Market', 'Farmers Market'], ['Running Club', 'Fitness']] }
+] as const
+
+const SF_VENUES_PER_NEIGHBORHOOD = 2
+
+/**
+ * San Francisco: a couple of venues per neighborhood centroid, each hosting a few recurring series
+ */
+async function buildSanFranciscoFixtures(city: CityRecord): Promise<FixtureData> {
+  const neighborhoods = await loadNeighborhoodsFromDisk(city.slug)
+  if (!neighborhoods) {
+    return { venues: [], events: [] }
+  }
+
+  const today = startOfUtcDay(Date.now())
+  const venues: VenueRecord[] = []
+  const events: Event[] = []
+
+  getNeighborhoodCentroids(neighborhoods).forEach((centroid, index) => {
+    const random = seededRandom(hashString(centroid.name))
+
+    for (let v = 0; v < SF_VENUES_PER_NEIGHBORHOOD; v++) {
+      const template = SF_VENUE_TEMPLATES[(index * SF_VENUES_PER_NEIGHBORHOOD + v) % SF_VENUE_TEMPLATES.length]
+      const name = `${centroid.name} ${template.suffix}`
+      const id = `fixture-sf-${slugify(name)}`
+      const lat = centroid.lat + (random() - 0.5) * 0.004
+      const lng = centroid.lng + (random() - 0.5) * 0.004
+      const address = `${centroid.name}, San Francisco, CA`
+
+      venues.push({
+        id,
+        city_id: city.id,
+        name,
+        address,
+        lat,
+        lng,
+        venue_type: template.type,
+        besttime_venue_id: id,
+        is_event_venue: true,
+        photo_url: null,
+        last_queried_at: FIXTURE_LOADED_AT,
+        raw_data: buildRawData(template.type),
+        forecast_updated_at: FIXTURE_LOADED_AT
+      })
+
+      // Each template event is a series: weekly, every other week, then a one-off
+      // (times are UTC, SF is UTC-7/8; rules are evaluated in Pacific time)
+      template.events.forEach(([title, subcategory], eventIndex) => {
+        const day = Math.floor(random() * 7)
+        const startHourUtc = [1, 2, 3, 17, 19][Math.floor(random() * 5)]
+        const durationHours = 1 + Math.floor(random() * 3)
+        const start = today + day * DAY_MS + startHourUtc * 60 * 60 * 1000
+        const localStart = new Date(start - 7 * 60 * 60 * 1000) // Close enough to Pacific time for fixtures
+        const localHour = localStart.getUTCHours()
+        const isFree = random() < 0.3
+        const minPrice = isFree ? 0 : 5 + Math.floor(random() * 30)
+        const rrule = ['FREQ=WEEKLY', 'FREQ=WEEKLY;INTERVAL=2'][eventIndex]
+        const eventId = `${id}-${eventIndex + 1}`
+
+        const event: Event = {
+          id: eventId,
+          venueId: id,
+          title: `${title} at ${name}`,
+          description: `${title} in ${centroid.name}`,
+          venue: name,
+          address,
+          latitude: lat,
+          longitude: lng,
+          category: template.category,
+          subcategory,
+          startTime: new Date(start).toISOString(),
+          endTime: new Date(start + durationHours * 60 * 60 * 1000).toISOString(),
+          price: {
+            min: minPrice,
+            max: isFree ? 0 : minPrice + Math.floor(random() * 40),
+            currency: 'USD',
+            isFree
+          },
+          tags: [slugify(centroid.name), slugify(subcategory)],
+          // About one paid event in ten, without drawing from `random` so the rest stay put
+          soldOut: !isFree && hashString(eventId) % 10 === 0 ? true : undefined,
+          timezone: city.timezone,
+          popularity: computePopularity({
+            venueType: template.type,
+            hour: localHour,
+            busyness: getFixtureIntensity(template.type, (localStart.getUTCDay() + 6) % 7, localHour)
+          }),
+          recurrence: rrule ? { rrule } : undefined
+        }
+        event.imageUrl = getEventImage(event)
+        events.push(event)
+      })
+    }
+  })
+
+  return { venues, events }
+}
+
+// Built once per process; upserts and photo updates are kept in memory
+let fixturesPromise: Promise<Map<string, FixtureData>> | null = null
+
+function loadFixtures(): Promise<Map<string, FixtureData>> {
+  if (!fixturesPromise) {
+    fixturesPromise = (async () => {
+      const fixtures = new Map<string, FixtureData>()
+      const austin = toCityRecord('austin')
+      const sanFrancisco = toCityRecord('san-francisco')
+      if (austin) fixtures.set(austin.id, buildAustinFixtures(austin))
+      if (sanFrancisco) fixtures.set(sanFrancisco.id, await buildSanFranciscoFixtures(sanFrancisco))
+      return fixtures
+    })()
+  }
+  return fixturesPromise
+}
+
+async function getAllFixtureVenues(): Promise<VenueRecord[]> {
+  const fixtures = await loadFixtures()
+  return [...fixtures.values()].flatMap(f => f.venues)
+}
+
+function toBestTimeVenue(venue: VenueRecord): BestTimeVenue {
+  const rawData = venue.raw_data as BestTimeRawData | null | undefined
+  return {
+    venue_id: venue.besttime_venue_id,
+    venue_name: venue.name,
+    venue_address: venue.address,
+    venue_lat: venue.lat,
+    venue_lon: venue.lng,
+    venue_type: venue.venue_type,
+    forecast_simple: rawData?.analysis?.map(day =>
+      (day.hour_analysis || []).map(h => ({ intensity_nr: h.intensity_nr }))
+    )
+  }
+}
+
+export class FixtureEventProvider implements EventDataProvider {
+  readonly name = 'fixture' as const
+
+  async getCity(slug: string): Promise<CityRecord | null> {
+    return toCityRecord(slug)
+  }
+
+  async getEvents(city: CityRecord, { from, to, bbox }: EventQuery): Promise<Event[]> {
+    const fixtures = await loadFixtures()
+    const events = fixtures.get(city.id)?.events || []
+
+    // Series that started before `to` are kept here and expanded below
+    const matching = events
+      .filter(event =>
+        new Date(event.startTime) < to &&
+        (event.recurrence || new Date(event.endTime) > from) &&
+        (!bbox || (
+          event.latitude >= bbox.south &&
+          event.latitude <= bbox.north &&
+          event.longitude >= bbox.west &&
+          event.longitude <= bbox.east
+        ))
+      )
+
+    return expandEvents(matching, from, to)
+  }
+
+  async getEventsByIds(ids: string[]): Promise<Event[]> {
+    const fixtures = await loadFixtures()
+    const wanted = new Set(ids)
+    return [...fixtures.values()].flatMap(f => f.events).filter(event => wanted.has(event.id))
+  }
+}
+
+export class FixtureVenueProvider implements VenueDataProvider {
+  readonly name = 'fixture' as const
+
+  async getCity(slug: string): Promise<CityRecord | null> {
+    return toCityRecord(slug)
+  }
+
+  async getVenues(cityId: string, { eventVenuesOnly }: VenueQuery = {}): Promise<VenueRecord[]> {
+    const fixtures = await loadFixtures()
+    const venues = fixtures.get(cityId)?.venues || []
+
+    return venues
+      .filter(v => !eventVenuesOnly || v.is_event_venue)
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  async getVenue(id: string): Promise<VenueRecord | null> {
+    return (await getAllFixtureVenues()).find(v => v.id === id) ?? null
+  }
+
+  async upsertVenues(venues: VenueUpsert[]): Promise<void> {
+    const fixtures = await loadFixtures()
+
+    venues.forEach(upsert => {
+      if (!fixtures.has(upsert.city_id)) {
+        fixtures.set(upsert.city_id, { venues: [], events: [] })
+      }
+      const cityVenues = fixtures.get(upsert.city_id)!.venues
+      const existing = cityVenues.find(v => v.besttime_venue_id === upsert.besttime_venue_id)
+
+      if (existing) {
+        Object.assign(existing, upsert)
+      } else {
+        cityVenues.push({ ...upsert, id: upsert.besttime_venue_id, photo_url: null })
+      }
+    })
+  }
+
+  async setVenuePlaceInfo(besttimeVenueId: string, info: VenuePlaceInfo | null): Promise<void> {
+    const venue = (await getAllFixtureVenues()).find(v => v.besttime_venue_id === besttimeVenueId)
+    if (venue) {
+      if (info) {
+        venue.photo_url = info.photoUrl
+        venue.google_rating = info.rating
+        venue.google_review_count = info.reviewCount
+      }
+      venue.photo_updated_at = new Date().toISOString()
+    }
+  }
+
+  // Offline the week analysis in raw_data is the forecast store
+  async setVenueForecast(besttimeVenueId: string, forecast: BestTimeRawData | null): Promise<void> {
+    const venue = (await getAllFixtureVenues()).find(v => v.besttime_venue_id === besttimeVenueId)
+    if (venue) {
+      if (forecast) {
+        venue.raw_data = forecast
+      }
+      venue.forecast_updated_at = new Date().toISOString()
+    }
+  }
+
+  async getVenueForecasts(venueIds: string[]): Promise<VenueForecastHour[]> {
+    const wanted = new Set(venueIds)
+    return (await getAllFixtureVenues())
+      .filter(v => wanted.has(v.id))
+      .flatMap(v => toForecastHours(v.id, v.raw_data as BestTimeRawData | null | undefined))
+  }
+
+  async getCityBusyness(cityId: string, weekday: number, hour: number): Promise<VenueForecastHour[]> {
+    const venues = (await loadFixtures()).get(cityId)?.venues || []
+    return venues
+      .flatMap(v => toForecastHours(v.id, v.raw_data as BestTimeRawData | null | undefined))
+      .filter(h => h.weekday === weekday && h.hour === hour)
+  }
+}
+
+export class FixtureVenueDiscoveryProvider implements VenueDiscoveryProvider {
+  readonly name = 'fixture' as const
+
+  async searchVenues(lat: number, lng: number, radius: number, limit: number): Promise<BestTimeVenue[]> {
+    const venues = await getAllFixtureVenues()
+
+    return venues
+      .map(venue => ({ venue, distance: getDistanceKm(lat, lng, venue.lat, venue.lng) * 1000 }))
+      .filter(({ distance }) => distance <= radius)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit)
+      .map(({ venue }) => toBestTimeVenue(venue))
+  }
+
+  searchVenuesGrid(cells: GridCell[]): Promise<GridSearchResult> {
+    return runGridSearch(cells, cell => this.searchVenues(cell.lat, cell.lng, cell.radius, cell.limit))
+  }
+
+  async getVenueForecast(venueId: string): Promise<BestTimeRawData | null> {
+    const venue = (await getAllFixtureVenues()).find(v => v.besttime_venue_id === venueId)
+    return venue ? buildRawData(venue.venue_type) : null
+  }
+}
+
+export class FixtureVenuePhotoProvider implements VenuePhotoProvider {
+  readonly name = 'fixture' as const
+
+  // No places lookups offline - callers fall back to curated category images
+  async getVenuePlaceInfo(): Promise<VenuePlaceInfo | null> {
+    return null
+  }
+}
+
+// Calendar feeds live for the life of the process. Kept on globalThis because Next.js
+// bundles each API route separately, and the feed and .ics routes must share them
+const feedGlobal = globalThis as typeof globalThis & { fixtureCalendarFeeds?: Map<string, string[]> }
+const fixtureCalendarFeeds = feedGlobal.fixtureCalendarFeeds ??= new Map()
+
+export class FixtureCalendarFeedProvider implements CalendarFeedProvider {
+  readonly name = 'fixture' as const
+
+  async getFeedEventIds(token: string): Promise<string[] | null> {
+    return fixtureCalendarFeeds.get(token) ?? null
+  }
+
+  async saveFeed(eventIds: string[], token: string = crypto.randomUUID()): Promise<string> {
+    fixtureCalendarFeeds.set(token, [...eventIds])
+    return token
+  }
+}
+
+// Push subscriptions, shared the same way by the subscribe route and an in-process scheduler
+const pushGlobal = globalThis as typeof globalThis & { fixturePushSubscriptions?: Map<string, PushSubscriptionRecord> }
+const fixturePushSubscriptions = pushGlobal.fixturePushSubscriptions ??= new Map()
+
+export class FixturePushSubscriptionProvider implements PushSubscriptionProvider {
+  readonly name = 'fixture' as const
+
+  async saveSubscription(endpoint: string, keys: PushSubscriptionKeys, eventIds: string[]): Promise<void> {
+    const existing = fixturePushSubscriptions.get(endpoint)
+    fixturePushSubscriptions.set(endpoint, { endpoint, keys, eventIds: [...eventIds], eventState: existing?.eventState ?? {} })
+  }
+
+  async deleteSubscription(endpoint: string): Promise<void> {
+    fixturePushSubscriptions.delete(endpoint)
+  }
+
+  async getSubscriptions(): Promise<PushSubscriptionRecord[]> {
+    return [...fixturePushSubscriptions.values()].filter(s => s.eventIds.length > 0)
+  }
+
+  async setEventState(endpoint: string, eventState: Record<string, PushEventSnapshot>): Promise<void> {
+    const subscription = fixturePushSubscriptions.get(endpoint)
+    if (subscription) subscription.eventState = eventState
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const FORECAST_HOURS = 7 * 24
+
+/**
+ * Seven days of NWS-style hourly periods: a daily temperature curve, with an afternoon
+ * or evening shower band on roughly a third of days (the same days on every run)
+ */
+function buildFixtureForecast(lat: number, lng: number): NwsForecastPeriod[] {
+  const start = Math.floor(Date.now() / HOUR_MS) * HOUR_MS
+  const baseTemp = Math.round(88 - Math.abs(lat) * 0.6)
+  const utcOffsetHours = Math.round(lng / 15) // Solar time is close enough for fixtures
+  const periods: NwsForecastPeriod[] = []
+
+  for (let i = 0; i < FORECAST_HOURS; i++) {
+    const time = start + i * HOUR_MS
+    const localTime = time + utcOffsetHours * HOUR_MS
+    const localHour = new Date(localTime).getUTCHours()
+    const day = Math.floor(localTime / DAY_MS)
+
+    const random = seededRandom(hashString(`${lat.toFixed(2)},${lng.toFixed(2)}:${day}`))
+    const isRainyDay = random() < 0.35
+    const bandStart = 12 + Math.floor(random() * 7)
+    const bandLength = 3 + Math.floor(random() * 4)
+    const bandChance = 50 + Math.floor(random() * 40)
+
+    let chance = Math.floor(random() * 15)
+    if (isRainyDay && localHour >= bandStart - 1 && localHour <= bandStart + bandLength) {
+      const inBand = localHour >= bandStart && localHour < bandStart + bandLength
+      chance = inBand ? bandChance : 25
+    }
+
+    const isDaytime = localHour >= 6 && localHour < 18
+    const temperature = Math.round(baseTemp + 8 * Math.sin(((localHour - 9) / 24) * 2 * Math.PI) - (chance > 40 ? 5 : 0))
+    const shortForecast = chance >= 70 ? 'Showers And Thunderstorms'
+      : chance >= 40 ? 'Chance Rain Showers'
+      : chance >= 20 ? 'Mostly Cloudy'
+      : isDaytime ? 'Sunny' : 'Clear'
+
+    periods.push({
+      startTime: new Date(time).toISOString(),
+      endTime: new Date(time + HOUR_MS).toISOString(),
+      isDaytime,
+      temperature,
+      temperatureUnit: 'F',
+      probabilityOfPrecipitation: { unitCode: 'wmoUnit:percent', value: chance },
+      shortForecast
+    })
+  }
+
+  return periods
+}
+
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly name = 'fixture' as const
+
+  async getHourlyForecast(lat: number, lng: number): Promise<HourlyForecast[]> {
+    return parseNwsPeriods(buildFixtureForecast(lat, lng))
+  }
+}
+
+// Buckets are per process: offline there is no worker or other server to share them with
+const rateLimitGlobal = globalThis as typeof globalThis & { fixtureRateLimits?: Map<string, TokenBucket> }
+const fixtureRateLimits = rateLimitGlobal.fixtureRateLimits ??= new Map()
+
+export class FixtureRateLimitProvider implements RateLimitProvider {
+  readonly name = 'fixture' as const
+
+  async reserveToken(key: string, ratePerSecond: number, capacity: number): Promise<number> {
+    let bucket = fixtureRateLimits.get(key)
+    if (!bucket) {
+      bucket = new TokenBucket(ratePerSecond, capacity)
+      fixtureRateLimits.set(key, bucket)
+    }
+    return bucket.reserve()
+  }
+}
+
+// Jobs live for the life of the process, shared across route bundles like calendar feeds.
+// Offline there is no separate worker: src/lib/jobs.ts drains the queue in-process
+const jobGlobal = globalThis as typeof globalThis & { fixtureJobs?: Map<string, JobRecord> }
+const fixtureJobs = jobGlobal.fixtureJobs ??= new Map()
+
+function updateFixtureJob(id: string, changes: Partial<JobRecord>) {
+  const job = fixtureJobs.get(id)
+  if (job) {
+    fixtureJobs.set(id, { ...job, ...changes, updatedAt: new Date().toISOString() })
+  }
+}
+
+export class FixtureJobQueueProvider implements JobQueueProvider {
+  readonly name = 'fixture' as const
+
+  async enqueue(type: string, payload: Record<string, unknown>, maxAttempts: number, dedupeKey?: string): Promise<JobRecord> {
+    const active = dedupeKey && Array.from(fixtureJobs.values())
+      .find(job => job.dedupeKey === dedupeKey && (job.status === 'queued' || job.status === 'running'))
+    if (active) return active
+
+    const now = new Date().toISOString()
+    const job: JobRecord = {
+      id: crypto.randomUUID(),
+      type,
+      payload,
+      status: 'queued',
+      result: null,
+      error: null,
+      attempts: 0,
+      maxAttempts,
+      runAt: now,
+      dedupeKey: dedupeKey ?? null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null
+    }
+    fixtureJobs.set(job.id, job)
+    return job
+  }
+
+  async getJob(id: string): Promise<JobRecord | null> {
+    return fixtureJobs.get(id) ?? null
+  }
+
+  async claimNextJob(types?: string[]): Promise<JobRecord | null> {
+    const now = new Date().toISOString()
+    const next = Array.from(fixtureJobs.values())
+      .filter(job => job.status === 'queued' && job.runAt <= now && (!types || types.includes(job.type)))
+      .sort((a, b) => a.runAt.localeCompare(b.runAt))[0]
+
+    if (!next) return null
+
+    updateFixtureJob(next.id, { status: 'running', attempts: next.attempts + 1 })
+    return fixtureJobs.get(next.id)!
+  }
+
+  async completeJob(id: string, result: unknown): Promise<void> {
+    updateFixtureJob(id, { status: 'succeeded', result, error: null, completedAt: new Date().toISOString() })
+  }
+
+  async failJob(id: string, error: string, retryAt: Date | null): Promise<void> {
+    updateFixtureJob(id, retryAt
+      ? { status: 'queued', error, runAt: retryAt.toISOString() }
+      : { status: 'failed', error, completedAt: new Date().toISOString() })
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Geographic utilities
+ */
+
+import type { Bbox } from './events'
+
+const EARTH_RADIUS_KM = 6371
+
+function toRad(degrees: number): number {
+  return degrees * (Math.PI / 180)
+}
+
+/**
+ * Great-circle distance between two points in km (Haversine formula)
+ */
+export function getDistanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRad(lat2 - lat1)
+  const dLng = toRad(lng2 - lng1)
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) * Math.sin(dLng / 2)
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+  return EARTH_RADIUS_KM * c
+}
+
+/**
+ * Bounding box containing a circle around a point
+ */
+export function getBboxAroundPoint(lat: number, lng: number, radiusKm: number): Bbox {
+  const latDelta = radiusKm / 111.32
+  const lngDelta = radiusKm / (111.32 * Math.max(Math.cos(toRad(lat)), 0.01))
+  return { west: lng - lngDelta, south: lat - latDelta, east: lng + lngDelta, north: lat + latDelta }
+}
+
+/**
+ * Closed ring of [lng, lat] points approximating a circle, for drawing radius rings
+ */
+export function getCircleRing(lat: number, lng: number, radiusKm: number, steps: number = 64): Array<[number, number]> {
+  const { north, east } = getBboxAroundPoint(lat, lng, radiusKm)
+  const ring: Array<[number, number]> = []
+  for (let i = 0; i <= steps; i++) {
+    const angle = (i / steps) * 2 * Math.PI
+    ring.push([lng + (east - lng) * Math.cos(angle), lat + (north - lat) * Math.sin(angle)])
+  }
+  return ring
+}
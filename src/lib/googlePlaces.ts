@@ -3,6 +3,9 @@
  * Handles venue search and photo fetching
  */
 
+import type { VenuePhotoProvider, VenuePlaceInfo } from './dataProviders'
+import { httpFetch } from './httpClient'
+
 const GOOGLE_PLACES_API_BASE = 'https://places.googleapis.com/v1'
 
 // Get API key from environment
@@ -67,37 +70,32 @@ export async function searchPlaceByText(
     maxResultCount: 1 // We only want the best match
   }
 
-  try {
-    const response = await fetch(`${GOOGLE_PLACES_API_BASE}/places:searchText`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Goog-Api-Key': apiKey,
-        // Request photos field
-        'X-Goog-FieldMask': 'places.id,places.displayName,places.formattedAddress,places.location,places.photos,places.rating,places.userRatingCount'
-      },
-      body: JSON.stringify(requestBody)
-    })
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error(`Google Places API error (${response.status}):`, errorText)
-      return null
-    }
-
-    const data = await response.json()
-
-    if (!data.places || data.places.length === 0) {
-      console.log(`No Google Places found for: ${query}`)
-      return null
-    }
-
-    // Return the first (best) match
-    return data.places[0]
-  } catch (error) {
-    console.error('Error searching Google Places:', error)
+  const response = await httpFetch('google-places', `${GOOGLE_PLACES_API_BASE}/places:searchText`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Goog-Api-Key': apiKey,
+      // Request photos field
+      'X-Goog-FieldMask': 'places.id,places.displayName,places.formattedAddress,places.location,places.photos,places.rating,places.userRatingCount'
+    },
+    body: JSON.stringify(requestBody)
+  })
+
+  // Failures are thrown (not logged and dropped) so callers can tell "no match" from "API down"
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`Google Places API error (${response.status}): ${errorText}`)
+  }
+
+  const data = await response.json()
+
+  if (!data.places || data.places.length === 0) {
+    console.log(`No Google Places found for: ${query}`)
     return null
   }
+
+  // Return the first (best) match
+  return data.places[0]
 }
 
 /**
@@ -147,75 +145,50 @@ export async function getVenuePhotoUrl(
   lat: number,
   lng: number
 ): Promise<string | null> {
-  try {
-    // Search for the place
-    const place = await searchPlaceByText(venueName, lat, lng, 100) // 100m radius
-
-    if (!place) {
-      console.log(`❌ No Google Place match found for: ${venueName}`)
-      return null
-    }
-
-    // Get the best photo URL
-    const photoUrl = getBestPhotoUrl(place, 800, 800)
-
-    if (photoUrl) {
-      console.log(`✅ Found photo for: ${venueName}`)
-    } else {
-      console.log(`⚠️  Place found but no photos: ${venueName}`)
-    }
-
-    return photoUrl
-  } catch (error) {
-    console.error(`Error getting photo for ${venueName}:`, error)
-    return null
-  }
+  const info = await getVenuePlaceInfo(venueName, lat, lng)
+  return info?.photoUrl ?? null
 }
 
 /**
- * Rate limiter for Google Places API requests
+ * Match a venue to Google Places and get its photo URL, rating and review count
+ * @returns Place info or null if no match was found; throws when the API call fails
  */
-export class GooglePlacesRateLimiter {
-  private queue: Array<() => Promise<any>> = []
-  private processing = false
-  private requestsPerSecond: number
+export async function getVenuePlaceInfo(
+  venueName: string,
+  lat: number,
+  lng: number
+): Promise<VenuePlaceInfo | null> {
+  // Search for the place
+  const place = await searchPlaceByText(venueName, lat, lng, 100) // 100m radius
 
-  constructor(requestsPerSecond: number = 5) {
-    this.requestsPerSecond = requestsPerSecond
+  if (!place) {
+    console.log(`❌ No Google Place match found for: ${venueName}`)
+    return null
   }
 
-  async add<T>(fn: () => Promise<T>): Promise<T> {
-    return new Promise((resolve, reject) => {
-      this.queue.push(async () => {
-        try {
-          const result = await fn()
-          resolve(result)
-        } catch (error) {
-          reject(error)
-        }
-      })
-
-      if (!this.processing) {
-        this.process()
-      }
-    })
+  // Get the best photo URL
+  const photoUrl = getBestPhotoUrl(place, 800, 800)
+
+  if (photoUrl) {
+    console.log(`✅ Found photo for: ${venueName}`)
+  } else {
+    console.log(`⚠️  Place found but no photos: ${venueName}`)
   }
 
-  private async process() {
-    this.processing = true
-    const delay = 1000 / this.requestsPerSecond
+  return {
+    photoUrl,
+    rating: place.rating ?? null,
+    reviewCount: place.userRatingCount ?? null
+  }
+}
 
-    while (this.queue.length > 0) {
-      const fn = this.queue.shift()
-      if (fn) {
-        await fn()
-        await new Promise(resolve => setTimeout(resolve, delay))
-      }
-    }
+/**
+ * Venue photo provider backed by the live Google Places API (rate limited by httpClient)
+ */
+export class GooglePlacesPhotoProvider implements VenuePhotoProvider {
+  readonly name = 'google' as const
 
-    this.processing = false
+  getVenuePlaceInfo(venueName: string, lat: number, lng: number): Promise<VenuePlaceInfo | null> {
+    return getVenuePlaceInfo(venueName, lat, lng)
   }
 }
-
-// Global rate limiter instance (5 requests per second to be safe)
-export const googlePlacesRateLimiter = new GooglePlacesRateLimiter(5)
@@ -0,0 +1,271 @@
+/**
+ * GTFS static feed ingestion
+ * Reads a GTFS zip (or unzipped directory) and compiles agency, stops, routes, trips,
+ * stop_times and calendar into the compact TransitFeed used by transit.ts.
+ * Used by scripts/ingest-gtfs.ts - not imported by the app itself.
+ */
+
+import { readdir, readFile, stat } from 'fs/promises'
+import path from 'path'
+import { inflateRawSync } from 'zlib'
+import { httpFetch } from './httpClient'
+import type { TransitDeparture, TransitFeed, TransitService, TransitStop } from './transit'
+
+const GTFS_FILES = ['agency.txt', 'stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt', 'calendar.txt', 'calendar_dates.txt']
+const REQUIRED_FILES = ['agency.txt', 'stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt']
+
+/**
+ * Iterate the rows of a CSV file (RFC 4180, header row, optionally quoted)
+ * A generator so stop_times.txt - often millions of rows - is never held as objects all at once
+ */
+export function* parseCsv(text: string): Generator<Record<string, string>> {
+  let keys: string[] | null = null
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  const input = text.replace(/^\uFEFF/, '')
+  const endRow = function* () {
+    row.push(field)
+    field = ''
+    if (row.some(value => value !== '')) {
+      if (!keys) {
+        keys = row.map(key => key.trim())
+      } else {
+        const values = row
+        yield Object.fromEntries(keys.map((key, i) => [key, values[i]?.trim() ?? '']))
+      }
+    }
+    row = []
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      yield* endRow()
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    yield* endRow()
+  }
+}
+
+/**
+ * Extract named files from a zip archive (stored or deflated entries, no ZIP64)
+ * Entries are matched by file name, so feeds zipped inside a folder work too
+ */
+export function readZipFiles(zip: Buffer, names: string[]): Record<string, string> {
+  // End of central directory record: last 22 bytes, plus up to 64KB of comment
+  let eocd = -1
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === 0x06054b50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a zip file (no end of central directory)')
+  }
+
+  const entryCount = zip.readUInt16LE(eocd + 10)
+  let offset = zip.readUInt32LE(eocd + 16)
+  if (offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported')
+  }
+
+  const files: Record<string, string> = {}
+  for (let i = 0; i < entryCount; i++) {
+    if (zip.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Corrupt zip central directory')
+    }
+    const method = zip.readUInt16LE(offset + 10)
+    const compressedSize = zip.readUInt32LE(offset + 20)
+    const nameLength = zip.readUInt16LE(offset + 28)
+    const extraLength = zip.readUInt16LE(offset + 30)
+    const commentLength = zip.readUInt16LE(offset + 32)
+    const localOffset = zip.readUInt32LE(offset + 42)
+    const name = path.posix.basename(zip.toString('utf-8', offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (!names.includes(name)) continue
+
+    // Local header lengths can differ from the central directory's
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28)
+    const data = zip.subarray(dataStart, dataStart + compressedSize)
+
+    if (method === 0) {
+      files[name] = data.toString('utf-8')
+    } else if (method === 8) {
+      files[name] = inflateRawSync(data).toString('utf-8')
+    } else {
+      throw new Error(`Unsupported compression method ${method} for ${name}`)
+    }
+  }
+
+  return files
+}
+
+/**
+ * Read the GTFS files from a .zip, an unzipped directory, or an http(s) URL to a zip
+ */
+export async function readGtfsSource(source: string): Promise<Record<string, string>> {
+  let files: Record<string, string>
+
+  if (/^https?:\/\//.test(source)) {
+    const response = await httpFetch('gtfs', source)
+    if (!response.ok) {
+      throw new Error(`Failed to download ${source}: ${response.status} ${response.statusText}`)
+    }
+    files = readZipFiles(Buffer.from(await response.arrayBuffer()), GTFS_FILES)
+  } else if ((await stat(source)).isDirectory()) {
+    files = {}
+    const present = await readdir(source)
+    for (const name of GTFS_FILES.filter(n => present.includes(n))) {
+      files[name] = await readFile(path.join(source, name), 'utf-8')
+    }
+  } else {
+    files = readZipFiles(await readFile(source), GTFS_FILES)
+  }
+
+  const missing = REQUIRED_FILES.filter(name => !(name in files))
+  if (missing.length > 0) {
+    throw new Error(`GTFS feed is missing ${missing.join(', ')}`)
+  }
+  if (!files['calendar.txt'] && !files['calendar_dates.txt']) {
+    throw new Error('GTFS feed needs calendar.txt or calendar_dates.txt')
+  }
+
+  return files
+}
+
+// "25:10:00" -> seconds after the service day's midnight (may exceed 24h)
+function parseGtfsTime(value: string): number | null {
+  const match = value.match(/^(\d+):(\d{2}):(\d{2})$/)
+  if (!match) return null
+  return parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseInt(match[3], 10)
+}
+
+/**
+ * Compile raw GTFS files into a TransitFeed
+ * Platforms are merged into their parent station, so "nearest stop" answers with the station
+ */
+export function compileTransitFeed(citySlug: string, files: Record<string, string>): TransitFeed {
+  const [agency] = Array.from(parseCsv(files['agency.txt']))
+  const timezone = agency?.agency_timezone
+  if (!timezone) {
+    throw new Error('agency.txt has no agency_timezone')
+  }
+
+  // Stops: keep stations and standalone stops; map platforms to their station
+  const stopRows = Array.from(parseCsv(files['stops.txt']))
+  const stationIds = new Set(stopRows.filter(row => row.location_type === '1').map(row => row.stop_id))
+  const stopAlias: Map<string, string> = new Map()
+  const stops: TransitStop[] = []
+
+  for (const row of stopRows) {
+    const type = row.location_type || '0'
+    if (type === '0' && row.parent_station && stationIds.has(row.parent_station)) {
+      stopAlias.set(row.stop_id, row.parent_station)
+      continue
+    }
+    if (type !== '0' && type !== '1') continue
+
+    const lat = parseFloat(row.stop_lat)
+    const lng = parseFloat(row.stop_lon)
+    if (!row.stop_id || !Number.isFinite(lat) || !Number.isFinite(lng)) continue
+
+    stops.push({ id: row.stop_id, name: row.stop_name, lat, lng })
+    stopAlias.set(row.stop_id, row.stop_id)
+  }
+
+  const routes = Array.from(parseCsv(files['routes.txt'])).map(row => ({
+    id: row.route_id,
+    shortName: row.route_short_name,
+    longName: row.route_long_name,
+    type: row.route_type ? Number(row.route_type) : 3, // Default to bus
+    color: row.route_color ? `#${row.route_color}` : undefined
+  }))
+  const routeIndex = new Map(routes.map((route, i) => [route.id, i]))
+
+  const trips: TransitFeed['trips'] = []
+  const tripIndex: Map<string, number> = new Map()
+  for (const row of parseCsv(files['trips.txt'])) {
+    const route = routeIndex.get(row.route_id)
+    if (route === undefined) continue
+    tripIndex.set(row.trip_id, trips.length)
+    trips.push({ route, serviceId: row.service_id, headsign: row.trip_headsign || undefined })
+  }
+
+  const departures: Record<string, TransitDeparture[]> = {}
+  let stopTimeCount = 0
+  for (const row of parseCsv(files['stop_times.txt'])) {
+    const trip = tripIndex.get(row.trip_id)
+    const stopId = stopAlias.get(row.stop_id)
+    const time = parseGtfsTime(row.departure_time || row.arrival_time)
+    // Untimed intermediate stops are skipped rather than interpolated
+    if (trip === undefined || !stopId || time === null) continue
+
+    if (!departures[stopId]) departures[stopId] = []
+    departures[stopId].push([time, trip, parseInt(row.stop_sequence, 10) || 0])
+    stopTimeCount++
+  }
+  Object.values(departures).forEach(list => list.sort((a, b) => a[0] - b[0]))
+
+  const services: Record<string, TransitService> = {}
+  const getService = (id: string) => {
+    if (!services[id]) services[id] = { days: '0000000', start: '', end: '', added: [], removed: [] }
+    return services[id]
+  }
+  if (files['calendar.txt']) {
+    for (const row of parseCsv(files['calendar.txt'])) {
+      const service = getService(row.service_id)
+      service.days = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']
+        .map(day => (row[day] === '1' ? '1' : '0'))
+        .join('')
+      service.start = row.start_date
+      service.end = row.end_date
+    }
+  }
+  if (files['calendar_dates.txt']) {
+    for (const row of parseCsv(files['calendar_dates.txt'])) {
+      const service = getService(row.service_id)
+      if (row.exception_type === '1') service.added.push(row.date)
+      if (row.exception_type === '2') service.removed.push(row.date)
+    }
+  }
+
+  // Stops nothing departs from aren't useful for "next departure" queries
+  const servedStops = stops.filter(stop => departures[stop.id])
+
+  console.log(`🚏 Compiled ${servedStops.length} stops, ${routes.length} routes, ${trips.length} trips, ${stopTimeCount} stop times for ${citySlug}`)
+
+  return {
+    citySlug,
+    agency: agency.agency_name,
+    timezone,
+    ingestedAt: new Date().toISOString(),
+    stops: servedStops,
+    routes,
+    trips,
+    services,
+    departures
+  }
+}
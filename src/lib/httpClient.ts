@@ -0,0 +1,295 @@
+/**
+ * Outbound HTTP client for external APIs
+ * Every call to BestTime, Google Places, the National Weather Service, OSRM, Overpass, GTFS
+ * feed hosts and Web Push services goes through httpFetch, which adds per-provider:
+ * - Token-bucket rate limiting
+ * - Request timeouts
+ * - Retries with exponential backoff on network errors, timeouts, 429 and 5xx (honoring Retry-After)
+ * - A circuit breaker that fails fast after repeated failures, then lets one trial request through
+ * - Metrics counters (getHttpMetrics)
+ *
+ * Rate limits for paid or strict quotas (BestTime, Google Places, Overpass) are shared by every process
+ * (API servers, `npm run worker`, scheduler scripts) through the rate limit provider, so they split one
+ * quota. If the shared store can't be reached, each process falls back to its own bucket. Other providers
+ * only use the local bucket, so they don't wait on the database. Breaker state and metrics are per process.
+ */
+
+import 'server-only'
+
+export type HttpProviderName = 'besttime' | 'google-places' | 'nws' | 'osrm' | 'overpass' | 'gtfs' | 'web-push'
+
+interface HttpProviderConfig {
+  requestsPerSecond: number
+  burst: number // Bucket capacity
+  timeoutMs: number
+  maxRetries: number
+  retryBaseDelayMs: number
+  maxRetryDelayMs: number // Longer Retry-After values fail instead of waiting
+  breakerThreshold: number // Consecutive failures that open the circuit
+  breakerCooldownMs: number // How long the circuit stays open before a trial request
+  sharedRateLimit: boolean // Take tokens from the shared bucket (quotas that span every process)
+}
+
+const DEFAULT_CONFIG: HttpProviderConfig = {
+  requestsPerSecond: 5,
+  burst: 5,
+  timeoutMs: 15000,
+  maxRetries: 2,
+  retryBaseDelayMs: 500,
+  maxRetryDelayMs: 30000,
+  breakerThreshold: 5,
+  breakerCooldownMs: 30000,
+  sharedRateLimit: false
+}
+
+const PROVIDER_CONFIGS: Record<HttpProviderName, HttpProviderConfig> = {
+  besttime: { ...DEFAULT_CONFIG, requestsPerSecond: 10, burst: 10, sharedRateLimit: true },
+  'google-places': { ...DEFAULT_CONFIG, requestsPerSecond: 5, burst: 5, sharedRateLimit: true },
+  nws: { ...DEFAULT_CONFIG, requestsPerSecond: 5, burst: 5, timeoutMs: 10000 },
+  // Travel estimates fall back to a distance estimate, so don't make users wait on retries
+  osrm: { ...DEFAULT_CONFIG, requestsPerSecond: 20, burst: 20, timeoutMs: 3000, maxRetries: 0 },
+  // The public Overpass instance asks for no more than a couple of concurrent queries
+  overpass: { ...DEFAULT_CONFIG, requestsPerSecond: 0.5, burst: 1, timeoutMs: 90000, retryBaseDelayMs: 5000, maxRetryDelayMs: 120000, sharedRateLimit: true },
+  gtfs: { ...DEFAULT_CONFIG, requestsPerSecond: 1, burst: 2, timeoutMs: 120000 },
+  // One bucket for every push service (FCM, Mozilla, Apple); 404/410 for a dead subscription don't trip the breaker
+  'web-push': { ...DEFAULT_CONFIG, requestsPerSecond: 20, burst: 20, timeoutMs: 10000 }
+}
+
+export interface HttpRequestInit extends RequestInit {
+  timeoutMs?: number
+  maxRetries?: number
+}
+
+export interface HttpProviderMetrics {
+  requests: number // Attempts sent, including retries
+  successes: number
+  failures: number // Network errors, timeouts, 429 and 5xx
+  retries: number
+  timeouts: number
+  rateLimited: number // 429 responses
+  circuitRejections: number // Calls failed fast while the circuit was open
+  circuit: 'closed' | 'open' | 'half-open'
+}
+
+export class CircuitOpenError extends Error {
+  constructor(readonly provider: HttpProviderName, readonly retryAt: Date) {
+    super(`${provider} is unavailable (circuit open until ${retryAt.toISOString()})`)
+    this.name = 'CircuitOpenError'
+  }
+}
+
+export class TokenBucket {
+  private tokens: number
+  private updatedAt = Date.now()
+
+  constructor(private readonly ratePerSecond: number, private readonly capacity: number) {
+    this.tokens = capacity
+  }
+
+  /**
+   * Take a token and return how long to wait before using it (ms)
+   * Tokens are reserved up front, so concurrent callers queue in order
+   */
+  reserve(): number {
+    const now = Date.now()
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) / 1000 * this.ratePerSecond)
+    this.updatedAt = now
+    this.tokens -= 1
+
+    return this.tokens < 0 ? -this.tokens / this.ratePerSecond * 1000 : 0
+  }
+}
+
+class CircuitBreaker {
+  private consecutiveFailures = 0
+  private openedAt: number | null = null
+  private trialInFlight = false
+
+  constructor(private readonly threshold: number, private readonly cooldownMs: number) {}
+
+  get state(): HttpProviderMetrics['circuit'] {
+    if (this.openedAt === null) return 'closed'
+    return Date.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open'
+  }
+
+  get retryAt(): Date {
+    return new Date((this.openedAt ?? Date.now()) + this.cooldownMs)
+  }
+
+  /**
+   * Whether a request may go out now. Half-open lets a single trial request through
+   */
+  tryAcquire(): boolean {
+    const state = this.state
+    if (state === 'closed') return true
+    if (state === 'open' || this.trialInFlight) return false
+    this.trialInFlight = true
+    return true
+  }
+
+  recordSuccess() {
+    this.consecutiveFailures = 0
+    this.openedAt = null
+    this.trialInFlight = false
+  }
+
+  recordFailure() {
+    this.consecutiveFailures++
+    if (this.trialInFlight || this.consecutiveFailures >= this.threshold) {
+      this.openedAt = Date.now()
+    }
+    this.trialInFlight = false
+  }
+}
+
+interface ProviderState {
+  bucket: TokenBucket // Fallback when the shared limiter is unreachable
+  breaker: CircuitBreaker
+  metrics: Omit<HttpProviderMetrics, 'circuit'>
+  sharedLimiterFailed: boolean // Warned about falling back to the local bucket
+}
+
+const httpGlobal = globalThis as typeof globalThis & { httpProviderState?: Map<HttpProviderName, ProviderState> }
+const providerState: Map<HttpProviderName, ProviderState> = httpGlobal.httpProviderState ??= new Map()
+
+function getProviderState(provider: HttpProviderName): ProviderState {
+  let state = providerState.get(provider)
+  if (!state) {
+    const config = PROVIDER_CONFIGS[provider]
+    state = {
+      bucket: new TokenBucket(config.requestsPerSecond, config.burst),
+      breaker: new CircuitBreaker(config.breakerThreshold, config.breakerCooldownMs),
+      metrics: { requests: 0, successes: 0, failures: 0, retries: 0, timeouts: 0, rateLimited: 0, circuitRejections: 0 },
+      sharedLimiterFailed: false
+    }
+    providerState.set(provider, state)
+  }
+  return state
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Wait for a token from the provider's shared bucket, or this process's bucket when the
+ * provider has no shared quota or the shared store is unreachable
+ */
+async function takeToken(provider: HttpProviderName, config: HttpProviderConfig, state: ProviderState): Promise<void> {
+  let waitMs: number
+  if (!config.sharedRateLimit) {
+    waitMs = state.bucket.reserve()
+  } else {
+    try {
+      // Loaded lazily so this module doesn't pull in every provider implementation
+      const { getRateLimitProvider } = await import('./dataProviders')
+      const limiter = await getRateLimitProvider()
+      waitMs = await limiter.reserveToken(provider, config.requestsPerSecond, config.burst)
+      state.sharedLimiterFailed = false
+    } catch (error) {
+      if (!state.sharedLimiterFailed) {
+        console.warn(`⚠️  Shared rate limit for ${provider} unavailable, limiting this process only:`, (error as Error).message)
+        state.sharedLimiterFailed = true
+      }
+      waitMs = state.bucket.reserve()
+    }
+  }
+
+  if (waitMs > 0) await sleep(waitMs)
+}
+
+/**
+ * Retry-After as milliseconds (delta-seconds or an HTTP date), or null when absent
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null
+  if (/^\d+$/.test(value.trim())) return parseInt(value, 10) * 1000
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - now)
+}
+
+function getBackoffMs(config: HttpProviderConfig, attempt: number): number {
+  // Jitter between half and all of the exponential delay, so retrying callers spread out
+  const delay = Math.min(config.retryBaseDelayMs * 2 ** attempt, config.maxRetryDelayMs)
+  return Math.round(delay / 2 + Math.random() * delay / 2)
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+/**
+ * fetch() through the provider's rate limiter, timeout, retries and circuit breaker
+ * Resolves with the final response (which may still be an error status for callers to handle);
+ * rejects on network errors and timeouts once retries are exhausted, or with CircuitOpenError
+ */
+export async function httpFetch(provider: HttpProviderName, url: string, init: HttpRequestInit = {}): Promise<Response> {
+  const config = PROVIDER_CONFIGS[provider]
+  const state = getProviderState(provider)
+  const { breaker, metrics } = state
+  const { timeoutMs = config.timeoutMs, maxRetries = config.maxRetries, ...requestInit } = init
+
+  for (let attempt = 0; ; attempt++) {
+    if (!breaker.tryAcquire()) {
+      metrics.circuitRejections++
+      throw new CircuitOpenError(provider, breaker.retryAt)
+    }
+
+    await takeToken(provider, config, state)
+    metrics.requests++
+
+    let retryDelayMs: number
+    try {
+      const response = await fetch(url, {
+        ...requestInit,
+        signal: requestInit.signal
+          ? AbortSignal.any([requestInit.signal, AbortSignal.timeout(timeoutMs)])
+          : AbortSignal.timeout(timeoutMs)
+      })
+
+      if (!isRetryableStatus(response.status)) {
+        breaker.recordSuccess() // 4xx means the service is up - the request was the problem
+        metrics.successes++
+        return response
+      }
+
+      breaker.recordFailure()
+      metrics.failures++
+      if (response.status === 429) metrics.rateLimited++
+
+      const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'))
+      if (attempt >= maxRetries || (retryAfterMs !== null && retryAfterMs > config.maxRetryDelayMs)) {
+        return response
+      }
+      retryDelayMs = retryAfterMs ?? getBackoffMs(config, attempt)
+      await response.body?.cancel()
+      console.warn(`⚠️  ${provider} responded ${response.status}, retrying in ${retryDelayMs}ms (${attempt + 1}/${maxRetries})`)
+    } catch (error) {
+      const timedOut = (error as Error).name === 'TimeoutError'
+      breaker.recordFailure()
+      metrics.failures++
+      if (timedOut) metrics.timeouts++
+
+      if (attempt >= maxRetries || requestInit.signal?.aborted) {
+        throw timedOut ? new Error(`${provider} request timed out after ${timeoutMs}ms`) : error
+      }
+      retryDelayMs = getBackoffMs(config, attempt)
+      console.warn(`⚠️  ${provider} request failed (${(error as Error).message}), retrying in ${retryDelayMs}ms (${attempt + 1}/${maxRetries})`)
+    }
+
+    metrics.retries++
+    await sleep(retryDelayMs)
+  }
+}
+
+/**
+ * Counters and circuit state for every provider called so far in this process
+ */
+export function getHttpMetrics(): Partial<Record<HttpProviderName, HttpProviderMetrics>> {
+  const snapshot: Partial<Record<HttpProviderName, HttpProviderMetrics>> = {}
+  for (const [provider, state] of providerState) {
+    snapshot[provider] = { ...state.metrics, circuit: state.breaker.state }
+  }
+  return snapshot
+}
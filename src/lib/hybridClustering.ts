@@ -111,7 +111,7 @@ export class HybridClusteringSystem {
         eventsInViewport,
         zoom,
         {
-          minAttendanceForCluster: 80,
+          minAttendanceForCluster: 70,
           popularityWeight: 0.7,
           proximityRadius: zoom < 9 ? 10 : 6 // Very aggressive merging when zoomed out
         }
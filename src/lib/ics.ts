@@ -0,0 +1,257 @@
+/**
+ * iCalendar (RFC 5545) export
+ * Builds .ics files for single events, saved lists and subscribable feeds.
+ * Times are written in the event's city timezone with a generated VTIMEZONE,
+ * so calendar apps show "7pm in Austin" instead of a UTC instant.
+ */
+
+import type { Event } from '@/types'
+import { parseRRule } from './recurrence'
+import { getLocalDateTime, getTimeZoneOffset, type LocalDateTime } from './timeZones'
+
+const PRODUCT_ID = '-//Eppy//Event Discovery//EN'
+const UID_DOMAIN = 'eppy.events'
+
+// How often subscribed calendar apps should re-fetch a feed
+const FEED_REFRESH_INTERVAL = 'PT1H'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface CalendarOptions {
+  name: string
+  description?: string
+  isFeed?: boolean // Adds refresh hints for subscribed calendars
+}
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma, newline)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold a content line at 75 octets (continuation lines start with a space)
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length
+    const limit = parts.length === 0 ? 75 : 74 // Continuations lose one octet to the leading space
+    if (currentBytes + bytes > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += bytes
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+function pad(n: number, width: number = 2): string {
+  return String(n).padStart(width, '0')
+}
+
+function formatLocal(local: LocalDateTime): string {
+  return `${pad(local.year, 4)}${pad(local.month)}${pad(local.day)}T${pad(local.hour)}${pad(local.minute)}${pad(local.second)}`
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+'
+  const abs = Math.abs(minutes)
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`
+}
+
+/**
+ * DTSTART/DTEND/EXDATE property in the event's timezone (or UTC)
+ */
+function formatDateProperty(name: string, dates: Date[], timeZone: string): string {
+  if (timeZone === 'UTC') {
+    return `${name}:${dates.map(formatUtc).join(',')}`
+  }
+  return `${name};TZID=${timeZone}:${dates.map(d => formatLocal(getLocalDateTime(d, timeZone))).join(',')}`
+}
+
+interface OffsetTransition {
+  at: Date
+  from: number
+  to: number
+}
+
+/**
+ * UTC offset changes (DST) for a timezone between two instants, to the minute
+ */
+function findTransitions(timeZone: string, start: Date, end: Date): OffsetTransition[] {
+  const transitions: OffsetTransition[] = []
+  let previous = start.getTime()
+  let previousOffset = getTimeZoneOffset(start, timeZone)
+
+  for (let t = previous + DAY_MS; t <= end.getTime() + DAY_MS; t += DAY_MS) {
+    const offset = getTimeZoneOffset(new Date(t), timeZone)
+    if (offset !== previousOffset) {
+      // Binary search the day for the exact minute of the change
+      let low = previous
+      let high = t
+      while (high - low > 60 * 1000) {
+        const mid = Math.floor((low + high) / 2 / 60000) * 60000
+        if (getTimeZoneOffset(new Date(mid), timeZone) === previousOffset) {
+          low = mid
+        } else {
+          high = mid
+        }
+      }
+      transitions.push({ at: new Date(high), from: previousOffset, to: offset })
+      previousOffset = offset
+    }
+    previous = t
+  }
+
+  return transitions
+}
+
+/**
+ * VTIMEZONE covering [start, end]: the offset in effect at `start` plus every change after it
+ */
+export function buildTimeZone(timeZone: string, start: Date, end: Date): string[] {
+  const initialOffset = getTimeZoneOffset(start, timeZone)
+  const transitions = findTransitions(timeZone, start, end)
+  const maxOffset = Math.max(initialOffset, ...transitions.map(t => t.to))
+  const hasDaylight = transitions.length > 0
+
+  const component = (offsetFrom: number, offsetTo: number, localStart: string): string[] => {
+    const type = hasDaylight && offsetTo === maxOffset ? 'DAYLIGHT' : 'STANDARD'
+    return [
+      `BEGIN:${type}`,
+      `DTSTART:${localStart}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${type}`
+    ]
+  }
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...component(initialOffset, initialOffset, '19700101T000000'),
+    // DTSTART of a change is its wall-clock time in the old offset (e.g. 02:00 when clocks go back)
+    ...transitions.flatMap(t =>
+      component(t.from, t.to, formatUtc(new Date(t.at.getTime() + t.from * 60000)).replace(/Z$/, ''))
+    ),
+    'END:VTIMEZONE'
+  ]
+}
+
+function getEventTimeZone(event: Event): string {
+  return event.recurrence?.timezone || event.timezone || 'UTC'
+}
+
+/**
+ * VEVENT lines for an event (a series keeps its RRULE and EXDATEs)
+ */
+export function buildEventComponent(event: Event, stamp: Date = new Date()): string[] {
+  const timeZone = getEventTimeZone(event)
+  const start = new Date(event.startTime)
+  const end = new Date(event.endTime)
+  const location = [event.venue, event.address].filter(Boolean).join(', ')
+  const description = [event.description, event.ticketUrl ? `Tickets: ${event.ticketUrl}` : '']
+    .filter(Boolean)
+    .join('\n\n')
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    formatDateProperty('DTSTART', [start], timeZone),
+    formatDateProperty('DTEND', [end], timeZone),
+    `SUMMARY:${escapeText(event.title)}`
+  ]
+
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`)
+  if (location) lines.push(`LOCATION:${escapeText(location)}`)
+  if (Number.isFinite(event.latitude) && Number.isFinite(event.longitude)) {
+    lines.push(`GEO:${event.latitude.toFixed(6)};${event.longitude.toFixed(6)}`)
+  }
+  if (event.ticketUrl) lines.push(`URL:${event.ticketUrl}`)
+  if (event.category) lines.push(`CATEGORIES:${escapeText(event.category)}`)
+
+  // Occurrences keep their series' recurrence; only the series itself repeats
+  if (event.recurrence && !event.seriesId && parseRRule(event.recurrence.rrule)) {
+    lines.push(`RRULE:${event.recurrence.rrule.replace(/^RRULE:/i, '')}`)
+    const exdates = (event.recurrence.exdates || []).map(d => new Date(d))
+    if (exdates.length > 0) {
+      lines.push(formatDateProperty('EXDATE', exdates, timeZone))
+    }
+  }
+
+  lines.push('END:VEVENT')
+  return lines
+}
+
+/**
+ * Complete VCALENDAR document (CRLF line endings, folded lines)
+ */
+export function buildCalendar(events: Event[], options: CalendarOptions): string {
+  const stamp = new Date()
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `NAME:${escapeText(options.name)}`
+  ]
+
+  if (options.description) {
+    lines.push(`X-WR-CALDESC:${escapeText(options.description)}`)
+  }
+
+  if (options.isFeed) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:${FEED_REFRESH_INTERVAL}`)
+    lines.push(`X-PUBLISHED-TTL:${FEED_REFRESH_INTERVAL}`)
+  }
+
+  // One VTIMEZONE per zone, spanning every event in it (series run a year past their start)
+  const spans = new Map<string, { start: number; end: number }>()
+  events.forEach(event => {
+    const timeZone = getEventTimeZone(event)
+    if (timeZone === 'UTC') return
+    const start = new Date(event.startTime).getTime()
+    const end = event.recurrence ? start + 365 * DAY_MS : new Date(event.endTime).getTime()
+    const span = spans.get(timeZone)
+    spans.set(timeZone, span
+      ? { start: Math.min(span.start, start), end: Math.max(span.end, end) }
+      : { start, end })
+  })
+  spans.forEach((span, timeZone) => {
+    lines.push(...buildTimeZone(timeZone, new Date(span.start), new Date(span.end)))
+  })
+
+  events.forEach(event => lines.push(...buildEventComponent(event, stamp)))
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * Safe download filename for an event's .ics file
+ */
+export function getIcsFilename(title: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60)
+  return `${slug || 'event'}.ics`
+}
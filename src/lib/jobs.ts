@@ -0,0 +1,168 @@
+/**
+ * Background job queue
+ * API routes enqueue slow work (BestTime polling, Google Places lookups) and return a job id;
+ * a worker (`npm run worker`) claims due jobs, runs them and retries failures with exponential backoff.
+ * Clients poll GET /api/jobs/:id for the status and result.
+ *
+ * With DATA_PROVIDER=fixture the queue is in memory, so jobs run in the Next.js process instead.
+ */
+
+import { getDataProviderName, getJobQueueProvider, type JobQueueProvider, type JobRecord } from './dataProviders'
+import type {
+  DiscoverNeighborhoodVenuesPayload,
+  DiscoverVenuesPayload,
+  EnrichVenuePhotosPayload,
+  RefreshVenueForecastsPayload
+} from './venueJobs'
+
+export type JobType = 'discover-venues' | 'discover-neighborhood-venues' | 'enrich-venue-photos' | 'refresh-venue-forecasts'
+
+const DEFAULT_MAX_ATTEMPTS = 3
+const RETRY_BASE_DELAY_MS = 30 * 1000
+const RETRY_MAX_DELAY_MS = 15 * 60 * 1000
+
+// Handlers are imported lazily: venueJobs enqueues follow-up jobs through this module
+const JOB_HANDLERS: Record<JobType, (payload: Record<string, unknown>) => Promise<unknown>> = {
+  'discover-venues': async payload =>
+    (await import('./venueJobs')).discoverCityVenues(payload as unknown as DiscoverVenuesPayload),
+  'discover-neighborhood-venues': async payload =>
+    (await import('./venueJobs')).discoverCityNeighborhoodVenues(payload as unknown as DiscoverNeighborhoodVenuesPayload),
+  'enrich-venue-photos': async payload =>
+    (await import('./venueJobs')).enrichVenuePhotos(payload as unknown as EnrichVenuePhotosPayload),
+  'refresh-venue-forecasts': async payload =>
+    (await import('./venueJobs')).refreshVenueForecasts(payload as unknown as RefreshVenueForecastsPayload)
+}
+
+export const JOB_TYPES = Object.keys(JOB_HANDLERS) as JobType[]
+
+/**
+ * Delay before retrying a job that has failed `attempts` times (30s, 1m, 2m, ... up to 15m)
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS)
+}
+
+export function getJobStatusUrl(id: string): string {
+  return `/api/jobs/${id}`
+}
+
+/**
+ * Queue a job; returns immediately with the queued job
+ * With a dedupeKey, a job already queued or running under that key is returned instead
+ */
+export async function enqueueJob(
+  type: JobType,
+  payload: Record<string, unknown>,
+  { maxAttempts = DEFAULT_MAX_ATTEMPTS, dedupeKey }: { maxAttempts?: number; dedupeKey?: string } = {}
+): Promise<JobRecord> {
+  const queue = await getJobQueueProvider()
+  const job = await queue.enqueue(type, payload, maxAttempts, dedupeKey)
+  console.log(`📥 Queued ${type} job ${job.id}${dedupeKey ? ` (${dedupeKey})` : ''}`)
+
+  if (getDataProviderName() === 'fixture') {
+    scheduleInlineDrain(0)
+  }
+
+  return job
+}
+
+/**
+ * Claim and run the next due job. Returns the job that ran, or null when none was due
+ */
+export async function runNextJob(queue: JobQueueProvider, types?: JobType[]): Promise<JobRecord | null> {
+  const job = await queue.claimNextJob(types)
+  if (!job) return null
+
+  const handler = JOB_HANDLERS[job.type as JobType]
+  console.log(`⚙️  Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`)
+
+  if (!handler) {
+    await queue.failJob(job.id, `Unknown job type: ${job.type}`, null)
+    return job
+  }
+
+  // Reclaimed from a worker that died mid-run on its last attempt
+  if (job.attempts > job.maxAttempts) {
+    await queue.failJob(job.id, job.error || 'Worker stopped while running the job', null)
+    return job
+  }
+
+  try {
+    const result = await handler(job.payload)
+    await queue.completeJob(job.id, result)
+    console.log(`✅ ${job.type} job ${job.id} succeeded`)
+  } catch (error) {
+    const message = (error as Error).message || String(error)
+    const retryAt = job.attempts < job.maxAttempts ? new Date(Date.now() + getRetryDelayMs(job.attempts)) : null
+    await queue.failJob(job.id, message, retryAt)
+
+    if (retryAt) {
+      console.warn(`⚠️  ${job.type} job ${job.id} failed, retrying at ${retryAt.toISOString()}: ${message}`)
+      if (queue.name === 'fixture') scheduleInlineDrain(retryAt.getTime() - Date.now())
+    } else {
+      console.error(`❌ ${job.type} job ${job.id} failed after ${job.attempts} attempts: ${message}`)
+    }
+  }
+
+  return job
+}
+
+/**
+ * Run due jobs until none are left
+ */
+export async function drainJobQueue(queue: JobQueueProvider, types?: JobType[]): Promise<number> {
+  let count = 0
+  while (await runNextJob(queue, types)) {
+    count++
+  }
+  return count
+}
+
+/**
+ * Poll for jobs until `shouldStop` returns true
+ */
+export async function runWorker({
+  types,
+  pollIntervalMs = 2000,
+  shouldStop = () => false
+}: {
+  types?: JobType[]
+  pollIntervalMs?: number
+  shouldStop?: () => boolean
+} = {}): Promise<void> {
+  const queue = await getJobQueueProvider()
+  console.log(`👷 Job worker started (${queue.name}, ${types ? types.join(', ') : 'all job types'})`)
+
+  while (!shouldStop()) {
+    try {
+      const ran = await drainJobQueue(queue, types)
+      if (ran > 0) console.log(`📭 Queue empty after ${ran} job(s)`)
+    } catch (error) {
+      console.error('❌ Job worker error:', (error as Error).message)
+    }
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs))
+  }
+
+  console.log('👋 Job worker stopped')
+}
+
+// Offline: one in-process drain at a time, kept on globalThis like the fixture queue itself
+const inlineGlobal = globalThis as typeof globalThis & { inlineJobDrain?: Promise<void> | null }
+
+function scheduleInlineDrain(delayMs: number) {
+  setTimeout(() => {
+    if (inlineGlobal.inlineJobDrain) {
+      // A drain is running - go again once it finishes so nothing queued meanwhile is missed
+      inlineGlobal.inlineJobDrain.then(() => scheduleInlineDrain(0))
+      return
+    }
+
+    inlineGlobal.inlineJobDrain = getJobQueueProvider()
+      .then(queue => drainJobQueue(queue))
+      .then(() => undefined)
+      .catch(error => console.error('❌ Inline job drain error:', (error as Error).message))
+      .finally(() => {
+        inlineGlobal.inlineJobDrain = null
+      })
+  }, Math.max(0, delayMs))
+}
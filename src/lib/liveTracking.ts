@@ -0,0 +1,145 @@
+/**
+ * Live location tracking
+ * Opt-in continuous tracking for the map: watchPosition updates, a gentle recenter policy, and
+ * geofenced alerts when the user walks into a neighborhood with saved or trending events
+ * starting within the hour.
+ */
+
+import type { Event } from '@/types'
+import { findNeighborhood, type NeighborhoodCollection } from './neighborhoods'
+
+// Readings less precise than this (cell towers, coarse Wi-Fi) would make the marker jump around
+const MAX_ACCURACY_M = 100
+
+// Events at least this popular count as trending
+export const TRENDING_POPULARITY = 75
+
+const ALERT_WINDOW_MS = 60 * 60 * 1000 // Events starting within the next hour
+const ALERT_COOLDOWN_MS = 30 * 60 * 1000 // Per neighborhood, so walking along a border doesn't spam
+const MAX_ALERT_EVENTS = 3
+
+// Recenter once the user leaves the middle of the viewport (fraction of width/height kept as margin)
+const RECENTER_MARGIN = 0.2
+
+export interface TrackedPosition {
+  lat: number
+  lng: number
+  accuracy: number // Meters
+}
+
+export interface NeighborhoodAlert {
+  neighborhood: string
+  events: Event[] // Saved first, then most popular
+  savedCount: number
+  message: string
+}
+
+/**
+ * Watch the device position; returns a function that stops watching
+ * Imprecise readings are skipped. onError gets the GeolocationPositionError (code 1 = denied)
+ */
+export function watchUserPosition(
+  onPosition: (position: TrackedPosition) => void,
+  onError: (error: GeolocationPositionError) => void
+): () => void {
+  const watchId = navigator.geolocation.watchPosition(
+    position => {
+      if (position.coords.accuracy > MAX_ACCURACY_M) return
+      onPosition({
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+        accuracy: position.coords.accuracy
+      })
+    },
+    onError,
+    {
+      enableHighAccuracy: true,
+      maximumAge: 10000,
+      timeout: 30000
+    }
+  )
+
+  return () => navigator.geolocation.clearWatch(watchId)
+}
+
+/**
+ * Whether the user has moved out of the middle of the visible map
+ * @param bounds - Visible [west, south, east, north]
+ */
+export function shouldRecenter(position: { lat: number; lng: number }, bounds: [number, number, number, number]): boolean {
+  const [west, south, east, north] = bounds
+  const marginLng = (east - west) * RECENTER_MARGIN
+  const marginLat = (north - south) * RECENTER_MARGIN
+
+  return (
+    position.lng < west + marginLng ||
+    position.lng > east - marginLng ||
+    position.lat < south + marginLat ||
+    position.lat > north - marginLat
+  )
+}
+
+/**
+ * Saved or trending events in a neighborhood that start within the next hour
+ */
+export function getNeighborhoodAlert(
+  neighborhoodName: string,
+  neighborhoods: NeighborhoodCollection,
+  events: Event[],
+  savedEventIds: Set<string>,
+  now: Date = new Date()
+): NeighborhoodAlert | null {
+  const matches = events.filter(event => {
+    const startsIn = new Date(event.startTime).getTime() - now.getTime()
+    if (startsIn < 0 || startsIn > ALERT_WINDOW_MS) return false
+    if (!savedEventIds.has(event.id) && event.popularity < TRENDING_POPULARITY) return false
+    return findNeighborhood(event.longitude, event.latitude, neighborhoods)?.properties.name === neighborhoodName
+  })
+
+  if (matches.length === 0) return null
+
+  matches.sort((a, b) =>
+    Number(savedEventIds.has(b.id)) - Number(savedEventIds.has(a.id)) || b.popularity - a.popularity
+  )
+
+  const savedCount = matches.filter(event => savedEventIds.has(event.id)).length
+  const message = savedCount > 0
+    ? `${savedCount} saved event${savedCount !== 1 ? 's' : ''} starting soon in ${neighborhoodName}`
+    : `${matches.length} trending event${matches.length !== 1 ? 's' : ''} starting soon in ${neighborhoodName}`
+
+  return { neighborhood: neighborhoodName, events: matches.slice(0, MAX_ALERT_EVENTS), savedCount, message }
+}
+
+/**
+ * Tracks which neighborhood the user is in and raises an alert on entering one with events
+ * Each neighborhood alerts at most once per cooldown
+ */
+export class GeofenceMonitor {
+  private currentNeighborhood: string | null = null
+  private lastAlertAt: Map<string, number> = new Map()
+
+  update(
+    position: { lat: number; lng: number },
+    neighborhoods: NeighborhoodCollection,
+    events: Event[],
+    savedEventIds: Set<string>,
+    now: Date = new Date()
+  ): NeighborhoodAlert | null {
+    const name = findNeighborhood(position.lng, position.lat, neighborhoods)?.properties.name ?? null
+    const entered = name !== null && name !== this.currentNeighborhood
+    this.currentNeighborhood = name
+
+    if (!entered) return null
+
+    const lastAlert = this.lastAlertAt.get(name)
+    if (lastAlert !== undefined && now.getTime() - lastAlert < ALERT_COOLDOWN_MS) return null
+
+    const alert = getNeighborhoodAlert(name, neighborhoods, events, savedEventIds, now)
+    if (alert) this.lastAlertAt.set(name, now.getTime())
+    return alert
+  }
+
+  reset() {
+    this.currentNeighborhood = null
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * "Near me" event search
+ * Events within a radius of the user that start soon (or are on now), ranked by a blend of
+ * walking time and time until start. Served by GET /api/events/nearby; fetchNearbyEvents
+ * is the client helper behind the locate button.
+ */
+
+import type { Event } from '@/types'
+import { getDistanceKm } from './geoUtils'
+import { estimateRoute, type LatLng } from './travel'
+
+export const DEFAULT_NEARBY_RADIUS_KM = 1.5
+export const MAX_NEARBY_RADIUS_KM = 25
+export const DEFAULT_STARTS_WITHIN_HOURS = 6
+export const MAX_STARTS_WITHIN_HOURS = 72
+const MAX_NEARBY_RESULTS = 50
+
+// Share of the rank from walking time; the rest comes from time until start
+const WALK_WEIGHT = 0.6
+
+export interface NearbyOptions {
+  radiusKm: number
+  startsWithinHours: number
+}
+
+export interface NearbyEvent {
+  event: Event
+  distanceKm: number // Straight line
+  walkMinutes: number
+  startsInMinutes: number // 0 for events already underway
+  score: number // 0-1, lower is better
+}
+
+export type NearbyParamsResult =
+  | { origin: LatLng; options: NearbyOptions; error?: undefined }
+  | { error: string }
+
+function parseNumberParam(value: string | null): number | undefined | null {
+  if (value === null || value.trim() === '') return undefined
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+/**
+ * Parse `lat`, `lng`, `radiusKm` and `startsWithinHours` query params
+ */
+export function parseNearbyParams(params: URLSearchParams): NearbyParamsResult {
+  const lat = parseNumberParam(params.get('lat'))
+  const lng = parseNumberParam(params.get('lng'))
+  if (typeof lat !== 'number' || typeof lng !== 'number' || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return { error: 'lat and lng are required' }
+  }
+
+  const radiusKm = parseNumberParam(params.get('radiusKm')) ?? DEFAULT_NEARBY_RADIUS_KM
+  if (radiusKm === null || radiusKm <= 0 || radiusKm > MAX_NEARBY_RADIUS_KM) {
+    return { error: `radiusKm must be greater than 0 and at most ${MAX_NEARBY_RADIUS_KM}` }
+  }
+
+  const startsWithinHours = parseNumberParam(params.get('startsWithinHours')) ?? DEFAULT_STARTS_WITHIN_HOURS
+  if (startsWithinHours === null || startsWithinHours <= 0 || startsWithinHours > MAX_STARTS_WITHIN_HOURS) {
+    return { error: `startsWithinHours must be greater than 0 and at most ${MAX_STARTS_WITHIN_HOURS}` }
+  }
+
+  return { origin: { lat, lng }, options: { radiusKm, startsWithinHours } }
+}
+
+/**
+ * Events inside the radius that are underway or start within the window, best first
+ * Walking time and wait are each scaled to 0-1 (the walk to the edge of the radius,
+ * the end of the window) so neither dominates whatever the search size
+ */
+export function rankNearbyEvents(
+  events: Event[],
+  origin: LatLng,
+  { radiusKm, startsWithinHours }: NearbyOptions,
+  now: Date = new Date()
+): NearbyEvent[] {
+  const windowMinutes = startsWithinHours * 60
+  const maxWalkMinutes = estimateRoute('walk', origin, { lat: origin.lat + radiusKm / 111.32, lng: origin.lng }).durationMinutes
+
+  return events
+    .map(event => {
+      const distanceKm = getDistanceKm(origin.lat, origin.lng, event.latitude, event.longitude)
+      const walkMinutes = estimateRoute('walk', origin, { lat: event.latitude, lng: event.longitude }).durationMinutes
+      const startsInMinutes = Math.max(0, (new Date(event.startTime).getTime() - now.getTime()) / 60000)
+      const score = WALK_WEIGHT * Math.min(1, walkMinutes / maxWalkMinutes) +
+        (1 - WALK_WEIGHT) * Math.min(1, startsInMinutes / windowMinutes)
+
+      return {
+        event,
+        distanceKm,
+        walkMinutes: Math.round(walkMinutes),
+        startsInMinutes: Math.round(startsInMinutes),
+        score: Math.round(score * 1000) / 1000
+      }
+    })
+    .filter(result =>
+      result.distanceKm <= radiusKm &&
+      new Date(result.event.endTime) > now &&
+      result.startsInMinutes <= windowMinutes
+    )
+    .sort((a, b) => a.score - b.score)
+    .slice(0, MAX_NEARBY_RESULTS)
+}
+
+/**
+ * "6 min walk · starts in 45 min" for result lists
+ */
+export function formatNearbyLabel({ walkMinutes, startsInMinutes }: Pick<NearbyEvent, 'walkMinutes' | 'startsInMinutes'>): string {
+  const walk = `${Math.max(1, walkMinutes)} min walk`
+  if (startsInMinutes === 0) return `${walk} · happening now`
+  if (startsInMinutes < 60) return `${walk} · starts in ${startsInMinutes} min`
+  return `${walk} · starts in ${Math.floor(startsInMinutes / 60)}h ${startsInMinutes % 60}m`
+}
+
+/**
+ * Client-side: nearby events from /api/events/nearby
+ */
+export async function fetchNearbyEvents(origin: LatLng, options: Partial<NearbyOptions> = {}): Promise<NearbyEvent[]> {
+  const params = new URLSearchParams({
+    lat: String(origin.lat),
+    lng: String(origin.lng),
+    radiusKm: String(options.radiusKm ?? DEFAULT_NEARBY_RADIUS_KM),
+    startsWithinHours: String(options.startsWithinHours ?? DEFAULT_STARTS_WITHIN_HOURS)
+  })
+
+  const response = await fetch(`/api/events/nearby?${params}`)
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load nearby events')
+  }
+  return data.results as NearbyEvent[]
+}
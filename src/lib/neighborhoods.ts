@@ -4,6 +4,7 @@
  */
 
 import type { Position, Feature, FeatureCollection, Polygon, MultiPolygon } from 'geojson'
+import { withOfflineFallback } from './offlineStore'
 
 export interface NeighborhoodFeature extends Feature<Polygon | MultiPolygon> {
   properties: {
@@ -33,13 +34,16 @@ export async function loadNeighborhoods(citySlug: string): Promise<NeighborhoodC
   }
 
   try {
-    const response = await fetch(`/data/neighborhoods/${citySlug}.geojson`)
+    // Falls back to the copy stored for offline use
+    const { data } = await withOfflineFallback(citySlug, 'neighborhoods', async () => {
+      const response = await fetch(`/data/neighborhoods/${citySlug}.geojson`)
 
-    if (!response.ok) {
-      throw new Error(`Failed to load neighborhoods for ${citySlug}: ${response.statusText}`)
-    }
+      if (!response.ok) {
+        throw new Error(`Failed to load neighborhoods for ${citySlug}: ${response.statusText}`)
+      }
 
-    const data: NeighborhoodCollection = await response.json()
+      return await response.json() as NeighborhoodCollection
+    })
 
     // Cache the data
     neighborhoodCache.set(citySlug, data)
@@ -79,7 +83,7 @@ export function findNeighborhood(
  * Point-in-polygon algorithm using ray casting
  * Works with Polygon and MultiPolygon geometries
  */
-function isPointInPolygon(
+export function isPointInPolygon(
   point: Position,
   feature: NeighborhoodFeature
 ): boolean {
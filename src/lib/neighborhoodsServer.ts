@@ -0,0 +1,41 @@
+/**
+ * Server-side neighborhood loading
+ * API routes can't fetch relative `/data/...` URLs, so read the GeoJSON from disk instead
+ */
+
+import 'server-only'
+import { readFile } from 'fs/promises'
+import path from 'path'
+import type { NeighborhoodCollection } from './neighborhoods'
+
+const NEIGHBORHOODS_DIR = path.join(process.cwd(), 'public', 'data', 'neighborhoods')
+
+// Cache for loaded neighborhood data
+const neighborhoodCache: Map<string, NeighborhoodCollection> = new Map()
+
+/**
+ * Load neighborhood boundaries for a city from public/data/neighborhoods
+ * Returns null if the city has no GeoJSON file
+ */
+export async function loadNeighborhoodsFromDisk(citySlug: string): Promise<NeighborhoodCollection | null> {
+  if (neighborhoodCache.has(citySlug)) {
+    return neighborhoodCache.get(citySlug)!
+  }
+
+  // Slugs come from request input - never let them escape the data directory
+  if (!/^[a-z0-9-]+$/.test(citySlug)) {
+    return null
+  }
+
+  try {
+    const raw = await readFile(path.join(NEIGHBORHOODS_DIR, `${citySlug}.geojson`), 'utf-8')
+    const data: NeighborhoodCollection = JSON.parse(raw)
+    neighborhoodCache.set(citySlug, data)
+    return data
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+}
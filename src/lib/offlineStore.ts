@@ -0,0 +1,133 @@
+/**
+ * Offline city data (IndexedDB)
+ * The last events, neighborhoods and venue heatmaps loaded for each city, plus the user's saved
+ * events, so the map still works on the street with no signal. Loaders go through
+ * withOfflineFallback: fresh data is stored on success, the stored copy is served on failure.
+ * The service worker (public/sw.js) separately caches the app shell and map tiles.
+ */
+
+import type { Event } from '@/types'
+
+const DB_NAME = 'eppy-offline'
+const DB_VERSION = 1
+const CITY_DATA_STORE = 'city-data' // `${citySlug}:${kind}` → OfflineEntry
+const SAVED_EVENTS_STORE = 'saved-events' // Event by id
+
+// `venues-density`, `venues-foottraffic`, ... for heatmap modes
+export type OfflineDataKind = 'events' | 'neighborhoods' | `venues-${string}`
+
+interface OfflineEntry<T = unknown> {
+  key: string
+  data: T
+  savedAt: string
+}
+
+export interface OfflineResult<T> {
+  data: T
+  offlineSavedAt: string | null // When the stored copy was saved; null for fresh data
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(CITY_DATA_STORE)) db.createObjectStore(CITY_DATA_STORE, { keyPath: 'key' })
+        if (!db.objectStoreNames.contains(SAVED_EVENTS_STORE)) db.createObjectStore(SAVED_EVENTS_STORE, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export function isOfflineStoreAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+export async function saveOfflineData<T>(citySlug: string, kind: OfflineDataKind, data: T): Promise<void> {
+  const db = await openDb()
+  const transaction = db.transaction(CITY_DATA_STORE, 'readwrite')
+  const entry: OfflineEntry<T> = { key: `${citySlug}:${kind}`, data, savedAt: new Date().toISOString() }
+  transaction.objectStore(CITY_DATA_STORE).put(entry)
+  await transactionDone(transaction)
+}
+
+export async function getOfflineData<T>(citySlug: string, kind: OfflineDataKind): Promise<OfflineEntry<T> | null> {
+  const db = await openDb()
+  const store = db.transaction(CITY_DATA_STORE, 'readonly').objectStore(CITY_DATA_STORE)
+  const entry = await requestToPromise(store.get(`${citySlug}:${kind}`)) as OfflineEntry<T> | undefined
+  return entry ?? null
+}
+
+/**
+ * Load fresh data and store it, or serve the stored copy when loading fails (offline, server down)
+ * Rethrows the load error when nothing is stored
+ */
+export async function withOfflineFallback<T>(
+  citySlug: string,
+  kind: OfflineDataKind,
+  load: () => Promise<T>
+): Promise<OfflineResult<T>> {
+  if (!isOfflineStoreAvailable()) return { data: await load(), offlineSavedAt: null }
+
+  try {
+    const data = await load()
+    saveOfflineData(citySlug, kind, data)
+      .catch(error => console.warn(`Could not store ${kind} for offline use:`, (error as Error).message))
+    return { data, offlineSavedAt: null }
+  } catch (error) {
+    const stored = await getOfflineData<T>(citySlug, kind).catch(() => null)
+    if (!stored) throw error
+
+    console.log(`📴 Using ${kind} for ${citySlug} saved ${stored.savedAt}`)
+    return { data: stored.data, offlineSavedAt: stored.savedAt }
+  }
+}
+
+/**
+ * Store the saved events that are loaded, and drop ones that are no longer saved
+ * Saved events from other cities are kept until they are unsaved
+ */
+export async function saveOfflineSavedEvents(events: Event[], savedEventIds: string[]): Promise<void> {
+  const db = await openDb()
+  const transaction = db.transaction(SAVED_EVENTS_STORE, 'readwrite')
+  const store = transaction.objectStore(SAVED_EVENTS_STORE)
+  const saved = new Set(savedEventIds)
+
+  const storedIds = await requestToPromise(store.getAllKeys())
+  storedIds.forEach(id => {
+    if (!saved.has(String(id))) store.delete(id)
+  })
+  events.forEach(event => store.put(event))
+
+  await transactionDone(transaction)
+}
+
+export async function getOfflineSavedEvents(): Promise<Event[]> {
+  const db = await openDb()
+  const store = db.transaction(SAVED_EVENTS_STORE, 'readonly').objectStore(SAVED_EVENTS_STORE)
+  return await requestToPromise(store.getAll()) as Event[]
+}
@@ -0,0 +1,156 @@
+/**
+ * Neighborhood boundaries from OpenStreetMap (Overpass API)
+ * Fetches administrative / suburb / neighbourhood relations inside a city's bbox and
+ * converts them to the GeoJSON served from public/data/neighborhoods.
+ */
+
+import type { CityConfig } from './cities'
+import { httpFetch } from './httpClient'
+import type { NeighborhoodCollection, NeighborhoodFeature } from './neighborhoods'
+
+const OVERPASS_API = 'https://overpass-api.de/api/interpreter'
+
+interface OverpassMember {
+  type: 'node' | 'way' | 'relation'
+  ref: number
+  role: string
+  geometry?: Array<{ lat: number; lon: number }>
+}
+
+interface OverpassElement {
+  type: 'node' | 'way' | 'relation'
+  id: number
+  tags?: Record<string, string>
+  members?: OverpassMember[]
+}
+
+export interface OverpassResponse {
+  elements: OverpassElement[]
+}
+
+/**
+ * Overpass QL query for a city's neighborhood boundaries
+ */
+export function buildOverpassQuery(city: CityConfig): string {
+  const { south, west, north, east } = city.bbox
+  const area = `${south},${west},${north},${east}`
+
+  return `
+    [out:json][timeout:60];
+    (
+      relation["boundary"="administrative"]["admin_level"="${city.neighborhoodAdminLevel}"](${area});
+      relation["place"="suburb"](${area});
+      relation["place"="neighbourhood"](${area});
+    );
+    out geom;
+  `.trim()
+}
+
+type Ring = Array<[number, number]>
+
+function samePoint(a: [number, number], b: [number, number]): boolean {
+  return a[0] === b[0] && a[1] === b[1]
+}
+
+/**
+ * Join outer ways end-to-end into closed rings (a boundary is usually split across many ways)
+ */
+function stitchRings(ways: Ring[]): Ring[] {
+  const remaining = ways.filter(way => way.length > 1).map(way => [...way])
+  const rings: Ring[] = []
+
+  while (remaining.length > 0) {
+    const ring = remaining.shift()!
+
+    let extended = true
+    while (!samePoint(ring[0], ring[ring.length - 1]) && extended) {
+      extended = false
+      const end = ring[ring.length - 1]
+
+      for (let i = 0; i < remaining.length; i++) {
+        const way = remaining[i]
+        if (samePoint(way[0], end)) {
+          ring.push(...way.slice(1))
+        } else if (samePoint(way[way.length - 1], end)) {
+          ring.push(...way.reverse().slice(1))
+        } else {
+          continue
+        }
+        remaining.splice(i, 1)
+        extended = true
+        break
+      }
+    }
+
+    // Close rings that couldn't be fully joined (clipped by the bbox) so they're valid polygons
+    if (!samePoint(ring[0], ring[ring.length - 1])) {
+      ring.push(ring[0])
+    }
+    if (ring.length >= 4) {
+      rings.push(ring)
+    }
+  }
+
+  return rings
+}
+
+/**
+ * Convert Overpass relations to neighborhood GeoJSON
+ */
+export function convertOverpassToGeoJSON(data: OverpassResponse): NeighborhoodCollection {
+  const features: NeighborhoodFeature[] = []
+  const seen = new Set<number>()
+
+  for (const element of data.elements) {
+    if (element.type !== 'relation' || !element.members || seen.has(element.id)) continue
+    seen.add(element.id)
+
+    const outerWays = element.members
+      .filter(member => member.type === 'way' && member.role === 'outer' && member.geometry)
+      .map(member => member.geometry!.map(node => [node.lon, node.lat] as [number, number]))
+
+    const rings = stitchRings(outerWays)
+    if (rings.length === 0) continue
+
+    features.push({
+      type: 'Feature',
+      properties: {
+        ...element.tags,
+        id: element.id,
+        name: element.tags?.name || 'Unnamed',
+        adminLevel: element.tags?.admin_level,
+        type: element.tags?.place || element.tags?.boundary
+      },
+      geometry: rings.length === 1
+        ? { type: 'Polygon', coordinates: rings }
+        : { type: 'MultiPolygon', coordinates: rings.map(ring => [ring]) }
+    })
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features
+  }
+}
+
+/**
+ * Fetch a city's neighborhood boundaries from Overpass
+ */
+export async function fetchNeighborhoodBoundaries(city: CityConfig): Promise<NeighborhoodCollection> {
+  console.log(`🌍 Fetching neighborhood boundaries for ${city.name} from Overpass (10-30 seconds)...`)
+
+  const response = await httpFetch('overpass', OVERPASS_API, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: `data=${encodeURIComponent(buildOverpassQuery(city))}`
+  })
+
+  if (!response.ok) {
+    throw new Error(`Overpass API error: ${response.status} ${await response.text()}`)
+  }
+
+  const data: OverpassResponse = await response.json()
+  console.log(`✅ Received ${data.elements.length} elements from Overpass`)
+
+  return convertOverpassToGeoJSON(data)
+}
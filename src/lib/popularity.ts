@@ -0,0 +1,174 @@
+/**
+ * Popularity model
+ * Derives a stable 0-100 score from venue type, BestTime busyness, Google rating and engagement.
+ * Pure and deterministic: the same inputs always give the same score, so clusters and
+ * sort order don't shuffle between refreshes.
+ */
+
+import { getLocalDateTime } from './timeZones'
+
+export interface PopularityInputs {
+  venueType?: string | null
+  hour: number // Local hour (0-23) the score is for
+  busyness?: number | null // BestTime intensity 0-100 for that hour
+  rating?: number | null // Google rating 1-5
+  reviewCount?: number | null
+  savedCount?: number | null
+  viewCount?: number | null
+}
+
+// Relative weight of each signal; missing signals are dropped and the rest renormalized
+export const POPULARITY_WEIGHTS = {
+  baseline: 0.3,
+  busyness: 0.35,
+  rating: 0.2,
+  engagement: 0.15
+}
+
+// Reviews needed before a rating counts for half its deviation from neutral
+const RATING_CONFIDENCE_REVIEWS = 50
+
+// Engagement points (save = 5, view = 1) at which the engagement score reaches ~63
+const ENGAGEMENT_SCALE = 200
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value))
+}
+
+/**
+ * Typical busyness for a venue type at a given hour (0-100)
+ */
+export function getVenueTypeBaseline(venueType: string | null | undefined, hour: number): number {
+  const isEvening = hour >= 18 && hour <= 23
+  const isAfternoon = hour >= 12 && hour < 18
+  const isMorning = hour >= 6 && hour < 12
+
+  const type = (venueType || '').toLowerCase()
+
+  // Bars, nightclubs, casinos - busiest at night
+  if (type.includes('bar') || type.includes('night') || type.includes('casino')) {
+    if (isEvening) return 80
+    if (isAfternoon) return 45
+    if (isMorning) return 25
+    return 65
+  }
+  // Restaurants - busiest during meal times
+  if (type.includes('restaurant')) {
+    if (isEvening) return 75
+    if (isAfternoon) return 60
+    if (isMorning) return 50
+    return 30
+  }
+  // Cafes - busiest in morning/afternoon
+  if (type.includes('cafe') || type.includes('coffee')) {
+    if (isMorning) return 70
+    if (isAfternoon) return 60
+    if (isEvening) return 40
+    return 20
+  }
+  // Museums, galleries, theaters - steady daytime traffic
+  if (type.includes('museum') || type.includes('gallery') || type.includes('theater')) {
+    if (isAfternoon) return 65
+    if (isMorning) return 55
+    if (isEvening) return 45
+    return 15
+  }
+  // Parks - busiest afternoon/evening
+  if (type.includes('park')) {
+    if (isAfternoon) return 70
+    if (isEvening) return 60
+    if (isMorning) return 50
+    return 20
+  }
+  // Concert halls, stadiums - evening events
+  if (type.includes('concert') || type.includes('stadium')) {
+    return isEvening ? 70 : 35
+  }
+
+  return 50
+}
+
+/**
+ * Rating shrunk toward neutral (50) until there are enough reviews to trust it
+ */
+export function getRatingScore(rating: number, reviewCount: number = 0): number {
+  const raw = ((clamp(rating, 1, 5) - 1) / 4) * 100
+  const confidence = reviewCount / (reviewCount + RATING_CONFIDENCE_REVIEWS)
+  return 50 + (raw - 50) * confidence
+}
+
+/**
+ * Saves and views on a diminishing-returns curve (0-100)
+ */
+export function getEngagementScore(savedCount: number = 0, viewCount: number = 0): number {
+  const points = Math.max(0, savedCount) * 5 + Math.max(0, viewCount)
+  return 100 * (1 - Math.exp(-points / ENGAGEMENT_SCALE))
+}
+
+/**
+ * Combined popularity score (0-100, integer)
+ */
+export function computePopularity(inputs: PopularityInputs): number {
+  const components: Array<[number, number]> = [
+    [getVenueTypeBaseline(inputs.venueType, inputs.hour), POPULARITY_WEIGHTS.baseline]
+  ]
+
+  if (inputs.busyness !== null && inputs.busyness !== undefined) {
+    components.push([clamp(inputs.busyness, 0, 100), POPULARITY_WEIGHTS.busyness])
+  }
+
+  if (inputs.rating !== null && inputs.rating !== undefined) {
+    components.push([getRatingScore(inputs.rating, inputs.reviewCount ?? 0), POPULARITY_WEIGHTS.rating])
+  }
+
+  const hasEngagement =
+    (inputs.savedCount !== null && inputs.savedCount !== undefined) ||
+    (inputs.viewCount !== null && inputs.viewCount !== undefined)
+  if (hasEngagement) {
+    components.push([getEngagementScore(inputs.savedCount ?? 0, inputs.viewCount ?? 0), POPULARITY_WEIGHTS.engagement])
+  }
+
+  const totalWeight = components.reduce((sum, [, weight]) => sum + weight, 0)
+  const score = components.reduce((sum, [value, weight]) => sum + value * weight, 0) / totalWeight
+
+  return Math.round(clamp(score, 0, 100))
+}
+
+/**
+ * Fold venue busyness into a score computed without it
+ * Exact when the score had every other signal; otherwise busyness is weighted slightly low
+ */
+export function addBusynessToPopularity(score: number, busyness: number): number {
+  const busynessWeight = POPULARITY_WEIGHTS.busyness
+  const otherWeight = POPULARITY_WEIGHTS.baseline + POPULARITY_WEIGHTS.rating + POPULARITY_WEIGHTS.engagement
+  const combined = (score * otherWeight + clamp(busyness, 0, 100) * busynessWeight) / (otherWeight + busynessWeight)
+  return Math.round(clamp(combined, 0, 100))
+}
+
+/**
+ * Busyness for a given time from BestTime `forecast_simple` (days start on Monday)
+ * The day and hour are read in the venue's timezone; returns null if the forecast doesn't cover that hour
+ */
+export function getForecastBusyness(
+  forecastSimple: Array<Array<{ intensity_nr?: number }> | undefined> | undefined,
+  date: Date,
+  timeZone: string
+): number | null {
+  if (!Array.isArray(forecastSimple)) return null
+
+  const local = getLocalDateTime(date, timeZone)
+  const bestTimeDay = (new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay() + 6) % 7
+  const intensity = forecastSimple[bestTimeDay]?.[local.hour]?.intensity_nr
+
+  return typeof intensity === 'number' ? intensity : null
+}
+
+/**
+ * Popularity level label for a 0-100 score
+ */
+export function getPopularityLevel(score: number): 'Major Event' | 'Popular' | 'Moderate' | 'Small' {
+  if (score >= 86) return 'Major Event'
+  if (score >= 66) return 'Popular'
+  if (score >= 41) return 'Moderate'
+  return 'Small'
+}
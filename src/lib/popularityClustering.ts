@@ -4,6 +4,7 @@
  */
 
 import type { Event, EventCluster } from '@/types'
+import { getPopularityLevel } from './popularity'
 
 interface PopularityClusterOptions {
   minAttendanceForCluster: number
@@ -12,7 +13,7 @@ interface PopularityClusterOptions {
 }
 
 const DEFAULT_OPTIONS: PopularityClusterOptions = {
-  minAttendanceForCluster: 80,    // Group events with 80+ expected attendance (lowered from 100)
+  minAttendanceForCluster: 70,    // Group events scoring 70+ on the 0-100 popularity scale
   popularityWeight: 0.7,             // How much popularity matters vs proximity
   proximityRadius: 3.5                 // 3.5km radius for grouping popular events (increased from 2)
 }
@@ -166,43 +167,10 @@ function createPopularityCluster(
 }
 
 /**
- * Get event popularity score
+ * Get event popularity score (0-100, see popularity.ts)
  */
 function getEventPopularity(event: Event): number {
-  // Calculate based on multiple factors
-  let score = 0
-
-  // Price tier (free/cheap events often have more attendance)
-  if (event.price === 0) score += 100
-  else if (event.price < 20) score += 50
-  else if (event.price < 50) score += 20
-
-  // Category popularity (some categories naturally draw bigger crowds)
-  const popularCategories = ['music', 'festival', 'food', 'sports']
-  if (popularCategories.includes(event.category.toLowerCase())) {
-    score += 50
-  }
-
-  // Vibe indicators
-  const popularVibes = ['lit', 'epic', 'legendary', 'hype']
-  if (event.vibe && popularVibes.some(v => event.vibe?.toLowerCase().includes(v))) {
-    score += 30
-  }
-
-  // Base score for all events
-  score += 20
-
-  return score
-}
-
-/**
- * Get popularity level label
- */
-function getPopularityLevel(popularity: number): string {
-  if (popularity >= 150) return 'Major Event'
-  if (popularity >= 100) return 'Popular'
-  if (popularity >= 50) return 'Moderate'
-  return 'Small'
+  return event.popularity ?? 0
 }
 
 /**
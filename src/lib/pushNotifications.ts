@@ -0,0 +1,205 @@
+/**
+ * Web Push notifications for saved events
+ * The browser registers the service worker (public/sw.js), subscribes with the VAPID public key
+ * and re-posts its saved event ids whenever they change, like the calendar feed.
+ * The scheduler (src/lib/pushScheduler.ts) compares each saved event with what it saw last run:
+ * - "Starts in 1 hour" reminders
+ * - Sold out
+ * - Price changes
+ */
+
+import type { Event } from '@/types'
+import type { PushEventSnapshot } from './dataProviders'
+import { formatEventPrice, getEventPath } from './eventPages'
+import { registerServiceWorker } from './pwa'
+
+export const REMINDER_WINDOW_MS = 60 * 60 * 1000
+
+// Upper bound on saved events per subscription, matching the calendar feed
+export const MAX_PUSH_EVENTS = 500
+
+// Browser push services (Chrome/Edge, Firefox, Safari, Windows). Subscriptions are only
+// accepted for these, so the server can't be made to POST to arbitrary URLs.
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'push.services.mozilla.com',
+  'push.apple.com',
+  'notify.windows.com'
+]
+
+export function isPushServiceEndpoint(value: unknown): value is string {
+  if (typeof value !== 'string') return false
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' && PUSH_SERVICE_HOSTS.some(host =>
+      url.hostname === host || url.hostname.endsWith(`.${host}`)
+    )
+  } catch {
+    return false
+  }
+}
+
+export type PushKind = 'reminder' | 'sold-out' | 'price'
+
+export interface PushPayload {
+  kind: PushKind
+  eventId: string
+  title: string
+  body: string
+  url: string // Opened when the notification is clicked
+  tag: string // Replaces an earlier notification with the same tag
+}
+
+export interface PushSubscriptionKeys {
+  p256dh: string
+  auth: string
+}
+
+export interface PushPlan {
+  notifications: PushPayload[]
+  state: Record<string, PushEventSnapshot> // Replaces the subscription's event state
+}
+
+/**
+ * Lowest price as a number for comparisons (0 when free, null when unknown)
+ */
+function getComparablePrice(event: Event): number | null {
+  if (event.price.isFree) return 0
+  return event.price.min ?? null
+}
+
+function buildPayload(kind: PushKind, event: Event, body: string): PushPayload {
+  return {
+    kind,
+    eventId: event.id,
+    title: event.title,
+    body,
+    url: getEventPath(event.id),
+    tag: `${kind}:${event.id}`
+  }
+}
+
+/**
+ * Notifications due for one subscription's saved events, and the state to store for next time
+ * Events seen for the first time only get a snapshot (plus a reminder if they start soon);
+ * ended events and ones that no longer exist drop out of the state
+ */
+export function planPushNotifications(
+  events: Event[],
+  previousState: Record<string, PushEventSnapshot>,
+  now: Date = new Date()
+): PushPlan {
+  const notifications: PushPayload[] = []
+  const state: Record<string, PushEventSnapshot> = {}
+
+  for (const event of events) {
+    if (new Date(event.endTime) <= now) continue
+
+    const previous = previousState[event.id]
+    const startsInMs = new Date(event.startTime).getTime() - now.getTime()
+    const snapshot: PushEventSnapshot = {
+      price: getComparablePrice(event),
+      soldOut: Boolean(event.soldOut),
+      reminded: previous?.reminded ?? false
+    }
+
+    if (previous && startsInMs > 0) {
+      if (snapshot.soldOut && !previous.soldOut) {
+        notifications.push(buildPayload('sold-out', event, 'Your saved event just sold out'))
+      } else if (!snapshot.soldOut && snapshot.price !== null && previous.price !== null && snapshot.price !== previous.price) {
+        const direction = snapshot.price < previous.price ? 'dropped' : 'changed'
+        notifications.push(buildPayload('price', event, `Price ${direction} to ${formatEventPrice(event)}`))
+      }
+    }
+
+    if (!snapshot.reminded && !snapshot.soldOut && startsInMs > 0 && startsInMs <= REMINDER_WINDOW_MS) {
+      const minutes = Math.max(1, Math.round(startsInMs / 60000))
+      const venue = event.venue ? ` at ${event.venue}` : ''
+      notifications.push(buildPayload('reminder', event, `Starts in ${minutes} min${venue}`))
+      snapshot.reminded = true
+    }
+
+    state[event.id] = snapshot
+  }
+
+  return { notifications, state }
+}
+
+export function isPushSupported(): boolean {
+  return typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window &&
+    Boolean(process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY)
+}
+
+// The VAPID public key is URL-safe base64; PushManager wants the raw bytes
+function decodeVapidKey(key: string): Uint8Array<ArrayBuffer> {
+  const base64 = (key + '='.repeat((4 - key.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/')
+  const raw = atob(base64)
+  const bytes = new Uint8Array(raw.length)
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i)
+  return bytes
+}
+
+/**
+ * This browser's push subscription, if notifications were turned on before
+ */
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null
+  const registration = await registerServiceWorker()
+  return registration.pushManager.getSubscription()
+}
+
+/**
+ * Client-side: send the saved event ids to this browser's subscription
+ */
+export async function syncPushSubscription(subscription: PushSubscription, eventIds: string[]): Promise<void> {
+  const response = await fetch('/api/push/subscribe', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ subscription: subscription.toJSON(), eventIds: eventIds.slice(0, MAX_PUSH_EVENTS) })
+  })
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || `Push subscription update failed: ${response.status}`)
+  }
+}
+
+/**
+ * Client-side: ask for permission, subscribe and register the saved events
+ * @returns The subscription, or null if the user declined
+ */
+export async function enablePushNotifications(eventIds: string[]): Promise<PushSubscription | null> {
+  if (!isPushSupported()) {
+    throw new Error('Push notifications are not supported in this browser')
+  }
+
+  const permission = await Notification.requestPermission()
+  if (permission !== 'granted') return null
+
+  const registration = await registerServiceWorker()
+  const subscription = await registration.pushManager.getSubscription() ?? await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: decodeVapidKey(process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!)
+  })
+
+  await syncPushSubscription(subscription, eventIds)
+  return subscription
+}
+
+/**
+ * Client-side: unsubscribe this browser and remove it from the server
+ */
+export async function disablePushNotifications(): Promise<void> {
+  const subscription = await getPushSubscription()
+  if (!subscription) return
+
+  await fetch('/api/push/subscribe', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ endpoint: subscription.endpoint })
+  })
+  await subscription.unsubscribe()
+}
@@ -0,0 +1,90 @@
+/**
+ * Push notification scheduler
+ * One run loads every subscription's saved events, sends the reminders and sold-out / price
+ * alerts that are due (see planPushNotifications) and stores what it saw for the next run.
+ * Run every few minutes with `npm run push-scheduler`; reminders fire within one interval
+ * of the hour mark.
+ */
+
+import type { Event } from '@/types'
+import {
+  getEventDataProvider,
+  getPushSender,
+  getPushSubscriptionProvider,
+  type PushEventSnapshot
+} from './dataProviders'
+import { getEventsByIds } from './events'
+import { planPushNotifications } from './pushNotifications'
+
+// Keeps the `id in (...)` filter well under URL length limits
+const EVENT_ID_CHUNK = 100
+
+export interface PushSchedulerResult {
+  subscriptions: number
+  sent: number
+  failed: number
+  expired: number // Subscriptions removed because the push service no longer knows them
+}
+
+async function loadEvents(ids: string[]): Promise<Map<string, Event>> {
+  const provider = await getEventDataProvider()
+  const events = new Map<string, Event>()
+
+  for (let i = 0; i < ids.length; i += EVENT_ID_CHUNK) {
+    const chunk = await getEventsByIds(provider, ids.slice(i, i + EVENT_ID_CHUNK))
+    chunk.forEach(event => events.set(event.id, event))
+  }
+
+  return events
+}
+
+/**
+ * Send every notification that is due at `now`
+ * A notification that fails to send is retried on the next run (its event keeps the old state)
+ */
+export async function runPushScheduler(now: Date = new Date()): Promise<PushSchedulerResult> {
+  const subscriptionProvider = await getPushSubscriptionProvider()
+  const sender = await getPushSender()
+  const subscriptions = await subscriptionProvider.getSubscriptions()
+  const result: PushSchedulerResult = { subscriptions: subscriptions.length, sent: 0, failed: 0, expired: 0 }
+  if (subscriptions.length === 0) return result
+
+  const events = await loadEvents([...new Set(subscriptions.flatMap(s => s.eventIds))])
+
+  for (const subscription of subscriptions) {
+    const saved = subscription.eventIds.flatMap(id => events.get(id) ?? [])
+    const { notifications, state } = planPushNotifications(saved, subscription.eventState, now)
+
+    let expired = false
+    for (const notification of notifications) {
+      try {
+        if (await sender.send(subscription, notification) === 'expired') {
+          expired = true
+          break
+        }
+        result.sent++
+      } catch (error) {
+        result.failed++
+        console.error(`❌ Push to ${new URL(subscription.endpoint).host} failed:`, (error as Error).message)
+
+        const previous: PushEventSnapshot | undefined = subscription.eventState[notification.eventId]
+        if (previous) {
+          state[notification.eventId] = previous
+        } else {
+          delete state[notification.eventId]
+        }
+      }
+    }
+
+    if (expired) {
+      result.expired++
+      await subscriptionProvider.deleteSubscription(subscription.endpoint)
+      continue
+    }
+
+    await subscriptionProvider.setEventState(subscription.endpoint, state)
+  }
+
+  console.log(`🔔 Push run: ${result.sent} sent, ${result.failed} failed, ${result.expired} expired subscriptions (${sender.name})`)
+  return result
+}
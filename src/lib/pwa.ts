@@ -0,0 +1,73 @@
+/**
+ * Service worker registration (public/sw.js)
+ * The worker caches the app shell and map tiles for offline use, shows push notifications
+ * and relays Background Sync: when connectivity returns it messages open tabs to upload
+ * saves/skips made offline (the upload needs the page's Supabase session).
+ */
+
+export const SWIPE_SYNC_TAG = 'sync-swipes'
+export const PRECACHE_MESSAGE = 'precache-assets'
+
+// Background Sync isn't in the DOM typings yet
+interface SyncManager {
+  register(tag: string): Promise<void>
+}
+
+export function isServiceWorkerSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'serviceWorker' in navigator
+}
+
+/**
+ * Register the service worker and wait until it is active
+ * Offline caching is turned off in development so edited code is never served from the cache
+ */
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration> {
+  const url = process.env.NODE_ENV === 'production' ? '/sw.js' : '/sw.js?offline=0'
+  await navigator.serviceWorker.register(url)
+  return navigator.serviceWorker.ready
+}
+
+/**
+ * Hand the worker the build assets this page already loaded
+ * On the first visit they load before the worker controls the page, so it never sees them;
+ * without this the app shell wouldn't start offline until a second visit.
+ */
+export function precacheLoadedAssets(registration: ServiceWorkerRegistration): void {
+  const urls = performance.getEntriesByType('resource')
+    .map(entry => new URL(entry.name))
+    .filter(url => url.origin === window.location.origin && url.pathname.startsWith('/_next/static/'))
+    .map(url => url.href)
+
+  if (urls.length > 0) {
+    registration.active?.postMessage({ type: PRECACHE_MESSAGE, urls })
+  }
+}
+
+/**
+ * Ask the service worker to trigger a swipe upload once the browser is back online
+ * Browsers without Background Sync rely on the page's `online` listener instead
+ */
+export async function requestSwipeSync(): Promise<void> {
+  if (!isServiceWorkerSupported()) return
+
+  try {
+    const registration = await navigator.serviceWorker.ready
+    const sync = (registration as ServiceWorkerRegistration & { sync?: SyncManager }).sync
+    await sync?.register(SWIPE_SYNC_TAG)
+  } catch (error) {
+    console.warn('Could not register background sync:', (error as Error).message)
+  }
+}
+
+/**
+ * Run `onSync` when the service worker relays a swipe sync; returns an unsubscribe function
+ */
+export function onSwipeSyncRequested(onSync: () => void): () => void {
+  if (!isServiceWorkerSupported()) return () => {}
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === SWIPE_SYNC_TAG) onSync()
+  }
+  navigator.serviceWorker.addEventListener('message', handleMessage)
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage)
+}
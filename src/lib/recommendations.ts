@@ -0,0 +1,350 @@
+/**
+ * "For You" recommendations
+ * Content-based: every save, skip, click and long look at an event adds to (or, for skips,
+ * subtracts from) the user's affinity for that event's features - category, subcategory,
+ * tags, price band, neighborhood and time of day. Candidate events are scored by how much
+ * the user likes their features, with the strongest feature given as the reason
+ * ("Because you saved 3 jazz events").
+ *
+ * Saves/skips come from the swipe history (src/lib/swipeHistory.ts). Clicks and dwell time
+ * are kept in localStorage along with a snapshot of each event's features, so events from
+ * other cities or that have ended still count.
+ */
+
+import type { Event } from '@/types'
+import type { SwipeHistory } from './swipeHistory'
+import { findNeighborhood, type NeighborhoodCollection } from './neighborhoods'
+import { getLocalDateTime } from './timeZones'
+
+export type PriceBand = 'free' | 'under-20' | '20-50' | '50-plus'
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'late-night'
+
+export type FeatureKind = 'category' | 'subcategory' | 'tag' | 'price' | 'neighborhood' | 'time'
+
+export interface EventFeatures {
+  category: string
+  subcategory: string
+  tags: string[]
+  priceBand: PriceBand | null // null when the price is unknown
+  neighborhood: string | null // null when outside the city's neighborhoods (or they weren't loaded)
+  timeOfDay: TimeOfDay
+}
+
+export interface EventSignals {
+  features: EventFeatures
+  clicks: number
+  dwellMs: number
+  updatedAt: string
+}
+
+// Keyed by event id
+export type InteractionLog = Record<string, EventSignals>
+
+export type InteractionKind = 'swipe' | 'click' | 'dwell'
+
+export interface FeatureAffinity {
+  kind: FeatureKind
+  label: string // Feature value as shown in reasons, e.g. 'Jazz' or 'Mission District'
+  score: number // Decayed sum of signal weights; negative when mostly skipped
+  saves: number // Saved events with this feature
+  views: number // Clicked or viewed (but not saved) events with this feature
+}
+
+export interface AffinityProfile {
+  features: Record<string, FeatureAffinity> // Keyed by `${kind}:${lowercase value}`
+  skippedEventIds: Set<string>
+  signalCount: number // Events the profile learned from (0: nothing to personalize with yet)
+}
+
+export interface Recommendation {
+  event: Event
+  score: number // -1 to 1
+  reason: string | null
+}
+
+const STORAGE_KEY = 'event-interactions'
+
+// Oldest events are dropped from the log beyond this
+const MAX_LOGGED_EVENTS = 300
+
+// Looking at an event for less than this doesn't count as interest
+export const MIN_DWELL_MS = 5000
+
+// Signal weights: a save outweighs several clicks; a skip counts against every feature
+const SAVE_WEIGHT = 3
+const SKIP_WEIGHT = -1.5
+const CLICK_WEIGHT = 0.5
+const MAX_COUNTED_CLICKS = 3
+const DWELL_WEIGHT = 1.5 // Reached after a minute on the event
+const DWELL_FULL_MS = 60 * 1000
+
+// Older signals count for less: half as much every 30 days
+const HALF_LIFE_DAYS = 30
+
+// How much each feature kind contributes to an event's score (sums to 1)
+const KIND_WEIGHTS: Record<FeatureKind, number> = {
+  subcategory: 0.3,
+  category: 0.2,
+  tag: 0.2,
+  neighborhood: 0.1,
+  time: 0.1,
+  price: 0.1
+}
+
+// Affinity scores are squashed to -1..1; a score of this size maps to ~0.76
+const AFFINITY_SCALE = 4
+
+// Share of the final score taken by popularity (breaks ties and covers unknown features)
+const POPULARITY_SHARE = 0.15
+
+// Events at or above this score are "for you" (the smart chip); time of day and price alone stay below it
+export const FOR_YOU_MIN_SCORE = 0.3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function getPriceBand(event: Event): PriceBand | null {
+  if (event.price.isFree) return 'free'
+  if (event.price.min === undefined) return null
+  if (event.price.min < 20) return 'under-20'
+  if (event.price.min <= 50) return '20-50'
+  return '50-plus'
+}
+
+// Local start hour: 5am-noon morning, noon-5pm afternoon, 5-10pm evening, otherwise late night
+function getTimeOfDay(event: Event): TimeOfDay {
+  const timeZone = event.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+  const { hour } = getLocalDateTime(new Date(event.startTime), timeZone)
+  if (hour >= 5 && hour < 12) return 'morning'
+  if (hour >= 12 && hour < 17) return 'afternoon'
+  if (hour >= 17 && hour < 22) return 'evening'
+  return 'late-night'
+}
+
+export function getEventFeatures(event: Event, neighborhoods?: NeighborhoodCollection | null): EventFeatures {
+  const neighborhood = neighborhoods ? findNeighborhood(event.longitude, event.latitude, neighborhoods) : null
+  return {
+    category: event.category,
+    subcategory: event.subcategory,
+    tags: event.tags.slice(0, 5),
+    priceBand: getPriceBand(event),
+    neighborhood: neighborhood?.properties.name ?? null,
+    timeOfDay: getTimeOfDay(event)
+  }
+}
+
+// Every (kind, value) pair of an event, skipping empty values
+function listFeatures(features: EventFeatures): { kind: FeatureKind; label: string }[] {
+  const list: { kind: FeatureKind; label: string }[] = [
+    { kind: 'category', label: features.category },
+    { kind: 'subcategory', label: features.subcategory },
+    ...features.tags.map(tag => ({ kind: 'tag' as const, label: tag })),
+    { kind: 'time', label: features.timeOfDay }
+  ]
+  if (features.priceBand) list.push({ kind: 'price', label: features.priceBand })
+  if (features.neighborhood) list.push({ kind: 'neighborhood', label: features.neighborhood })
+  return list.filter(f => f.label)
+}
+
+function getFeatureKey(kind: FeatureKind, label: string): string {
+  return `${kind}:${label.toLowerCase()}`
+}
+
+export function loadInteractionLog(): InteractionLog {
+  if (typeof window === 'undefined') return {}
+
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? JSON.parse(raw) : {}
+  } catch (error) {
+    console.error('Error reading event interactions:', error)
+    return {}
+  }
+}
+
+export function saveInteractionLog(log: InteractionLog) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(log))
+  } catch (error) {
+    console.error('Error saving event interactions:', error)
+  }
+}
+
+/**
+ * Record an interaction with an event (returns a new log for React state)
+ * 'swipe' only snapshots the event's features; the save/skip itself lives in the swipe history
+ */
+export function recordInteraction(
+  log: InteractionLog,
+  event: Event,
+  kind: InteractionKind,
+  options: { dwellMs?: number; neighborhoods?: NeighborhoodCollection | null; now?: Date } = {}
+): InteractionLog {
+  if (kind === 'dwell' && (options.dwellMs ?? 0) < MIN_DWELL_MS) return log
+
+  const existing = log[event.id]
+  const entry: EventSignals = {
+    features: getEventFeatures(event, options.neighborhoods),
+    clicks: (existing?.clicks ?? 0) + (kind === 'click' ? 1 : 0),
+    dwellMs: (existing?.dwellMs ?? 0) + (kind === 'dwell' ? options.dwellMs ?? 0 : 0),
+    updatedAt: (options.now || new Date()).toISOString()
+  }
+  // Keep the neighborhood from an earlier snapshot if this one was taken without boundaries
+  if (!entry.features.neighborhood && existing?.features.neighborhood) {
+    entry.features.neighborhood = existing.features.neighborhood
+  }
+
+  const next: InteractionLog = { ...log, [event.id]: entry }
+  const ids = Object.keys(next)
+  if (ids.length > MAX_LOGGED_EVENTS) {
+    ids
+      .sort((a, b) => next[a].updatedAt.localeCompare(next[b].updatedAt))
+      .slice(0, ids.length - MAX_LOGGED_EVENTS)
+      .forEach(id => delete next[id])
+  }
+  return next
+}
+
+function getDecay(at: string, now: Date): number {
+  const ageDays = Math.max(0, now.getTime() - new Date(at).getTime()) / DAY_MS
+  return Math.pow(0.5, ageDays / HALF_LIFE_DAYS)
+}
+
+/**
+ * Learn feature affinities from the swipe history and interaction log
+ * `events` supplies features for swiped events missing from the log (e.g. saved on another device)
+ */
+export function buildAffinityProfile(
+  history: SwipeHistory,
+  log: InteractionLog,
+  events: Event[] = [],
+  options: { neighborhoods?: NeighborhoodCollection | null; now?: Date } = {}
+): AffinityProfile {
+  const now = options.now || new Date()
+  const eventsById = new Map(events.map(event => [event.id, event]))
+  const profile: AffinityProfile = { features: {}, skippedEventIds: new Set(), signalCount: 0 }
+
+  const eventIds = new Set([...Object.keys(history), ...Object.keys(log)])
+  eventIds.forEach(eventId => {
+    const swipe = history[eventId]
+    const signals = log[eventId]
+    const event = eventsById.get(eventId)
+    const features = signals?.features ?? (event ? getEventFeatures(event, options.neighborhoods) : null)
+    if (!features) return
+
+    let weight = 0
+    if (swipe?.action === 'saved') weight += SAVE_WEIGHT * getDecay(swipe.updatedAt, now)
+    if (swipe?.action === 'skipped') {
+      weight += SKIP_WEIGHT * getDecay(swipe.updatedAt, now)
+      profile.skippedEventIds.add(eventId)
+    }
+    if (signals) {
+      const implicit = CLICK_WEIGHT * Math.min(signals.clicks, MAX_COUNTED_CLICKS) +
+        DWELL_WEIGHT * Math.min(signals.dwellMs / DWELL_FULL_MS, 1)
+      weight += implicit * getDecay(signals.updatedAt, now)
+    }
+    if (weight === 0) return
+
+    profile.signalCount++
+    const saved = swipe?.action === 'saved'
+    const viewed = !swipe && Boolean(signals && (signals.clicks > 0 || signals.dwellMs > 0))
+
+    listFeatures(features).forEach(({ kind, label }) => {
+      const key = getFeatureKey(kind, label)
+      const affinity = profile.features[key] ??= { kind, label, score: 0, saves: 0, views: 0 }
+      affinity.score += weight
+      if (saved) affinity.saves++
+      if (viewed) affinity.views++
+    })
+  })
+
+  return profile
+}
+
+function getAffinity(profile: AffinityProfile, kind: FeatureKind, label: string): FeatureAffinity | undefined {
+  return profile.features[getFeatureKey(kind, label)]
+}
+
+function describeFeature(affinity: FeatureAffinity, count: number): string {
+  const events = count === 1 ? 'event' : 'events'
+  const amount = count === 1 ? null : String(count)
+
+  switch (affinity.kind) {
+    case 'neighborhood':
+      return `${amount ?? 'an'} ${events} in ${affinity.label}`
+    case 'price': {
+      const band: Record<PriceBand, string> = {
+        free: 'free',
+        'under-20': 'under $20',
+        '20-50': '$20-50',
+        '50-plus': 'over $50'
+      }
+      const label = band[affinity.label as PriceBand]
+      return affinity.label === 'free' ? `${amount ?? 'a'} free ${events}` : `${amount ?? 'an'} ${events} ${label}`
+    }
+    default: {
+      const label = affinity.kind === 'time' ? affinity.label.replace('-', ' ') : affinity.label.toLowerCase()
+      const article = /^[aeiou]/.test(label) ? 'an' : 'a'
+      return `${amount ?? article} ${label} ${events}`
+    }
+  }
+}
+
+/**
+ * How much the profile likes an event (-1 to 1) and the feature that drove it most
+ * Skipped events score -1; with no signals yet the score is popularity alone
+ */
+export function scoreEvent(
+  event: Event,
+  profile: AffinityProfile,
+  neighborhoods?: NeighborhoodCollection | null
+): { score: number; reason: string | null } {
+  if (profile.skippedEventIds.has(event.id)) return { score: -1, reason: null }
+
+  const popularity = event.popularity / 100
+  if (profile.signalCount === 0) return { score: popularity * POPULARITY_SHARE, reason: null }
+
+  const features = getEventFeatures(event, neighborhoods)
+  const weighted: [FeatureAffinity | undefined, number][] = [
+    [getAffinity(profile, 'category', features.category), KIND_WEIGHTS.category],
+    [getAffinity(profile, 'subcategory', features.subcategory), KIND_WEIGHTS.subcategory],
+    ...features.tags.map(tag => [getAffinity(profile, 'tag', tag), KIND_WEIGHTS.tag / features.tags.length] as [FeatureAffinity | undefined, number]),
+    [getAffinity(profile, 'time', features.timeOfDay), KIND_WEIGHTS.time]
+  ]
+  if (features.priceBand) weighted.push([getAffinity(profile, 'price', features.priceBand), KIND_WEIGHTS.price])
+  if (features.neighborhood) weighted.push([getAffinity(profile, 'neighborhood', features.neighborhood), KIND_WEIGHTS.neighborhood])
+
+  let affinityScore = 0
+  let top: { affinity: FeatureAffinity; contribution: number } | null = null
+  for (const [affinity, weight] of weighted) {
+    if (!affinity) continue
+    const contribution = weight * Math.tanh(affinity.score / AFFINITY_SCALE)
+    affinityScore += contribution
+    if (contribution > 0 && (!top || contribution > top.contribution)) top = { affinity, contribution }
+  }
+
+  const score = affinityScore * (1 - POPULARITY_SHARE) + popularity * POPULARITY_SHARE
+  if (!top) return { score, reason: null }
+
+  const { affinity } = top
+  const reason = affinity.saves > 0
+    ? `Because you saved ${describeFeature(affinity, affinity.saves)}`
+    : affinity.views > 0
+      ? `Because you viewed ${describeFeature(affinity, affinity.views)}`
+      : null
+  return { score, reason }
+}
+
+/**
+ * Candidate events ranked for the user, best first (events they skipped are left out)
+ */
+export function rankForYou(
+  events: Event[],
+  profile: AffinityProfile,
+  neighborhoods?: NeighborhoodCollection | null
+): Recommendation[] {
+  return events
+    .filter(event => !profile.skippedEventIds.has(event.id))
+    .map(event => ({ event, ...scoreEvent(event, profile, neighborhoods) }))
+    .sort((a, b) => b.score - a.score || b.event.popularity - a.event.popularity)
+}
@@ -0,0 +1,327 @@
+/**
+ * Recurring events (iCalendar RRULE subset)
+ * A series is stored once with its first occurrence as startTime/endTime and expanded
+ * into individual occurrences on the server for the requested window.
+ *
+ * Supported: FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, COUNT, UNTIL, BYDAY (with ordinals
+ * for MONTHLY, e.g. 1SU or -1FR) and BYMONTHDAY. Rules are evaluated in the series'
+ * timezone so "every Tuesday at 7pm" stays at 7pm across DST changes.
+ */
+
+import type { Event, EventRecurrence } from '@/types'
+import { getLocalDateTime, zonedTimeToUtc, type LocalDateTime } from './timeZones'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Hard stop for expansion loops (~10 years of days)
+const MAX_RECURRENCE_DAYS = 3660
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY'
+
+export interface RRuleWeekday {
+  day: number // 0 = Sunday
+  ordinal?: number // MONTHLY only: 1 = first, -1 = last
+}
+
+export interface RRule {
+  freq: RRuleFrequency
+  interval: number
+  count?: number
+  until?: Date
+  byDay?: RRuleWeekday[]
+  byMonthDay?: number[]
+}
+
+/**
+ * Parse an RRULE string (with or without the `RRULE:` prefix)
+ * Returns null if the rule is malformed or uses unsupported parts
+ */
+export function parseRRule(value: string): RRule | null {
+  const parts = value.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)
+  const fields = new Map<string, string>()
+
+  for (const part of parts) {
+    const [key, val] = part.split('=')
+    if (!key || val === undefined) return null
+    fields.set(key.toUpperCase(), val.toUpperCase())
+  }
+
+  const freq = fields.get('FREQ')
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') return null
+
+  const rule: RRule = { freq, interval: 1 }
+
+  for (const [key, val] of fields) {
+    switch (key) {
+      case 'FREQ':
+        break
+      case 'INTERVAL':
+        rule.interval = parseInt(val, 10)
+        if (!(rule.interval >= 1)) return null
+        break
+      case 'COUNT':
+        rule.count = parseInt(val, 10)
+        if (!(rule.count >= 1)) return null
+        break
+      case 'UNTIL': {
+        // 20251231 or 20251231T235959Z
+        const match = val.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/)
+        if (!match) return null
+        const [, y, m, d, hh = '23', mm = '59', ss = '59'] = match
+        rule.until = new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss))
+        break
+      }
+      case 'BYDAY': {
+        const days: RRuleWeekday[] = []
+        for (const token of val.split(',')) {
+          const match = token.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/)
+          if (!match) return null
+          const day = WEEKDAYS.indexOf(match[2] as typeof WEEKDAYS[number])
+          days.push(match[1] ? { day, ordinal: parseInt(match[1], 10) } : { day })
+        }
+        rule.byDay = days
+        break
+      }
+      case 'BYMONTHDAY':
+        rule.byMonthDay = val.split(',').map(n => parseInt(n, 10))
+        if (rule.byMonthDay.some(n => !Number.isInteger(n) || n === 0 || Math.abs(n) > 31)) return null
+        break
+      case 'WKST':
+        break
+      default:
+        return null
+    }
+  }
+
+  return rule
+}
+
+// Local calendar dates are tracked as whole days since the epoch
+function toDayNumber(year: number, month: number, day: number): number {
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS)
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+function matchesMonthly(rule: RRule, date: Date, startDay: number): boolean {
+  const day = date.getUTCDate()
+  const lastDay = daysInMonth(date.getUTCFullYear(), date.getUTCMonth() + 1)
+
+  if (rule.byMonthDay) {
+    return rule.byMonthDay.some(n => (n > 0 ? n : lastDay + n + 1) === day)
+  }
+
+  if (rule.byDay) {
+    const weekday = date.getUTCDay()
+    const nth = Math.floor((day - 1) / 7) + 1
+    const nthFromEnd = -(Math.floor((lastDay - day) / 7) + 1)
+    return rule.byDay.some(d =>
+      d.day === weekday && (d.ordinal === undefined || d.ordinal === nth || d.ordinal === nthFromEnd)
+    )
+  }
+
+  return day === startDay
+}
+
+/**
+ * Does a local calendar day match the rule? (Interval checks are relative to the series start)
+ */
+function matchesDay(rule: RRule, dayNumber: number, startDayNumber: number, start: LocalDateTime): boolean {
+  const date = new Date(dayNumber * DAY_MS)
+  const weekday = date.getUTCDay()
+
+  switch (rule.freq) {
+    case 'DAILY':
+      if ((dayNumber - startDayNumber) % rule.interval !== 0) return false
+      return !rule.byDay || rule.byDay.some(d => d.day === weekday)
+
+    case 'WEEKLY': {
+      // Weeks start on Monday
+      const weekStart = (n: number) => n - ((new Date(n * DAY_MS).getUTCDay() + 6) % 7)
+      const weeks = Math.round((weekStart(dayNumber) - weekStart(startDayNumber)) / 7)
+      if (weeks % rule.interval !== 0) return false
+      const startWeekday = new Date(startDayNumber * DAY_MS).getUTCDay()
+      return rule.byDay ? rule.byDay.some(d => d.day === weekday) : weekday === startWeekday
+    }
+
+    case 'MONTHLY': {
+      const months = (date.getUTCFullYear() - start.year) * 12 + (date.getUTCMonth() + 1 - start.month)
+      if (months % rule.interval !== 0) return false
+      return matchesMonthly(rule, date, start.day)
+    }
+  }
+}
+
+/**
+ * Start times of a series' occurrences that begin before `until`
+ * The series start always counts as the first occurrence (RFC 5545)
+ */
+export function getOccurrenceStarts(
+  startTime: Date,
+  recurrence: EventRecurrence,
+  until: Date
+): Date[] {
+  const rule = parseRRule(recurrence.rrule)
+  if (!rule) return [startTime]
+
+  const timeZone = recurrence.timezone || 'UTC'
+  const start = getLocalDateTime(startTime, timeZone)
+  const startDayNumber = toDayNumber(start.year, start.month, start.day)
+  const excluded = new Set((recurrence.exdates || []).map(d => new Date(d).getTime()))
+  const limit = rule.until && rule.until < until ? rule.until : until
+
+  const starts: Date[] = []
+  let count = 0
+
+  for (let n = startDayNumber; n < startDayNumber + MAX_RECURRENCE_DAYS; n++) {
+    if (n !== startDayNumber && !matchesDay(rule, n, startDayNumber, start)) continue
+
+    const date = new Date(n * DAY_MS)
+    const occurrence = new Date(zonedTimeToUtc({
+      ...start,
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate()
+    }, timeZone))
+
+    if (occurrence > limit || (occurrence.getTime() === limit.getTime() && limit === until)) break
+
+    count++
+    if (!excluded.has(occurrence.getTime())) {
+      starts.push(occurrence)
+    }
+    if (rule.count !== undefined && count >= rule.count) break
+  }
+
+  return starts
+}
+
+// Occurrence ids are `<series id>@<ISO start time>`
+export function getOccurrenceId(seriesId: string, start: Date): string {
+  return `${seriesId}@${start.toISOString()}`
+}
+
+/**
+ * Split an occurrence id into its series id and start time
+ * Returns null for plain event ids
+ */
+export function parseOccurrenceId(id: string): { seriesId: string; start: Date } | null {
+  const at = id.lastIndexOf('@')
+  if (at <= 0) return null
+
+  const start = new Date(id.slice(at + 1))
+  if (isNaN(start.getTime())) return null
+
+  return { seriesId: id.slice(0, at), start }
+}
+
+/**
+ * Occurrences of an event overlapping [from, to)
+ * Non-recurring events are returned as-is if they overlap
+ */
+export function expandOccurrences(event: Event, from: Date, to: Date): Event[] {
+  const start = new Date(event.startTime)
+  const end = new Date(event.endTime)
+
+  if (!event.recurrence) {
+    return start < to && end > from ? [event] : []
+  }
+
+  const duration = end.getTime() - start.getTime()
+
+  const recurrence = { ...event.recurrence, timezone: event.recurrence.timezone || event.timezone }
+
+  return getOccurrenceStarts(start, recurrence, to)
+    .filter(occurrenceStart => occurrenceStart.getTime() + duration > from.getTime())
+    .map(occurrenceStart => ({
+      ...event,
+      id: getOccurrenceId(event.id, occurrenceStart),
+      seriesId: event.id,
+      startTime: occurrenceStart.toISOString(),
+      endTime: new Date(occurrenceStart.getTime() + duration).toISOString()
+    }))
+}
+
+/**
+ * A single occurrence of a series, or null if the series has no occurrence at that time
+ */
+export function getOccurrence(series: Event, start: Date): Event | null {
+  const occurrence = expandOccurrences(series, new Date(start.getTime() - 1), new Date(start.getTime() + 1))
+    .find(e => new Date(e.startTime).getTime() === start.getTime())
+  return occurrence || null
+}
+
+/**
+ * Expand every series in a list of events for a window, sorted by start time
+ */
+export function expandEvents(events: Event[], from: Date, to: Date): Event[] {
+  return events
+    .flatMap(event => expandOccurrences(event, from, to))
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+}
+
+/**
+ * Collapse expanded occurrences to the next (or current) occurrence of each series
+ * One-off events pass through unchanged
+ */
+export function getNextOccurrences(events: Event[], now: Date = new Date()): Event[] {
+  const bySeries = new Map<string, Event>()
+  const result: Event[] = []
+
+  events.forEach(event => {
+    if (!event.seriesId) {
+      result.push(event)
+      return
+    }
+
+    const current = bySeries.get(event.seriesId)
+    const isUpcoming = new Date(event.endTime) > now
+    const currentIsUpcoming = current ? new Date(current.endTime) > now : false
+
+    // Prefer the earliest upcoming occurrence; fall back to the latest past one
+    if (
+      !current ||
+      (isUpcoming && (!currentIsUpcoming || event.startTime < current.startTime)) ||
+      (!isUpcoming && !currentIsUpcoming && event.startTime > current.startTime)
+    ) {
+      bySeries.set(event.seriesId, event)
+    }
+  })
+
+  return [...result, ...bySeries.values()]
+}
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+function ordinalLabel(n: number): string {
+  if (n === -1) return 'last'
+  return ['first', 'second', 'third', 'fourth', 'fifth'][n - 1] || `${n}th`
+}
+
+/**
+ * Short human label for a rule, e.g. "Every Tuesday" or "Every other week"
+ */
+export function describeRecurrence(recurrence: EventRecurrence): string {
+  const rule = parseRRule(recurrence.rrule)
+  if (!rule) return 'Recurring'
+
+  const every = rule.interval === 1 ? 'Every' : rule.interval === 2 ? 'Every other' : `Every ${rule.interval}`
+  const dayNames = rule.byDay?.map(d =>
+    d.ordinal !== undefined ? `${ordinalLabel(d.ordinal)} ${WEEKDAY_NAMES[d.day]}` : WEEKDAY_NAMES[d.day]
+  )
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return rule.interval === 1 ? 'Daily' : `${every} day${rule.interval > 2 ? 's' : ''}`
+    case 'WEEKLY':
+      if (dayNames && rule.interval === 1) return `Every ${dayNames.join(' & ')}`
+      return rule.interval === 1 ? 'Weekly' : `${every} week${rule.interval > 2 ? 's' : ''}`
+    case 'MONTHLY':
+      if (dayNames) return `Monthly on the ${dayNames.join(' & ')}`
+      return rule.interval === 1 ? 'Monthly' : `${every} month${rule.interval > 2 ? 's' : ''}`
+  }
+}
@@ -0,0 +1,618 @@
+/**
+ * Supabase-backed event and venue providers
+ */
+
+import type { Event } from '@/types'
+import { supabase, supabaseAdmin } from './supabase'
+import { eventFromRow, type EventRow } from './events'
+import { expandEvents } from './recurrence'
+import { toForecastHours } from './venueForecasts'
+import type {
+  BestTimeRawData,
+  CalendarFeedProvider,
+  CityRecord,
+  EventDataProvider,
+  EventQuery,
+  JobQueueProvider,
+  JobRecord,
+  JobStatus,
+  PushEventSnapshot,
+  PushSubscriptionProvider,
+  PushSubscriptionRecord,
+  RateLimitProvider,
+  VenueDataProvider,
+  VenueForecastHour,
+  VenuePlaceInfo,
+  VenueQuery,
+  VenueRecord,
+  VenueUpsert
+} from './dataProviders'
+import type { PushSubscriptionKeys } from './pushNotifications'
+
+async function getCityBySlug(slug: string): Promise<CityRecord | null> {
+  const { data, error } = await supabase
+    .from('cities')
+    .select('id, name, slug, lat, lng, timezone')
+    .eq('slug', slug)
+    .single()
+
+  if (error || !data) return null
+
+  return {
+    id: String(data.id),
+    name: data.name,
+    slug: data.slug,
+    lat: parseFloat(data.lat),
+    lng: parseFloat(data.lng),
+    timezone: data.timezone || 'UTC'
+  }
+}
+
+// PostgREST returns at most 1000 rows per request
+const EVENT_PAGE_SIZE = 1000
+
+export class SupabaseEventProvider implements EventDataProvider {
+  readonly name = 'supabase' as const
+
+  getCity(slug: string): Promise<CityRecord | null> {
+    return getCityBySlug(slug)
+  }
+
+  async getEvents(city: CityRecord, { from, to, bbox }: EventQuery): Promise<Event[]> {
+    // One-off events overlapping the window (started before `to`, not ended at `from`),
+    // plus every series that started before `to` - those are expanded below
+    const rows: EventRow[] = []
+
+    for (let offset = 0; ; offset += EVENT_PAGE_SIZE) {
+      let query = supabase
+        .from('events')
+        .select('*, venue:venues(id, name, address, photo_url, venue_type, google_rating, google_review_count)')
+        .eq('city_id', city.id)
+        .lt('start_time', to.toISOString())
+        .or(`end_time.gt.${from.toISOString()},recurrence_rule.not.is.null`)
+
+      if (bbox) {
+        query = query
+          .gte('lat', bbox.south)
+          .lte('lat', bbox.north)
+          .gte('lng', bbox.west)
+          .lte('lng', bbox.east)
+      }
+
+      // Ordered by id too so pages don't overlap when start times tie
+      const { data, error } = await query
+        .order('start_time')
+        .order('id')
+        .range(offset, offset + EVENT_PAGE_SIZE - 1)
+
+      if (error) {
+        throw error
+      }
+
+      const page = (data || []) as EventRow[]
+      rows.push(...page)
+      if (page.length < EVENT_PAGE_SIZE) break
+    }
+
+    const events = rows.map(row => eventFromRow(row, city.timezone))
+    return expandEvents(events, from, to)
+  }
+
+  async getEventsByIds(ids: string[]): Promise<Event[]> {
+    if (ids.length === 0) return []
+
+    const { data, error } = await supabase
+      .from('events')
+      .select('*, venue:venues(id, name, address, photo_url, venue_type, google_rating, google_review_count), city:cities(timezone)')
+      .in('id', ids)
+
+    if (error) {
+      throw error
+    }
+
+    return ((data || []) as EventRow[]).map(row => eventFromRow(row))
+  }
+}
+
+// PostgREST caps responses at 1000 rows; a venue has up to 168 forecast hours
+const FORECAST_PAGE_SIZE = 1000
+const FORECAST_VENUE_CHUNK = 100
+
+interface VenueForecastRow {
+  venue_id: number | string
+  weekday: number
+  hour: number
+  intensity: number
+}
+
+// Numeric columns come back as strings, ids as numbers
+type VenueRow = Omit<VenueRecord, 'id' | 'city_id' | 'lat' | 'lng'> & {
+  id: number | string
+  city_id: number | string
+  lat: number | string
+  lng: number | string
+}
+
+function venueFromRow(v: VenueRow): VenueRecord {
+  return {
+    ...v,
+    id: String(v.id),
+    city_id: String(v.city_id),
+    lat: parseFloat(String(v.lat)),
+    lng: parseFloat(String(v.lng))
+  }
+}
+
+async function selectForecastPages(
+  page: (from: number, to: number) => PromiseLike<{ data: VenueForecastRow[] | null; error: unknown }>
+): Promise<VenueForecastHour[]> {
+  const hours: VenueForecastHour[] = []
+
+  for (let from = 0; ; from += FORECAST_PAGE_SIZE) {
+    const { data, error } = await page(from, from + FORECAST_PAGE_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    const rows = data || []
+    hours.push(...rows.map(row => ({
+      venueId: String(row.venue_id),
+      weekday: row.weekday,
+      hour: row.hour,
+      intensity: row.intensity
+    })))
+
+    if (rows.length < FORECAST_PAGE_SIZE) return hours
+  }
+}
+
+// A city searched with the venue grid can hold several thousand venues
+const VENUE_PAGE_SIZE = 1000
+
+export class SupabaseVenueProvider implements VenueDataProvider {
+  readonly name = 'supabase' as const
+
+  getCity(slug: string): Promise<CityRecord | null> {
+    return getCityBySlug(slug)
+  }
+
+  async getVenues(cityId: string, { eventVenuesOnly }: VenueQuery = {}): Promise<VenueRecord[]> {
+    const venues: VenueRecord[] = []
+
+    for (let offset = 0; ; offset += VENUE_PAGE_SIZE) {
+      let query = supabase
+        .from('venues')
+        .select('*')
+        .eq('city_id', cityId)
+
+      if (eventVenuesOnly) {
+        query = query.eq('is_event_venue', true)
+      }
+
+      // Ordered by id too so pages don't overlap when names tie
+      const { data, error } = await query
+        .order('name')
+        .order('id')
+        .range(offset, offset + VENUE_PAGE_SIZE - 1)
+
+      if (error) {
+        throw error
+      }
+
+      const page = data || []
+      venues.push(...page.map(venueFromRow))
+      if (page.length < VENUE_PAGE_SIZE) return venues
+    }
+  }
+
+  async getVenue(id: string): Promise<VenueRecord | null> {
+    if (!/^\d+$/.test(id)) return null
+
+    const { data, error } = await supabase
+      .from('venues')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    return data ? venueFromRow(data) : null
+  }
+
+  async upsertVenues(venues: VenueUpsert[]): Promise<void> {
+    const now = new Date().toISOString()
+
+    const { error } = await supabase
+      .from('venues')
+      .upsert(venues.map(v => ({ ...v, updated_at: now })), {
+        onConflict: 'besttime_venue_id',
+        ignoreDuplicates: false
+      })
+
+    if (error) {
+      throw error
+    }
+  }
+
+  async setVenuePlaceInfo(besttimeVenueId: string, info: VenuePlaceInfo | null): Promise<void> {
+    const now = new Date().toISOString()
+    const { error } = await supabase
+      .from('venues')
+      .update(info
+        ? {
+            photo_url: info.photoUrl,
+            google_rating: info.rating,
+            google_review_count: info.reviewCount,
+            photo_updated_at: now,
+            updated_at: now
+          }
+        : { photo_updated_at: now })
+      .eq('besttime_venue_id', besttimeVenueId)
+
+    if (error) {
+      throw error
+    }
+  }
+
+  async setVenueForecast(besttimeVenueId: string, forecast: BestTimeRawData | null): Promise<void> {
+    const admin = supabaseAdmin()
+
+    // Nothing from BestTime: keep the old forecast rows, just mark the venue checked
+    if (!forecast) {
+      const { error } = await admin
+        .from('venues')
+        .update({ forecast_updated_at: new Date().toISOString() })
+        .eq('besttime_venue_id', besttimeVenueId)
+
+      if (error) {
+        throw error
+      }
+      return
+    }
+
+    const { data: venue, error: venueError } = await admin
+      .from('venues')
+      .select('id')
+      .eq('besttime_venue_id', besttimeVenueId)
+      .maybeSingle()
+
+    if (venueError) {
+      throw venueError
+    }
+    if (!venue) return
+
+    const now = new Date().toISOString()
+    const rows = toForecastHours(String(venue.id), forecast).map(h => ({
+      venue_id: venue.id,
+      weekday: h.weekday,
+      hour: h.hour,
+      intensity: h.intensity,
+      updated_at: now
+    }))
+
+    // Replace rather than merge, so hours BestTime no longer reports don't linger
+    const { error: deleteError } = await admin
+      .from('venue_forecasts')
+      .delete()
+      .eq('venue_id', venue.id)
+
+    if (deleteError) {
+      throw deleteError
+    }
+
+    if (rows.length > 0) {
+      const { error: insertError } = await admin.from('venue_forecasts').insert(rows)
+      if (insertError) {
+        throw insertError
+      }
+    }
+
+    const { error } = await admin
+      .from('venues')
+      .update({ forecast_updated_at: now, updated_at: now })
+      .eq('id', venue.id)
+
+    if (error) {
+      throw error
+    }
+  }
+
+  async getVenueForecasts(venueIds: string[]): Promise<VenueForecastHour[]> {
+    const hours: VenueForecastHour[] = []
+
+    for (let i = 0; i < venueIds.length; i += FORECAST_VENUE_CHUNK) {
+      const chunk = venueIds.slice(i, i + FORECAST_VENUE_CHUNK)
+      hours.push(...await selectForecastPages((from, to) => supabase
+        .from('venue_forecasts')
+        .select('venue_id, weekday, hour, intensity')
+        .in('venue_id', chunk)
+        .order('venue_id')
+        .order('weekday')
+        .order('hour')
+        .range(from, to)
+      ))
+    }
+
+    return hours
+  }
+
+  getCityBusyness(cityId: string, weekday: number, hour: number): Promise<VenueForecastHour[]> {
+    return selectForecastPages((from, to) => supabase
+      .from('venue_forecasts')
+      .select('venue_id, weekday, hour, intensity, venues!inner(city_id)')
+      .eq('venues.city_id', cityId)
+      .eq('weekday', weekday)
+      .eq('hour', hour)
+      .order('venue_id')
+      .range(from, to)
+    )
+  }
+}
+
+// Feed tokens are secrets, so the table has no public policies - use the service role
+export class SupabaseCalendarFeedProvider implements CalendarFeedProvider {
+  readonly name = 'supabase' as const
+
+  async getFeedEventIds(token: string): Promise<string[] | null> {
+    const { data, error } = await supabaseAdmin()
+      .from('calendar_feeds')
+      .select('event_ids')
+      .eq('token', token)
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    return data ? data.event_ids : null
+  }
+
+  async saveFeed(eventIds: string[], token: string = crypto.randomUUID()): Promise<string> {
+    const { error } = await supabaseAdmin()
+      .from('calendar_feeds')
+      .upsert({
+        token,
+        event_ids: eventIds,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'token' })
+
+    if (error) {
+      throw error
+    }
+
+    return token
+  }
+}
+
+interface PushSubscriptionRow {
+  endpoint: string
+  p256dh: string
+  auth: string
+  event_ids: string[]
+  event_state: Record<string, PushEventSnapshot> | null
+}
+
+const PUSH_SUBSCRIPTION_PAGE_SIZE = 1000
+
+export class SupabasePushSubscriptionProvider implements PushSubscriptionProvider {
+  readonly name = 'supabase' as const
+
+  async saveSubscription(endpoint: string, keys: PushSubscriptionKeys, eventIds: string[]): Promise<void> {
+    const { error } = await supabaseAdmin()
+      .from('push_subscriptions')
+      .upsert({
+        endpoint,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+        event_ids: eventIds,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'endpoint' })
+
+    if (error) {
+      throw error
+    }
+  }
+
+  async deleteSubscription(endpoint: string): Promise<void> {
+    const { error } = await supabaseAdmin()
+      .from('push_subscriptions')
+      .delete()
+      .eq('endpoint', endpoint)
+
+    if (error) {
+      throw error
+    }
+  }
+
+  async getSubscriptions(): Promise<PushSubscriptionRecord[]> {
+    const subscriptions: PushSubscriptionRecord[] = []
+
+    for (let from = 0; ; from += PUSH_SUBSCRIPTION_PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin()
+        .from('push_subscriptions')
+        .select('endpoint, p256dh, auth, event_ids, event_state')
+        .neq('event_ids', '{}')
+        .order('endpoint')
+        .range(from, from + PUSH_SUBSCRIPTION_PAGE_SIZE - 1)
+
+      if (error) {
+        throw error
+      }
+
+      const rows = (data || []) as PushSubscriptionRow[]
+      subscriptions.push(...rows.map(row => ({
+        endpoint: row.endpoint,
+        keys: { p256dh: row.p256dh, auth: row.auth },
+        eventIds: row.event_ids,
+        eventState: row.event_state || {}
+      })))
+
+      if (rows.length < PUSH_SUBSCRIPTION_PAGE_SIZE) return subscriptions
+    }
+  }
+
+  async setEventState(endpoint: string, eventState: Record<string, PushEventSnapshot>): Promise<void> {
+    const { error } = await supabaseAdmin()
+      .from('push_subscriptions')
+      .update({ event_state: eventState })
+      .eq('endpoint', endpoint)
+
+    if (error) {
+      throw error
+    }
+  }
+}
+
+interface JobRow {
+  id: string
+  type: string
+  payload: Record<string, unknown>
+  status: JobStatus
+  result: unknown
+  error: string | null
+  attempts: number
+  max_attempts: number
+  run_at: string
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+  dedupe_key: string | null
+}
+
+function jobFromRow(row: JobRow): JobRecord {
+  return {
+    id: row.id,
+    type: row.type,
+    payload: row.payload,
+    status: row.status,
+    result: row.result,
+    error: row.error,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAt: row.run_at,
+    dedupeKey: row.dedupe_key,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at
+  }
+}
+
+// Jobs are written by API routes and the worker only, so the table has no public policies
+export class SupabaseJobQueueProvider implements JobQueueProvider {
+  readonly name = 'supabase' as const
+
+  async enqueue(type: string, payload: Record<string, unknown>, maxAttempts: number, dedupeKey?: string): Promise<JobRecord> {
+    if (dedupeKey) {
+      const active = await this.getActiveJob(dedupeKey)
+      if (active) return active
+    }
+
+    const { data, error } = await supabaseAdmin()
+      .from('jobs')
+      .insert({ type, payload, max_attempts: maxAttempts, dedupe_key: dedupeKey ?? null })
+      .select()
+      .single()
+
+    if (error) {
+      // Lost a race with another request for the same key (jobs_active_dedupe_key index)
+      if (dedupeKey && error.code === '23505') {
+        const active = await this.getActiveJob(dedupeKey)
+        if (active) return active
+      }
+      throw error
+    }
+
+    return jobFromRow(data)
+  }
+
+  private async getActiveJob(dedupeKey: string): Promise<JobRecord | null> {
+    const { data, error } = await supabaseAdmin()
+      .from('jobs')
+      .select()
+      .eq('dedupe_key', dedupeKey)
+      .in('status', ['queued', 'running'])
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    return data ? jobFromRow(data) : null
+  }
+
+  async getJob(id: string): Promise<JobRecord | null> {
+    const { data, error } = await supabaseAdmin()
+      .from('jobs')
+      .select()
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    return data ? jobFromRow(data) : null
+  }
+
+  async claimNextJob(types?: string[]): Promise<JobRecord | null> {
+    // claim_next_job() uses FOR UPDATE SKIP LOCKED so concurrent workers never share a job
+    const { data, error } = await supabaseAdmin()
+      .rpc('claim_next_job', { job_types: types ?? null })
+
+    if (error) {
+      throw error
+    }
+
+    const [row] = (data || []) as JobRow[]
+    return row ? jobFromRow(row) : null
+  }
+
+  async completeJob(id: string, result: unknown): Promise<void> {
+    const now = new Date().toISOString()
+    const { error } = await supabaseAdmin()
+      .from('jobs')
+      .update({ status: 'succeeded', result, error: null, completed_at: now, updated_at: now })
+      .eq('id', id)
+
+    if (error) {
+      throw error
+    }
+  }
+
+  async failJob(id: string, message: string, retryAt: Date | null): Promise<void> {
+    const now = new Date().toISOString()
+    const { error } = await supabaseAdmin()
+      .from('jobs')
+      .update(retryAt
+        ? { status: 'queued', error: message, run_at: retryAt.toISOString(), updated_at: now }
+        : { status: 'failed', error: message, completed_at: now, updated_at: now })
+      .eq('id', id)
+
+    if (error) {
+      throw error
+    }
+  }
+}
+
+// One service-role client per process: the limiter runs before every shared-quota request
+let rateLimitClient: ReturnType<typeof supabaseAdmin> | null = null
+
+// Every process takes tokens from the same bucket row; service role only, like jobs
+export class SupabaseRateLimitProvider implements RateLimitProvider {
+  readonly name = 'supabase' as const
+
+  async reserveToken(key: string, ratePerSecond: number, capacity: number): Promise<number> {
+    rateLimitClient ??= supabaseAdmin()
+    const { data, error } = await rateLimitClient
+      .rpc('reserve_http_token', { bucket_key: key, rate_per_second: ratePerSecond, capacity })
+
+    if (error) {
+      throw error
+    }
+
+    return Math.max(0, Number(data) || 0) * 1000
+  }
+}
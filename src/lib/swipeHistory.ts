@@ -0,0 +1,222 @@
+/**
+ * Saved and skipped events (swipe history)
+ * Anonymous users keep their history in localStorage; signed-in users keep it in the
+ * Supabase `user_saved_events` table (RLS: users only see their own rows).
+ * On sign-in the local history is merged into the account and cleared locally.
+ * Swipes made offline (or that fail to save) are kept locally too and uploaded by
+ * syncLocalSwipes when the connection returns.
+ */
+
+import { requestSwipeSync } from './pwa'
+
+export type SwipeAction = 'saved' | 'skipped'
+
+export interface SwipeEntry {
+  eventId: string
+  action: SwipeAction
+  updatedAt: string
+}
+
+// Keyed by event id; the latest swipe on an event wins
+export type SwipeHistory = Record<string, SwipeEntry>
+
+const STORAGE_KEY = 'swipe-history'
+// Last history fetched from the account, for loading while offline
+const ACCOUNT_CACHE_KEY = 'swipe-history-account'
+
+interface SavedEventRow {
+  event_id: string
+  status: SwipeAction
+  updated_at: string
+}
+
+// Loaded lazily: the Supabase client throws at import time without credentials
+async function getSupabase() {
+  const { supabase } = await import('./supabase')
+  return supabase
+}
+
+export function getSavedEventIds(history: SwipeHistory): string[] {
+  return Object.values(history).filter(e => e.action === 'saved').map(e => e.eventId)
+}
+
+export function getSkippedEventIds(history: SwipeHistory): Set<string> {
+  return new Set(Object.values(history).filter(e => e.action === 'skipped').map(e => e.eventId))
+}
+
+// Every event the user has already swiped on, either way
+export function getSwipedEventIds(history: SwipeHistory): Set<string> {
+  return new Set(Object.keys(history))
+}
+
+/**
+ * Record a swipe (returns a new history object for React state)
+ */
+export function recordSwipe(history: SwipeHistory, entry: SwipeEntry): SwipeHistory {
+  return { ...history, [entry.eventId]: entry }
+}
+
+/**
+ * Combine two histories, keeping the most recent swipe per event
+ */
+export function mergeSwipeHistories(a: SwipeHistory, b: SwipeHistory): SwipeHistory {
+  const merged: SwipeHistory = { ...a }
+  Object.values(b).forEach(entry => {
+    const existing = merged[entry.eventId]
+    if (!existing || entry.updatedAt > existing.updatedAt) {
+      merged[entry.eventId] = entry
+    }
+  })
+  return merged
+}
+
+export function loadLocalSwipeHistory(): SwipeHistory {
+  if (typeof window === 'undefined') return {}
+
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? JSON.parse(raw) : {}
+  } catch (error) {
+    console.error('Error reading swipe history:', error)
+    return {}
+  }
+}
+
+function saveLocalSwipeHistory(history: SwipeHistory) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history))
+  } catch (error) {
+    console.error('Error saving swipe history:', error)
+  }
+}
+
+async function fetchRemoteSwipeHistory(userId: string): Promise<SwipeHistory> {
+  const supabase = await getSupabase()
+  const { data, error } = await supabase
+    .from('user_saved_events')
+    .select('event_id, status, updated_at')
+    .eq('user_id', userId)
+
+  if (error) {
+    throw error
+  }
+
+  const history: SwipeHistory = {}
+  ;((data || []) as SavedEventRow[]).forEach(row => {
+    history[row.event_id] = { eventId: row.event_id, action: row.status, updatedAt: row.updated_at }
+  })
+
+  try {
+    localStorage.setItem(ACCOUNT_CACHE_KEY, JSON.stringify({ userId, history }))
+  } catch (error) {
+    console.error('Error caching swipe history:', error)
+  }
+  return history
+}
+
+function loadCachedAccountHistory(userId: string): SwipeHistory {
+  try {
+    const raw = localStorage.getItem(ACCOUNT_CACHE_KEY)
+    const cached = raw ? JSON.parse(raw) as { userId: string; history: SwipeHistory } : null
+    return cached?.userId === userId ? cached.history : {}
+  } catch (error) {
+    console.error('Error reading cached swipe history:', error)
+    return {}
+  }
+}
+
+async function upsertRemoteSwipes(userId: string, entries: SwipeEntry[]) {
+  if (entries.length === 0) return
+
+  const supabase = await getSupabase()
+  const { error } = await supabase
+    .from('user_saved_events')
+    .upsert(entries.map(entry => ({
+      user_id: userId,
+      event_id: entry.eventId,
+      status: entry.action,
+      updated_at: entry.updatedAt
+    })), { onConflict: 'user_id,event_id' })
+
+  if (error) {
+    throw error
+  }
+}
+
+// Push local swipes that are newer than the account's, then hand them over to the account
+async function mergeLocalIntoAccount(userId: string, local: SwipeHistory, remote: SwipeHistory): Promise<number> {
+  const newer = Object.values(local).filter(entry => {
+    const existing = remote[entry.eventId]
+    return !existing || entry.updatedAt > existing.updatedAt
+  })
+  await upsertRemoteSwipes(userId, newer)
+  localStorage.removeItem(STORAGE_KEY)
+  return newer.length
+}
+
+/**
+ * Load the swipe history for the current user (or the anonymous local history)
+ * For a signed-in user, any local history is merged into the account first
+ */
+export async function loadSwipeHistory(userId: string | null): Promise<SwipeHistory> {
+  const local = loadLocalSwipeHistory()
+  if (!userId) return local
+
+  let remote: SwipeHistory
+  try {
+    remote = await fetchRemoteSwipeHistory(userId)
+  } catch (error) {
+    if (navigator.onLine) throw error
+
+    // The account's last known history plus swipes made since; merged once back online
+    console.log('📴 Using cached swipe history while offline')
+    return mergeSwipeHistories(loadCachedAccountHistory(userId), local)
+  }
+  if (Object.keys(local).length === 0) return remote
+
+  const merged = await mergeLocalIntoAccount(userId, local, remote)
+  console.log(`🔀 Merged ${merged} local swipes into account`)
+  return mergeSwipeHistories(remote, local)
+}
+
+/**
+ * Upload swipes kept locally while offline to the signed-in user's account
+ * @returns How many swipes were uploaded
+ */
+export async function syncLocalSwipes(userId: string): Promise<number> {
+  const local = loadLocalSwipeHistory()
+  if (Object.keys(local).length === 0) return 0
+
+  const merged = await mergeLocalIntoAccount(userId, local, await fetchRemoteSwipeHistory(userId))
+  console.log(`🔄 Synced ${merged} offline swipes to account`)
+  return merged
+}
+
+/**
+ * Persist one swipe for the current user (or locally when signed out)
+ * `history` is the full history after the swipe was recorded
+ */
+export async function persistSwipe(userId: string | null, entry: SwipeEntry, history: SwipeHistory) {
+  if (!userId) {
+    saveLocalSwipeHistory(history)
+    return
+  }
+
+  if (!navigator.onLine) {
+    queueLocalSwipe(entry)
+    return
+  }
+
+  try {
+    await upsertRemoteSwipes(userId, [entry])
+  } catch (error) {
+    console.error('Error saving swipe to account:', error)
+    queueLocalSwipe(entry)
+  }
+}
+
+// Keep the swipe locally until syncLocalSwipes (or the next load) merges it into the account
+function queueLocalSwipe(entry: SwipeEntry) {
+  saveLocalSwipeHistory(recordSwipe(loadLocalSwipeHistory(), entry))
+  requestSwipeSync()
+}
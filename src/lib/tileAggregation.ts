@@ -0,0 +1,175 @@
+/**
+ * Server-side viewport aggregation
+ * Same 3-tier rules as ClusteringSystemV2, so the map can render a viewport
+ * without downloading every event in the city:
+ *
+ * Zoom < 11: Popularity/heat clusters on a ~5km grid
+ * Zoom 11-14: ONE count per neighborhood (heat clusters if the city has no neighborhoods)
+ * Zoom 15+: Individual events
+ */
+
+import type { Event } from '@/types'
+import type { NeighborhoodCollection } from './neighborhoods'
+import { findNeighborhood, getNeighborhoodCentroids } from './neighborhoods'
+import { getPopularityLevel } from './popularity'
+import { getNextOccurrences } from './recurrence'
+
+export const NEIGHBORHOOD_MIN_ZOOM = 11
+export const INDIVIDUAL_MIN_ZOOM = 15
+
+// Grid cell size for heat clusters (matches ClusteringSystemV2)
+const HEAT_GRID_SIZE = 0.05 // degrees (~5km)
+
+// Upper bound on individual events per response; the most popular are kept
+export const MAX_TILE_EVENTS = 1000
+
+export type TileMode = 'heat' | 'neighborhood' | 'events'
+
+export interface HeatClusterSummary {
+  id: string
+  latitude: number
+  longitude: number
+  count: number
+  totalPopularity: number
+  avgPopularity: number
+  popularityLevel: ReturnType<typeof getPopularityLevel>
+  bounds: { north: number; south: number; east: number; west: number }
+}
+
+export interface NeighborhoodSummary {
+  name: string
+  latitude: number
+  longitude: number
+  count: number
+  avgPopularity: number
+}
+
+export type TileAggregation =
+  | { mode: 'heat'; count: number; clusters: HeatClusterSummary[] }
+  | { mode: 'neighborhood'; count: number; neighborhoods: NeighborhoodSummary[]; unassigned: number }
+  | { mode: 'events'; count: number; events: Event[]; truncated: boolean }
+
+/**
+ * Which tier a zoom level renders with
+ */
+export function getTileMode(zoom: number, hasNeighborhoods: boolean): TileMode {
+  if (zoom >= INDIVIDUAL_MIN_ZOOM) return 'events'
+  if (zoom >= NEIGHBORHOOD_MIN_ZOOM && hasNeighborhoods) return 'neighborhood'
+  return 'heat'
+}
+
+function averagePopularity(events: Event[]): number {
+  if (events.length === 0) return 0
+  return Math.round(events.reduce((sum, e) => sum + (e.popularity ?? 0), 0) / events.length)
+}
+
+/**
+ * Grid-based heat clusters
+ */
+export function aggregateHeatClusters(events: Event[]): HeatClusterSummary[] {
+  const cells = new Map<string, Event[]>()
+
+  events.forEach(event => {
+    const gridX = Math.floor(event.longitude / HEAT_GRID_SIZE)
+    const gridY = Math.floor(event.latitude / HEAT_GRID_SIZE)
+    const key = `${gridX},${gridY}`
+
+    if (!cells.has(key)) {
+      cells.set(key, [])
+    }
+    cells.get(key)!.push(event)
+  })
+
+  return Array.from(cells.entries()).map(([key, cellEvents]) => {
+    const totalPopularity = cellEvents.reduce((sum, e) => sum + (e.popularity ?? 0), 0)
+    const avgPopularity = Math.round(totalPopularity / cellEvents.length)
+
+    return {
+      id: `heat-${key}`,
+      latitude: cellEvents.reduce((sum, e) => sum + e.latitude, 0) / cellEvents.length,
+      longitude: cellEvents.reduce((sum, e) => sum + e.longitude, 0) / cellEvents.length,
+      count: cellEvents.length,
+      totalPopularity,
+      avgPopularity,
+      popularityLevel: getPopularityLevel(avgPopularity),
+      bounds: {
+        north: Math.max(...cellEvents.map(e => e.latitude)),
+        south: Math.min(...cellEvents.map(e => e.latitude)),
+        east: Math.max(...cellEvents.map(e => e.longitude)),
+        west: Math.min(...cellEvents.map(e => e.longitude))
+      }
+    }
+  })
+}
+
+/**
+ * Event counts per neighborhood, positioned at the neighborhood centroid
+ */
+export function aggregateNeighborhoods(
+  events: Event[],
+  neighborhoods: NeighborhoodCollection
+): { neighborhoods: NeighborhoodSummary[]; unassigned: number } {
+  const groups = new Map<string, Event[]>()
+  let unassigned = 0
+
+  events.forEach(event => {
+    const neighborhood = findNeighborhood(event.longitude, event.latitude, neighborhoods)
+    if (!neighborhood?.properties.name) {
+      unassigned++
+      return
+    }
+
+    const name = neighborhood.properties.name.trim()
+    if (!groups.has(name)) {
+      groups.set(name, [])
+    }
+    groups.get(name)!.push(event)
+  })
+
+  const centroidMap = new Map(
+    getNeighborhoodCentroids(neighborhoods).map(c => [c.name.trim(), { lat: c.lat, lng: c.lng }])
+  )
+
+  const summaries = Array.from(groups.entries()).map(([name, groupEvents]) => {
+    const centroid = centroidMap.get(name)
+    return {
+      name,
+      latitude: centroid?.lat ?? groupEvents.reduce((sum, e) => sum + e.latitude, 0) / groupEvents.length,
+      longitude: centroid?.lng ?? groupEvents.reduce((sum, e) => sum + e.longitude, 0) / groupEvents.length,
+      count: groupEvents.length,
+      avgPopularity: averagePopularity(groupEvents)
+    }
+  })
+
+  return { neighborhoods: summaries, unassigned }
+}
+
+/**
+ * Aggregate the events in a viewport for a zoom level
+ */
+export function aggregateTile(
+  events: Event[],
+  zoom: number,
+  neighborhoods: NeighborhoodCollection | null
+): TileAggregation {
+  const mode = getTileMode(zoom, neighborhoods !== null)
+
+  // Like the client map, a recurring series counts once at its next occurrence
+  const visible = getNextOccurrences(events)
+
+  if (mode === 'events') {
+    const sorted = [...visible].sort((a, b) => (b.popularity ?? 0) - (a.popularity ?? 0))
+    return {
+      mode,
+      count: visible.length,
+      events: sorted.slice(0, MAX_TILE_EVENTS),
+      truncated: sorted.length > MAX_TILE_EVENTS
+    }
+  }
+
+  if (mode === 'neighborhood' && neighborhoods) {
+    return { mode, count: visible.length, ...aggregateNeighborhoods(visible, neighborhoods) }
+  }
+
+  return { mode: 'heat', count: visible.length, clusters: aggregateHeatClusters(visible) }
+}
@@ -0,0 +1,83 @@
+/**
+ * Timezone helpers built on Intl (no timezone database dependency)
+ * Used to evaluate recurrence rules and write calendar files in a city's local time
+ */
+
+export interface LocalDateTime {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+// Formatters are expensive to create, keep one per timezone
+const formatterCache: Map<string, Intl.DateTimeFormat> = new Map()
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+export function getLocalDateTime(date: Date, timeZone: string): LocalDateTime {
+  if (!formatterCache.has(timeZone)) {
+    formatterCache.set(timeZone, new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23'
+    }))
+  }
+  const parts = formatterCache.get(timeZone)!.formatToParts(date)
+
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10)
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  }
+}
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC timestamp
+ */
+export function zonedTimeToUtc(local: LocalDateTime, timeZone: string): number {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second)
+
+  // Offset at the guess, then re-check in case the guess landed across a DST change
+  const guess = asUtc + (asUtc - wallClockAsUtc(new Date(asUtc), timeZone))
+  return asUtc + (guess - wallClockAsUtc(new Date(guess), timeZone))
+}
+
+function wallClockAsUtc(date: Date, timeZone: string): number {
+  const l = getLocalDateTime(date, timeZone)
+  return Date.UTC(l.year, l.month - 1, l.day, l.hour, l.minute, l.second)
+}
+
+/**
+ * UTC offset of a timezone at an instant, in minutes (e.g. -300 for CDT)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  // Wall-clock fields have whole seconds, so drop milliseconds before comparing
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000
+  return Math.round((wallClockAsUtc(date, timeZone) - wholeSeconds) / 60000)
+}
+
+/**
+ * Is this a timezone the runtime knows about?
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,357 @@
+/**
+ * GTFS static transit: nearest stops, next departures and transit travel estimates
+ * Feeds are compiled per city by scripts/ingest-gtfs.ts into data/gtfs/<city slug>.json
+ * (or the Supabase `transit_feeds` table) and loaded once per city.
+ */
+
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { getDataProviderName } from './dataProviders'
+import { getDistanceKm } from './geoUtils'
+import { getLocalDateTime, zonedTimeToUtc } from './timeZones'
+import { estimateRoute, type LatLng, type TransitProvider, type TravelEstimate } from './travel'
+
+const GTFS_DIR = path.join(process.cwd(), 'data', 'gtfs')
+
+// Furthest we'd ask someone to walk to or from a stop
+const MAX_WALK_KM = 1.2
+
+// How far ahead to look for departures
+const SCHEDULE_WINDOW_HOURS = 3
+
+// Used when the schedule has no direct trip: average in-vehicle speed (including dwell at stops),
+// route length over a straight line, and wait for a vehicle
+const TRANSIT_SPEED_KMH = 22
+const TRANSIT_DETOUR_FACTOR = 1.2
+const AVERAGE_WAIT_MINUTES = 6
+
+export interface TransitStop {
+  id: string
+  name: string
+  lat: number
+  lng: number
+}
+
+export interface TransitRoute {
+  id: string
+  shortName: string
+  longName: string
+  type: number // GTFS route_type
+  color?: string
+}
+
+export interface TransitTrip {
+  route: number // Index into routes
+  serviceId: string
+  headsign?: string
+}
+
+export interface TransitService {
+  days: string // Monday..Sunday as 0/1, e.g. "1111100"
+  start: string // YYYYMMDD
+  end: string
+  added: string[] // calendar_dates exceptions
+  removed: string[]
+}
+
+// [seconds after service-day midnight, trip index, stop sequence]
+export type TransitDeparture = [number, number, number]
+
+export interface TransitFeed {
+  citySlug: string
+  agency?: string
+  timezone: string // Agency timezone; stop times are wall-clock times in it
+  ingestedAt: string
+  stops: TransitStop[]
+  routes: TransitRoute[]
+  trips: TransitTrip[]
+  services: Record<string, TransitService>
+  departures: Record<string, TransitDeparture[]> // By stop id, sorted by time
+}
+
+export interface NearbyStop {
+  stop: TransitStop
+  distanceKm: number
+  walkMinutes: number
+}
+
+export interface NextDeparture {
+  routeId: string
+  routeName: string
+  vehicle: string // "train", "bus", ...
+  headsign?: string
+  color?: string
+  departsAt: string // ISO timestamp
+}
+
+interface ScheduledDeparture {
+  time: number // Epoch ms
+  seconds: number
+  trip: number
+  sequence: number
+}
+
+// Feeds per city slug (null when the city has no feed)
+const feedCache: Map<string, TransitFeed | null> = new Map()
+
+async function loadFeedFromSupabase(citySlug: string): Promise<TransitFeed | null> {
+  const { supabase } = await import('./supabase')
+  const { data, error } = await supabase
+    .from('transit_feeds')
+    .select('feed')
+    .eq('city_slug', citySlug)
+    .maybeSingle()
+
+  if (error) {
+    console.warn(`⚠️ Could not load transit feed for ${citySlug}:`, error.message)
+    return null
+  }
+  return (data?.feed as TransitFeed) || null
+}
+
+/**
+ * Load a city's compiled feed from data/gtfs, falling back to Supabase (null if the city has none)
+ */
+export async function loadTransitFeed(citySlug: string): Promise<TransitFeed | null> {
+  if (feedCache.has(citySlug)) {
+    return feedCache.get(citySlug)!
+  }
+
+  // Slugs come from request input - never let them escape the data directory
+  if (!/^[a-z0-9-]+$/.test(citySlug)) {
+    return null
+  }
+
+  let feed: TransitFeed | null = null
+  try {
+    const raw = await readFile(path.join(GTFS_DIR, `${citySlug}.json`), 'utf-8')
+    feed = JSON.parse(raw)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error
+    }
+    if (getDataProviderName() === 'supabase') {
+      feed = await loadFeedFromSupabase(citySlug)
+    }
+  }
+
+  if (feed) {
+    console.log(`🚏 Loaded transit feed for ${citySlug} (${feed.stops.length} stops)`)
+  }
+  feedCache.set(citySlug, feed)
+  return feed
+}
+
+/**
+ * Stops within walking distance of a point, nearest first
+ */
+export function findNearestStops(
+  feed: TransitFeed,
+  point: LatLng,
+  { limit = 3, maxDistanceKm = MAX_WALK_KM }: { limit?: number; maxDistanceKm?: number } = {}
+): NearbyStop[] {
+  return feed.stops
+    .map(stop => ({ stop, distanceKm: getDistanceKm(point.lat, point.lng, stop.lat, stop.lng) }))
+    .filter(({ distanceKm }) => distanceKm <= maxDistanceKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, limit)
+    .map(({ stop }) => {
+      const walk = estimateRoute('walk', point, stop)
+      return {
+        stop,
+        distanceKm: Math.round(walk.distanceKm * 100) / 100,
+        walkMinutes: Math.max(1, Math.round(walk.durationMinutes))
+      }
+    })
+}
+
+/**
+ * Rider-facing vehicle name for a GTFS route_type (basic or extended)
+ */
+export function getVehicleName(routeType: number): string {
+  switch (routeType) {
+    case 0: return 'streetcar'
+    case 1:
+    case 2:
+    case 12: return 'train'
+    case 3:
+    case 11: return 'bus'
+    case 4: return 'ferry'
+    case 5: return 'cable car'
+    case 6: return 'gondola'
+    case 7: return 'funicular'
+  }
+  if (routeType >= 700 && routeType < 900) return 'bus'
+  if (routeType >= 900 && routeType < 1000) return 'streetcar'
+  if (routeType >= 1000 && routeType < 1300) return 'ferry'
+  return 'train'
+}
+
+function getRouteName(route: TransitRoute): string {
+  return route.shortName || route.longName || route.id
+}
+
+function isServiceActive(service: TransitService | undefined, date: string, weekday: number): boolean {
+  if (!service) return false
+  if (service.removed.includes(date)) return false
+  if (service.added.includes(date)) return true
+  return service.days[weekday] === '1' && date >= service.start && date <= service.end
+}
+
+/**
+ * Departures from a stop between two instants, across service days
+ * (GTFS times past 24:00 belong to the previous day's service)
+ */
+function getScheduledDepartures(feed: TransitFeed, stopId: string, after: Date, until: Date): ScheduledDeparture[] {
+  const stopDepartures = feed.departures[stopId]
+  if (!stopDepartures) return []
+
+  const local = getLocalDateTime(after, feed.timezone)
+  const results: ScheduledDeparture[] = []
+
+  for (const offset of [-1, 0, 1]) {
+    const day = new Date(Date.UTC(local.year, local.month - 1, local.day + offset))
+    const year = day.getUTCFullYear()
+    const month = day.getUTCMonth() + 1
+    const date = day.getUTCDate()
+    const dateKey = `${year}${String(month).padStart(2, '0')}${String(date).padStart(2, '0')}`
+    const weekday = (day.getUTCDay() + 6) % 7 // Monday = 0
+    const midnight = zonedTimeToUtc({ year, month, day: date, hour: 0, minute: 0, second: 0 }, feed.timezone)
+
+    const activeServices: Map<string, boolean> = new Map()
+    for (const [seconds, trip, sequence] of stopDepartures) {
+      const time = midnight + seconds * 1000
+      if (time < after.getTime()) continue
+      if (time > until.getTime()) break
+
+      const serviceId = feed.trips[trip].serviceId
+      if (!activeServices.has(serviceId)) {
+        activeServices.set(serviceId, isServiceActive(feed.services[serviceId], dateKey, weekday))
+      }
+      if (activeServices.get(serviceId)) {
+        results.push({ time, seconds, trip, sequence })
+      }
+    }
+  }
+
+  return results.sort((a, b) => a.time - b.time)
+}
+
+/**
+ * Next departures from a stop after an instant
+ */
+export function getNextDepartures(feed: TransitFeed, stopId: string, after: Date, limit = 3): NextDeparture[] {
+  const until = new Date(after.getTime() + SCHEDULE_WINDOW_HOURS * 3600 * 1000)
+
+  return getScheduledDepartures(feed, stopId, after, until)
+    .slice(0, limit)
+    .map(departure => {
+      const trip = feed.trips[departure.trip]
+      const route = feed.routes[trip.route]
+      return {
+        routeId: route.id,
+        routeName: getRouteName(route),
+        vehicle: getVehicleName(route.type),
+        headsign: trip.headsign,
+        color: route.color,
+        departsAt: new Date(departure.time).toISOString()
+      }
+    })
+}
+
+export class GtfsTransitProvider implements TransitProvider {
+  readonly name = 'gtfs'
+
+  async estimateTransit(citySlug: string, from: LatLng, to: LatLng, departAt: Date): Promise<TravelEstimate | null> {
+    const feed = await loadTransitFeed(citySlug)
+    if (!feed) return null
+
+    const boardStops = findNearestStops(feed, from)
+    const alightStops = findNearestStops(feed, to)
+    if (boardStops.length === 0 || alightStops.length === 0) return null
+    if (boardStops[0].stop.id === alightStops[0].stop.id) return null
+
+    return this.estimateFromSchedule(feed, boardStops, alightStops, departAt)
+      || this.estimateFromDistance(boardStops[0], alightStops[0])
+  }
+
+  /**
+   * Earliest arrival on a direct trip between any of the nearby stop pairs
+   */
+  private estimateFromSchedule(
+    feed: TransitFeed,
+    boardStops: NearbyStop[],
+    alightStops: NearbyStop[],
+    departAt: Date
+  ): TravelEstimate | null {
+    const until = new Date(departAt.getTime() + SCHEDULE_WINDOW_HOURS * 3600 * 1000)
+    let best: { arriveAt: number; board: NearbyStop; alight: NearbyStop; departsAt: number; trip: number } | null = null
+
+    // Where each trip calls at each destination stop: trip -> [seconds, sequence][]
+    const alightCalls = alightStops.map(alight => {
+      const calls: Map<number, Array<[number, number]>> = new Map()
+      for (const [seconds, trip, sequence] of feed.departures[alight.stop.id] || []) {
+        if (!calls.has(trip)) calls.set(trip, [])
+        calls.get(trip)!.push([seconds, sequence])
+      }
+      return calls
+    })
+
+    for (const board of boardStops) {
+      const readyAt = new Date(departAt.getTime() + board.walkMinutes * 60000)
+      const departures = getScheduledDepartures(feed, board.stop.id, readyAt, until)
+
+      for (let i = 0; i < alightStops.length; i++) {
+        const alight = alightStops[i]
+        if (alight.stop.id === board.stop.id) continue
+
+        // Departures are in time order, so the first trip that reaches this stop is the one to take
+        for (const departure of departures) {
+          const call = alightCalls[i].get(departure.trip)?.find(([, sequence]) => sequence > departure.sequence)
+          if (!call) continue
+
+          const arriveAt = departure.time + (call[0] - departure.seconds) * 1000 + alight.walkMinutes * 60000
+          if (!best || arriveAt < best.arriveAt) {
+            best = { arriveAt, board, alight, departsAt: departure.time, trip: departure.trip }
+          }
+          break
+        }
+      }
+    }
+
+    if (!best) return null
+    const { arriveAt, board, alight, departsAt, trip } = best
+
+    const route = feed.routes[feed.trips[trip].route]
+    const time = new Date(departsAt).toLocaleTimeString('en-US', { timeZone: feed.timezone, hour: 'numeric', minute: '2-digit' })
+    const rideKm = getDistanceKm(board.stop.lat, board.stop.lng, alight.stop.lat, alight.stop.lng) * TRANSIT_DETOUR_FACTOR
+
+    return {
+      mode: 'transit',
+      durationMinutes: Math.round((arriveAt - departAt.getTime()) / 60000),
+      distanceKm: Math.round((board.distanceKm + rideKm + alight.distanceKm) * 10) / 10,
+      source: 'gtfs',
+      details: `${getRouteName(route)} at ${time} · ${board.stop.name} → ${alight.stop.name}`
+    }
+  }
+
+  /**
+   * No direct trip in the window: estimate the ride from the distance between the nearest stops
+   */
+  private estimateFromDistance(board: NearbyStop, alight: NearbyStop): TravelEstimate {
+    const rideKm = getDistanceKm(board.stop.lat, board.stop.lng, alight.stop.lat, alight.stop.lng) * TRANSIT_DETOUR_FACTOR
+    const rideMinutes = (rideKm / TRANSIT_SPEED_KMH) * 60
+
+    return {
+      mode: 'transit',
+      durationMinutes: Math.round(board.walkMinutes + AVERAGE_WAIT_MINUTES + rideMinutes + alight.walkMinutes),
+      distanceKm: Math.round((board.distanceKm + rideKm + alight.distanceKm) * 10) / 10,
+      source: 'estimate',
+      details: `${board.stop.name} → ${alight.stop.name}`
+    }
+  }
+}
+
+export function getTransitProvider(): TransitProvider {
+  return new GtfsTransitProvider()
+}
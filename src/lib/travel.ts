@@ -0,0 +1,85 @@
+/**
+ * Travel time estimates
+ * Walk, bike and drive times come from street-network routing: an OSRM-compatible server
+ * when OSRM_URL is set, otherwise straight-line distance scaled by a per-mode detour factor.
+ * Transit times come from a pluggable TransitProvider (GTFS static feeds, see transit.ts).
+ * Routing requests live in travelServer.ts; this module is shared with the browser.
+ */
+
+import { getDistanceKm } from './geoUtils'
+
+export type TravelMode = 'walk' | 'bike' | 'drive' | 'transit'
+export type StreetMode = Exclude<TravelMode, 'transit'>
+
+export const TRAVEL_MODES: TravelMode[] = ['walk', 'bike', 'drive', 'transit']
+
+export interface LatLng {
+  lat: number
+  lng: number
+}
+
+export interface TravelEstimate {
+  mode: TravelMode
+  durationMinutes: number
+  distanceKm: number
+  source: 'osrm' | 'estimate' | 'gtfs'
+  details?: string // e.g. "16th St Mission → Powell St"
+}
+
+export interface RouteResult {
+  distanceKm: number
+  durationMinutes: number
+}
+
+export interface TransitProvider {
+  readonly name: string
+  // null when the city has no feed or no stops are within walking distance
+  estimateTransit(citySlug: string, from: LatLng, to: LatLng, departAt: Date): Promise<TravelEstimate | null>
+}
+
+// Typical urban speeds (km/h) and how much longer street routes are than a straight line
+const MODE_SPEEDS_KMH: Record<StreetMode, number> = {
+  walk: 4.8,
+  bike: 15,
+  drive: 28
+}
+
+const DETOUR_FACTORS: Record<StreetMode, number> = {
+  walk: 1.25,
+  bike: 1.3,
+  drive: 1.4
+}
+
+/**
+ * Straight-line distance with a detour factor - works everywhere, no network needed
+ */
+export function estimateRoute(mode: StreetMode, from: LatLng, to: LatLng): RouteResult {
+  const distanceKm = getDistanceKm(from.lat, from.lng, to.lat, to.lng) * DETOUR_FACTORS[mode]
+  const durationMinutes = (distanceKm / MODE_SPEEDS_KMH[mode]) * 60
+  return { distanceKm, durationMinutes }
+}
+
+/**
+ * Parse "lat,lng"
+ */
+export function parseLatLng(value: string | null): LatLng | null {
+  if (!value) return null
+
+  const [lat, lng] = value.split(',').map(Number)
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null
+
+  return { lat, lng }
+}
+
+/**
+ * Parse a comma-separated mode list; returns null if any mode is unknown
+ */
+export function parseTravelModes(value: string | null): TravelMode[] | null {
+  if (!value) return TRAVEL_MODES
+
+  const modes = value.split(',').map(mode => mode.trim()).filter(Boolean)
+  if (modes.length === 0 || !modes.every(mode => TRAVEL_MODES.includes(mode as TravelMode))) return null
+
+  return Array.from(new Set(modes)) as TravelMode[]
+}
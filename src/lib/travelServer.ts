@@ -0,0 +1,110 @@
+/**
+ * Server-side travel estimates
+ * Street routing through OSRM (with the distance estimate as a fallback) and the combined
+ * per-mode estimates behind /api/travel.
+ */
+
+import 'server-only'
+import { httpFetch } from './httpClient'
+import {
+  estimateRoute,
+  type LatLng,
+  type RouteResult,
+  type StreetMode,
+  type TransitProvider,
+  type TravelEstimate,
+  type TravelMode
+} from './travel'
+
+// Time to find parking at the destination
+const DRIVE_PARKING_MINUTES = 5
+
+// OSRM profile names per mode (one osrm-routed instance usually serves one profile)
+const OSRM_PROFILES: Record<StreetMode, string> = {
+  walk: 'foot',
+  bike: 'bike',
+  drive: 'car'
+}
+
+const OSRM_TIMEOUT_MS = 3000
+
+/**
+ * Route through an OSRM-compatible server
+ * OSRM_URL may contain `{profile}` to address one server per mode,
+ * e.g. http://localhost:5000 or http://routing.local/{profile}
+ */
+async function fetchOsrmRoute(baseUrl: string, mode: StreetMode, from: LatLng, to: LatLng): Promise<RouteResult> {
+  const profile = OSRM_PROFILES[mode]
+  const base = baseUrl.replace(/\/$/, '').replace('{profile}', profile)
+  const url = `${base}/route/v1/${profile}/${from.lng},${from.lat};${to.lng},${to.lat}?overview=false`
+
+  const response = await httpFetch('osrm', url, { timeoutMs: OSRM_TIMEOUT_MS })
+  if (!response.ok) {
+    throw new Error(`OSRM error: ${response.status} ${response.statusText}`)
+  }
+
+  const data: { code: string; routes?: Array<{ distance: number; duration: number }> } = await response.json()
+  const route = data.routes?.[0]
+  if (data.code !== 'Ok' || !route) {
+    throw new Error(`OSRM returned ${data.code}`)
+  }
+
+  return {
+    distanceKm: route.distance / 1000,
+    durationMinutes: route.duration / 60
+  }
+}
+
+/**
+ * Walk, bike or drive estimate, preferring the routing server and falling back to the estimate
+ */
+export async function getStreetTravelEstimate(mode: StreetMode, from: LatLng, to: LatLng): Promise<TravelEstimate> {
+  const osrmUrl = process.env.OSRM_URL
+  let route: RouteResult | null = null
+  let source: TravelEstimate['source'] = 'estimate'
+
+  if (osrmUrl) {
+    try {
+      route = await fetchOsrmRoute(osrmUrl, mode, from, to)
+      source = 'osrm'
+    } catch (error) {
+      console.warn(`⚠️ Routing failed for ${mode}, using distance estimate:`, (error as Error).message)
+    }
+  }
+
+  if (!route) {
+    route = estimateRoute(mode, from, to)
+  }
+
+  const durationMinutes = mode === 'drive' ? route.durationMinutes + DRIVE_PARKING_MINUTES : route.durationMinutes
+
+  return {
+    mode,
+    durationMinutes: Math.max(1, Math.round(durationMinutes)),
+    distanceKm: Math.round(route.distanceKm * 10) / 10,
+    source
+  }
+}
+
+/**
+ * Estimates for the requested modes, fastest first
+ * Modes that can't be estimated (e.g. transit in a city without a feed) are left out
+ */
+export async function getTravelEstimates(
+  citySlug: string,
+  from: LatLng,
+  to: LatLng,
+  modes: TravelMode[],
+  transitProvider: TransitProvider,
+  departAt: Date = new Date()
+): Promise<TravelEstimate[]> {
+  const estimates = await Promise.all(modes.map(mode =>
+    mode === 'transit'
+      ? transitProvider.estimateTransit(citySlug, from, to, departAt)
+      : getStreetTravelEstimate(mode, from, to)
+  ))
+
+  return estimates
+    .filter((estimate): estimate is TravelEstimate => estimate !== null)
+    .sort((a, b) => a.durationMinutes - b.durationMinutes)
+}
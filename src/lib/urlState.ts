@@ -0,0 +1,138 @@
+/**
+ * Shareable URL state
+ * The city, map view, clustering/visualization modes, search, filters and selected event
+ * are mirrored to the query string, e.g. `/?city=austin&map=30.2672,-97.7431,13&categories=music&event=atx-gen-42`
+ *
+ * Discrete changes push a history entry (so back/forward step through them);
+ * map moves and search typing replace the current one.
+ */
+
+import type { ClusteringMode, EventFilterSpec } from '@/types'
+import type { VisualizationMode } from '@/components/VisualizationModeSwitcher'
+import { parseFilterParams, toFilterParams } from './eventFilters'
+
+export interface MapView {
+  lat: number
+  lng: number
+  zoom: number
+}
+
+export interface UrlState {
+  city?: string // City slug
+  map?: MapView
+  clustering?: ClusteringMode
+  view?: VisualizationMode
+  query?: string
+  filters?: EventFilterSpec // Without `query`, which is kept separately
+  event?: string // Selected event (or series) id
+}
+
+// Values left out of the URL
+export const DEFAULT_CLUSTERING_MODE: ClusteringMode = 'hybrid'
+export const DEFAULT_VISUALIZATION_MODE: VisualizationMode = 'markers'
+
+const CLUSTERING_MODES: ClusteringMode[] = ['native', 'hybrid', 'geographic', 'category', 'dynamic']
+const VISUALIZATION_MODES: VisualizationMode[] = ['markers', 'density', 'foottraffic']
+
+// Keys owned by the app itself; everything else is a filter parameter
+const STATE_KEYS = ['city', 'map', 'clustering', 'view', 'event']
+
+function parseMapView(value: string | null): MapView | undefined {
+  if (!value) return undefined
+
+  const [lat, lng, zoom] = value.split(',').map(Number)
+  if (![lat, lng, zoom].every(Number.isFinite)) return undefined
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180 || zoom < 0 || zoom > 24) return undefined
+
+  return { lat, lng, zoom }
+}
+
+export function formatMapView(view: MapView): string {
+  return `${view.lat.toFixed(5)},${view.lng.toFixed(5)},${view.zoom.toFixed(2)}`
+}
+
+/**
+ * Parse a query string; invalid values are ignored rather than rejected
+ */
+export function parseUrlState(search: string): UrlState {
+  const params = new URLSearchParams(search)
+  const state: UrlState = {}
+
+  const city = params.get('city')
+  if (city) state.city = city
+
+  const map = parseMapView(params.get('map'))
+  if (map) state.map = map
+
+  const clustering = params.get('clustering') as ClusteringMode | null
+  if (clustering && CLUSTERING_MODES.includes(clustering)) state.clustering = clustering
+
+  const view = params.get('view') as VisualizationMode | null
+  if (view && VISUALIZATION_MODES.includes(view)) state.view = view
+
+  const event = params.get('event')
+  if (event) state.event = event
+
+  STATE_KEYS.forEach(key => params.delete(key))
+  const filterResult = parseFilterParams(params)
+  if (filterResult.error === undefined) {
+    const { query, ...filters } = filterResult.spec
+    if (query) state.query = query
+    if (Object.keys(filters).length > 0) state.filters = filters
+  }
+
+  return state
+}
+
+/**
+ * Canonical query string (with leading `?`, or '' when there's nothing to share)
+ */
+export function buildUrlSearch(state: UrlState): string {
+  const params = new URLSearchParams()
+
+  if (state.city) params.set('city', state.city)
+  if (state.map) params.set('map', formatMapView(state.map))
+  if (state.clustering && state.clustering !== DEFAULT_CLUSTERING_MODE) params.set('clustering', state.clustering)
+  if (state.view && state.view !== DEFAULT_VISUALIZATION_MODE) params.set('view', state.view)
+
+  toFilterParams({ ...state.filters, query: state.query }).forEach((value, key) => params.set(key, value))
+
+  if (state.event) params.set('event', state.event)
+
+  // Commas are safe in a query string and keep lists and the map view readable
+  const search = params.toString().replace(/%2C/g, ',')
+  return search ? `?${search}` : ''
+}
+
+export function readUrlState(): UrlState {
+  return typeof window === 'undefined' ? {} : parseUrlState(window.location.search)
+}
+
+/**
+ * Write the app state to the URL, keeping the current map view
+ * Pushes a history entry unless `replace` is set or only the search query changed
+ */
+export function writeUrlState(state: Omit<UrlState, 'map'>, { replace = false }: { replace?: boolean } = {}) {
+  const current = readUrlState()
+  const search = buildUrlSearch({ ...state, map: current.map })
+  if (search === window.location.search) return
+
+  const onlyQueryChanged = buildUrlSearch({ ...current, query: state.query }) === search
+  const url = `${window.location.pathname}${search}${window.location.hash}`
+
+  if (replace || onlyQueryChanged) {
+    window.history.replaceState(null, '', url)
+  } else {
+    window.history.pushState(null, '', url)
+  }
+}
+
+/**
+ * Record the map position in the current history entry
+ */
+export function writeUrlMapView(view: MapView) {
+  const search = buildUrlSearch({ ...readUrlState(), map: view })
+  if (search === window.location.search) return
+
+  window.history.replaceState(null, '', `${window.location.pathname}${search}${window.location.hash}`)
+}
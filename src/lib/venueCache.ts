@@ -0,0 +1,101 @@
+/**
+ * Venue cache freshness
+ * Each venue caches three kinds of data with their own TTLs: metadata from discovery
+ * (`last_queried_at`), BestTime forecasts (`forecast_updated_at`) and photos (`photo_updated_at`).
+ * Routes serve stale data immediately and queue a refresh (stale-while-revalidate), and report
+ * freshness with Cache-Status / Age / Last-Modified headers so the UI can say "updated 3h ago".
+ */
+
+import type { VenueRecord } from './dataProviders'
+
+export type VenueDataKind = 'metadata' | 'forecast' | 'photo'
+
+export const VENUE_CACHE_TTL_MS: Record<VenueDataKind, number> = {
+  metadata: 7 * 24 * 60 * 60 * 1000, // Venues rarely open, close or move
+  forecast: 24 * 60 * 60 * 1000, // Busyness forecasts drift day to day
+  photo: 30 * 24 * 60 * 60 * 1000
+}
+
+export type VenueCacheState = 'fresh' | 'stale' | 'missing'
+
+export interface VenueCacheSummary {
+  kind: VenueDataKind
+  status: 'fresh' | 'stale' | 'miss' // miss: no venues cached at all
+  updatedAt: string | null // Oldest refresh among the venues - how out of date the data can be
+  expiresAt: string | null
+  staleVenues: VenueRecord[] // Stale or never fetched, oldest first
+}
+
+function getUpdatedAt(venue: VenueRecord, kind: VenueDataKind): string | null {
+  switch (kind) {
+    case 'metadata':
+      return venue.last_queried_at
+    case 'forecast':
+      return venue.forecast_updated_at ?? null
+    case 'photo':
+      return venue.photo_updated_at ?? null
+  }
+}
+
+export function getVenueCacheState(venue: VenueRecord, kind: VenueDataKind, now: Date = new Date()): VenueCacheState {
+  const updatedAt = getUpdatedAt(venue, kind)
+  if (!updatedAt) return 'missing'
+  return now.getTime() - new Date(updatedAt).getTime() < VENUE_CACHE_TTL_MS[kind] ? 'fresh' : 'stale'
+}
+
+/**
+ * Freshness of one kind of data across a city's venues
+ */
+export function summarizeVenueCache(
+  venues: VenueRecord[],
+  kind: VenueDataKind,
+  now: Date = new Date()
+): VenueCacheSummary {
+  const staleVenues = venues
+    .filter(venue => getVenueCacheState(venue, kind, now) !== 'fresh')
+    .sort((a, b) => (getUpdatedAt(a, kind) || '').localeCompare(getUpdatedAt(b, kind) || ''))
+
+  const timestamps = venues
+    .map(venue => getUpdatedAt(venue, kind))
+    .filter((value): value is string => value !== null)
+    .sort()
+  const updatedAt = timestamps[0] ?? null
+
+  return {
+    kind,
+    status: venues.length === 0 ? 'miss' : staleVenues.length > 0 ? 'stale' : 'fresh',
+    updatedAt,
+    expiresAt: updatedAt ? new Date(new Date(updatedAt).getTime() + VENUE_CACHE_TTL_MS[kind]).toISOString() : null,
+    staleVenues
+  }
+}
+
+/**
+ * Cache-Status (RFC 9211), Age and Last-Modified for a venue response
+ * e.g. `Cache-Status: eppy-venues; hit; ttl=-3600; detail=forecast-stale` while a refresh runs
+ */
+export function getCacheStatusHeaders(summary: VenueCacheSummary, now: Date = new Date()): Record<string, string> {
+  if (summary.status === 'miss' || !summary.updatedAt || !summary.expiresAt) {
+    return { 'Cache-Status': `eppy-venues; fwd=miss; detail=${summary.kind}` }
+  }
+
+  const ttl = Math.round((new Date(summary.expiresAt).getTime() - now.getTime()) / 1000)
+  const age = Math.max(0, Math.round((now.getTime() - new Date(summary.updatedAt).getTime()) / 1000))
+
+  return {
+    'Cache-Status': `eppy-venues; hit; ttl=${ttl}; detail=${summary.kind}-${summary.status}`,
+    Age: String(age),
+    'Last-Modified': new Date(summary.updatedAt).toUTCString()
+  }
+}
+
+/**
+ * "updated just now", "updated 3h ago", "updated 2d ago"
+ */
+export function formatUpdatedAgo(updatedAt: string | Date, now: Date = new Date()): string {
+  const minutes = Math.floor((now.getTime() - new Date(updatedAt).getTime()) / 60000)
+  if (minutes < 1) return 'updated just now'
+  if (minutes < 60) return `updated ${minutes}m ago`
+  if (minutes < 48 * 60) return `updated ${Math.floor(minutes / 60)}h ago`
+  return `updated ${Math.floor(minutes / (24 * 60))}d ago`
+}
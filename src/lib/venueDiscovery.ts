@@ -0,0 +1,138 @@
+/**
+ * Per-neighborhood venue discovery
+ * Searches around each neighborhood centroid so every neighborhood gets venue coverage.
+ * Shared by the discover-neighborhood-venues job (src/lib/venueJobs.ts) and the city onboarding command.
+ */
+
+import type { BestTimeVenue } from './besttime'
+import type { VenueDiscoveryProvider, VenueUpsert } from './dataProviders'
+import { isPointInPolygon, type NeighborhoodCollection } from './neighborhoods'
+
+const NEIGHBORHOOD_RADIUS_M = 1000 // 1km radius per neighborhood
+const VENUES_PER_NEIGHBORHOOD = 30
+const REQUEST_DELAY_MS = 500 // Rate limiting between discovery requests
+
+export interface NeighborhoodDiscoveryResult {
+  venues: BestTimeVenue[] // Unique venues across all neighborhoods
+  total: number
+  successful: number
+  failed: number
+}
+
+/**
+ * Search for venues around each neighborhood centroid, deduplicating across neighborhoods
+ */
+export async function discoverNeighborhoodVenues(
+  discoveryProvider: VenueDiscoveryProvider,
+  centroids: Array<{ name: string; lat: number; lng: number }>
+): Promise<NeighborhoodDiscoveryResult> {
+  const allVenues: BestTimeVenue[] = []
+  const venueIds = new Set<string>() // Deduplicate
+
+  let successful = 0
+  let failed = 0
+
+  for (const [index, centroid] of centroids.entries()) {
+    try {
+      console.log(`🔍 [${index + 1}/${centroids.length}] Fetching venues for: ${centroid.name}`)
+
+      const venues = await discoveryProvider.searchVenues(
+        centroid.lat,
+        centroid.lng,
+        NEIGHBORHOOD_RADIUS_M,
+        VENUES_PER_NEIGHBORHOOD
+      )
+
+      let newVenuesCount = 0
+      for (const venue of venues) {
+        if (!venueIds.has(venue.venue_id)) {
+          venueIds.add(venue.venue_id)
+          allVenues.push(venue)
+          newVenuesCount++
+        }
+      }
+
+      console.log(`   ✅ ${centroid.name}: Found ${newVenuesCount} new venues (${venues.length} total)`)
+      successful++
+
+      if (index < centroids.length - 1) {
+        await new Promise(resolve => setTimeout(resolve, REQUEST_DELAY_MS))
+      }
+    } catch (error) {
+      console.error(`   ❌ ${centroid.name}: Failed to fetch venues:`, error)
+      failed++
+    }
+  }
+
+  console.log(`\n📊 Discovery complete:`)
+  console.log(`   Total neighborhoods: ${centroids.length}`)
+  console.log(`   Successful: ${successful}`)
+  console.log(`   Failed: ${failed}`)
+  console.log(`   Total unique venues: ${allVenues.length}`)
+
+  return { venues: allVenues, total: centroids.length, successful, failed }
+}
+
+/**
+ * Drop venues missing an id, name or coordinates
+ */
+export function filterValidVenues(venues: BestTimeVenue[]): BestTimeVenue[] {
+  return venues.filter(v => v.venue_id && v.venue_name && v.venue_lat && v.venue_lon)
+}
+
+/**
+ * Map discovered venues to venue store rows for a city
+ */
+export function toVenueUpserts(cityId: string, venues: BestTimeVenue[]): VenueUpsert[] {
+  const now = new Date().toISOString()
+  return venues.map(v => ({
+    city_id: cityId,
+    besttime_venue_id: v.venue_id,
+    name: v.venue_name,
+    address: v.venue_address || '',
+    lat: v.venue_lat,
+    lng: v.venue_lon,
+    venue_type: v.venue_type || 'UNKNOWN',
+    is_event_venue: true,
+    raw_data: v.day_raw || {},
+    last_queried_at: now
+  }))
+}
+
+export interface NeighborhoodCoverage {
+  name: string
+  venueCount: number
+}
+
+export interface CoverageReport {
+  neighborhoods: NeighborhoodCoverage[]
+  uncovered: NeighborhoodCoverage[] // Below the minimum venue count
+  outsideNeighborhoods: number // Venues that fall in no neighborhood polygon
+}
+
+/**
+ * Count venues inside each neighborhood polygon
+ */
+export function getNeighborhoodCoverage(
+  neighborhoods: NeighborhoodCollection,
+  venues: Array<{ lat: number; lng: number }>,
+  minVenues: number = 1
+): CoverageReport {
+  const counts = neighborhoods.features.map(feature => ({ name: feature.properties.name, venueCount: 0 }))
+  let outsideNeighborhoods = 0
+
+  for (const venue of venues) {
+    const index = neighborhoods.features.findIndex(feature => isPointInPolygon([venue.lng, venue.lat], feature))
+    if (index === -1) {
+      outsideNeighborhoods++
+    } else {
+      counts[index].venueCount++
+    }
+  }
+
+  return {
+    neighborhoods: counts,
+    uncovered: counts.filter(neighborhood => neighborhood.venueCount < minVenues),
+    outsideNeighborhoods
+  }
+}
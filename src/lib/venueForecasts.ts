@@ -0,0 +1,148 @@
+/**
+ * Venue busyness forecasts
+ * BestTime weekly forecasts normalized to one row per venue, weekday and hour (`venue_forecasts`).
+ * The single source for the foot-traffic heatmap, GET /api/venues/:id/busyness,
+ * GET /api/venues/busyness and `Event.busyness`.
+ *
+ * Weekdays start on Monday (0) like BestTime; hours are the venue's local time.
+ */
+
+import type { Event } from '@/types'
+import type { BestTimeRawData, VenueDataProvider, VenueForecastHour } from './dataProviders'
+import { addBusynessToPopularity } from './popularity'
+import { getLocalDateTime } from './timeZones'
+
+export const WEEKDAY_NAMES = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const
+
+export interface ForecastSlot {
+  weekday: number // 0-6, Monday first
+  hour: number // 0-23
+}
+
+/**
+ * Flatten a BestTime week analysis into forecast rows, skipping malformed hours
+ */
+export function toForecastHours(venueId: string, forecast: BestTimeRawData | null | undefined): VenueForecastHour[] {
+  if (!Array.isArray(forecast?.analysis)) return []
+
+  return forecast.analysis.slice(0, 7).flatMap((day, weekday) =>
+    (day?.hour_analysis || [])
+      .filter(h => Number.isInteger(h.hour) && h.hour >= 0 && h.hour <= 23 && typeof h.intensity_nr === 'number')
+      .map(h => ({
+        venueId,
+        weekday,
+        hour: h.hour,
+        intensity: Math.round(Math.min(100, Math.max(0, h.intensity_nr)))
+      }))
+  )
+}
+
+/**
+ * Weekday and hour of an instant in a timezone
+ */
+export function getForecastSlot(date: Date, timeZone: string): ForecastSlot {
+  const local = getLocalDateTime(date, timeZone)
+  const dayOfWeek = new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay() // 0 = Sunday
+
+  return { weekday: (dayOfWeek + 6) % 7, hour: local.hour }
+}
+
+/**
+ * Weekday from a query param: `mon`..`sun` (or full names) or 0-6 with Monday as 0
+ */
+export function parseWeekday(value: string): number | null {
+  const name = value.trim().toLowerCase()
+  if (/^[0-6]$/.test(name)) return parseInt(name, 10)
+
+  const index = WEEKDAY_NAMES.findIndex(day => name.length >= 3 && day === name.slice(0, 3))
+  return index === -1 ? null : index
+}
+
+/**
+ * Hour from a query param (0-23)
+ */
+export function parseHour(value: string): number | null {
+  return /^\d{1,2}$/.test(value.trim()) && parseInt(value, 10) <= 23 ? parseInt(value, 10) : null
+}
+
+export type ForecastSlotResult = (ForecastSlot & { error?: undefined }) | { error: string }
+
+/**
+ * Forecast slot from `at` (ISO 8601) or `day`/`hour` query params, in the city's timezone
+ * Missing values default to the current weekday and hour
+ */
+export function parseForecastSlot(params: URLSearchParams, timeZone: string, now: Date = new Date()): ForecastSlotResult {
+  const atParam = params.get('at')
+  const dayParam = params.get('day')
+  const hourParam = params.get('hour')
+
+  if (atParam) {
+    if (dayParam || hourParam) return { error: 'Use either at or day/hour, not both' }
+    const at = new Date(atParam)
+    if (Number.isNaN(at.getTime())) return { error: 'at must be an ISO 8601 date' }
+    return getForecastSlot(at, timeZone)
+  }
+
+  const slot = getForecastSlot(now, timeZone)
+
+  if (dayParam) {
+    const weekday = parseWeekday(dayParam)
+    if (weekday === null) return { error: 'day must be mon-sun or 0-6 (Monday = 0)' }
+    slot.weekday = weekday
+  }
+
+  if (hourParam) {
+    const hour = parseHour(hourParam)
+    if (hour === null) return { error: 'hour must be an integer from 0 to 23' }
+    slot.hour = hour
+  }
+
+  return slot
+}
+
+/**
+ * 24 hourly intensities for one weekday, null where the forecast has no value
+ */
+export function getDayForecast(hours: VenueForecastHour[], weekday: number): Array<number | null> {
+  const day: Array<number | null> = Array(24).fill(null)
+  for (const h of hours) {
+    if (h.weekday === weekday) day[h.hour] = h.intensity
+  }
+  return day
+}
+
+/**
+ * Set `busyness` on events at forecast venues: the intensity at the event's start and
+ * the forecast for that day, both in the event's local time. The intensity is folded into
+ * `popularity`, which eventFromRow computes without it
+ */
+export async function attachEventBusyness(
+  events: Event[],
+  provider: VenueDataProvider,
+  defaultTimeZone: string
+): Promise<Event[]> {
+  const venueIds = [...new Set(events.map(e => e.venueId).filter((id): id is string => !!id))]
+  if (venueIds.length === 0) return events
+
+  const forecastsByVenue = new Map<string, VenueForecastHour[]>()
+  for (const hour of await provider.getVenueForecasts(venueIds)) {
+    if (!forecastsByVenue.has(hour.venueId)) forecastsByVenue.set(hour.venueId, [])
+    forecastsByVenue.get(hour.venueId)!.push(hour)
+  }
+
+  return events.map(event => {
+    const hours = event.venueId ? forecastsByVenue.get(event.venueId) : undefined
+    if (!hours) return event
+
+    const { weekday, hour } = getForecastSlot(new Date(event.startTime), event.timezone || defaultTimeZone)
+    const day = getDayForecast(hours, weekday)
+    const current = day[hour]
+    if (current === null) return event
+
+    return {
+      ...event,
+      popularity: addBusynessToPopularity(event.popularity, current),
+      busyness: { current, forecast: day.map(value => value ?? 0) }
+    }
+  })
+}
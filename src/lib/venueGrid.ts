@@ -0,0 +1,259 @@
+/**
+ * City-aware search grid for venue discovery
+ * Tiles a city's bounding box into search cells, skipping cells outside every neighborhood,
+ * then splits the densest cells (most neighborhoods) until the API call budget is spent.
+ * Dense downtowns end up with more, smaller cells; sparse suburbs with fewer, larger ones.
+ */
+
+import type { BestTimeVenue } from './besttime'
+import type { Bbox } from './events'
+import { getDistanceKm } from './geoUtils'
+import { getNeighborhoodCentroids, isPointInPolygon, type NeighborhoodCollection } from './neighborhoods'
+
+const KM_PER_DEGREE_LAT = 110.574
+const FAST_SEARCH_LIMIT = 60 // BestTime fast mode maximum
+const SLOW_SEARCH_LIMIT = 200 // BestTime slow mode maximum (~60s per search)
+
+export interface GridOptions {
+  cellSizeKm: number // Starting cell size, grown if the city doesn't fit the budget
+  minCellSizeKm: number // Dense cells are never split below this
+  overlap: number // Fraction added to each cell's search radius so neighbouring circles overlap (0-1)
+  maxCalls: number // Budget of venue searches (one per cell)
+}
+
+export const DEFAULT_GRID_OPTIONS: GridOptions = {
+  cellSizeKm: 4,
+  minCellSizeKm: 1,
+  overlap: 0.2,
+  maxCalls: 12
+}
+
+export interface GridArea {
+  name: string
+  center: { lat: number; lng: number }
+  bbox: Bbox
+  neighborhoods?: NeighborhoodCollection | null
+}
+
+export interface GridCell {
+  id: string // Quadtree path, e.g. "2-3" or "2-3.1" once split
+  name: string
+  lat: number
+  lng: number
+  bbox: Bbox
+  sizeKm: number
+  radius: number // meters
+  weight: number // Neighborhoods centered in the cell
+  fast: boolean // Only the densest cell gets a slow (200 venue) search
+  limit: number
+}
+
+export interface GridCellCoverage {
+  id: string
+  name: string
+  lat: number
+  lng: number
+  radius: number
+  venuesFound: number
+  newVenues: number // Not already found by another cell
+  saturated: boolean // Hit the search limit - this area would benefit from smaller cells
+  error?: string
+}
+
+export interface GridSearchResult {
+  venues: BestTimeVenue[]
+  coverage: GridCellCoverage[]
+}
+
+interface Centroid {
+  name: string
+  lat: number
+  lng: number
+}
+
+function kmPerDegreeLng(lat: number): number {
+  return 111.32 * Math.cos(lat * Math.PI / 180)
+}
+
+function getCompassLabel(area: GridArea, lat: number, lng: number): string {
+  const distanceKm = getDistanceKm(area.center.lat, area.center.lng, lat, lng)
+  if (distanceKm < 1.5) return `Downtown ${area.name}`
+
+  const north = lat - area.center.lat
+  const east = (lng - area.center.lng) * Math.cos(area.center.lat * Math.PI / 180)
+  const angle = (Math.atan2(east, north) * 180 / Math.PI + 360) % 360
+  const directions = ['North', 'Northeast', 'East', 'Southeast', 'South', 'Southwest', 'West', 'Northwest']
+  return `${directions[Math.round(angle / 45) % 8]} ${area.name}`
+}
+
+function createCell(area: GridArea, id: string, bbox: Bbox, centroids: Centroid[], overlap: number): GridCell | null {
+  const lat = (bbox.south + bbox.north) / 2
+  const lng = (bbox.west + bbox.east) / 2
+  const inside = centroids.filter(c => c.lat >= bbox.south && c.lat < bbox.north && c.lng >= bbox.west && c.lng < bbox.east)
+
+  const neighborhoods = area.neighborhoods?.features || []
+  const containing = neighborhoods.find(feature => isPointInPolygon([lng, lat], feature))
+
+  // With boundaries, skip cells that are all water or outside the city
+  if (neighborhoods.length > 0 && inside.length === 0 && !containing) {
+    return null
+  }
+
+  const heightKm = (bbox.north - bbox.south) * KM_PER_DEGREE_LAT
+  const widthKm = (bbox.east - bbox.west) * kmPerDegreeLng(lat)
+  const halfDiagonalKm = Math.sqrt(heightKm * heightKm + widthKm * widthKm) / 2
+
+  return {
+    id,
+    name: containing?.properties.name || inside[0]?.name || getCompassLabel(area, lat, lng),
+    lat,
+    lng,
+    bbox,
+    sizeKm: Math.max(heightKm, widthKm),
+    radius: Math.round(halfDiagonalKm * (1 + overlap) * 1000),
+    weight: neighborhoods.length > 0 ? inside.length : 1,
+    fast: true,
+    limit: FAST_SEARCH_LIMIT
+  }
+}
+
+function tileArea(area: GridArea, sizeKm: number, centroids: Centroid[], overlap: number): GridCell[] {
+  const { bbox } = area
+  const latStep = sizeKm / KM_PER_DEGREE_LAT
+  const lngStep = sizeKm / kmPerDegreeLng(area.center.lat)
+  const rows = Math.max(1, Math.ceil((bbox.north - bbox.south) / latStep))
+  const cols = Math.max(1, Math.ceil((bbox.east - bbox.west) / lngStep))
+
+  // Center the tiling on the bbox so edge cells overhang evenly
+  const south = (bbox.south + bbox.north) / 2 - rows * latStep / 2
+  const west = (bbox.west + bbox.east) / 2 - cols * lngStep / 2
+
+  const cells: GridCell[] = []
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const cell = createCell(area, `${row}-${col}`, {
+        south: south + row * latStep,
+        north: south + (row + 1) * latStep,
+        west: west + col * lngStep,
+        east: west + (col + 1) * lngStep
+      }, centroids, overlap)
+      if (cell) cells.push(cell)
+    }
+  }
+  return cells
+}
+
+function splitCell(area: GridArea, cell: GridCell, centroids: Centroid[], overlap: number): GridCell[] {
+  const { south, north, west, east } = cell.bbox
+  const midLat = (south + north) / 2
+  const midLng = (west + east) / 2
+  const quadrants: Bbox[] = [
+    { south, north: midLat, west, east: midLng },
+    { south, north: midLat, west: midLng, east },
+    { south: midLat, north, west, east: midLng },
+    { south: midLat, north, west: midLng, east }
+  ]
+
+  return quadrants
+    .map((bbox, index) => createCell(area, `${cell.id}.${index}`, bbox, centroids, overlap))
+    .filter((child): child is GridCell => child !== null)
+}
+
+/**
+ * Search cells for a city, within the options' call budget
+ */
+export function buildSearchGrid(area: GridArea, options: Partial<GridOptions> = {}): GridCell[] {
+  const { cellSizeKm, minCellSizeKm, overlap, maxCalls } = { ...DEFAULT_GRID_OPTIONS, ...options }
+  const centroids = area.neighborhoods ? getNeighborhoodCentroids(area.neighborhoods) : []
+
+  // Grow cells until the city fits the budget
+  let sizeKm = cellSizeKm
+  let cells = tileArea(area, sizeKm, centroids, overlap)
+  while (cells.length > maxCalls) {
+    sizeKm *= 1.1
+    cells = tileArea(area, sizeKm, centroids, overlap)
+  }
+
+  // Spend what's left of the budget splitting the densest cells
+  for (;;) {
+    const candidates = cells
+      .filter(cell => cell.weight > 1 && cell.sizeKm / 2 >= minCellSizeKm)
+      .sort((a, b) => b.weight - a.weight)
+
+    const densest = candidates[0]
+    if (!densest) break
+
+    const children = splitCell(area, densest, centroids, overlap)
+    if (cells.length - 1 + children.length > maxCalls) break
+
+    cells = cells.filter(cell => cell !== densest).concat(children)
+  }
+
+  // The densest cell (or the one nearest the center) gets the slow, deeper search
+  const primary = cells.reduce<GridCell | null>((best, cell) => {
+    if (!best || cell.weight > best.weight) return cell
+    if (cell.weight === best.weight &&
+      getDistanceKm(cell.lat, cell.lng, area.center.lat, area.center.lng) <
+      getDistanceKm(best.lat, best.lng, area.center.lat, area.center.lng)) return cell
+    return best
+  }, null)
+
+  if (primary) {
+    primary.fast = false
+    primary.limit = SLOW_SEARCH_LIMIT
+  }
+
+  console.log(`🗺️  ${area.name} search grid: ${cells.length} cells (${maxCalls} call budget, ${sizeKm.toFixed(1)}km base cells)`)
+
+  return cells
+}
+
+/**
+ * Run one search per cell in parallel, deduplicating venues and recording per-cell coverage
+ */
+export async function runGridSearch(
+  cells: GridCell[],
+  search: (cell: GridCell) => Promise<BestTimeVenue[]>
+): Promise<GridSearchResult> {
+  const results = await Promise.all(cells.map(cell =>
+    search(cell)
+      .then(venues => {
+        console.log(`✅ ${cell.name} search complete: ${venues.length} venues`)
+        return { venues, error: undefined as string | undefined }
+      })
+      .catch(error => {
+        console.error(`❌ ${cell.name} search failed:`, error)
+        return { venues: [] as BestTimeVenue[], error: (error as Error).message } // Don't block other cells
+      })
+  ))
+
+  const uniqueVenues = new Map<string, BestTimeVenue>()
+  const coverage: GridCellCoverage[] = cells.map((cell, index) => {
+    const { venues, error } = results[index]
+    let newVenues = 0
+    for (const venue of venues) {
+      if (venue.venue_id && !uniqueVenues.has(venue.venue_id)) {
+        uniqueVenues.set(venue.venue_id, venue)
+        newVenues++
+      }
+    }
+
+    return {
+      id: cell.id,
+      name: cell.name,
+      lat: cell.lat,
+      lng: cell.lng,
+      radius: cell.radius,
+      venuesFound: venues.length,
+      newVenues,
+      saturated: venues.length >= cell.limit,
+      error
+    }
+  })
+
+  const total = results.reduce((sum, result) => sum + result.venues.length, 0)
+  const saturated = coverage.filter(cell => cell.saturated).length
+  console.log(`🎯 Grid search complete: ${uniqueVenues.size} unique venues (${total - uniqueVenues.size} duplicates removed, ${saturated} saturated cells)`)
+
+  return { venues: Array.from(uniqueVenues.values()), coverage }
+}
@@ -0,0 +1,389 @@
+/**
+ * Venue discovery, forecast refresh and photo enrichment jobs
+ * The long-running halves of /api/venues/discover, /api/venues/discover-neighborhoods and
+ * /api/venues/photos. Routes enqueue these (src/lib/jobs.ts) and return a job id right away;
+ * each handler's return value becomes the job result served by GET /api/jobs/:id.
+ * queueVenueRefresh queues them for cached venues past their TTLs (src/lib/venueCache.ts).
+ */
+
+import type { BestTimeVenue } from './besttime'
+import { getCityConfig } from './cities'
+import {
+  getVenueDataProvider,
+  getVenueDiscoveryProvider,
+  getVenuePhotoProvider,
+  type VenueRecord,
+  type VenueUpsert
+} from './dataProviders'
+import { CircuitOpenError } from './httpClient'
+import { enqueueJob, type JobType } from './jobs'
+import { getNeighborhoodCentroids } from './neighborhoods'
+import { loadNeighborhoodsFromDisk } from './neighborhoodsServer'
+import { computePopularity, getForecastBusyness } from './popularity'
+import { getLocalDateTime } from './timeZones'
+import { summarizeVenueCache, type VenueDataKind } from './venueCache'
+import { discoverNeighborhoodVenues, filterValidVenues, toVenueUpserts } from './venueDiscovery'
+import { buildSearchGrid, type GridOptions } from './venueGrid'
+
+// Search area for cities missing from the registry, in degrees around the center (~12km)
+const FALLBACK_HALF_SPAN = 0.11
+
+// Stale venues refreshed per background job, oldest first - each is one paid API call
+const FORECAST_REFRESH_BATCH = 50
+const PHOTO_REFRESH_BATCH = 20
+
+export interface VenuePhotoRequest {
+  name: string
+  lat: number
+  lng: number
+  besttime_id: string
+}
+
+export interface DiscoverVenuesPayload {
+  citySlug: string
+  grid?: Partial<GridOptions>
+}
+
+export interface DiscoverNeighborhoodVenuesPayload {
+  citySlug: string
+}
+
+export interface EnrichVenuePhotosPayload {
+  venues: VenuePhotoRequest[]
+}
+
+export interface RefreshVenueForecastsPayload {
+  venueIds: string[] // BestTime venue ids
+}
+
+// Refresh job id per kind of stale data
+export type VenueRefreshJobs = Partial<Record<VenueDataKind, string>>
+
+interface VenuePhotoResult {
+  besttime_id: string
+  name: string
+  photo_url: string | null
+  success: boolean
+}
+
+async function getCityOrThrow(citySlug: string) {
+  const venueProvider = await getVenueDataProvider()
+  const city = await venueProvider.getCity(citySlug)
+  if (!city) {
+    throw new Error(`City not found: ${citySlug}`)
+  }
+  return { venueProvider, city }
+}
+
+function toPhotoRequests(venues: BestTimeVenue[]): VenuePhotoRequest[] {
+  return venues.map(v => ({ name: v.venue_name, lat: v.venue_lat, lng: v.venue_lon, besttime_id: v.venue_id }))
+}
+
+/**
+ * Grid search a city, score and cache the venues, then queue photos for the top 10
+ */
+export async function discoverCityVenues(payload: DiscoverVenuesPayload) {
+  const { venueProvider, city: cityData } = await getCityOrThrow(payload.citySlug)
+  const discoveryProvider = await getVenueDiscoveryProvider()
+
+  console.log(`🔍 Discovering venues in ${cityData.name} via ${discoveryProvider.name}...`)
+
+  // Grid sized from the city's bbox, with smaller cells where neighborhoods are dense
+  const cityConfig = getCityConfig(payload.citySlug)
+  const cells = buildSearchGrid({
+    name: cityData.name,
+    center: { lat: cityData.lat, lng: cityData.lng },
+    bbox: cityConfig?.bbox || {
+      west: cityData.lng - FALLBACK_HALF_SPAN,
+      south: cityData.lat - FALLBACK_HALF_SPAN,
+      east: cityData.lng + FALLBACK_HALF_SPAN,
+      north: cityData.lat + FALLBACK_HALF_SPAN
+    },
+    neighborhoods: await loadNeighborhoodsFromDisk(payload.citySlug)
+  }, payload.grid)
+
+  const { venues, coverage } = await discoveryProvider.searchVenuesGrid(cells)
+
+  console.log(`✅ Found ${venues.length} venues from ${discoveryProvider.name}`)
+
+  const validVenues = filterValidVenues(venues)
+
+  console.log(`📦 Filtered ${validVenues.length}/${venues.length} venues with valid data`)
+
+  // Calculate scoring for prioritization
+  // Formula: score = popularity × neighborhood_weight
+  const now = new Date()
+  const scoredVenues = validVenues.map((v: BestTimeVenue) => {
+    // Calculate distance from city center (simple euclidean distance)
+    const latDiff = v.venue_lat - cityData.lat
+    const lngDiff = v.venue_lon - cityData.lng
+    const distanceFromCenter = Math.sqrt(latDiff * latDiff + lngDiff * lngDiff)
+
+    // Downtown: within ~0.015 degrees (~1.5km) = 1.5× weight
+    // Other areas: 1.0× weight
+    const neighborhoodWeight = distanceFromCenter < 0.015 ? 1.5 : 1.0
+
+    // Current hour busyness from BestTime forecast_simple (if available)
+    const busyness = getForecastBusyness(v.forecast_simple, now, cityData.timezone)
+
+    const popularity = computePopularity({
+      venueType: v.venue_type,
+      hour: getLocalDateTime(now, cityData.timezone).hour,
+      busyness
+    })
+
+    const score = popularity * neighborhoodWeight
+
+    return {
+      ...v,
+      busyness,
+      popularity,
+      neighborhoodWeight,
+      score
+    }
+  })
+
+  // Sort by score descending (show busiest/most important venues first)
+  scoredVenues.sort((a, b) => b.score - a.score)
+
+  console.log(`🎯 Scored ${scoredVenues.length} venues (top venue score: ${scoredVenues[0]?.score.toFixed(1)})`)
+
+  const venueInserts: VenueUpsert[] = scoredVenues.map(v => ({
+    city_id: cityData.id,
+    name: v.venue_name,
+    address: v.venue_address || '',
+    lat: v.venue_lat,
+    lng: v.venue_lon,  // BestTime uses 'lon' not 'lng'
+    venue_type: v.venue_type || 'UNKNOWN',
+    besttime_venue_id: v.venue_id,
+    is_event_venue: true,
+    // busyness: v.busyness, // TODO: Add busyness column to Supabase
+    last_queried_at: now.toISOString()
+  }))
+
+  // A failed write throws so the job is retried - caching is the point of discovery
+  await venueProvider.upsertVenues(venueInserts)
+  console.log(`💾 Cached ${scoredVenues.length} venues in ${venueProvider.name}`)
+
+  // Photos for the first 10 venues only, to avoid rate limits
+  const photoJob = await enqueueJob('enrich-venue-photos', {
+    venues: toPhotoRequests(scoredVenues.slice(0, 10))
+  } satisfies EnrichVenuePhotosPayload)
+
+  return {
+    city: cityData.name,
+    count: scoredVenues.length,
+    cached: false,
+    coverage,
+    photoJobId: photoJob.id,
+    venues: scoredVenues.map(v => ({
+      name: v.venue_name,
+      address: v.venue_address,
+      lat: v.venue_lat,
+      lng: v.venue_lon,  // BestTime uses 'lon' not 'lng'
+      type: v.venue_type,
+      besttime_id: v.venue_id,
+      busyness: v.busyness, // Include busyness score in response
+      popularity: v.popularity,
+      photo_url: null // Photos are filled in by the photo job
+    }))
+  }
+}
+
+/**
+ * Search every neighborhood of a city, cache the venues, then queue photos for the first 20
+ */
+export async function discoverCityNeighborhoodVenues(payload: DiscoverNeighborhoodVenuesPayload) {
+  const { venueProvider, city } = await getCityOrThrow(payload.citySlug)
+
+  const neighborhoods = await loadNeighborhoodsFromDisk(payload.citySlug)
+  if (!neighborhoods) {
+    throw new Error(`No neighborhood data for ${payload.citySlug}`)
+  }
+  const centroids = getNeighborhoodCentroids(neighborhoods)
+
+  const discoveryProvider = await getVenueDiscoveryProvider()
+  console.log(`📍 Found ${centroids.length} neighborhoods to search with ${discoveryProvider.name}`)
+
+  const discovery = await discoverNeighborhoodVenues(discoveryProvider, centroids)
+  const neighborhoodSummary = { total: discovery.total, successful: discovery.successful, failed: discovery.failed }
+
+  if (discovery.venues.length === 0) {
+    return {
+      success: true,
+      venues: [],
+      count: 0,
+      neighborhoods: neighborhoodSummary,
+      message: 'No venues found in any neighborhood'
+    }
+  }
+
+  const validVenues = filterValidVenues(discovery.venues)
+
+  console.log(`📦 Filtered ${validVenues.length}/${discovery.venues.length} venues with valid data`)
+
+  await venueProvider.upsertVenues(toVenueUpserts(city.id, validVenues))
+  console.log(`💾 Cached ${validVenues.length} venues in ${venueProvider.name}`)
+
+  const photoJob = await enqueueJob('enrich-venue-photos', {
+    venues: toPhotoRequests(validVenues.slice(0, 20))
+  } satisfies EnrichVenuePhotosPayload)
+
+  return {
+    success: true,
+    venues: validVenues,
+    count: validVenues.length,
+    neighborhoods: neighborhoodSummary,
+    cached: true,
+    photoJobId: photoJob.id
+  }
+}
+
+/**
+ * Look up photos and ratings for venues and store them on the venue rows
+ */
+export async function enrichVenuePhotos(payload: EnrichVenuePhotosPayload) {
+  const { venues } = payload
+
+  console.log(`📸 Fetching photos for ${venues.length} venues...`)
+
+  const photoProvider = await getVenuePhotoProvider()
+  const venueProvider = await getVenueDataProvider()
+
+  const results: VenuePhotoResult[] = []
+
+  for (const venue of venues) {
+    try {
+      // Provider applies rate limiting to avoid hitting API limits
+      const placeInfo = await photoProvider.getVenuePlaceInfo(venue.name, venue.lat, venue.lng)
+      const photoUrl = placeInfo?.photoUrl ?? null
+
+      results.push({
+        besttime_id: venue.besttime_id,
+        name: venue.name,
+        photo_url: photoUrl,
+        success: photoUrl !== null
+      })
+
+      // Store the photo, or just the lookup time when nothing was found
+      if (venue.besttime_id) {
+        try {
+          await venueProvider.setVenuePlaceInfo(venue.besttime_id, photoUrl ? placeInfo : null)
+        } catch (updateError) {
+          console.error(`⚠️  Failed to update photo for ${venue.name}:`, updateError)
+        }
+      }
+    } catch (error) {
+      // Places is down - fail the job so it's retried after the circuit closes
+      if (error instanceof CircuitOpenError) throw error
+
+      console.error(`❌ Error fetching photo for ${venue.name}:`, error)
+      results.push({
+        besttime_id: venue.besttime_id,
+        name: venue.name,
+        photo_url: null,
+        success: false
+      })
+    }
+  }
+
+  const successCount = results.filter(r => r.success).length
+  console.log(`✅ Successfully fetched ${successCount}/${venues.length} venue photos`)
+
+  return {
+    success: true,
+    count: venues.length,
+    photos_found: successCount,
+    results
+  }
+}
+
+/**
+ * Fetch fresh BestTime forecasts for venues and store them on the venue rows
+ */
+export async function refreshVenueForecasts(payload: RefreshVenueForecastsPayload) {
+  const { venueIds } = payload
+
+  console.log(`📈 Refreshing forecasts for ${venueIds.length} venues...`)
+
+  const discoveryProvider = await getVenueDiscoveryProvider()
+  const venueProvider = await getVenueDataProvider()
+
+  let updated = 0
+  let missing = 0
+  let failed = 0
+
+  for (const venueId of venueIds) {
+    try {
+      // Venues without a forecast are still stamped, so they don't head every refresh batch
+      const forecast = await discoveryProvider.getVenueForecast(venueId)
+      await venueProvider.setVenueForecast(venueId, forecast)
+      if (forecast) {
+        updated++
+      } else {
+        missing++
+      }
+    } catch (error) {
+      // BestTime is down - fail the job so it's retried after the circuit closes
+      if (error instanceof CircuitOpenError) throw error
+
+      console.error(`❌ Error refreshing forecast for ${venueId}:`, error)
+      failed++
+    }
+  }
+
+  console.log(`✅ Refreshed ${updated}/${venueIds.length} venue forecasts`)
+
+  return {
+    success: true,
+    count: venueIds.length,
+    updated,
+    missing,
+    failed
+  }
+}
+
+/**
+ * Queue refresh jobs for the given kinds of venue data that are past their TTL
+ * Jobs are deduplicated per city, so concurrent requests for stale data share one refresh.
+ * Failures are logged rather than thrown: callers are serving the stale data meanwhile.
+ */
+export async function queueVenueRefresh(
+  citySlug: string,
+  venues: VenueRecord[],
+  kinds: VenueDataKind[],
+  discoveryJob: Extract<JobType, 'discover-venues' | 'discover-neighborhood-venues'> = 'discover-venues'
+): Promise<VenueRefreshJobs> {
+  const jobs: VenueRefreshJobs = {}
+
+  for (const kind of kinds) {
+    const { status, staleVenues } = summarizeVenueCache(venues, kind)
+    if (status !== 'stale') continue
+
+    try {
+      if (kind === 'metadata') {
+        const job = await enqueueJob(discoveryJob, { citySlug }, { dedupeKey: `${discoveryJob}:${citySlug}` })
+        jobs.metadata = job.id
+      } else if (kind === 'forecast') {
+        const job = await enqueueJob('refresh-venue-forecasts', {
+          venueIds: staleVenues.slice(0, FORECAST_REFRESH_BATCH).map(v => v.besttime_venue_id)
+        } satisfies RefreshVenueForecastsPayload, { dedupeKey: `refresh-venue-forecasts:${citySlug}` })
+        jobs.forecast = job.id
+      } else {
+        const job = await enqueueJob('enrich-venue-photos', {
+          venues: staleVenues.slice(0, PHOTO_REFRESH_BATCH).map(v => ({
+            name: v.name,
+            lat: v.lat,
+            lng: v.lng,
+            besttime_id: v.besttime_venue_id
+          }))
+        } satisfies EnrichVenuePhotosPayload, { dedupeKey: `enrich-venue-photos:${citySlug}` })
+        jobs.photo = job.id
+      }
+    } catch (error) {
+      console.error(`⚠️  Failed to queue ${kind} refresh for ${citySlug}:`, (error as Error).message)
+    }
+  }
+
+  return jobs
+}
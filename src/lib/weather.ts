@@ -0,0 +1,165 @@
+/**
+ * Weather forecasts and outdoor-event warnings
+ * Hourly forecasts come from a WeatherProvider (National Weather Service, or fixtures offline;
+ * see src/lib/weatherServer.ts). This module is shared with the browser, so it never imports httpClient.
+ * Events in the Outdoors category or tagged `outdoor` are flagged when the chance of rain
+ * during the event crosses a threshold.
+ */
+
+import type { Event } from '@/types'
+
+// Percent chance of precipitation at which outdoor events get a warning
+export const OUTDOOR_RAIN_THRESHOLD = 40
+
+// Forecasts are refreshed hourly upstream; don't ask more often than this
+export const FORECAST_TTL_MS = 30 * 60 * 1000
+
+export interface HourlyForecast {
+  startTime: string // ISO
+  endTime: string
+  temperatureF: number
+  precipitationChance: number // 0-100
+  shortForecast: string // e.g. "Chance Showers And Thunderstorms"
+  isDaytime: boolean
+}
+
+export interface CurrentWeather {
+  temperatureF: number
+  condition: string
+  icon: string
+  rainIn?: number // Minutes until precipitation is likely, within the next few hours
+}
+
+export interface WeatherWarning {
+  precipitationChance: number // Highest chance during the event
+  message: string
+}
+
+// NWS hourly forecast period (https://www.weather.gov/documentation/services-web-api)
+export interface NwsForecastPeriod {
+  startTime: string
+  endTime: string
+  isDaytime: boolean
+  temperature: number
+  temperatureUnit: 'F' | 'C'
+  probabilityOfPrecipitation?: { unitCode: string; value: number | null }
+  shortForecast: string
+}
+
+/**
+ * Convert NWS hourly periods to HourlyForecast
+ */
+export function parseNwsPeriods(periods: NwsForecastPeriod[]): HourlyForecast[] {
+  return periods.map(period => ({
+    startTime: new Date(period.startTime).toISOString(),
+    endTime: new Date(period.endTime).toISOString(),
+    temperatureF: period.temperatureUnit === 'C' ? Math.round(period.temperature * 9 / 5 + 32) : period.temperature,
+    precipitationChance: period.probabilityOfPrecipitation?.value ?? 0,
+    shortForecast: period.shortForecast,
+    isDaytime: period.isDaytime
+  }))
+}
+
+/**
+ * Emoji for an NWS short forecast
+ */
+export function getWeatherIcon(shortForecast: string, isDaytime = true): string {
+  const text = shortForecast.toLowerCase()
+  if (text.includes('thunder')) return '⛈️'
+  if (text.includes('snow') || text.includes('sleet') || text.includes('flurries')) return '❄️'
+  if (text.includes('rain') || text.includes('showers') || text.includes('drizzle')) return '🌧️'
+  if (text.includes('fog') || text.includes('haze')) return '🌫️'
+  if (text.includes('mostly cloudy') || text.includes('overcast') || text === 'cloudy') return '☁️'
+  if (text.includes('partly') || text.includes('mostly sunny') || text.includes('mostly clear')) return isDaytime ? '🌤️' : '☁️'
+  return isDaytime ? '☀️' : '🌙'
+}
+
+function getHoursBetween(hours: HourlyForecast[], start: number, end: number): HourlyForecast[] {
+  return hours.filter(hour => new Date(hour.endTime).getTime() > start && new Date(hour.startTime).getTime() < end)
+}
+
+/**
+ * Conditions for the current hour, with minutes until rain if it's likely in the next 3 hours
+ */
+export function getCurrentWeather(hours: HourlyForecast[], now: Date = new Date()): CurrentWeather | null {
+  const [current] = getHoursBetween(hours, now.getTime(), now.getTime() + 1)
+  if (!current) return null
+
+  const soon = getHoursBetween(hours, now.getTime(), now.getTime() + 3 * 3600 * 1000)
+  const rainy = soon.find(hour => hour.precipitationChance >= OUTDOOR_RAIN_THRESHOLD)
+  const rainIn = rainy && rainy !== current
+    ? Math.round((new Date(rainy.startTime).getTime() - now.getTime()) / 60000)
+    : undefined
+
+  return {
+    temperatureF: current.temperatureF,
+    condition: current.shortForecast,
+    icon: getWeatherIcon(current.shortForecast, current.isDaytime),
+    rainIn
+  }
+}
+
+/**
+ * Does the event happen outside? (Outdoors category or an `outdoor` tag)
+ */
+export function isOutdoorEvent(event: Event): boolean {
+  return event.category.toLowerCase() === 'outdoors' ||
+    event.tags.some(tag => tag.toLowerCase() === 'outdoor')
+}
+
+/**
+ * Rain warning for an outdoor event, or null when it's indoors, dry enough,
+ * or outside the forecast range
+ */
+export function getOutdoorWeatherWarning(
+  event: Event,
+  hours: HourlyForecast[],
+  threshold: number = OUTDOOR_RAIN_THRESHOLD
+): WeatherWarning | null {
+  if (!isOutdoorEvent(event)) return null
+
+  const during = getHoursBetween(hours, new Date(event.startTime).getTime(), new Date(event.endTime).getTime())
+  if (during.length === 0) return null
+
+  const wettest = during.reduce((max, hour) => (hour.precipitationChance > max.precipitationChance ? hour : max))
+  if (wettest.precipitationChance < threshold) return null
+
+  return {
+    precipitationChance: wettest.precipitationChance,
+    message: `${wettest.precipitationChance}% chance of rain during this outdoor event (${wettest.shortForecast.toLowerCase()})`
+  }
+}
+
+export interface CityWeather {
+  current: CurrentWeather | null
+  hours: HourlyForecast[]
+}
+
+// Client-side: one /api/weather request per city, shared until the forecast is due a refresh
+const cityWeatherRequests: Map<string, { expires: number; request: Promise<CityWeather> }> = new Map()
+
+/**
+ * Fetch a city's forecast from /api/weather (shared by every component that asks)
+ */
+export function fetchCityWeather(citySlug: string): Promise<CityWeather> {
+  const cached = cityWeatherRequests.get(citySlug)
+  if (cached && cached.expires > Date.now()) {
+    return cached.request
+  }
+
+  const request = fetch(`/api/weather?citySlug=${encodeURIComponent(citySlug)}`)
+    .then(async response => {
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load weather')
+      }
+      return { current: data.current, hours: data.hours } as CityWeather
+    })
+    .catch(error => {
+      cityWeatherRequests.delete(citySlug) // Let the next caller retry
+      throw error
+    })
+
+  cityWeatherRequests.set(citySlug, { expires: Date.now() + FORECAST_TTL_MS, request })
+  return request
+}
@@ -0,0 +1,70 @@
+/**
+ * Server-side weather forecasts
+ * The National Weather Service provider and the per-city forecast cache behind /api/weather.
+ * Kept apart from src/lib/weather.ts, which client components import.
+ */
+
+import 'server-only'
+import type { WeatherProvider } from './dataProviders'
+import { httpFetch } from './httpClient'
+import { FORECAST_TTL_MS, parseNwsPeriods, type HourlyForecast, type NwsForecastPeriod } from './weather'
+
+const NWS_API_BASE = 'https://api.weather.gov'
+
+function getUserAgent(): string {
+  // NWS rejects requests without an identifying User-Agent
+  return process.env.NWS_USER_AGENT || 'eppy-events'
+}
+
+async function fetchNwsJson<T>(url: string): Promise<T> {
+  const response = await httpFetch('nws', url, {
+    headers: {
+      'User-Agent': getUserAgent(),
+      Accept: 'application/geo+json'
+    }
+  })
+  if (!response.ok) {
+    throw new Error(`NWS API error: ${response.status} ${response.statusText}`)
+  }
+  return response.json()
+}
+
+// Hourly forecast URL per point (the grid a point maps to doesn't change)
+const forecastUrlCache: Map<string, string> = new Map()
+
+export class NwsWeatherProvider implements WeatherProvider {
+  readonly name = 'nws' as const
+
+  async getHourlyForecast(lat: number, lng: number): Promise<HourlyForecast[]> {
+    const point = `${lat.toFixed(4)},${lng.toFixed(4)}`
+
+    if (!forecastUrlCache.has(point)) {
+      const data = await fetchNwsJson<{ properties: { forecastHourly: string } }>(`${NWS_API_BASE}/points/${point}`)
+      forecastUrlCache.set(point, data.properties.forecastHourly)
+    }
+
+    const forecast = await fetchNwsJson<{ properties: { periods: NwsForecastPeriod[] } }>(forecastUrlCache.get(point)!)
+    return parseNwsPeriods(forecast.properties.periods)
+  }
+}
+
+const forecastCache: Map<string, { expires: number; hours: HourlyForecast[] }> = new Map()
+
+/**
+ * Hourly forecast for a city center, cached for FORECAST_TTL_MS
+ */
+export async function getCityForecast(
+  provider: WeatherProvider,
+  city: { slug: string; lat: number; lng: number }
+): Promise<HourlyForecast[]> {
+  const key = `${provider.name}:${city.slug}`
+  const cached = forecastCache.get(key)
+  if (cached && cached.expires > Date.now()) {
+    return cached.hours
+  }
+
+  const hours = await provider.getHourlyForecast(city.lat, city.lng)
+  console.log(`🌤️ Loaded ${hours.length}h forecast for ${city.slug}`)
+  forecastCache.set(key, { expires: Date.now() + FORECAST_TTL_MS, hours })
+  return hours
+}
@@ -0,0 +1,92 @@
+/**
+ * Web Push delivery
+ * web-push builds the VAPID-signed, encrypted request; it is sent through httpFetch like every
+ * other outbound call. CapturePushSender keeps notifications in memory instead, for fixtures,
+ * PUSH_CAPTURE=true and `npm run push-harness`.
+ *
+ * Generate keys once with `npx web-push generate-vapid-keys`.
+ */
+
+import webpush from 'web-push'
+import { httpFetch } from './httpClient'
+import { isPushServiceEndpoint, type PushPayload } from './pushNotifications'
+import type { PushSendResult, PushSender, PushSubscriptionRecord } from './dataProviders'
+
+// Push services drop undelivered notifications after this long; a late reminder is useless
+const PUSH_TTL_SECONDS = 30 * 60
+
+function getVapidDetails() {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+  const privateKey = process.env.VAPID_PRIVATE_KEY
+  if (!publicKey || !privateKey) {
+    throw new Error('Missing NEXT_PUBLIC_VAPID_PUBLIC_KEY or VAPID_PRIVATE_KEY')
+  }
+  return {
+    subject: process.env.VAPID_SUBJECT || 'mailto:hello@eppy.app',
+    publicKey,
+    privateKey
+  }
+}
+
+export class WebPushSender implements PushSender {
+  readonly name = 'web-push' as const
+  private vapidDetails = getVapidDetails()
+
+  async send(subscription: PushSubscriptionRecord, payload: PushPayload): Promise<PushSendResult> {
+    // Rows saved before endpoints were checked: never send, and let the scheduler drop them
+    if (!isPushServiceEndpoint(subscription.endpoint)) return 'expired'
+
+    const request = webpush.generateRequestDetails(
+      { endpoint: subscription.endpoint, keys: subscription.keys },
+      JSON.stringify(payload),
+      { vapidDetails: this.vapidDetails, TTL: PUSH_TTL_SECONDS }
+    )
+
+    // fetch sets Content-Length itself from the body
+    const headers = Object.fromEntries(
+      Object.entries(request.headers).filter(([name]) => name.toLowerCase() !== 'content-length')
+    )
+    const response = await httpFetch('web-push', request.endpoint, {
+      method: request.method,
+      headers,
+      body: new Uint8Array(request.body)
+    })
+
+    if (response.status === 404 || response.status === 410) return 'expired'
+    if (!response.ok) {
+      throw new Error(`Push service responded ${response.status}: ${await response.text()}`)
+    }
+    return 'sent'
+  }
+}
+
+export interface CapturedPush {
+  endpoint: string
+  payload: PushPayload
+  sentAt: string
+}
+
+// Kept on globalThis so the scheduler and API routes in one dev server share the capture log
+const captureGlobal = globalThis as typeof globalThis & { capturedPushes?: CapturedPush[] }
+const capturedPushes = captureGlobal.capturedPushes ??= []
+
+export class CapturePushSender implements PushSender {
+  readonly name = 'capture' as const
+
+  async send(subscription: PushSubscriptionRecord, payload: PushPayload): Promise<PushSendResult> {
+    capturedPushes.push({ endpoint: subscription.endpoint, payload, sentAt: new Date().toISOString() })
+    console.log(`📨 [captured] ${payload.title}: ${payload.body}`)
+    return 'sent'
+  }
+}
+
+/**
+ * Notifications captured so far in this process, oldest first
+ */
+export function getCapturedPushes(): CapturedPush[] {
+  return [...capturedPushes]
+}
+
+export function clearCapturedPushes() {
+  capturedPushes.length = 0
+}
@@ -1,5 +1,6 @@
 export interface Event {
   id: string
+  venueId?: string
   title: string
   description: string
   venue: string
@@ -20,10 +21,20 @@ export interface Event {
   ticketUrl?: string
   tags: string[]
   popularity: number
+  soldOut?: boolean
   busyness?: {
     current: number
     forecast: number[]
   }
+  timezone?: string // IANA timezone of the event's city
+  recurrence?: EventRecurrence
+  seriesId?: string // Set on occurrences expanded from a recurring series
+}
+
+export interface EventRecurrence {
+  rrule: string // iCalendar RRULE, e.g. 'FREQ=WEEKLY;BYDAY=TU'
+  exdates?: string[] // ISO start times of cancelled occurrences
+  timezone?: string // IANA timezone the rule is evaluated in (default: the event's timezone, then UTC)
 }
 
 export interface EventCluster {
@@ -66,17 +77,39 @@ export interface ClusteringOptions {
   geographicDistribution: boolean
 }
 
-export interface FilterOptions {
-  categories: string[]
-  subcategories: string[]
-  priceRange: {
-    min: number
-    max: number
-  }
-  dateRange: {
-    start: string
-    end: string
-  }
-  radius: number
-  sortBy: 'distance' | 'popularity' | 'time' | 'price'
-}
\ No newline at end of file
+export type DatePreset = 'starting-soon' | 'today' | 'tonight' | 'this-weekend' | 'next-week' | 'anytime'
+
+export type EventSortKey = 'time' | 'popularity' | 'price' | 'distance' | 'relevance' | 'for-you'
+
+export interface NumberRange {
+  min?: number
+  max?: number
+}
+
+/**
+ * Composable event filter (see src/lib/eventFilters.ts)
+ * Every field is optional; set fields are combined with AND
+ */
+export interface EventFilterSpec {
+  query?: string // Free text matched against title, venue, category, subcategory and tags
+  categories?: string[] // Filter category ids ('music', 'food', 'art', ...) or raw category names
+  subcategories?: string[]
+  tags?: string[] // Matches events with any of these tags
+  date?: DatePreset | { start: string; end: string } // Events overlapping the preset or ISO range
+  price?: NumberRange // Dollars; max compares against the cheapest ticket
+  freeOnly?: boolean
+  near?: { lat: number; lng: number; radiusKm: number }
+  neighborhood?: string // Neighborhood name (boundaries are passed in the filter context)
+  busyness?: NumberRange // Current venue busyness, 0-100
+  popularity?: NumberRange // 0-100
+  recommended?: boolean // "For You" events; client-only, needs the user's affinities in the filter context
+  sortBy?: EventSortKey // Default: keep input order
+}
+
+export interface UserProfile {
+  id: string // Supabase auth user id
+  displayName: string | null
+  homeCitySlug: string | null
+  preferredCategories: string[] // Filter category ids, e.g. 'music', 'food'
+  priceCeiling: number | null // Max ticket price in dollars (null: any price)
+}
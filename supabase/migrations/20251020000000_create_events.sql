@@ -0,0 +1,40 @@
+-- Scheduled events linked to venues
+-- Replaces the venue-as-event shim: each row is a real occurrence with its own start/end time
+
+create table if not exists events (
+  id text primary key,
+  city_id bigint not null references cities(id) on delete cascade,
+  venue_id bigint references venues(id) on delete set null,
+  title text not null,
+  description text not null default '',
+  category text not null,
+  subcategory text not null default '',
+  start_time timestamptz not null,
+  end_time timestamptz not null,
+  -- Denormalized from the venue so bbox queries don't need a join
+  lat double precision not null,
+  lng double precision not null,
+  address text not null default '',
+  price_min numeric,
+  price_max numeric,
+  currency text not null default 'USD',
+  is_free boolean not null default false,
+  image_url text,
+  ticket_url text,
+  tags text[] not null default '{}',
+  popularity integer not null default 50 check (popularity between 0 and 100),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (end_time >= start_time)
+);
+
+create index if not exists events_city_time_idx on events (city_id, start_time, end_time);
+create index if not exists events_venue_idx on events (venue_id);
+create index if not exists events_location_idx on events (lat, lng);
+
+-- Events are public read-only data; writes go through the service role
+alter table events enable row level security;
+
+create policy "Events are viewable by everyone"
+  on events for select
+  using (true);
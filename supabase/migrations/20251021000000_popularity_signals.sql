@@ -0,0 +1,11 @@
+-- Inputs for the deterministic popularity model (src/lib/popularity.ts)
+-- Popularity is computed when events are read, so the stored column goes away
+
+alter table venues
+  add column if not exists google_rating numeric(2, 1) check (google_rating between 1 and 5),
+  add column if not exists google_review_count integer check (google_review_count >= 0);
+
+alter table events
+  add column if not exists saved_count integer not null default 0 check (saved_count >= 0),
+  add column if not exists view_count integer not null default 0 check (view_count >= 0),
+  drop column if exists popularity;
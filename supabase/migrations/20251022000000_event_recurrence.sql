@@ -0,0 +1,14 @@
+-- Recurring events: a row with a recurrence_rule is a series whose first occurrence is
+-- start_time/end_time. Occurrences are expanded by the API (src/lib/recurrence.ts).
+
+alter table events
+  add column if not exists recurrence_rule text,
+  add column if not exists recurrence_exdates timestamptz[] not null default '{}',
+  add column if not exists recurrence_timezone text;
+
+comment on column events.recurrence_rule is 'iCalendar RRULE, e.g. FREQ=WEEKLY;BYDAY=TU';
+comment on column events.recurrence_exdates is 'Start times of cancelled occurrences';
+comment on column events.recurrence_timezone is 'IANA timezone the rule is evaluated in (default UTC)';
+
+create index if not exists events_recurring_idx on events (city_id, start_time)
+  where recurrence_rule is not null;
@@ -0,0 +1,18 @@
+-- Subscribable calendar feeds of saved events (GET /api/saved/ics?token=...)
+-- The token is the only credential, so there are no public policies: API routes use the service role
+
+create table if not exists calendar_feeds (
+  token uuid primary key default gen_random_uuid(),
+  event_ids text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table calendar_feeds enable row level security;
+
+-- City timezones for calendar exports and recurrence rules
+alter table cities
+  add column if not exists timezone text not null default 'UTC';
+
+update cities set timezone = 'America/Los_Angeles' where slug = 'san-francisco';
+update cities set timezone = 'America/Chicago' where slug = 'austin';
@@ -0,0 +1,63 @@
+-- Saved and skipped events per signed-in user (anonymous users keep theirs in localStorage)
+-- event_id is not a foreign key: recurring occurrences are saved as `<series id>@<start>`
+
+create table if not exists user_saved_events (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  event_id text not null,
+  status text not null check (status in ('saved', 'skipped')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, event_id)
+);
+
+create index if not exists user_saved_events_event_idx on user_saved_events (event_id);
+
+alter table user_saved_events enable row level security;
+
+create policy "Users can view their own saved events"
+  on user_saved_events for select
+  using (auth.uid() = user_id);
+
+create policy "Users can save events"
+  on user_saved_events for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own saved events"
+  on user_saved_events for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can remove their own saved events"
+  on user_saved_events for delete
+  using (auth.uid() = user_id);
+
+-- Keep events.saved_count (a popularity signal) in step with saves
+create or replace function refresh_event_saved_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  affected text;
+begin
+  foreach affected in array array[
+    split_part(coalesce(new.event_id, ''), '@', 1),
+    split_part(coalesce(old.event_id, ''), '@', 1)
+  ] loop
+    if affected <> '' then
+      update events
+      set saved_count = (
+        select count(*) from user_saved_events
+        where split_part(event_id, '@', 1) = affected and status = 'saved'
+      )
+      where id = affected;
+    end if;
+  end loop;
+  return null;
+end;
+$$;
+
+create trigger user_saved_events_saved_count
+  after insert or update or delete on user_saved_events
+  for each row execute function refresh_event_saved_count();
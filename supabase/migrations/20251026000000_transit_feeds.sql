@@ -0,0 +1,16 @@
+-- Compiled GTFS static feeds per city (written by scripts/ingest-gtfs.ts --target=supabase)
+-- `feed` holds stops, routes, trips, services and per-stop departures (see TransitFeed in src/lib/transit.ts)
+
+create table if not exists transit_feeds (
+  city_slug text primary key,
+  agency text,
+  feed jsonb not null,
+  ingested_at timestamptz not null default now()
+);
+
+alter table transit_feeds enable row level security;
+
+-- Schedules are public information
+create policy "Transit feeds are viewable by everyone"
+  on transit_feeds for select
+  using (true);
@@ -0,0 +1,7 @@
+-- City registry fields seeded by scripts/onboard-city.ts (see CITY_REGISTRY in src/lib/cities.ts)
+-- Onboarding upserts by slug, so slugs must be unique
+
+alter table cities
+  add column if not exists currency text not null default 'USD';
+
+create unique index if not exists cities_slug_key on cities (slug);
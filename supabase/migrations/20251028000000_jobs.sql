@@ -0,0 +1,45 @@
+-- Background jobs for venue discovery and photo enrichment (see src/lib/jobs.ts)
+-- API routes enqueue, `npm run worker` claims and runs them; clients poll GET /api/jobs/:id.
+-- Only the service role touches this table, so there are no public policies
+
+create table if not exists jobs (
+  id uuid primary key default gen_random_uuid(),
+  type text not null,
+  payload jsonb not null default '{}',
+  status text not null default 'queued' check (status in ('queued', 'running', 'succeeded', 'failed')),
+  result jsonb,
+  error text,
+  attempts integer not null default 0,
+  max_attempts integer not null default 3,
+  run_at timestamptz not null default now(),
+  locked_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+alter table jobs enable row level security;
+
+create index if not exists jobs_due_idx on jobs (run_at) where status in ('queued', 'running');
+
+-- Claim the next due job for a worker. Jobs left running by a crashed worker are picked up
+-- again after 15 minutes; the attempt still counts toward max_attempts
+create or replace function claim_next_job(job_types text[] default null)
+returns setof jobs
+language sql
+as $$
+  update jobs
+  set status = 'running', attempts = attempts + 1, locked_at = now(), updated_at = now()
+  where id = (
+    select id from jobs
+    where (
+      (status = 'queued' and run_at <= now()) or
+      (status = 'running' and locked_at < now() - interval '15 minutes')
+    )
+    and (job_types is null or type = any(job_types))
+    order by run_at
+    for update skip locked
+    limit 1
+  )
+  returning *;
+$$;
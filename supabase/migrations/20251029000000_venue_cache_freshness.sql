@@ -0,0 +1,18 @@
+-- Per-kind freshness for cached venue data (src/lib/venueCache.ts)
+-- last_queried_at already tracks metadata from discovery; forecasts and photos get their own timestamps
+alter table venues
+  add column if not exists forecast_updated_at timestamptz,
+  add column if not exists photo_updated_at timestamptz;
+
+-- Existing forecasts were fetched at discovery, existing photos at their last update
+update venues set forecast_updated_at = last_queried_at
+  where raw_data is not null and forecast_updated_at is null;
+update venues set photo_updated_at = updated_at
+  where photo_url is not null and photo_updated_at is null;
+
+-- Refresh jobs are deduplicated: at most one queued or running job per key
+alter table jobs add column if not exists dedupe_key text;
+
+create unique index if not exists jobs_active_dedupe_key
+  on jobs (dedupe_key)
+  where dedupe_key is not null and status in ('queued', 'running');
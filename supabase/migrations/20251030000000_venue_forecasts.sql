@@ -0,0 +1,40 @@
+-- BestTime weekly forecasts, one row per venue, weekday and hour (see src/lib/venueForecasts.ts)
+-- Written by the refresh-venue-forecasts job; replaces reading raw_data.analysis[day].hour_analysis[hour]
+
+create table if not exists venue_forecasts (
+  venue_id bigint not null references venues(id) on delete cascade,
+  weekday smallint not null check (weekday between 0 and 6), -- Monday first, like BestTime
+  hour smallint not null check (hour between 0 and 23), -- Venue local time
+  intensity smallint not null check (intensity between 0 and 100),
+  updated_at timestamptz not null default now(),
+  primary key (venue_id, weekday, hour)
+);
+
+-- "Busyness at time T" for a whole city
+create index if not exists venue_forecasts_slot_idx on venue_forecasts (weekday, hour);
+
+alter table venue_forecasts enable row level security;
+
+-- Forecasts are shown to everyone; only the job worker (service role) writes them
+create policy "Venue forecasts are viewable by everyone"
+  on venue_forecasts for select
+  using (true);
+
+-- Backfill from forecasts already cached in raw_data
+insert into venue_forecasts (venue_id, weekday, hour, intensity, updated_at)
+select
+  v.id,
+  (day.ordinality - 1)::smallint,
+  (slot.value->>'hour')::smallint,
+  least(100, greatest(0, round((slot.value->>'intensity_nr')::numeric)))::smallint,
+  coalesce(v.forecast_updated_at, now())
+from venues v
+cross join lateral jsonb_array_elements(v.raw_data->'analysis') with ordinality as day(value, ordinality)
+cross join lateral jsonb_array_elements(day.value->'hour_analysis') as slot(value)
+where jsonb_typeof(v.raw_data->'analysis') = 'array'
+  and jsonb_typeof(day.value->'hour_analysis') = 'array'
+  and day.ordinality <= 7
+  and (slot.value->>'hour') ~ '^\d+$'
+  and (slot.value->>'hour')::int between 0 and 23
+  and jsonb_typeof(slot.value->'intensity_nr') = 'number'
+on conflict (venue_id, weekday, hour) do nothing;
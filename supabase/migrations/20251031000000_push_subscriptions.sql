@@ -0,0 +1,20 @@
+-- Web Push subscriptions for saved-event reminders and sold-out / price alerts (see src/lib/pushScheduler.ts)
+-- Like calendar_feeds, each browser re-posts its saved list, so anonymous users get alerts too.
+-- The endpoint is the credential, so there are no public policies: API routes and the scheduler use the service role
+
+create table if not exists push_subscriptions (
+  endpoint text primary key,
+  p256dh text not null,
+  auth text not null,
+  event_ids text[] not null default '{}',
+  -- Last seen price and sold-out flag per event, and whether its reminder went out
+  event_state jsonb not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table push_subscriptions enable row level security;
+
+-- Set by ticketing imports; the scheduler alerts subscribers when it flips on
+alter table events
+  add column if not exists sold_out boolean not null default false;
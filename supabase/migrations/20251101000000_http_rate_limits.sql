@@ -0,0 +1,42 @@
+-- Shared token buckets for outbound API calls (see src/lib/httpClient.ts)
+-- API servers, `npm run worker` and the scheduler scripts all take tokens from the same row per
+-- provider, so together they stay within one BestTime/Google quota.
+-- Only the service role touches this table, so there are no public policies
+
+create table if not exists http_rate_limits (
+  bucket_key text primary key,
+  tokens double precision not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table http_rate_limits enable row level security;
+
+-- Refill the bucket for the time since the last call, take one token and return how many seconds
+-- the caller must wait before sending. Tokens may go negative: callers queue behind each other
+create or replace function reserve_http_token(bucket_key text, rate_per_second double precision, capacity double precision)
+returns double precision
+language plpgsql
+as $$
+declare
+  now_at timestamptz := clock_timestamp();
+  remaining double precision;
+begin
+  insert into http_rate_limits (bucket_key, tokens, updated_at)
+  values (reserve_http_token.bucket_key, capacity, now_at)
+  on conflict on constraint http_rate_limits_pkey do nothing;
+
+  select least(capacity, l.tokens + extract(epoch from now_at - l.updated_at) * rate_per_second) - 1
+  into remaining
+  from http_rate_limits l
+  where l.bucket_key = reserve_http_token.bucket_key
+  for update;
+
+  update http_rate_limits l
+  set tokens = remaining, updated_at = now_at
+  where l.bucket_key = reserve_http_token.bucket_key;
+
+  return greatest(0, -remaining / rate_per_second);
+end;
+$$;
+
+revoke execute on function reserve_http_token(text, double precision, double precision) from public, anon, authenticated;